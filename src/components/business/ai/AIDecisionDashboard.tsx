@@ -9,7 +9,67 @@ import { useAIDecisions } from '../../../hooks/business/useAIDecisions';
 import { useModelRegistry } from '../../../hooks/business/useModelRegistry';
 import { useExperimentation } from '../../../hooks/business/useExperimentation';
 import { useAIStore } from '../../../stores/business/aiStore';
-import { DecisionResult, AIInsight, MLModel } from '../../../types/ai';
+import { RecommendationExplanation } from '../../../types/ai';
+
+// Why a recommendation was made: model attributions, rules and what would change the outcome
+const ExplanationDetails: React.FC<{ explanation?: RecommendationExplanation }> = ({ explanation }) => {
+  if (!explanation) return null;
+
+  const maxContribution = Math.max(...explanation.attributions.map(a => Math.abs(a.contribution)), 1e-9);
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200 space-y-3 text-sm">
+      {explanation.attributions.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-gray-700 mb-1">
+            Top factors
+            {explanation.modelId && (
+              <span className="font-normal text-gray-500">
+                {' '}({explanation.modelId} v{explanation.modelVersion}
+                {explanation.modelScore !== undefined && `, score ${explanation.modelScore.toFixed(3)}`})
+              </span>
+            )}
+          </p>
+          <div className="space-y-1">
+            {explanation.attributions.map(attribution => (
+              <div key={attribution.feature} className="flex items-center gap-2">
+                <span className="w-40 truncate text-xs text-gray-600" title={attribution.feature}>
+                  {attribution.feature}
+                  {attribution.value !== null && ` = ${Number(attribution.value.toFixed(2))}`}
+                </span>
+                <div className="flex-1 h-2 bg-gray-100 rounded">
+                  <div
+                    className={`h-2 rounded ${attribution.contribution > 0 ? 'bg-red-400' : 'bg-blue-400'}`}
+                    style={{ width: `${(Math.abs(attribution.contribution) / maxContribution) * 100}%` }}
+                  />
+                </div>
+                <span className="w-14 text-right text-xs font-mono">
+                  {attribution.contribution > 0 ? '+' : ''}{attribution.contribution.toFixed(2)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {explanation.rulesFired.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-gray-700 mb-1">Rules applied</p>
+          <ul className="list-disc list-inside text-xs text-gray-600">
+            {explanation.rulesFired.map(rule => <li key={rule}>{rule}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {explanation.counterfactual && (
+        <p className="text-xs text-gray-600">
+          <span className="font-medium text-gray-700">What would change it: </span>
+          {explanation.counterfactual.description}
+        </p>
+      )}
+    </div>
+  );
+};
 
 export const AIDecisionDashboard: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'overview' | 'decisions' | 'models' | 'experiments' | 'insights'>('overview');
@@ -45,6 +105,7 @@ export const AIDecisionDashboard: React.FC = () => {
     systemMetrics,
     generateInsights,
     dismissInsight,
+    updateInsightStatus,
     isInitialized 
   } = useAIStore();
 
@@ -244,6 +305,7 @@ export const AIDecisionDashboard: React.FC = () => {
                         {(lastDecision.recommendations[0].confidence * 100).toFixed(0)}%
                       </Badge>
                     </div>
+                    <ExplanationDetails explanation={lastDecision.recommendations[0].explanation} />
                   </div>
                 </div>
               )}
@@ -324,6 +386,7 @@ export const AIDecisionDashboard: React.FC = () => {
                             <p className="text-xs text-gray-500">Priority {rec.priority}</p>
                           </div>
                         </div>
+                        <ExplanationDetails explanation={rec.explanation} />
                       </div>
                     ))}
                   </div>
@@ -532,7 +595,7 @@ export const AIDecisionDashboard: React.FC = () => {
 
       {insights.length > 0 ? (
         <div className="space-y-4">
-          {insights.filter(insight => !insight.dismissed).map((insight) => (
+          {insights.filter(insight => !insight.dismissed && insight.status !== 'snoozed' && insight.status !== 'resolved').map((insight) => (
             <Card key={insight.id}>
               <CardBody className="p-4">
                 <div className="flex items-start justify-between mb-3">
@@ -551,6 +614,11 @@ export const AIDecisionDashboard: React.FC = () => {
                     <div>
                       <h4 className="font-semibold text-gray-900">{insight.title}</h4>
                       <p className="text-sm text-gray-600 mt-1">{insight.description}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {(insight.status || 'new').replace('_', ' ')}
+                        {insight.owner && ` · ${insight.owner}`}
+                        {(insight.occurrences || 1) > 1 && ` · seen ${insight.occurrences} times`}
+                      </p>
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
@@ -562,10 +630,42 @@ export const AIDecisionDashboard: React.FC = () => {
                     }>
                       {insight.severity}
                     </Badge>
+                    {(insight.status || 'new') === 'new' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => updateInsightStatus(insight.id, 'acknowledged')}
+                      >
+                        Acknowledge
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateInsightStatus(insight.id, 'resolved')}
+                    >
+                      Resolve
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateInsightStatus(insight.id, 'snoozed', {
+                        snoozedUntil: new Date(Date.now() + 24 * 60 * 60 * 1000)
+                      })}
+                    >
+                      Snooze
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => dismissInsight(insight.id, 'false_positive', 'Marked as noise by user')}
+                    >
+                      Not useful
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => dismissInsight(insight.id, 'Reviewed by user')}
+                      onClick={() => dismissInsight(insight.id, 'other', 'Reviewed by user')}
                     >
                       Dismiss
                     </Button>
@@ -12,13 +12,15 @@ import {
   ArrowPathIcon,
   CheckCircleIcon,
   ExclamationTriangleIcon,
-  ChartBarIcon
+  ChartBarIcon,
+  ArrowUpTrayIcon
 } from '@heroicons/react/24/outline';
 import { DragDropCanvas, type AtomNode, type Connection } from '../../features/DragAndDrop';
 import { RuleBuilder, type RuleNode } from '../../features/RuleBuilder';
 import { CompositionCanvas } from './CompositionCanvas';
 import { AtomPalette } from './AtomPalette';
 import { classNames } from '../../../utils/dom/classNames';
+import type { AtomBacktestResult, CustomerSnapshot } from '../../../../types/api/atoms';
 
 interface AtomComposition {
   id: string;
@@ -53,15 +55,26 @@ interface AtomComposerProps {
   onSave: (composition: AtomComposition) => Promise<void>;
   onTest: (composition: AtomComposition) => Promise<any>;
   onDeploy: (composition: AtomComposition) => Promise<void>;
+  snapshots?: CustomerSnapshot[];
+  selectedSnapshotId?: string | null;
+  onSnapshotSelect?: (snapshotId: string | null) => void;
+  onSnapshotUpload?: (file: File) => Promise<unknown>;
   readOnly?: boolean;
 }
 
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${(delta * 100).toFixed(1)} pts`;
+
 export const AtomComposer: React.FC<AtomComposerProps> = ({
   composition: initialComposition,
   availableAtoms,
   onSave,
   onTest,
   onDeploy,
+  snapshots = [],
+  selectedSnapshotId = null,
+  onSnapshotSelect,
+  onSnapshotUpload,
   readOnly = false
 }) => {
   const [composition, setComposition] = useState<AtomComposition>(
@@ -89,6 +102,8 @@ export const AtomComposer: React.FC<AtomComposerProps> = ({
   const [selectedAtomId, setSelectedAtomId] = useState<string | null>(null);
   const [isTestingMode, setIsTestingMode] = useState(false);
   const [testResults, setTestResults] = useState<any>(null);
+  const [testError, setTestError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
 
   // Validation
@@ -166,8 +181,11 @@ export const AtomComposer: React.FC<AtomComposerProps> = ({
     if (!validationStatus.isValid) return;
     
     setIsSaving(true);
+    setSaveError(null);
     try {
       await onSave(composition);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Save failed');
     } finally {
       setIsSaving(false);
     }
@@ -177,14 +195,31 @@ export const AtomComposer: React.FC<AtomComposerProps> = ({
     if (!validationStatus.isValid) return;
     
     setIsTestingMode(true);
+    setTestError(null);
     try {
       const results = await onTest(composition);
       setTestResults(results);
+    } catch (error) {
+      setTestError(error instanceof Error ? error.message : 'Test failed');
+      setActiveTab('preview');
     } finally {
       setIsTestingMode(false);
     }
   }, [composition, onTest, validationStatus.isValid]);
 
+  const handleSnapshotUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !onSnapshotUpload) return;
+    
+    setTestError(null);
+    try {
+      await onSnapshotUpload(file);
+    } catch (error) {
+      setTestError(error instanceof Error ? error.message : 'Failed to load snapshot');
+    }
+  }, [onSnapshotUpload]);
+
   const handleDeploy = useCallback(async () => {
     if (!validationStatus.isValid || composition.status !== 'testing') return;
     
@@ -207,7 +242,7 @@ export const AtomComposer: React.FC<AtomComposerProps> = ({
         x: Math.random() * 400 + 50,
         y: Math.random() * 300 + 50
       },
-      data: { ...atomTemplate.data }
+      data: { ...atomTemplate.data, atomId: atomTemplate.id }
     };
 
     handleAtomsChange([...composition.atoms, newAtom]);
@@ -316,6 +351,12 @@ export const AtomComposer: React.FC<AtomComposerProps> = ({
           </div>
         </div>
 
+        {saveError && (
+          <div className="mt-3 p-3 text-sm text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20 rounded-lg">
+            {saveError}
+          </div>
+        )}
+
         {/* Tabs */}
         <div className="flex space-x-1 mt-4">
           {[
@@ -395,35 +436,68 @@ export const AtomComposer: React.FC<AtomComposerProps> = ({
                   <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-4">
                     Composition Preview
                   </h3>
+
+                  {/* Snapshot */}
+                  <div className="flex items-center space-x-3 mb-4">
+                    <select
+                      value={selectedSnapshotId || ''}
+                      onChange={(e) => onSnapshotSelect?.(e.target.value || null)}
+                      disabled={snapshots.length === 0}
+                      className="flex-1 px-3 py-2 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                    >
+                      {snapshots.length === 0 && <option value="">No customer snapshots uploaded</option>}
+                      {snapshots.map(snapshot => (
+                        <option key={snapshot.id} value={snapshot.id}>
+                          {snapshot.name} ({snapshot.rows.length} customers)
+                        </option>
+                      ))}
+                    </select>
+                    {onSnapshotUpload && !readOnly && (
+                      <label className="inline-flex items-center px-3 py-2 text-sm font-medium text-slate-700 dark:text-slate-300 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 rounded-lg cursor-pointer transition-colors">
+                        <ArrowUpTrayIcon className="w-4 h-4 mr-1" />
+                        Upload CSV/JSON
+                        <input type="file" accept=".csv,.json" className="hidden" onChange={handleSnapshotUpload} />
+                      </label>
+                    )}
+                  </div>
+
+                  {testError && (
+                    <div className="mb-4 p-3 text-sm text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20 rounded-lg">
+                      {testError}
+                    </div>
+                  )}
                   
                   {testResults ? (
                     <div className="space-y-4">
-                      <div className="grid grid-cols-4 gap-4">
-                        <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
-                          <div className="text-2xl font-bold text-slate-900 dark:text-white">
-                            {testResults.accuracy}%
-                          </div>
-                          <div className="text-sm text-slate-600 dark:text-slate-400">Accuracy</div>
-                        </div>
-                        <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
-                          <div className="text-2xl font-bold text-slate-900 dark:text-white">
-                            {testResults.coverage}%
-                          </div>
-                          <div className="text-sm text-slate-600 dark:text-slate-400">Coverage</div>
-                        </div>
-                        <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
-                          <div className="text-2xl font-bold text-slate-900 dark:text-white">
-                            {testResults.performance}ms
+                      <div className="grid grid-cols-3 gap-4">
+                        {[
+                          { label: 'Accuracy', value: `${testResults.accuracy}%` },
+                          { label: 'Coverage', value: `${testResults.coverage}%` },
+                          { label: 'Precision', value: `${testResults.precision}%` },
+                          { label: 'Recall', value: `${testResults.recall}%` },
+                          { label: 'Per Evaluation', value: `${testResults.performance}ms` },
+                          { label: 'Sample Size', value: testResults.sample_size }
+                        ].map(metric => (
+                          <div key={metric.label} className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
+                            <div className="text-2xl font-bold text-slate-900 dark:text-white">
+                              {metric.value}
+                            </div>
+                            <div className="text-sm text-slate-600 dark:text-slate-400">{metric.label}</div>
                           </div>
-                          <div className="text-sm text-slate-600 dark:text-slate-400">Performance</div>
-                        </div>
-                        <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
-                          <div className="text-2xl font-bold text-slate-900 dark:text-white">
-                            {testResults.sample_size}
-                          </div>
-                          <div className="text-sm text-slate-600 dark:text-slate-400">Sample Size</div>
-                        </div>
+                        ))}
                       </div>
+
+                      {testResults.warnings?.length > 0 && (
+                        <ul className="text-sm text-amber-700 dark:text-amber-300 space-y-0.5">
+                          {testResults.warnings.map((warning: string, index: number) => (
+                            <li key={index}>{warning}</li>
+                          ))}
+                        </ul>
+                      )}
+
+                      {testResults.backtest && (
+                        <BacktestBreakdown backtest={testResults.backtest} />
+                      )}
                     </div>
                   ) : (
                     <div className="text-center py-12">
@@ -475,3 +549,51 @@ export const AtomComposer: React.FC<AtomComposerProps> = ({
     </div>
   );
 };
+
+const BacktestBreakdown: React.FC<{ backtest: AtomBacktestResult }> = ({ backtest }) => (
+  <div className="grid grid-cols-2 gap-4">
+    <div>
+      <h4 className="text-sm font-medium text-slate-900 dark:text-white mb-2">Atom Contribution</h4>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-slate-500 dark:text-slate-400">
+            <th className="py-1">Atom</th>
+            <th className="py-1">Matches</th>
+            <th className="py-1">Precision</th>
+            <th className="py-1">Removing it</th>
+          </tr>
+        </thead>
+        <tbody>
+          {backtest.contributions.map(contribution => (
+            <tr key={contribution.nodeId} className="border-t border-slate-100 dark:border-slate-700 text-slate-700 dark:text-slate-300">
+              <td className="py-1">{contribution.label}</td>
+              <td className="py-1">{formatRate(contribution.matchRate)}</td>
+              <td className="py-1">{formatRate(contribution.precision)}</td>
+              <td className="py-1">
+                {formatDelta(-contribution.coverageDelta)} coverage, {formatDelta(-contribution.precisionDelta)} precision
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+
+    <div>
+      <h4 className="text-sm font-medium text-slate-900 dark:text-white mb-2">Overlap With Saved Atoms</h4>
+      {backtest.overlaps.length > 0 ? (
+        <ul className="text-sm space-y-1 text-slate-700 dark:text-slate-300">
+          {backtest.overlaps.map(overlap => (
+            <li key={overlap.atomId} className="flex justify-between">
+              <span>{overlap.label}</span>
+              <span>
+                {formatRate(overlap.shareOfAudience)} of audience, Jaccard {overlap.jaccard.toFixed(2)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No saved atoms to compare</p>
+      )}
+    </div>
+  </div>
+);
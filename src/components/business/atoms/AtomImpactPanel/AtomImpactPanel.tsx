@@ -0,0 +1,77 @@
+// src/components/business/atoms/AtomImpactPanel/AtomImpactPanel.tsx
+
+import React from 'react';
+import { CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { Badge } from '../../../ui/Badge';
+import type { AtomImpactItem, AtomImpactReport } from '../../../../types/api/atoms';
+
+export interface AtomImpactPanelProps {
+  report: AtomImpactReport;
+  className?: string;
+}
+
+const SECTIONS: { key: 'dependentAtoms' | 'moments' | 'campaigns' | 'experiments'; label: string }[] = [
+  { key: 'dependentAtoms', label: 'Atoms built on it' },
+  { key: 'moments', label: 'Moments' },
+  { key: 'campaigns', label: 'Campaigns' },
+  { key: 'experiments', label: 'Experiments' }
+];
+
+const ACTION_LABELS: Record<AtomImpactReport['action'], string> = {
+  archive: 'Archiving',
+  deactivate: 'Deactivating',
+  delete: 'Deleting',
+  publish: 'Publishing'
+};
+
+export const AtomImpactPanel: React.FC<AtomImpactPanelProps> = ({ report, className }) => {
+  const total = SECTIONS.reduce((count, section) => count + report[section.key].length, 0);
+
+  if (total === 0) {
+    return (
+      <div className={`flex items-center space-x-2 p-3 text-sm text-green-800 bg-green-50 rounded-md ${className || ''}`}>
+        <CheckCircleIcon className="h-5 w-5" />
+        <span>Nothing references this atom. {ACTION_LABELS[report.action]} it is safe.</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-3 ${className || ''}`}>
+      <div
+        className={`flex items-start space-x-2 p-3 text-sm rounded-md ${
+          report.activeCount > 0 ? 'text-red-800 bg-red-50' : 'text-yellow-800 bg-yellow-50'
+        }`}
+      >
+        <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+        <span>
+          {ACTION_LABELS[report.action]} this atom affects {total} item{total === 1 ? '' : 's'}
+          {report.activeCount > 0 ? `, ${report.activeCount} of them live` : ', none of them live'}.
+        </span>
+      </div>
+
+      {SECTIONS.filter(section => report[section.key].length > 0).map(section => (
+        <div key={section.key}>
+          <h4 className="text-sm font-medium text-gray-900 mb-1">
+            {section.label} ({report[section.key].length})
+          </h4>
+          <ul className="space-y-1">
+            {report[section.key].map((item: AtomImpactItem) => (
+              <li key={item.id} className="flex items-center justify-between text-sm">
+                <span className="text-gray-700">
+                  {item.name}
+                  {item.via.some(id => id !== report.atomId) && (
+                    <span className="text-gray-500"> via {item.via.join(', ')}</span>
+                  )}
+                </span>
+                <Badge variant={item.active ? 'error' : 'secondary'} className="capitalize">
+                  {item.status}
+                </Badge>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
\ No newline at end of file
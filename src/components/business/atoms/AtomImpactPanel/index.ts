@@ -0,0 +1,4 @@
+// src/components/business/atoms/AtomImpactPanel/index.ts
+
+export { AtomImpactPanel } from './AtomImpactPanel';
+export type { AtomImpactPanelProps } from './AtomImpactPanel';
\ No newline at end of file
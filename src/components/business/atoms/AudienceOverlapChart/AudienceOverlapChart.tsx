@@ -0,0 +1,290 @@
+// src/components/business/atoms/AudienceOverlapChart/AudienceOverlapChart.tsx
+
+import React, { useMemo, useState } from 'react';
+import { schemeTableau10 } from 'd3';
+import { Group } from '@visx/group';
+import { scaleBand, scaleLinear, scaleOrdinal } from '@visx/scale';
+import { Bar, Circle, Line } from '@visx/shape';
+import { Text } from '@visx/text';
+import type { AudienceOverlapRegion, AudienceOverlapResult } from '../../../../types/api/atoms';
+
+export interface AudienceOverlapChartProps {
+  result: AudienceOverlapResult;
+  className?: string;
+}
+
+type ChartView = 'venn' | 'upset';
+
+interface VennCircle {
+  id: string;
+  x: number;
+  y: number;
+  r: number;
+}
+
+const VENN_SIZE = 320;
+const UPSET_WIDTH = 560;
+const UPSET_BAR_HEIGHT = 140;
+const UPSET_ROW_HEIGHT = 22;
+const UPSET_LABEL_WIDTH = 150;
+
+// Area of the lens where two circles d apart overlap
+const lensArea = (r1: number, r2: number, d: number): number => {
+  if (d >= r1 + r2) return 0;
+  if (d <= Math.abs(r1 - r2)) return Math.PI * Math.min(r1, r2) ** 2;
+
+  const a1 = Math.acos((d * d + r1 * r1 - r2 * r2) / (2 * d * r1));
+  const a2 = Math.acos((d * d + r2 * r2 - r1 * r1) / (2 * d * r2));
+  const kite = Math.sqrt(Math.max((-d + r1 + r2) * (d + r1 - r2) * (d - r1 + r2) * (d + r1 + r2), 0));
+  return r1 * r1 * a1 + r2 * r2 * a2 - kite / 2;
+};
+
+// Distance at which two circles overlap by the given area; the lens shrinks as they move apart
+const distanceForOverlap = (r1: number, r2: number, area: number): number => {
+  let low = Math.abs(r1 - r2);
+  let high = r1 + r2;
+  for (let i = 0; i < 50; i++) {
+    const middle = (low + high) / 2;
+    if (lensArea(r1, r2, middle) > area) low = middle;
+    else high = middle;
+  }
+  return (low + high) / 2;
+};
+
+// Area-proportional circles for two or three segments. Pairwise overlaps are exact; with
+// three segments the triple overlap is only approximate, which the UpSet view shows exactly.
+const layoutVenn = (result: AudienceOverlapResult): VennCircle[] => {
+  const radii = result.segments.map(segment => Math.sqrt(segment.estimatedSize / Math.PI));
+  const pairwise = (a: number, b: number) => {
+    const ids = [result.segments[a].id, result.segments[b].id];
+    const region = result.regions.find(candidate => candidate.segmentIds.length === 2 && ids.every(id => candidate.segmentIds.includes(id)));
+    return distanceForOverlap(radii[a], radii[b], region?.intersectionSize || 0);
+  };
+
+  const ab = pairwise(0, 1);
+  const positions = [{ x: 0, y: 0 }, { x: ab, y: 0 }];
+  if (radii.length === 3) {
+    const ac = pairwise(0, 2);
+    const bc = pairwise(1, 2);
+    const x = ab > 0 ? (ac * ac - bc * bc + ab * ab) / (2 * ab) : ac;
+    positions.push({ x, y: Math.sqrt(Math.max(ac * ac - x * x, 0)) });
+  }
+
+  // Fit the layout into the square viewport
+  const minX = Math.min(...positions.map((p, i) => p.x - radii[i]));
+  const maxX = Math.max(...positions.map((p, i) => p.x + radii[i]));
+  const minY = Math.min(...positions.map((p, i) => p.y - radii[i]));
+  const maxY = Math.max(...positions.map((p, i) => p.y + radii[i]));
+  const padding = 16;
+  const scale = (VENN_SIZE - 2 * padding) / Math.max(maxX - minX, maxY - minY, 1);
+  const offsetX = (VENN_SIZE - (maxX - minX) * scale) / 2;
+  const offsetY = (VENN_SIZE - (maxY - minY) * scale) / 2;
+
+  return positions.map((p, i) => ({
+    id: result.segments[i].id,
+    x: offsetX + (p.x - minX) * scale,
+    y: offsetY + (p.y - minY) * scale,
+    r: radii[i] * scale
+  }));
+};
+
+const VennDiagram: React.FC<{ result: AudienceOverlapResult; color: (id: string) => string }> = ({ result, color }) => {
+  const circles = useMemo(() => layoutVenn(result), [result]);
+
+  return (
+    <svg viewBox={`0 0 ${VENN_SIZE} ${VENN_SIZE}`} className="w-full max-w-sm mx-auto" role="img" aria-label="Venn diagram of segment overlap">
+      {circles.map(circle => (
+        <Circle
+          key={circle.id}
+          cx={circle.x}
+          cy={circle.y}
+          r={circle.r}
+          fill={color(circle.id)}
+          fillOpacity={0.25}
+          stroke={color(circle.id)}
+          strokeWidth={2}
+        />
+      ))}
+      {circles.map(circle => {
+        const segment = result.segments.find(candidate => candidate.id === circle.id)!;
+        return (
+          <Text
+            key={`${circle.id}-label`}
+            x={circle.x}
+            y={circle.y}
+            width={Math.max(circle.r * 1.6, 60)}
+            textAnchor="middle"
+            verticalAnchor="middle"
+            fontSize={11}
+            fill="#111827"
+          >
+            {`${segment.label} (${segment.estimatedSize.toLocaleString()})`}
+          </Text>
+        );
+      })}
+    </svg>
+  );
+};
+
+const UpSetPlot: React.FC<{ result: AudienceOverlapResult; color: (id: string) => string }> = ({ result, color }) => {
+  const regions = useMemo(
+    () => result.regions
+      .filter(region => region.exclusiveSize > 0)
+      .sort((a, b) => b.exclusiveSize - a.exclusiveSize),
+    [result]
+  );
+
+  if (regions.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-6">None of the segments match anyone.</p>;
+  }
+
+  const matrixHeight = result.segments.length * UPSET_ROW_HEIGHT;
+  const height = UPSET_BAR_HEIGHT + 24 + matrixHeight;
+  const regionKey = (region: AudienceOverlapRegion) => region.segmentIds.join('+');
+
+  const xScale = scaleBand<string>({
+    domain: regions.map(regionKey),
+    range: [UPSET_LABEL_WIDTH, UPSET_WIDTH],
+    padding: 0.3
+  });
+  const yScale = scaleLinear<number>({
+    domain: [0, Math.max(...regions.map(region => region.exclusiveSize))],
+    range: [UPSET_BAR_HEIGHT, 16],
+    nice: true
+  });
+
+  return (
+    <svg viewBox={`0 0 ${UPSET_WIDTH} ${height}`} className="w-full" role="img" aria-label="UpSet plot of segment overlap">
+      {regions.map(region => {
+        const x = xScale(regionKey(region)) || 0;
+        const y = yScale(region.exclusiveSize);
+        const single = region.segmentIds.length === 1;
+        return (
+          <Group key={regionKey(region)}>
+            <title>
+              {`${region.segmentIds.map(id => result.segments.find(segment => segment.id === id)?.label || id).join(' ∩ ')}: `
+                + `${region.exclusiveSize.toLocaleString()} ± ${region.standardError.toLocaleString()}`}
+            </title>
+            <Bar
+              x={x}
+              y={y}
+              width={xScale.bandwidth()}
+              height={UPSET_BAR_HEIGHT - y}
+              fill={single ? color(region.segmentIds[0]) : '#4B5563'}
+            />
+            <Text x={x + xScale.bandwidth() / 2} y={y - 4} textAnchor="middle" fontSize={9} fill="#374151">
+              {region.exclusiveSize.toLocaleString()}
+            </Text>
+          </Group>
+        );
+      })}
+
+      <Group top={UPSET_BAR_HEIGHT + 24}>
+        {result.segments.map((segment, row) => (
+          <Group key={segment.id} top={row * UPSET_ROW_HEIGHT + UPSET_ROW_HEIGHT / 2}>
+            {row % 2 === 0 && (
+              <rect x={0} y={-UPSET_ROW_HEIGHT / 2} width={UPSET_WIDTH} height={UPSET_ROW_HEIGHT} fill="#F9FAFB" />
+            )}
+            <Text x={UPSET_LABEL_WIDTH - 12} textAnchor="end" verticalAnchor="middle" fontSize={11} fill={color(segment.id)}>
+              {segment.label}
+            </Text>
+          </Group>
+        ))}
+
+        {regions.map(region => {
+          const cx = (xScale(regionKey(region)) || 0) + xScale.bandwidth() / 2;
+          const rows = result.segments
+            .map((segment, row) => (region.segmentIds.includes(segment.id) ? row : -1))
+            .filter(row => row >= 0);
+          const rowY = (row: number) => row * UPSET_ROW_HEIGHT + UPSET_ROW_HEIGHT / 2;
+
+          return (
+            <Group key={`${regionKey(region)}-matrix`}>
+              {rows.length > 1 && (
+                <Line
+                  from={{ x: cx, y: rowY(rows[0]) }}
+                  to={{ x: cx, y: rowY(rows[rows.length - 1]) }}
+                  stroke="#4B5563"
+                  strokeWidth={2}
+                />
+              )}
+              {result.segments.map((segment, row) => (
+                <Circle
+                  key={segment.id}
+                  cx={cx}
+                  cy={rowY(row)}
+                  r={5}
+                  fill={rows.includes(row) ? '#4B5563' : '#E5E7EB'}
+                />
+              ))}
+            </Group>
+          );
+        })}
+      </Group>
+    </svg>
+  );
+};
+
+export const AudienceOverlapChart: React.FC<AudienceOverlapChartProps> = ({ result, className }) => {
+  const canDrawVenn = result.segments.length <= 3;
+  const [view, setView] = useState<ChartView>(canDrawVenn ? 'venn' : 'upset');
+  const activeView = canDrawVenn ? view : 'upset';
+
+  const color = useMemo(() => {
+    const scale = scaleOrdinal<string, string>({
+      domain: result.segments.map(segment => segment.id),
+      range: [...schemeTableau10]
+    });
+    return (id: string) => scale(id);
+  }, [result]);
+
+  const share = (size: number) => (result.populationSize > 0 ? `${((size / result.populationSize) * 100).toFixed(1)}%` : '0%');
+
+  return (
+    <div className={`space-y-3 ${className || ''}`}>
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-gray-600">
+          <span className="font-medium text-gray-900">{result.unionSize.toLocaleString()}</span> in any segment ({share(result.unionSize)}),{' '}
+          <span className="font-medium text-gray-900">{result.intersectionSize.toLocaleString()}</span> in all of them
+        </div>
+        {canDrawVenn && (
+          <div className="flex rounded-md border border-gray-200 text-xs">
+            {(['venn', 'upset'] as ChartView[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                className={`px-2 py-1 ${activeView === option ? 'bg-gray-100 font-medium text-gray-900' : 'text-gray-600'}`}
+              >
+                {option === 'venn' ? 'Venn' : 'UpSet'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {activeView === 'venn'
+        ? <VennDiagram result={result} color={color} />
+        : <UpSetPlot result={result} color={color} />}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {result.segments.map(segment => (
+          <div key={segment.id} className="flex items-center justify-between text-sm">
+            <span className="flex items-center space-x-2">
+              <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: color(segment.id) }} />
+              <span className="text-gray-900">{segment.label}</span>
+            </span>
+            <span className="text-gray-600">
+              {segment.estimatedSize.toLocaleString()} · {segment.exclusiveSize.toLocaleString()} only here
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Estimated from {result.sampleSize.toLocaleString()} sampled customers
+        {result.exact ? '' : ' using theta sketches'}, scaled to {result.populationSize.toLocaleString()}.
+      </p>
+    </div>
+  );
+};
\ No newline at end of file
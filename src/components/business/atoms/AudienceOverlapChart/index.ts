@@ -0,0 +1,4 @@
+// src/components/business/atoms/AudienceOverlapChart/index.ts
+
+export { AudienceOverlapChart } from './AudienceOverlapChart';
+export type { AudienceOverlapChartProps } from './AudienceOverlapChart';
\ No newline at end of file
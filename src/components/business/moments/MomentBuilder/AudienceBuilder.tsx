@@ -1,9 +1,20 @@
 // src/components/business/moments/MomentBuilder/AudienceBuilder.tsx
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { Card, CardHeader, CardBody } from '../../../ui/Card';
 import { Button } from '../../../ui/Button';
 import { Select } from '../../../ui/Input';
+import { AudienceOverlapChart } from '../../atoms/AudienceOverlapChart';
+import { estimateAudienceSize, findUnmeasuredFields } from '../../../../services/ai/AudienceCriteria';
+import {
+  MAX_OVERLAP_SEGMENTS,
+  MIN_OVERLAP_SEGMENTS,
+  OverlapSegment,
+  computeAudienceOverlap
+} from '../../../../services/ai/AudienceOverlap';
+import type { CustomerContext } from '../../../../types/ai';
+import type { EligibilityAtom } from '../../../../types/api/atoms';
+import type { AudienceConfig } from './MomentBuilder';
 
 interface AudienceRule {
   id: string;
@@ -13,19 +24,33 @@ interface AudienceRule {
 }
 
 interface AudienceBuilderProps {
-  rules: AudienceRule[];
-  onChange: (rules: AudienceRule[]) => void;
+  audience: AudienceConfig;
+  onChange: (audience: AudienceConfig) => void;
   availableAtoms: any[];
+  customers?: CustomerContext[]; // sample of the customer base to estimate reach from
+  populationSize?: number; // size of the customer base the sample was drawn from
   readOnly?: boolean;
 }
 
 export const AudienceBuilder: React.FC<AudienceBuilderProps> = ({
-  rules,
+  audience,
   onChange,
   availableAtoms,
+  customers = [],
+  populationSize = customers.length,
   readOnly = false
 }) => {
   const [selectedAtom, setSelectedAtom] = useState<string>('');
+  const rules: AudienceRule[] = useMemo(() => audience.rules || [], [audience.rules]);
+
+  const setRules = (updated: AudienceRule[]) => {
+    onChange({
+      ...audience,
+      rules: updated,
+      atoms: Array.from(new Set(updated.map(rule => rule.atomId))),
+      estimatedSize: updated.length === 0 ? 0 : audience.estimatedSize
+    });
+  };
 
   const addRule = () => {
     if (!selectedAtom) return;
@@ -37,12 +62,12 @@ export const AudienceBuilder: React.FC<AudienceBuilderProps> = ({
       value: ''
     };
 
-    onChange([...rules, newRule]);
+    setRules([...rules, newRule]);
     setSelectedAtom('');
   };
 
   const updateRule = (ruleId: string, updates: Partial<AudienceRule>) => {
-    onChange(
+    setRules(
       rules.map(rule => 
         rule.id === ruleId ? { ...rule, ...updates } : rule
       )
@@ -50,10 +75,57 @@ export const AudienceBuilder: React.FC<AudienceBuilderProps> = ({
   };
 
   const removeRule = (ruleId: string) => {
-    onChange(rules.filter(rule => rule.id !== ruleId));
+    setRules(rules.filter(rule => rule.id !== ruleId));
   };
 
-  const estimatedAudience = Math.floor(Math.random() * 50000) + 10000;
+  // Only atoms with eligibility logic can be evaluated against customers
+  const resolveAtom = useCallback((atomId: string): EligibilityAtom | undefined => {
+    const atom = availableAtoms.find(candidate => candidate.id === atomId);
+    return atom?.logic ? atom : undefined;
+  }, [availableAtoms]);
+
+  const unsizedAtoms = rules
+    .filter(rule => !resolveAtom(rule.atomId))
+    .map(rule => availableAtoms.find(atom => atom.id === rule.atomId)?.name || rule.atomId);
+
+  // Each rule is a segment; rules are combined with AND, so reach is the intersection of all of them
+  const segments = useMemo((): OverlapSegment[] => rules
+    .filter(rule => resolveAtom(rule.atomId))
+    .map(rule => {
+      const name = resolveAtom(rule.atomId)!.name;
+      return rule.operator === 'not_equals'
+        ? { id: rule.id, label: `Not ${name}`, criteria: `NOT atom:${rule.atomId}` }
+        : { id: rule.id, label: name, criteria: `atom:${rule.atomId}` };
+    }), [rules, resolveAtom]);
+
+  const hasSample = customers.length > 0;
+  const combinedCriteria = segments.map(segment => `(${segment.criteria})`).join(' AND ');
+
+  // Atoms reading fields the sample has no data for would size as empty, so they are not sized at all
+  const unmeasuredFields = useMemo(
+    () => (hasSample ? findUnmeasuredFields(combinedCriteria, customers, resolveAtom) : []),
+    [hasSample, combinedCriteria, customers, resolveAtom]
+  );
+  const canEstimate = hasSample && unmeasuredFields.length === 0;
+
+  const overlap = useMemo(() => {
+    if (!canEstimate || segments.length < MIN_OVERLAP_SEGMENTS || segments.length > MAX_OVERLAP_SEGMENTS) return null;
+    return computeAudienceOverlap(segments, customers, { populationSize, resolveAtom });
+  }, [canEstimate, segments, customers, populationSize, resolveAtom]);
+
+  // Without a customer sample there is nothing to estimate from, so the saved size is left alone
+  const estimatedAudience = useMemo(() => {
+    if (overlap) return overlap.intersectionSize;
+    if (!canEstimate || segments.length === 0) return null;
+    return estimateAudienceSize(combinedCriteria, customers, populationSize, resolveAtom);
+  }, [overlap, canEstimate, segments, combinedCriteria, customers, populationSize, resolveAtom]);
+
+  // Keep the moment's audience size in step with its rules
+  useEffect(() => {
+    if (!readOnly && estimatedAudience !== null && estimatedAudience !== audience.estimatedSize) {
+      onChange({ ...audience, estimatedSize: estimatedAudience });
+    }
+  }, [estimatedAudience, audience, onChange, readOnly]);
 
   return (
     <Card>
@@ -61,7 +133,11 @@ export const AudienceBuilder: React.FC<AudienceBuilderProps> = ({
         <div className="flex items-center justify-between">
           <h3 className="text-lg font-medium">Audience Builder</h3>
           <div className="text-sm text-gray-600">
-            Estimated reach: ~{estimatedAudience.toLocaleString()}
+            {!hasSample
+              ? 'Reach is estimated once a customer sample is loaded'
+              : canEstimate
+                ? `Estimated reach: ~${(estimatedAudience ?? audience.estimatedSize).toLocaleString()}`
+                : 'Reach cannot be estimated'}
           </div>
         </div>
       </CardHeader>
@@ -131,6 +207,31 @@ export const AudienceBuilder: React.FC<AudienceBuilderProps> = ({
             </div>
           )}
 
+          {unsizedAtoms.length > 0 && (
+            <p className="text-sm text-yellow-700">
+              {unsizedAtoms.join(', ')} {unsizedAtoms.length === 1 ? 'has' : 'have'} no eligibility logic and
+              {unsizedAtoms.length === 1 ? ' is' : ' are'} left out of the reach estimate.
+            </p>
+          )}
+
+          {unmeasuredFields.length > 0 && (
+            <p className="text-sm text-yellow-700">
+              The customer sample has no data for {unmeasuredFields.join(', ')}, so reach and overlap cannot be estimated.
+            </p>
+          )}
+
+          {overlap && (
+            <div className="pt-4 border-t border-gray-200">
+              <h4 className="text-sm font-medium text-gray-900 mb-3">Segment Overlap</h4>
+              <AudienceOverlapChart result={overlap} />
+            </div>
+          )}
+          {segments.length > MAX_OVERLAP_SEGMENTS && (
+            <p className="text-sm text-gray-500">
+              Overlap is shown for up to {MAX_OVERLAP_SEGMENTS} atoms.
+            </p>
+          )}
+
           {rules.length === 0 && (
             <div className="text-center py-8 text-gray-500">
               <p>No audience rules defined.</p>
@@ -23,6 +23,7 @@ import { ChannelSelector } from './ChannelSelector';
 import { AudienceBuilder } from './AudienceBuilder';
 import { SchedulingTool } from './SchedulingTool';
 import { PersonalizationRules } from './PersonalizationRules';
+import type { CustomerContext } from '../../../../types/ai';
 
 // Types
 interface MomentConfig {
@@ -50,7 +51,7 @@ interface ChannelConfig {
   settings: any;
 }
 
-interface AudienceConfig {
+export interface AudienceConfig {
   name: string;
   description: string;
   atoms: string[];
@@ -126,6 +127,8 @@ interface MomentBuilderProps {
   availableChannels: string[];
   availableAtoms: any[];
   templates: any[];
+  customers?: CustomerContext[];
+  populationSize?: number;
   readOnly?: boolean;
 }
 
@@ -138,6 +141,8 @@ const MomentBuilder: React.FC<MomentBuilderProps> = ({
   availableChannels = ['email', 'sms', 'push', 'web', 'in_app'],
   availableAtoms = [],
   templates = [],
+  customers,
+  populationSize,
   readOnly = false
 }) => {
   // State Management
@@ -548,6 +553,8 @@ const MomentBuilder: React.FC<MomentBuilderProps> = ({
                   <AudienceBuilder
                     audience={currentMoment.audience}
                     availableAtoms={availableAtoms}
+                    customers={customers}
+                    populationSize={populationSize}
                     onChange={(audience) => updateMoment({ audience })}
                     readOnly={readOnly}
                   />
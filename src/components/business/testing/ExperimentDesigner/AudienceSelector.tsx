@@ -19,10 +19,16 @@ import { Button } from '../../../ui/Button';
 import { Card, CardHeader, CardBody, CardFooter } from '../../../ui/Card';
 import { Input, Select } from '../../../ui/Input';
 import type { AudienceConfig } from './ExperimentBuilder';
+import { AudienceOverlapChart } from '../../atoms/AudienceOverlapChart';
+import { buildCondition, estimateAudienceSize, findUnmeasuredFields } from '../../../../services/ai/AudienceCriteria';
+import { MAX_OVERLAP_SEGMENTS, computeAudienceOverlap } from '../../../../services/ai/AudienceOverlap';
+import type { CustomerContext } from '../../../../types/ai';
 
 interface AudienceSelectorProps {
   audience: AudienceConfig;
   onChange: (audience: AudienceConfig) => void;
+  customers?: CustomerContext[]; // sample of the customer base to estimate sizes from
+  populationSize?: number; // size of the customer base the sample was drawn from
   readOnly?: boolean;
   error?: string;
 }
@@ -39,6 +45,7 @@ interface AtomFilter {
 const AVAILABLE_ATOMS = [
   {
     id: 'age_range',
+    field: 'demographics.age',
     name: 'Age Range',
     type: 'demographic',
     description: 'Customer age demographics',
@@ -47,6 +54,7 @@ const AVAILABLE_ATOMS = [
   },
   {
     id: 'location',
+    field: 'demographics.location.country',
     name: 'Geographic Location',
     type: 'demographic',
     description: 'Customer location',
@@ -56,6 +64,7 @@ const AVAILABLE_ATOMS = [
   },
   {
     id: 'purchase_frequency',
+    field: 'behavioral.totalPurchases',
     name: 'Purchase Frequency',
     type: 'behavioral',
     description: 'How often customer purchases',
@@ -64,6 +73,7 @@ const AVAILABLE_ATOMS = [
   },
   {
     id: 'total_spent',
+    field: 'behavioral.lifetimeValue',
     name: 'Total Amount Spent',
     type: 'transactional',
     description: 'Customer lifetime value',
@@ -72,14 +82,16 @@ const AVAILABLE_ATOMS = [
   },
   {
     id: 'last_purchase',
-    name: 'Days Since Last Purchase',
+    field: 'behavioral.daysSinceLastLogin',
+    name: 'Days Since Last Activity',
     type: 'behavioral',
-    description: 'Recency of last purchase',
+    description: 'Days since the customer last logged in',
     operators: ['greater_than', 'less_than', 'between'],
     valueType: 'number'
   },
   {
     id: 'email_engagement',
+    field: 'behavioral.engagementScore',
     name: 'Email Engagement Rate',
     type: 'behavioral',
     description: 'Email open and click rates',
@@ -88,6 +100,7 @@ const AVAILABLE_ATOMS = [
   },
   {
     id: 'device_type',
+    field: 'contextual.deviceType',
     name: 'Device Type',
     type: 'contextual',
     description: 'Primary device used',
@@ -97,6 +110,7 @@ const AVAILABLE_ATOMS = [
   },
   {
     id: 'acquisition_channel',
+    field: 'contextual.referrer',
     name: 'Acquisition Channel',
     type: 'behavioral',
     description: 'How customer was acquired',
@@ -118,14 +132,46 @@ const OPERATORS = {
 };
 
 const SEGMENTS = [
-  { id: 'high_value', name: 'High Value Customers', size: 5000, description: 'Customers with high LTV' },
-  { id: 'recent_purchasers', name: 'Recent Purchasers', size: 12000, description: 'Purchased in last 30 days' },
-  { id: 'email_engaged', name: 'Email Engaged', size: 25000, description: 'High email engagement' },
-  { id: 'mobile_users', name: 'Mobile Users', size: 18000, description: 'Primarily mobile shoppers' },
-  { id: 'new_customers', name: 'New Customers', size: 3000, description: 'Customers acquired in last 90 days' },
-  { id: 'at_risk', name: 'At Risk', size: 8000, description: 'Haven\'t purchased recently' }
+  { id: 'high_value', name: 'High Value Customers', description: 'Customers with high LTV', criteria: 'behavioral.lifetimeValue >= 1000' },
+  { id: 'recent_purchasers', name: 'Recent Purchasers', description: 'Purchased in last 30 days', criteria: 'behavioral.totalPurchases > 0 AND behavioral.daysSinceLastLogin <= 30' },
+  { id: 'email_engaged', name: 'Email Engaged', description: 'High email engagement', criteria: "behavioral.preferredChannels CONTAINS 'email' AND behavioral.engagementScore >= 60" },
+  { id: 'mobile_users', name: 'Mobile Users', description: 'Primarily mobile shoppers', criteria: "contextual.deviceType = 'mobile'" },
+  { id: 'new_customers', name: 'New Customers', description: 'Customers acquired in last 90 days', criteria: 'behavioral.totalPurchases <= 1' },
+  { id: 'at_risk', name: 'At Risk', description: 'Haven\'t purchased recently', criteria: 'behavioral.churnRisk >= 0.7' }
 ];
 
+// A filter is left out until it has a value, or both bounds of a range
+const isMissingValue = (value: any): boolean => (
+  Array.isArray(value) ? value.length < 2 || value.some(isMissingValue) : value === '' || value === undefined
+);
+
+const formatFilterValue = (value: any): string => (Array.isArray(value) ? value.join(' – ') : String(value));
+
+// Segments are combined with OR, filters with AND, and exclusions are negated
+const buildAudienceCriteria = (segments: string[], filters: AtomFilter[], exclusions: string[]): string => {
+  const clauses: string[] = [];
+
+  const segmentCriteria = segments
+    .map(id => SEGMENTS.find(s => s.id === id)?.criteria)
+    .filter((criteria): criteria is string => !!criteria);
+  if (segmentCriteria.length > 0) {
+    clauses.push(`(${segmentCriteria.map(c => `(${c})`).join(' OR ')})`);
+  }
+
+  filters.forEach(filter => {
+    const atom = AVAILABLE_ATOMS.find(a => a.id === filter.atomId);
+    if (!atom || isMissingValue(filter.value)) return;
+    clauses.push(buildCondition(atom.field, filter.operator, filter.value));
+  });
+
+  exclusions.forEach(id => {
+    const segment = SEGMENTS.find(s => s.id === id);
+    if (segment) clauses.push(`NOT (${segment.criteria})`);
+  });
+
+  return clauses.join(' AND ');
+};
+
 const getAtomTypeIcon = (type: string) => {
   switch (type) {
     case 'demographic': return UserGroupIcon;
@@ -149,6 +195,8 @@ const getAtomTypeColor = (type: string) => {
 export const AudienceSelector: React.FC<AudienceSelectorProps> = ({
   audience,
   onChange,
+  customers = [],
+  populationSize = customers.length,
   readOnly = false,
   error
 }) => {
@@ -167,45 +215,69 @@ export const AudienceSelector: React.FC<AudienceSelectorProps> = ({
   );
   const [exclusions, setExclusions] = useState<string[]>(audience.exclusions || []);
 
-  // Calculate estimated audience size based on filters and segments
-  const estimatedSize = useMemo(() => {
-    let baseSize = 100000; // Total audience
-    
-    // Apply segment filters
-    if (selectedSegments.length > 0) {
-      const segmentSizes = selectedSegments.map(segmentId => 
-        SEGMENTS.find(s => s.id === segmentId)?.size || 0
-      );
-      baseSize = Math.min(baseSize, Math.max(...segmentSizes));
-    }
+  const criteria = useMemo(
+    () => buildAudienceCriteria(selectedSegments, filters, exclusions),
+    [selectedSegments, filters, exclusions]
+  );
 
-    // Apply atom filters (rough estimation)
-    filters.forEach(filter => {
-      baseSize *= 0.7; // Each filter reduces audience by ~30%
+  const hasSample = customers.length > 0;
+
+  // Estimate audience size by evaluating the criteria against the customer sample. Sizes are
+  // null until a sample is loaded, and when the sample has no data for a field the criteria read
+  const { estimatedSize, unmeasuredFields, criteriaError } = useMemo(() => {
+    try {
+      const unmeasured = findUnmeasuredFields(criteria, customers);
+      if (!hasSample || unmeasured.length > 0) {
+        return { estimatedSize: null, unmeasuredFields: unmeasured, criteriaError: null };
+      }
+      return { estimatedSize: estimateAudienceSize(criteria, customers, populationSize), unmeasuredFields: [], criteriaError: null };
+    } catch (err) {
+      return { estimatedSize: hasSample ? 0 : null, unmeasuredFields: [], criteriaError: err instanceof Error ? err.message : 'Invalid audience criteria' };
+    }
+  }, [criteria, customers, populationSize, hasSample]);
+
+  const segmentSizes = useMemo(() => {
+    const sizes: Record<string, number | null> = {};
+    if (!hasSample) return sizes;
+    SEGMENTS.forEach(segment => {
+      sizes[segment.id] = findUnmeasuredFields(segment.criteria, customers).length > 0
+        ? null
+        : estimateAudienceSize(segment.criteria, customers, populationSize);
     });
+    return sizes;
+  }, [customers, populationSize, hasSample]);
 
-    // Apply exclusions
-    if (exclusions.length > 0) {
-      baseSize *= 0.9; // Exclusions reduce by ~10%
-    }
+  const formatSize = (size: number | null | undefined) => (size === null || size === undefined ? '—' : size.toLocaleString());
 
-    return Math.round(baseSize);
-  }, [selectedSegments, filters, exclusions]);
+  // Segments the sample cannot size are left out of the overlap rather than counted as empty
+  const unsizedSegments = selectedSegments.filter(id => hasSample && segmentSizes[id] === null);
+
+  // How the selected segments overlap, since stacking segments that mostly share customers adds little reach
+  const segmentOverlap = useMemo(() => {
+    if (!hasSample || selectedSegments.length < 2 || selectedSegments.length > MAX_OVERLAP_SEGMENTS) return null;
+    if (selectedSegments.some(id => segmentSizes[id] === null)) return null;
+    const segments = selectedSegments
+      .map(id => SEGMENTS.find(segment => segment.id === id))
+      .filter((segment): segment is typeof SEGMENTS[number] => !!segment)
+      .map(segment => ({ id: segment.id, label: segment.name, criteria: segment.criteria }));
+    return computeAudienceOverlap(segments, customers, { populationSize });
+  }, [selectedSegments, segmentSizes, customers, populationSize, hasSample]);
 
   // Update parent component when audience changes
   const updateAudience = useCallback(() => {
     const updatedAudience: AudienceConfig = {
-      size: estimatedSize,
+      size: estimatedSize ?? audience.size,
       segments: selectedSegments,
       filters: filters.map(f => ({
         atomId: f.atomId,
         operator: f.operator,
         value: f.value
       })),
-      exclusions
+      exclusions,
+      criteria
     };
     onChange(updatedAudience);
-  }, [estimatedSize, selectedSegments, filters, exclusions, onChange]);
+  }, [estimatedSize, audience.size, selectedSegments, filters, exclusions, criteria, onChange]);
 
   // Update audience whenever dependencies change
   React.useEffect(() => {
@@ -253,6 +325,33 @@ export const AudienceSelector: React.FC<AudienceSelectorProps> = ({
       handleUpdateFilter(index, { value });
     };
 
+    // Ranges take a lower and an upper bound
+    if (filter.operator === 'between') {
+      const [lower, upper] = Array.isArray(filter.value) ? filter.value : ['', ''];
+      const parseBound = (raw: string) => (raw === '' ? '' : parseFloat(raw) || 0);
+      return (
+        <div className="flex items-center space-x-2">
+          <Input
+            type="number"
+            value={lower}
+            onChange={(e) => updateValue([parseBound(e.target.value), upper])}
+            placeholder="Min"
+            step={atom.valueType === 'currency' ? '0.01' : undefined}
+            disabled={readOnly}
+          />
+          <span className="text-sm text-gray-500">and</span>
+          <Input
+            type="number"
+            value={upper}
+            onChange={(e) => updateValue([lower, parseBound(e.target.value)])}
+            placeholder="Max"
+            step={atom.valueType === 'currency' ? '0.01' : undefined}
+            disabled={readOnly}
+          />
+        </div>
+      );
+    }
+
     switch (atom.valueType) {
       case 'select':
         return (
@@ -331,11 +430,16 @@ export const AudienceSelector: React.FC<AudienceSelectorProps> = ({
             </div>
             <div className="text-right">
               <div className="text-2xl font-bold text-blue-600">
-                {estimatedSize.toLocaleString()}
+                {formatSize(estimatedSize)}
               </div>
-              <div className="text-sm text-gray-500">customers</div>
+              <div className="text-sm text-gray-500">{hasSample ? 'customers' : 'no customer sample loaded'}</div>
             </div>
           </div>
+          {unmeasuredFields.length > 0 && (
+            <p className="mt-2 text-sm text-yellow-700">
+              Cannot estimate: the customer sample has no data for {unmeasuredFields.join(', ')}.
+            </p>
+          )}
         </CardHeader>
         <CardBody>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
@@ -387,7 +491,7 @@ export const AudienceSelector: React.FC<AudienceSelectorProps> = ({
                   <div className={`text-sm font-medium ${
                     selectedSegments.includes(segment.id) ? 'text-blue-600' : 'text-gray-600'
                   }`}>
-                    {segment.size.toLocaleString()}
+                    {formatSize(segmentSizes[segment.id])}
                   </div>
                 </div>
                 <p className={`text-xs ${
@@ -403,6 +507,24 @@ export const AudienceSelector: React.FC<AudienceSelectorProps> = ({
               </motion.button>
             ))}
           </div>
+
+          {segmentOverlap && (
+            <div className="mt-6 pt-4 border-t border-gray-200">
+              <h5 className="text-sm font-medium text-gray-900 mb-3">Segment Overlap</h5>
+              <AudienceOverlapChart result={segmentOverlap} />
+            </div>
+          )}
+          {unsizedSegments.length > 0 && (
+            <p className="mt-4 text-sm text-yellow-700">
+              Cannot estimate {unsizedSegments.map(id => SEGMENTS.find(segment => segment.id === id)?.name || id).join(', ')}:
+              the customer sample has no data for the fields {unsizedSegments.length === 1 ? 'it reads' : 'they read'}.
+            </p>
+          )}
+          {selectedSegments.length > MAX_OVERLAP_SEGMENTS && (
+            <p className="mt-4 text-sm text-gray-500">
+              Select at most {MAX_OVERLAP_SEGMENTS} segments to see how they overlap.
+            </p>
+          )}
         </CardBody>
       </Card>
 
@@ -477,7 +599,11 @@ export const AudienceSelector: React.FC<AudienceSelectorProps> = ({
                         </label>
                         <Select
                           value={filter.operator}
-                          onChange={(e) => handleUpdateFilter(index, { operator: e.target.value })}
+                          onChange={(e) => {
+                            // A range and a single value don't convert into each other
+                            const switchesShape = (e.target.value === 'between') !== (filter.operator === 'between');
+                            handleUpdateFilter(index, switchesShape ? { operator: e.target.value, value: '' } : { operator: e.target.value });
+                          }}
                           disabled={readOnly || !filter.atomId}
                         >
                           {atom?.operators.map(op => (
@@ -570,7 +696,7 @@ export const AudienceSelector: React.FC<AudienceSelectorProps> = ({
                 />
                 <div className="flex-1">
                   <div className="font-medium text-gray-900">{segment.name}</div>
-                  <div className="text-sm text-gray-600">{segment.size.toLocaleString()} customers</div>
+                  <div className="text-sm text-gray-600">{formatSize(segmentSizes[segment.id])} customers</div>
                 </div>
               </label>
             ))}
@@ -594,7 +720,7 @@ export const AudienceSelector: React.FC<AudienceSelectorProps> = ({
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="text-center p-4 bg-blue-50 rounded-lg">
                 <div className="text-2xl font-bold text-blue-600">
-                  {estimatedSize.toLocaleString()}
+                  {formatSize(estimatedSize)}
                 </div>
                 <div className="text-sm text-blue-700">Final Audience Size</div>
               </div>
@@ -606,12 +732,23 @@ export const AudienceSelector: React.FC<AudienceSelectorProps> = ({
               </div>
               <div className="text-center p-4 bg-purple-50 rounded-lg">
                 <div className="text-2xl font-bold text-purple-600">
-                  {((estimatedSize / 100000) * 100).toFixed(1)}%
+                  {estimatedSize !== null && populationSize > 0 ? `${((estimatedSize / populationSize) * 100).toFixed(1)}%` : '—'}
                 </div>
                 <div className="text-sm text-purple-700">Of Total Audience</div>
               </div>
             </div>
 
+            {/* Criteria Expression */}
+            <div className="space-y-2">
+              <h5 className="font-medium text-gray-900">Targeting Expression:</h5>
+              <code className="block p-3 bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-800 break-words">
+                {criteria || 'All customers'}
+              </code>
+              {criteriaError && (
+                <p className="text-sm text-red-600">{criteriaError}</p>
+              )}
+            </div>
+
             {/* Criteria Summary */}
             <div className="space-y-2">
               <h5 className="font-medium text-gray-900">Applied Criteria:</h5>
@@ -628,7 +765,7 @@ export const AudienceSelector: React.FC<AudienceSelectorProps> = ({
                 {filters.map((filter, index) => (
                   <div key={index} className="flex items-center text-green-700">
                     <CheckCircleIcon className="h-4 w-4 mr-2" />
-                    {filter.atomName} {OPERATORS[filter.operator as keyof typeof OPERATORS]?.symbol} {filter.value}
+                    {filter.atomName} {OPERATORS[filter.operator as keyof typeof OPERATORS]?.symbol} {formatFilterValue(filter.value)}
                   </div>
                 ))}
                 {exclusions.map(exclusionId => {
@@ -647,10 +784,10 @@ export const AudienceSelector: React.FC<AudienceSelectorProps> = ({
             <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
               <h6 className="font-medium text-yellow-800 mb-1">Recommendations:</h6>
               <ul className="text-sm text-yellow-700 space-y-1">
-                {estimatedSize < 1000 && (
+                {estimatedSize !== null && estimatedSize < 1000 && (
                   <li>• Consider broadening your criteria - sample size may be too small for reliable results</li>
                 )}
-                {estimatedSize > 50000 && (
+                {estimatedSize !== null && estimatedSize > 50000 && (
                   <li>• Large audience size detected - consider adding more specific filters for better targeting</li>
                 )}
                 {filters.length === 0 && selectedSegments.length === 0 && (
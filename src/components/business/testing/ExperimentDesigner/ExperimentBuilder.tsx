@@ -22,6 +22,7 @@ import { AudienceSelector } from './AudienceSelector';
 import { GoalConfiguration } from './GoalConfiguration';
 import { TrafficAllocation } from './TrafficAllocation';
 import { StatisticalConfig } from './StatisticalConfig';
+import type { CustomerContext } from '../../../../types/ai';
 
 export interface ExperimentConfig {
   id: string;
@@ -70,6 +71,7 @@ export interface AudienceConfig {
     value: any;
   }[];
   exclusions?: string[];
+  criteria?: string; // expression built from segments, filters and exclusions
 }
 
 export interface GoalConfig {
@@ -84,6 +86,7 @@ export interface GoalConfig {
 
 export interface TrafficConfig {
   allocation: number; // percentage of total traffic
+  layerId?: string; // experiments in the same layer get disjoint traffic
   distribution: { [variantId: string]: number }; // percentage per variant
   rampUp?: {
     enabled: boolean;
@@ -100,12 +103,17 @@ export interface StatisticalConfig {
   sampleSize: number;
   earlyStoppingEnabled: boolean;
   significanceThreshold: number;
+  continuousMetricTest?: 'welch' | 'bootstrap'; // used for revenue and other continuous goals
+  bootstrapIterations?: number;
+  multipleComparisonCorrection?: 'none' | 'bonferroni' | 'holm' | 'benjamini_hochberg';
 }
 
 interface ExperimentBuilderProps {
   experiment?: ExperimentConfig;
   onSave: (experiment: ExperimentConfig) => void;
   onCancel: () => void;
+  customers?: CustomerContext[];
+  populationSize?: number;
   readOnly?: boolean;
 }
 
@@ -122,6 +130,8 @@ export const ExperimentBuilder: React.FC<ExperimentBuilderProps> = ({
   experiment,
   onSave,
   onCancel,
+  customers,
+  populationSize,
   readOnly = false
 }) => {
   const [currentStep, setCurrentStep] = useState(0);
@@ -167,7 +177,9 @@ export const ExperimentBuilder: React.FC<ExperimentBuilderProps> = ({
         statisticalPower: 80,
         sampleSize: 0,
         earlyStoppingEnabled: true,
-        significanceThreshold: 0.05
+        significanceThreshold: 0.05,
+        continuousMetricTest: 'welch',
+        multipleComparisonCorrection: 'holm'
       },
       duration: 14,
       createdAt: new Date(),
@@ -344,6 +356,8 @@ export const ExperimentBuilder: React.FC<ExperimentBuilderProps> = ({
           <AudienceSelector
             audience={config.audience}
             onChange={(audience) => updateConfig({ audience })}
+            customers={customers}
+            populationSize={populationSize}
             readOnly={readOnly}
             error={validationErrors.audience}
           />
@@ -57,6 +57,18 @@ const MDE_PRESETS = [
   { value: 20, label: '20% (Very Large)', description: 'Detect only major changes' }
 ];
 
+const CONTINUOUS_TESTS = [
+  { value: 'welch', label: "Welch's t-test", description: 'Fast, assumes roughly normal means (large samples)' },
+  { value: 'bootstrap', label: 'Bootstrap intervals', description: 'No distribution assumptions, better for skewed revenue' }
+];
+
+const CORRECTION_METHODS = [
+  { value: 'none', label: 'None', description: 'Each variant is tested independently' },
+  { value: 'bonferroni', label: 'Bonferroni', description: 'Strict family-wise error control' },
+  { value: 'holm', label: 'Holm', description: 'Family-wise error control, more power than Bonferroni' },
+  { value: 'benjamini_hochberg', label: 'Benjamini-Hochberg', description: 'Controls false discovery rate across variants' }
+];
+
 // Statistical calculation functions
 const calculateSampleSize = (
   confidenceLevel: number,
@@ -562,6 +574,38 @@ export const StatisticalConfig: React.FC<StatisticalConfigProps> = ({
               disabled={readOnly}
             />
 
+            <Select
+              label="Continuous Metric Test"
+              options={CONTINUOUS_TESTS}
+              value={statistical.continuousMetricTest || 'welch'}
+              onChange={(e) => updateStatistical({ continuousMetricTest: e.target.value as 'welch' | 'bootstrap' })}
+              helperText={CONTINUOUS_TESTS.find(t => t.value === (statistical.continuousMetricTest || 'welch'))?.description}
+              disabled={readOnly}
+            />
+
+            {statistical.continuousMetricTest === 'bootstrap' && (
+              <Input
+                label="Bootstrap Iterations"
+                type="number"
+                value={statistical.bootstrapIterations || 1000}
+                onChange={(e) => updateStatistical({ bootstrapIterations: parseInt(e.target.value) || 1000 })}
+                min={200}
+                step={100}
+                disabled={readOnly}
+              />
+            )}
+
+            <Select
+              label="Multiple Comparison Correction"
+              options={CORRECTION_METHODS}
+              value={statistical.multipleComparisonCorrection || 'none'}
+              onChange={(e) => updateStatistical({
+                multipleComparisonCorrection: e.target.value as StatisticalConfigType['multipleComparisonCorrection']
+              })}
+              helperText={CORRECTION_METHODS.find(m => m.value === (statistical.multipleComparisonCorrection || 'none'))?.description}
+              disabled={readOnly}
+            />
+
             <div className="p-4 bg-gray-50 rounded-lg">
               <h4 className="text-sm font-medium text-gray-900 mb-2">Statistical Formulas Used:</h4>
               <div className="text-xs text-gray-600 space-y-1">
@@ -569,6 +613,8 @@ export const StatisticalConfig: React.FC<StatisticalConfigProps> = ({
                 <div>• Power: 1 - β (probability of detecting true effect)</div>
                 <div>• Confidence: 1 - α (probability of avoiding false positive)</div>
                 <div>• Effect Size: Relative difference between variants</div>
+                <div>• Primary Metric: {statistical.earlyStoppingEnabled ? 'mSPRT (always-valid, safe to peek)' : 'Fixed-horizon z-test'}</div>
+                <div>• Revenue & Continuous Metrics: {statistical.continuousMetricTest === 'bootstrap' ? 'Percentile bootstrap' : "Welch's t-test"}</div>
               </div>
             </div>
           </div>
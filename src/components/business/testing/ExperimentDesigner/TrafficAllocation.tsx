@@ -9,11 +9,13 @@ import {
   ExclamationTriangleIcon,
   ClockIcon,
   TrendingUpIcon,
-  InformationCircleIcon
+  InformationCircleIcon,
+  Square3Stack3DIcon
 } from '@heroicons/react/24/outline';
 import { Button } from '../../../ui/Button';
 import { Card, CardHeader, CardBody } from '../../../ui/Card';
-import { Input } from '../../../ui/Input';
+import { Input, Select } from '../../../ui/Input';
+import { useAIStore } from '../../../../stores/business/aiStore';
 import type { TrafficConfig, ExperimentVariant } from './ExperimentBuilder';
 
 interface TrafficAllocationProps {
@@ -129,6 +131,38 @@ export const TrafficAllocation: React.FC<TrafficAllocationProps> = ({
 
   const isValidDistribution = Math.abs(totalAllocation - 100) < 0.1;
 
+  // Layer usage from the experimentation engine
+  const experimentationEngine = useAIStore(state => state.experimentationEngine);
+  const layers = experimentationEngine?.getLayers() || [];
+  const holdout = experimentationEngine?.getHoldoutConfig();
+  const selectedLayer = layers.find(layer => layer.id === traffic.layerId);
+
+  const layerUsage = useMemo(() => {
+    if (!selectedLayer || !experimentationEngine) return null;
+
+    const experimentNames = new Map(experimentationEngine.getExperiments().map(e => [e.id, e.name]));
+    const slices = Object.entries(selectedLayer.allocations)
+      .map(([experimentId, [start, end]]) => ({
+        experimentId,
+        name: experimentNames.get(experimentId) || experimentId,
+        start: (start / selectedLayer.buckets) * 100,
+        width: ((end - start) / selectedLayer.buckets) * 100
+      }))
+      .sort((a, b) => a.start - b.start);
+
+    // Experiments need one contiguous slice of the layer
+    let largestGap = 0;
+    let cursor = 0;
+    slices.forEach(slice => {
+      largestGap = Math.max(largestGap, slice.start - cursor);
+      cursor = Math.max(cursor, slice.start + slice.width);
+    });
+    largestGap = Math.max(largestGap, 100 - cursor);
+
+    const used = slices.reduce((sum, slice) => sum + slice.width, 0);
+    return { slices, used, largestGap, fits: traffic.allocation <= largestGap + 0.001 };
+  }, [selectedLayer, experimentationEngine, traffic.allocation]);
+
   return (
     <div className="space-y-6">
       {/* Overall Traffic Allocation */}
@@ -194,6 +228,75 @@ export const TrafficAllocation: React.FC<TrafficAllocationProps> = ({
         </CardBody>
       </Card>
 
+      {/* Experiment Layer */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center">
+            <Square3Stack3DIcon className="h-5 w-5 text-blue-600 mr-2" />
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">Experiment Layer</h3>
+              <p className="text-sm text-gray-500">
+                Experiments in the same layer never share customers
+              </p>
+            </div>
+          </div>
+        </CardHeader>
+        <CardBody>
+          <div className="space-y-4">
+            <Select
+              label="Layer"
+              options={[
+                { value: '', label: 'No layer (may overlap other experiments)' },
+                ...layers.map(layer => ({ value: layer.id, label: layer.name, description: layer.description }))
+              ]}
+              value={traffic.layerId || ''}
+              onChange={(e) => onChange({ ...traffic, layerId: e.target.value || undefined })}
+              disabled={readOnly}
+            />
+
+            {layerUsage && (
+              <div>
+                <div className="flex justify-between text-sm text-gray-600 mb-2">
+                  <span>Layer usage</span>
+                  <span>{layerUsage.used.toFixed(1)}% allocated</span>
+                </div>
+                <div className="relative w-full h-8 bg-gray-100 rounded-lg overflow-hidden">
+                  {layerUsage.slices.map((slice, index) => (
+                    <div
+                      key={slice.experimentId}
+                      className={`absolute top-0 h-full ${VARIANT_COLORS[index % VARIANT_COLORS.length]} opacity-60 border-r border-white flex items-center justify-center text-white text-xs font-medium truncate`}
+                      style={{ left: `${slice.start}%`, width: `${slice.width}%` }}
+                      title={`${slice.name}: ${slice.width.toFixed(1)}%`}
+                    >
+                      {slice.width > 10 && slice.name}
+                    </div>
+                  ))}
+                </div>
+                <div className="mt-2 space-y-1 text-xs text-gray-600">
+                  {layerUsage.slices.map(slice => (
+                    <div key={slice.experimentId} className="flex justify-between">
+                      <span>{slice.name}</span>
+                      <span>{slice.width.toFixed(1)}%</span>
+                    </div>
+                  ))}
+                </div>
+                <div className={`mt-3 text-sm ${layerUsage.fits ? 'text-green-700' : 'text-red-700'}`}>
+                  {layerUsage.fits
+                    ? `This experiment's ${traffic.allocation}% fits in the largest free slice (${layerUsage.largestGap.toFixed(1)}%)`
+                    : `Not enough room: this experiment needs ${traffic.allocation}% but the largest free slice is ${layerUsage.largestGap.toFixed(1)}%`}
+                </div>
+              </div>
+            )}
+
+            {holdout?.enabled && (
+              <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700">
+                {(holdout.percentage * 100).toFixed(1)}% of customers are in the global holdout and never enter experiments.
+              </div>
+            )}
+          </div>
+        </CardBody>
+      </Card>
+
       {/* Variant Distribution */}
       <Card>
         <CardHeader>
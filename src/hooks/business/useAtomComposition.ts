@@ -4,20 +4,41 @@ import { useState, useEffect, useCallback } from 'react';
 import type { AtomComposition, AtomTemplate } from '../../components/business/atoms/AtomComposer';
 import type { AtomNode, Connection } from '../../components/features/DragAndDrop';
 import type { RuleNode } from '../../components/features/RuleBuilder';
+import type { AtomBacktestResult, AtomType, CustomerSnapshot, EligibilityAtom } from '../../types/api/atoms';
+import { backtestComposition, parseCustomerSnapshot } from '../../services/ai/AtomBacktest';
+import { useAIStore } from '../../stores/business/aiStore';
 
 interface UseAtomCompositionReturn {
   composition: AtomComposition | null;
   availableAtoms: AtomTemplate[] | null;
+  snapshots: CustomerSnapshot[];
+  selectedSnapshotId: string | null;
   isLoading: boolean;
   error: string | null;
+  uploadSnapshot: (file: File) => Promise<CustomerSnapshot>;
+  selectSnapshot: (snapshotId: string | null) => void;
   saveComposition: (composition: AtomComposition) => Promise<AtomComposition>;
-  testComposition: (composition: AtomComposition) => Promise<any>;
+  testComposition: (composition: AtomComposition) => Promise<CompositionTestResults>;
   deployComposition: (composition: AtomComposition) => Promise<void>;
   duplicateComposition: (compositionId: string) => Promise<AtomComposition>;
   deleteComposition: (compositionId: string) => Promise<void>;
   refreshComposition: () => Promise<void>;
 }
 
+// Backtest results, with the headline numbers as percentages for the composer
+export interface CompositionTestResults {
+  accuracy: number;
+  coverage: number;
+  precision: number;
+  recall: number;
+  performance: number;
+  sample_size: number;
+  test_date: string;
+  errors: string[];
+  warnings: string[];
+  backtest: AtomBacktestResult;
+}
+
 // Mock API delay function
 const mockDelay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
@@ -33,21 +54,40 @@ const mockCompositions: Record<string, AtomComposition> = {
         type: 'demographic',
         name: 'Age 25-45',
         position: { x: 100, y: 100 },
-        data: { minAge: 25, maxAge: 45 }
+        data: {
+          minAge: 25,
+          maxAge: 45,
+          logic: {
+            operator: 'AND',
+            conditions: [{ field: 'demographics.age', operator: 'between', value: [25, 45], dataType: 'number' }]
+          }
+        }
       },
       {
         id: 'atom-2',
         type: 'behavioral',
         name: 'Mobile First',
         position: { x: 300, y: 100 },
-        data: { primaryDevice: 'mobile' }
+        data: {
+          primaryDevice: 'mobile',
+          logic: {
+            operator: 'AND',
+            conditions: [{ field: 'contextual.deviceType', operator: 'equals', value: 'mobile', dataType: 'string' }]
+          }
+        }
       },
       {
         id: 'atom-3',
         type: 'transactional',
         name: 'High LTV',
         position: { x: 200, y: 250 },
-        data: { minLifetimeValue: 1000 }
+        data: {
+          minLifetimeValue: 1000,
+          logic: {
+            operator: 'AND',
+            conditions: [{ field: 'behavioral.lifetimeValue', operator: 'greater_than_or_equal', value: 1000, dataType: 'number' }]
+          }
+        }
       }
     ],
     connections: [
@@ -73,12 +113,12 @@ const mockCompositions: Record<string, AtomComposition> = {
           {
             id: 'rule-atom-1',
             type: 'atom',
-            atomId: 'atom-1'
+            atomId: 'demo-age-1'
           },
           {
             id: 'rule-atom-2',
             type: 'atom',
-            atomId: 'atom-2'
+            atomId: 'trans-value-1'
           }
         ]
       }
@@ -96,11 +136,58 @@ const mockCompositions: Record<string, AtomComposition> = {
   }
 };
 
+const toPercent = (rate: number) => Math.round(rate * 1000) / 10;
+
+const TEMPLATE_ATOM_TYPES: Record<AtomTemplate['type'], AtomType> = {
+  demographic: 'demographic',
+  behavioral: 'behavioral',
+  transactional: 'behavioral',
+  contextual: 'technical'
+};
+
+// Palette atoms as library atoms, so canvas nodes that reference them by atomId can be evaluated
+const templateToAtom = (template: AtomTemplate): EligibilityAtom => ({
+  id: template.id,
+  name: template.name,
+  description: template.description,
+  type: TEMPLATE_ATOM_TYPES[template.type],
+  status: 'active',
+  version: 1,
+  category: template.category,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  createdBy: 'system',
+  logic: template.data.logic,
+  tags: template.tags
+});
+
+// A saved composition is itself a library atom, built from the palette atoms on its canvas
+const compositionToAtom = (comp: AtomComposition): EligibilityAtom => ({
+  id: comp.id,
+  name: comp.name,
+  description: comp.description,
+  type: 'behavioral',
+  status: comp.status === 'testing' ? 'draft' : comp.status,
+  version: comp.version,
+  createdAt: comp.createdAt,
+  updatedAt: comp.updatedAt,
+  createdBy: 'system',
+  logic: { operator: 'AND', conditions: [] },
+  dependencies: comp.atoms
+    .map(node => node.data?.atomId)
+    .filter((atomId): atomId is string => typeof atomId === 'string')
+});
+
 export const useAtomComposition = (compositionId?: string): UseAtomCompositionReturn => {
   const [composition, setComposition] = useState<AtomComposition | null>(null);
   const [availableAtoms, setAvailableAtoms] = useState<AtomTemplate[] | null>(null);
+  const [snapshots, setSnapshots] = useState<CustomerSnapshot[]>([]);
+  const [selectedSnapshotId, setSelectedSnapshotId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const isAIInitialized = useAIStore(state => state.isInitialized);
+  const saveAtom = useAIStore(state => state.saveAtom);
+  const loadAtomLibrary = useAIStore(state => state.loadAtomLibrary);
 
   // Load composition data
   const loadComposition = useCallback(async (id: string) => {
@@ -136,7 +223,14 @@ export const useAtomComposition = (compositionId?: string): UseAtomCompositionRe
           name: 'Age Range 18-34',
           type: 'demographic',
           category: 'Age Groups',
-          data: { minAge: 18, maxAge: 34 },
+          data: {
+            minAge: 18,
+            maxAge: 34,
+            logic: {
+              operator: 'AND',
+              conditions: [{ field: 'demographics.age', operator: 'between', value: [18, 34], dataType: 'number' }]
+            }
+          },
           accuracy: 95,
           usage: 2340,
           description: 'Users between 18 and 34 years old',
@@ -148,7 +242,14 @@ export const useAtomComposition = (compositionId?: string): UseAtomCompositionRe
           name: 'Urban Residents',
           type: 'demographic',
           category: 'Geography',
-          data: { locationType: 'urban', population: '>50000' },
+          data: {
+            locationType: 'urban',
+            population: '>50000',
+            logic: {
+              operator: 'AND',
+              conditions: [{ field: 'demographics.location.city', operator: 'is_set', value: null, dataType: 'string' }]
+            }
+          },
           accuracy: 88,
           usage: 1890,
           description: 'Users living in urban areas',
@@ -159,7 +260,13 @@ export const useAtomComposition = (compositionId?: string): UseAtomCompositionRe
           name: 'High Purchase Frequency',
           type: 'behavioral',
           category: 'Purchase Behavior',
-          data: { minPurchasesPerMonth: 5 },
+          data: {
+            minPurchasesPerMonth: 5,
+            logic: {
+              operator: 'AND',
+              conditions: [{ field: 'behavioral.totalPurchases', operator: 'greater_than_or_equal', value: 5, dataType: 'number' }]
+            }
+          },
           accuracy: 92,
           usage: 3210,
           description: 'Users who purchase frequently',
@@ -171,7 +278,14 @@ export const useAtomComposition = (compositionId?: string): UseAtomCompositionRe
           name: 'High LTV Customers',
           type: 'transactional',
           category: 'Customer Value',
-          data: { minLifetimeValue: 1000, currency: 'USD' },
+          data: {
+            minLifetimeValue: 1000,
+            currency: 'USD',
+            logic: {
+              operator: 'AND',
+              conditions: [{ field: 'behavioral.lifetimeValue', operator: 'greater_than_or_equal', value: 1000, dataType: 'number' }]
+            }
+          },
           accuracy: 96,
           usage: 1567,
           description: 'Customers with high lifetime value',
@@ -183,7 +297,14 @@ export const useAtomComposition = (compositionId?: string): UseAtomCompositionRe
           name: 'Weekend Shoppers',
           type: 'contextual',
           category: 'Shopping Patterns',
-          data: { preferredDays: ['saturday', 'sunday'], timeframe: 'weekend' },
+          data: {
+            preferredDays: ['saturday', 'sunday'],
+            timeframe: 'weekend',
+            logic: {
+              operator: 'AND',
+              conditions: [{ field: 'is_weekend', operator: 'is_true', value: true, dataType: 'boolean' }]
+            }
+          },
           accuracy: 82,
           usage: 2340,
           description: 'Users who shop primarily on weekends',
@@ -221,37 +342,67 @@ export const useAtomComposition = (compositionId?: string): UseAtomCompositionRe
         version: comp.version + (comp.id in mockCompositions ? 1 : 0)
       };
       
+      // Register it in the atom library, which rejects unknown atoms and dependency cycles
+      saveAtom(compositionToAtom(updatedComp), updatedComp.rules);
+      
       // Save to mock storage
       mockCompositions[comp.id] = updatedComp;
       setComposition(updatedComp);
       
       return updatedComp;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to save composition';
-      setError(errorMessage);
-      throw new Error(errorMessage);
+      // The composer shows save failures; the hook's error is for failing to load
+      throw new Error(err instanceof Error ? err.message : 'Failed to save composition');
     } finally {
       setIsLoading(false);
     }
+  }, [saveAtom]);
+
+  // Upload a customer snapshot to backtest against
+  const uploadSnapshot = useCallback(async (file: File): Promise<CustomerSnapshot> => {
+    const format = file.name.toLowerCase().endsWith('.json') ? 'json' : file.name.toLowerCase().endsWith('.csv') ? 'csv' : undefined;
+    const snapshot = parseCustomerSnapshot(await file.text(), file.name, format);
+    
+    setSnapshots(prev => [...prev, snapshot]);
+    setSelectedSnapshotId(snapshot.id);
+    
+    return snapshot;
   }, []);
 
-  // Test composition
-  const testComposition = useCallback(async (comp: AtomComposition): Promise<any> => {
-    await mockDelay(2000); // Simulate longer test time
+  // Test composition against the selected snapshot
+  const testComposition = useCallback(async (comp: AtomComposition): Promise<CompositionTestResults> => {
+    const snapshot = snapshots.find(candidate => candidate.id === selectedSnapshotId);
+    if (!snapshot) {
+      throw new Error('Select or upload a customer snapshot to test against');
+    }
     
-    // Mock test results
-    const testResults = {
-      accuracy: Math.floor(Math.random() * 20) + 80, // 80-100%
-      coverage: Math.floor(Math.random() * 30) + 60, // 60-90%
-      performance: Math.floor(Math.random() * 100) + 50, // 50-150ms
-      sample_size: Math.floor(Math.random() * 10000) + 5000,
-      test_date: new Date().toISOString(),
-      errors: [],
-      warnings: comp.atoms.length > 10 ? ['Large number of atoms may impact performance'] : []
+    // Palette atoms with eligibility logic resolve referenced nodes and count as saved atoms for overlap
+    const libraryAtoms = (availableAtoms || []).filter(atom => atom.data?.logic);
+    const resolveAtom = (atomId: string) => {
+      const template = libraryAtoms.find(atom => atom.id === atomId);
+      return template ? templateToAtom(template) : undefined;
     };
+    const savedAtoms = libraryAtoms.map(atom => ({ id: atom.id, name: atom.name, data: atom.data }));
     
-    return testResults;
-  }, []);
+    const backtest = backtestComposition(comp, snapshot, { resolveAtom, savedAtoms });
+    const warnings = [...backtest.warnings];
+    if (comp.atoms.length > 10) {
+      warnings.push('Large number of atoms may impact performance');
+    }
+    
+    return {
+      accuracy: toPercent(backtest.metrics.accuracy),
+      coverage: toPercent(backtest.metrics.coverage),
+      precision: toPercent(backtest.metrics.precision),
+      recall: toPercent(backtest.metrics.recall),
+      performance: Math.round(backtest.avgEvaluationMs * 1000) / 1000,
+      sample_size: backtest.metrics.sampleSize,
+      test_date: backtest.testedAt.toISOString(),
+      errors: [],
+      warnings,
+      backtest
+    };
+  }, [availableAtoms, snapshots, selectedSnapshotId]);
 
   // Deploy composition
   const deployComposition = useCallback(async (comp: AtomComposition): Promise<void> => {
@@ -352,6 +503,17 @@ export const useAtomComposition = (compositionId?: string): UseAtomCompositionRe
     }
   }, [compositionId, loadComposition]);
 
+  // Saved compositions depend on the palette atoms, so they make up the atom library
+  useEffect(() => {
+    if (!availableAtoms || !isAIInitialized) return;
+    
+    try {
+      loadAtomLibrary(availableAtoms.filter(atom => atom.data?.logic).map(templateToAtom));
+    } catch (err) {
+      console.error('Failed to load atom library:', err);
+    }
+  }, [availableAtoms, isAIInitialized, loadAtomLibrary]);
+
   // Load data on mount
   useEffect(() => {
     loadAvailableAtoms();
@@ -385,8 +547,12 @@ export const useAtomComposition = (compositionId?: string): UseAtomCompositionRe
   return {
     composition,
     availableAtoms,
+    snapshots,
+    selectedSnapshotId,
     isLoading,
     error,
+    uploadSnapshot,
+    selectSnapshot: setSelectedSnapshotId,
     saveComposition,
     testComposition,
     deployComposition,
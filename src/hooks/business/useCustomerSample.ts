@@ -0,0 +1,81 @@
+// src/hooks/business/useCustomerSample.ts
+
+import { useState, useCallback, useEffect } from 'react';
+import { hadesCustomerApi, HadesCustomer } from '../../services/api/customers';
+import { useAuthStore } from '../../stores/auth/authStore';
+import { CustomerContext } from '../../types/ai';
+
+// Large enough that audience estimates use the overlap sketches rather than the whole sample
+const DEFAULT_SAMPLE_SIZE = 5000;
+
+interface UseCustomerSampleReturn {
+  customers: CustomerContext[];
+  populationSize: number;
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+// HADES holds customer profiles only. Fields it has no data for are left unset rather than
+// defaulted, so audience estimates can tell unknown data apart from a real zero
+const toCustomerContext = (customer: HadesCustomer, tenantId: string): CustomerContext => ({
+  customerId: customer.id,
+  tenantId,
+  demographics: {
+    age: customer.age,
+    segment: customer.tier?.toLowerCase()
+  },
+  behavioral: {
+    lifetimeValue: customer.totalValue
+  } as CustomerContext['behavioral'],
+  contextual: {
+    currentTime: new Date()
+  } as CustomerContext['contextual'],
+  preferences: {} as CustomerContext['preferences']
+});
+
+/**
+ * A sample of the customer base and its total size, for estimating audience reach
+ */
+export const useCustomerSample = (sampleSize: number = DEFAULT_SAMPLE_SIZE): UseCustomerSampleReturn => {
+  const [customers, setCustomers] = useState<CustomerContext[]>([]);
+  const [populationSize, setPopulationSize] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const tenantId = useAuthStore(state => state.user?.tenantId) || 'default';
+
+  const loadSample = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      const [customersResponse, analyticsResponse] = await Promise.all([
+        hadesCustomerApi.getCustomers({ size: sampleSize }),
+        hadesCustomerApi.getCustomerAnalytics()
+      ]);
+      
+      const sample = customersResponse.data.map(customer => toCustomerContext(customer, tenantId));
+      setCustomers(sample);
+      setPopulationSize(Math.max(analyticsResponse.data.totalCustomers, sample.length));
+    } catch (err) {
+      console.error('[useCustomerSample] Failed to load customer sample:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load customer sample');
+      setCustomers([]);
+      setPopulationSize(0);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sampleSize, tenantId]);
+
+  useEffect(() => {
+    loadSample();
+  }, [loadSample]);
+
+  return {
+    customers,
+    populationSize,
+    isLoading,
+    error,
+    refresh: loadSample
+  };
+};
\ No newline at end of file
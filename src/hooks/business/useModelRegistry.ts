@@ -3,6 +3,7 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useAIStore } from '../../stores/business/aiStore';
 import { MLModel, ModelPerformanceMetrics } from '../../types/ai';
+import { buildLineageTree } from '../../services/ai/ModelRegistry';
 
 export const useModelRegistry = () => {
   const [selectedModelDetails, setSelectedModelDetails] = useState<MLModel | null>(null);
@@ -11,10 +12,13 @@ export const useModelRegistry = () => {
   
   const {
     models,
+    modelFamilies,
     selectedModel,
     setSelectedModel,
     deployModel,
     updateModelStatus,
+    promoteModel,
+    rollbackModel,
     getModelPerformance,
     performanceMetrics,
     isInitialized,
@@ -51,6 +55,38 @@ export const useModelRegistry = () => {
     }
   }, [updateModelStatus]);
 
+  /**
+   * Promote a model version to its next stage
+   */
+  const handlePromoteModel = useCallback(async (modelId: string, reason?: string) => {
+    setIsDeploying(true);
+    try {
+      await promoteModel(modelId, reason);
+    } finally {
+      setIsDeploying(false);
+    }
+  }, [promoteModel]);
+
+  /**
+   * Restore a prior version of a model family to production
+   */
+  const handleRollbackModel = useCallback(async (familyId: string, targetVersion: string) => {
+    setIsDeploying(true);
+    try {
+      await rollbackModel(familyId, targetVersion);
+    } finally {
+      setIsDeploying(false);
+    }
+  }, [rollbackModel]);
+
+  /**
+   * Get a model family's versions arranged as a lineage tree
+   */
+  const getLineageTree = useCallback((familyId: string) => {
+    const family = modelFamilies.find(f => f.id === familyId);
+    return family ? buildLineageTree(family.versions) : [];
+  }, [modelFamilies]);
+
   /**
    * Select a model and load its details
    */
@@ -200,6 +236,7 @@ export const useModelRegistry = () => {
   return {
     // Core data
     models,
+    modelFamilies,
     selectedModel,
     selectedModelDetails,
     modelPerformance,
@@ -208,9 +245,12 @@ export const useModelRegistry = () => {
     selectModel,
     deployModel: handleDeployModel,
     updateModelStatus: handleUpdateModelStatus,
+    promoteModel: handlePromoteModel,
+    rollbackModel: handleRollbackModel,
     
     // Queries
     getModelsByStatus,
+    getLineageTree,
     getModelsByPurpose,
     getModelStats,
     getSelectedModelPerformance,
@@ -397,7 +437,7 @@ export const useExperimentation = () => {
       type: 'ab_test',
       startDate: new Date(),
       targetAudience: {
-        criteria: 'all_active_users',
+        criteria: '', // match all customers
         size: 10000,
         allocation: variants.reduce((acc, variant) => {
           acc[variant.id] = variant.allocation;
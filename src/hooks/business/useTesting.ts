@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import type { ExperimentConfig } from '../../components/business/testing/ExperimentDesigner/ExperimentBuilder';
+import { useAIStore } from '../../stores/business/aiStore';
 
 // Mock data for testing (replace with real API calls)
 const MOCK_EXPERIMENTS: ExperimentConfig[] = [
@@ -235,6 +236,7 @@ export const useTestingData = (): UseTestingData => {
   const [experiments, setExperiments] = useState<ExperimentConfig[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const saveExperimentDesign = useAIStore(state => state.saveExperimentDesign);
 
   // Simulate API loading
   useEffect(() => {
@@ -262,9 +264,6 @@ export const useTestingData = (): UseTestingData => {
     try {
       setIsLoading(true);
       
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
       const newExperiment = {
         ...experiment,
         id: `exp_${Date.now()}`,
@@ -272,6 +271,9 @@ export const useTestingData = (): UseTestingData => {
         updatedAt: new Date()
       };
       
+      // The engine runs what the designer configured: audience, layer and statistical tests
+      await saveExperimentDesign(newExperiment);
+      
       setExperiments(prev => [...prev, newExperiment]);
     } catch (err) {
       setError('Failed to create experiment');
@@ -279,20 +281,19 @@ export const useTestingData = (): UseTestingData => {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [saveExperimentDesign]);
 
   const updateExperiment = useCallback(async (experiment: ExperimentConfig) => {
     try {
       setIsLoading(true);
       
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
       const updatedExperiment = {
         ...experiment,
         updatedAt: new Date()
       };
       
+      await saveExperimentDesign(updatedExperiment);
+      
       setExperiments(prev => 
         prev.map(exp => exp.id === experiment.id ? updatedExperiment : exp)
       );
@@ -302,7 +303,7 @@ export const useTestingData = (): UseTestingData => {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [saveExperimentDesign]);
 
   const deleteExperiment = useCallback(async (experimentId: string) => {
     try {
@@ -9,8 +9,10 @@ import { Badge } from '@/components/ui/Badge';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import { LineChart, BarChart } from '@/components/ui/Charts';
 import { useAIDecisions } from '@/hooks/business/useAIDecisions';
+import { useModelRegistry } from '@/hooks/business/useModelRegistry';
 import { ROUTES } from '@/constants/routes';
 import { useNavigate } from 'react-router-dom';
+import { ModelLineageNode, ModelStage } from '@/types/ai';
 
 interface DecisionRule {
   id: string;
@@ -64,6 +66,7 @@ const DecisionEnginePage: React.FC = () => {
   const [performanceData, setPerformanceData] = useState<any[]>([]);
   const [selectedTimeRange, setSelectedTimeRange] = useState('1h');
   const decisionsRef = useRef<HTMLDivElement>(null);
+  const { modelFamilies, getLineageTree, promoteModel, rollbackModel, isDeploying } = useModelRegistry();
 
   // Simulate real-time updates
   useEffect(() => {
@@ -218,6 +221,55 @@ const DecisionEnginePage: React.FC = () => {
     );
   };
 
+  const getStageBadge = (stage: ModelStage) => {
+    const stageColors: Record<ModelStage, string> = {
+      'production': 'bg-green-100 text-green-800',
+      'staging': 'bg-blue-100 text-blue-800',
+      'development': 'bg-yellow-100 text-yellow-800',
+      'archived': 'bg-gray-100 text-gray-800'
+    };
+    return (
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${stageColors[stage]}`}>
+        {stage.charAt(0).toUpperCase() + stage.slice(1)}
+      </span>
+    );
+  };
+
+  const renderLineageNode = (node: ModelLineageNode, depth: number): React.ReactNode => {
+    const { version } = node;
+    return (
+      <div key={version.modelId}>
+        <div
+          className="flex items-center justify-between py-2 border-b border-gray-100"
+          style={{ paddingLeft: `${depth * 24}px` }}
+        >
+          <div className="flex items-center space-x-3 min-w-0">
+            <span className="text-gray-400">{depth > 0 ? '└' : '●'}</span>
+            <span className="text-sm font-medium text-gray-900">v{version.version}</span>
+            {getStageBadge(version.stage)}
+            <span className="text-xs text-gray-500 truncate">
+              {version.features.length} features · trained on {new Date(version.trainingData.start).toLocaleDateString()}–{new Date(version.trainingData.end).toLocaleDateString()}
+              {version.metrics.accuracy !== undefined && ` · accuracy ${(version.metrics.accuracy * 100).toFixed(1)}%`}
+            </span>
+          </div>
+          <div className="flex items-center space-x-2">
+            {(version.stage === 'development' || version.stage === 'staging') && (
+              <Button size="sm" variant="outline" disabled={isDeploying} onClick={() => promoteModel(version.modelId)}>
+                Promote
+              </Button>
+            )}
+            {version.stage === 'archived' && (
+              <Button size="sm" variant="outline" disabled={isDeploying} onClick={() => rollbackModel(version.familyId, version.version)}>
+                Roll back
+              </Button>
+            )}
+          </div>
+        </div>
+        {node.children.map(child => renderLineageNode(child, depth + 1))}
+      </div>
+    );
+  };
+
   const getAlertIcon = (type: string) => {
     const iconMap: Record<string, string> = {
       'warning': '⚠️',
@@ -522,6 +574,35 @@ const DecisionEnginePage: React.FC = () => {
           </Card>
         </div>
 
+        {/* Model Lineage */}
+        <Card className="bg-white border-0 shadow-sm">
+          <CardHeader className="border-b border-gray-200 pb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Model Lineage</h2>
+            <p className="text-gray-600">Version history and deployment stage of each model family</p>
+          </CardHeader>
+          <CardBody className="p-4">
+            {modelFamilies.length === 0 ? (
+              <div className="p-6 text-center text-gray-500">
+                No model families registered
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {modelFamilies.map(family => (
+                  <div key={family.id}>
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="text-sm font-semibold text-gray-900">{family.name}</h3>
+                      <span className="text-xs text-gray-500">
+                        {family.productionVersion ? `v${family.productionVersion} in production` : 'Not in production'}
+                      </span>
+                    </div>
+                    {getLineageTree(family.id).map(node => renderLineageNode(node, 0))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardBody>
+        </Card>
+
         {/* Alerts and System Status */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           
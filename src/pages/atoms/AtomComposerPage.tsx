@@ -23,8 +23,12 @@ export const AtomComposerPage: React.FC = () => {
   const {
     composition,
     availableAtoms,
+    snapshots,
+    selectedSnapshotId,
     isLoading,
     error,
+    uploadSnapshot,
+    selectSnapshot,
     saveComposition,
     testComposition,
     deployComposition,
@@ -368,6 +372,10 @@ export const AtomComposerPage: React.FC = () => {
             onSave={handleSave}
             onTest={handleTest}
             onDeploy={handleDeploy}
+            snapshots={snapshots}
+            selectedSnapshotId={selectedSnapshotId}
+            onSnapshotSelect={selectSnapshot}
+            onSnapshotUpload={uploadSnapshot}
             readOnly={false}
           />
         </motion.div>
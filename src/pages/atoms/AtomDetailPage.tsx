@@ -28,6 +28,11 @@ import { Input } from '@/components/ui/Input';
 import { TextArea } from '@/components/ui/Input';
 import { Modal } from '@/components/ui/Modal';
 import { useAtomComposition } from '@/hooks/business/useAtomComposition';
+import { useAIStore } from '@/stores/business/aiStore';
+import { AtomImpactPanel } from '@/components/business/atoms/AtomImpactPanel';
+import { useAuth } from '@/hooks/auth/useAuth';
+import type { AtomVersionStore } from '@/services/ai/AtomVersioning';
+import type { AtomImpactAction, AtomImpactReport, AtomLogic, AtomType, AtomVersion, Campaign, EligibilityAtom, Moment } from '@/types/api/atoms';
 import { ROUTES } from '@/constants/routes';
 
 interface AtomRule {
@@ -38,15 +43,6 @@ interface AtomRule {
   logicOperator?: 'AND' | 'OR';
 }
 
-interface AtomVersion {
-  id: string;
-  version: string;
-  createdAt: string;
-  createdBy: string;
-  changes: string;
-  isActive: boolean;
-}
-
 interface AtomDetail {
   id: string;
   name: string;
@@ -69,9 +65,40 @@ interface AtomDetail {
     version: string;
     tags: string[];
   };
-  versions: AtomVersion[];
 }
 
+const toAtomLogic = (rules: AtomRule[]): AtomLogic => ({
+  operator: rules[0]?.logicOperator || 'AND',
+  conditions: rules.map(rule => ({
+    field: rule.field,
+    operator: rule.operator,
+    value: rule.value,
+    dataType: typeof rule.value === 'number' ? 'number' : 'string'
+  }))
+});
+
+const LIBRARY_ATOM_TYPES: Record<AtomDetail['type'], AtomType> = {
+  demographic: 'demographic',
+  behavioral: 'behavioral',
+  transactional: 'behavioral',
+  contextual: 'technical'
+};
+
+const toEligibilityAtom = (atom: AtomDetail): EligibilityAtom => ({
+  id: atom.id,
+  name: atom.name,
+  description: atom.description,
+  type: LIBRARY_ATOM_TYPES[atom.type],
+  status: atom.status === 'testing' ? 'draft' : atom.status,
+  version: Number.parseInt(atom.metadata.version, 10) || 1,
+  category: atom.category,
+  createdAt: new Date(atom.metadata.createdAt),
+  updatedAt: new Date(atom.metadata.lastModified),
+  createdBy: atom.metadata.createdBy,
+  logic: toAtomLogic(atom.rules),
+  tags: atom.metadata.tags
+});
+
 export const AtomDetailPage: React.FC = () => {
   const { atomId } = useParams<{ atomId: string }>();
   const navigate = useNavigate();
@@ -82,6 +109,16 @@ export const AtomDetailPage: React.FC = () => {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [showVersionModal, setShowVersionModal] = useState(false);
   const [activeTab, setActiveTab] = useState<'overview' | 'rules' | 'performance' | 'versions'>('overview');
+  const [consumers, setConsumers] = useState<{ moments: Moment[]; campaigns: Campaign[] }>({ moments: [], campaigns: [] });
+  const [impactReport, setImpactReport] = useState<AtomImpactReport | null>(null);
+  const [impactError, setImpactError] = useState<string | null>(null);
+  const [showDeactivateModal, setShowDeactivateModal] = useState(false);
+  const [statusError, setStatusError] = useState<string | null>(null);
+  const { isInitialized, atomVersionStore: versionStore, analyzeAtomImpact, saveAtom, loadAtomLibrary } = useAIStore();
+  const { user } = useAuth();
+  const [versions, setVersions] = useState<AtomVersion[]>([]);
+  const [versionError, setVersionError] = useState<string | null>(null);
+  const currentUser = user ? `${user.firstName} ${user.lastName}` : 'Current User';
 
   // Mock data - in real app, fetch from API
   useEffect(() => {
@@ -114,38 +151,56 @@ export const AtomDetailPage: React.FC = () => {
             createdBy: 'Sarah Johnson',
             lastModified: '2024-01-22T14:15:00Z',
             modifiedBy: 'Mike Chen',
-            version: '2.1',
+            version: '1.2.0',
             tags: ['high-value', 'segmentation', 'revenue']
           },
-          versions: [
-            {
-              id: '1',
-              version: '2.1',
-              createdAt: '2024-01-22T14:15:00Z',
-              createdBy: 'Mike Chen',
-              changes: 'Updated lifetime value threshold from $3,000 to $5,000',
-              isActive: true
-            },
+        };
+        
+        setAtom(mockAtom);
+
+        // Mock moments and campaigns that target this atom
+        setConsumers({
+          moments: [
             {
-              id: '2',
-              version: '2.0',
-              createdAt: '2024-01-18T09:20:00Z',
+              id: 'moment-1',
+              name: 'VIP Welcome Back',
+              status: 'active',
+              channels: ['email'],
+              eligibilityAtoms: [mockAtom.id],
+              atomVersions: { [mockAtom.id]: '1.1.0' },
+              isPersonalized: true,
+              createdAt: new Date('2024-01-16'),
+              updatedAt: new Date('2024-01-20'),
               createdBy: 'Sarah Johnson',
-              changes: 'Added purchase frequency condition',
-              isActive: false
+              campaignId: 'campaign-1',
+              version: 3
             },
             {
-              id: '3',
-              version: '1.0',
-              createdAt: '2024-01-15T10:30:00Z',
-              createdBy: 'Sarah Johnson',
-              changes: 'Initial creation',
-              isActive: false
+              id: 'moment-2',
+              name: 'Premium Upsell Draft',
+              status: 'draft',
+              channels: ['push', 'inapp'],
+              eligibilityAtoms: [mockAtom.id],
+              isPersonalized: false,
+              createdAt: new Date('2024-01-21'),
+              updatedAt: new Date('2024-01-21'),
+              createdBy: 'Mike Chen',
+              version: 1
+            }
+          ],
+          campaigns: [
+            {
+              id: 'campaign-1',
+              name: 'Q1 Loyalty Push',
+              status: 'active',
+              startDate: new Date('2024-01-15'),
+              endDate: new Date('2024-03-31'),
+              createdAt: new Date('2024-01-10'),
+              updatedAt: new Date('2024-01-15'),
+              createdBy: 'Sarah Johnson'
             }
           ]
-        };
-        
-        setAtom(mockAtom);
+        });
       } catch (error) {
         console.error('Failed to fetch atom details:', error);
       } finally {
@@ -158,14 +213,128 @@ export const AtomDetailPage: React.FC = () => {
     }
   }, [atomId]);
 
+  // Versions live in the shared store, so history, approvals and pins outlast this page
+  useEffect(() => {
+    if (!atom || !versionStore) return;
+    
+    // Mock version history: initial rules, then frequency added, then the threshold raised
+    if (versionStore.getVersions(atom.id).length === 0) {
+      const [lifetimeValue, recency, frequency] = atom.rules;
+      [
+        { rules: [{ ...lifetimeValue, value: 3000 }, recency], author: 'Sarah Johnson', reviewer: 'Mike Chen', summary: 'Initial creation' },
+        { rules: [{ ...lifetimeValue, value: 3000 }, recency, frequency], author: 'Sarah Johnson', reviewer: 'Mike Chen', summary: 'Added purchase frequency condition' },
+        { rules: atom.rules, author: 'Mike Chen', reviewer: 'Sarah Johnson', summary: 'Updated lifetime value threshold from $3,000 to $5,000' }
+      ].forEach(({ rules, author, reviewer, summary }) => {
+        const draft = versionStore.createDraft(
+          { id: atom.id, name: atom.name, description: atom.description, logic: toAtomLogic(rules) },
+          author,
+          summary
+        );
+        versionStore.submitForReview(draft.id);
+        versionStore.approve(draft.id, reviewer);
+      });
+    }
+    setVersions(versionStore.getVersions(atom.id));
+  }, [atom, versionStore]);
+
+  // Impact analysis walks the atom library, so it needs this atom and the atoms built on it
+  useEffect(() => {
+    if (!atom || !isInitialized) return;
+    
+    try {
+      // Mock dependent atom - in real app, the library comes from the API
+      loadAtomLibrary([
+        toEligibilityAtom(atom),
+        {
+          id: `${atom.id}-lapsing`,
+          name: `Lapsing ${atom.name}`,
+          description: `${atom.name} customers with no purchase in 60 days`,
+          type: 'behavioral',
+          status: 'active',
+          version: 1,
+          createdAt: new Date('2024-01-18'),
+          updatedAt: new Date('2024-01-18'),
+          createdBy: 'Mike Chen',
+          logic: {
+            operator: 'AND',
+            conditions: [{ field: 'last_purchase_days', operator: '>', value: 60, dataType: 'number' }]
+          },
+          dependencies: [atom.id]
+        }
+      ]);
+    } catch (error) {
+      console.error('Failed to load atom library:', error);
+    }
+  }, [atom, isInitialized, loadAtomLibrary]);
+
+  const reviewImpact = (action: AtomImpactAction) => {
+    if (!atom) return;
+    
+    try {
+      setImpactReport(analyzeAtomImpact(atom.id, action, consumers));
+      setImpactError(null);
+    } catch (error) {
+      setImpactReport(null);
+      setImpactError(error instanceof Error ? error.message : 'Failed to analyze impact');
+    }
+  };
+
+  const runVersionAction = (action: (current: AtomDetail, store: AtomVersionStore) => void) => {
+    if (!atom || !versionStore) return;
+    
+    try {
+      action(atom, versionStore);
+      setVersionError(null);
+    } catch (error) {
+      setVersionError(error instanceof Error ? error.message : 'Failed to update version');
+    }
+    
+    const published = versionStore.getLatestApproved(atom.id);
+    if (published && published.version !== atom.metadata.version) {
+      setAtom({ ...atom, metadata: { ...atom.metadata, version: published.version } });
+    }
+    setVersions(versionStore.getVersions(atom.id));
+  };
+
+  const handleCreateDraft = () => runVersionAction((current, store) => {
+    store.createDraft(
+      { id: current.id, name: current.name, description: current.description, logic: toAtomLogic(current.rules) },
+      currentUser
+    );
+  });
+
+  const handleSubmitVersion = (versionId: string) => runVersionAction((_, store) => {
+    store.submitForReview(versionId, consumers);
+  });
+
+  const handleApproveVersion = (versionId: string) => runVersionAction((_, store) => {
+    store.approve(versionId, currentUser);
+  });
+
+  const handleRejectVersion = (versionId: string) => runVersionAction((_, store) => {
+    store.reject(versionId, currentUser, 'Changes requested');
+  });
+
   const handleStatusToggle = async () => {
     if (!atom) return;
     
+    // Show what breaks before taking a live atom out of service
+    if (atom.status === 'active' && !showDeactivateModal) {
+      reviewImpact('deactivate');
+      setShowDeactivateModal(true);
+      return;
+    }
+    setShowDeactivateModal(false);
+    
     const newStatus = atom.status === 'active' ? 'inactive' : 'active';
+    try {
+      saveAtom({ ...toEligibilityAtom(atom), status: newStatus });
+      setStatusError(null);
+    } catch (error) {
+      setStatusError(error instanceof Error ? error.message : 'Failed to update atom status');
+      return;
+    }
     setAtom({ ...atom, status: newStatus });
-    
-    // In real app, call API to update status
-    console.log(`Toggling atom status to: ${newStatus}`);
   };
 
   const handleTestAtom = async () => {
@@ -322,6 +491,8 @@ export const AtomDetailPage: React.FC = () => {
             </div>
           </div>
 
+          {statusError && <p className="text-sm text-red-600 -mt-2 mb-4">{statusError}</p>}
+
           {/* Tabs */}
           <div className="flex space-x-8">
             {[
@@ -486,7 +657,10 @@ export const AtomDetailPage: React.FC = () => {
                   <Button
                     variant="danger"
                     className="w-full justify-start"
-                    onClick={() => setShowDeleteModal(true)}
+                    onClick={() => {
+                      reviewImpact('delete');
+                      setShowDeleteModal(true);
+                    }}
                   >
                     <TrashIcon className="h-4 w-4 mr-3" />
                     Delete Atom
@@ -578,40 +752,118 @@ export const AtomDetailPage: React.FC = () => {
         {activeTab === 'versions' && (
           <Card>
             <CardHeader>
-              <h3 className="text-lg font-semibold">Version History</h3>
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold">Version History</h3>
+                <Button variant="secondary" onClick={handleCreateDraft}>
+                  <DocumentDuplicateIcon className="h-4 w-4 mr-2" />
+                  New Draft
+                </Button>
+              </div>
+              {versionError && <p className="text-sm text-red-600 mt-2">{versionError}</p>}
             </CardHeader>
             <CardBody>
               <div className="space-y-4">
-                {atom.versions.map((version) => (
-                  <div
-                    key={version.id}
-                    className={`border rounded-lg p-4 ${
-                      version.isActive ? 'border-blue-200 bg-blue-50' : 'border-gray-200'
-                    }`}
-                  >
-                    <div className="flex items-center justify-between mb-2">
-                      <div className="flex items-center space-x-3">
-                        <Badge variant={version.isActive ? 'primary' : 'secondary'}>
-                          v{version.version}
-                        </Badge>
-                        {version.isActive && (
-                          <Badge variant="green">
-                            <CheckCircleIcon className="h-3 w-3 mr-1" />
-                            Active
+                {versions.map((version) => {
+                  const isLive = version.version === atom.metadata.version && version.status === 'approved';
+                  const approvals = version.reviews.filter(review => review.decision === 'approved').length;
+                  const pinnedBy = consumers.moments.filter(moment => moment.atomVersions?.[atom.id] === version.version);
+
+                  return (
+                    <div
+                      key={version.id}
+                      className={`border rounded-lg p-4 ${
+                        isLive ? 'border-blue-200 bg-blue-50' : 'border-gray-200'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between mb-2">
+                        <div className="flex items-center space-x-3">
+                          <Badge variant={isLive ? 'primary' : 'secondary'}>
+                            v{version.version}
                           </Badge>
-                        )}
+                          <Badge
+                            variant={version.status === 'approved' ? 'success' : version.status === 'rejected' ? 'error' : 'warning'}
+                            className="capitalize"
+                          >
+                            {isLive && <CheckCircleIcon className="h-3 w-3 mr-1" />}
+                            {isLive ? 'Live' : version.status}
+                          </Badge>
+                          {version.status === 'review' && (
+                            <span className="text-sm text-gray-600">
+                              {approvals} of {version.requiredApprovals} approvals
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          {new Date(version.createdAt).toLocaleDateString()}
+                        </div>
                       </div>
-                      <div className="text-sm text-gray-500">
-                        {new Date(version.createdAt).toLocaleDateString()}
+
+                      {version.changeSummary && <p className="text-gray-900 mb-2">{version.changeSummary}</p>}
+
+                      {version.diff && (
+                        <ul className="text-sm font-mono space-y-0.5 mb-2">
+                          {version.diff.operatorChanged && (
+                            <li className="text-amber-700">
+                              ~ conditions joined by {version.diff.operatorChanged.after} instead of {version.diff.operatorChanged.before}
+                            </li>
+                          )}
+                          {version.diff.added.map((condition, index) => (
+                            <li key={`added-${index}`} className="text-green-700">
+                              + {condition.field} {condition.operator} {String(condition.value)}
+                            </li>
+                          ))}
+                          {version.diff.removed.map((condition, index) => (
+                            <li key={`removed-${index}`} className="text-red-700">
+                              − {condition.field} {condition.operator} {String(condition.value)}
+                            </li>
+                          ))}
+                          {version.diff.changed.map((change, index) => (
+                            <li key={`changed-${index}`} className="text-amber-700">
+                              ~ {change.before.field}: {change.before.operator} {String(change.before.value)} → {change.after.operator} {String(change.after.value)}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+
+                      <div className="flex items-center justify-between text-sm text-gray-600">
+                        <div className="flex items-center space-x-4">
+                          <span className="flex items-center">
+                            <UserIcon className="h-4 w-4 mr-1" />
+                            {version.createdBy}
+                          </span>
+                          {version.reviews.map(review => (
+                            <span key={review.by}>
+                              {review.decision === 'approved' ? 'Approved' : 'Rejected'} by {review.by}
+                            </span>
+                          ))}
+                          {pinnedBy.length > 0 && (
+                            <span>Pinned by {pinnedBy.map(moment => moment.name).join(', ')}</span>
+                          )}
+                        </div>
+
+                        <div className="flex items-center space-x-2">
+                          {version.status === 'draft' && (
+                            <Button size="sm" onClick={() => handleSubmitVersion(version.id)}>
+                              Submit for Review
+                            </Button>
+                          )}
+                          {version.status === 'review' && (
+                            <>
+                              <Button size="sm" variant="secondary" onClick={() => handleRejectVersion(version.id)}>
+                                <XCircleIcon className="h-4 w-4 mr-1" />
+                                Reject
+                              </Button>
+                              <Button size="sm" onClick={() => handleApproveVersion(version.id)}>
+                                <CheckCircleIcon className="h-4 w-4 mr-1" />
+                                Approve
+                              </Button>
+                            </>
+                          )}
+                        </div>
                       </div>
                     </div>
-                    <p className="text-gray-900 mb-2">{version.changes}</p>
-                    <div className="flex items-center text-sm text-gray-600">
-                      <UserIcon className="h-4 w-4 mr-1" />
-                      {version.createdBy}
-                    </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </CardBody>
           </Card>
@@ -631,12 +883,11 @@ export const AtomDetailPage: React.FC = () => {
               <p className="text-gray-900">
                 Are you sure you want to delete "{atom.name}"? This action cannot be undone.
               </p>
-              <p className="text-sm text-gray-600 mt-2">
-                This atom is currently being used in {atom.performance.usage} active moments.
-                Deleting it will affect those moments.
-              </p>
             </div>
           </div>
+
+          {impactReport && <AtomImpactPanel report={impactReport} />}
+          {impactError && <p className="text-sm text-red-600">{impactError}</p>}
           
           <div className="flex justify-end space-x-3 pt-4">
             <Button
@@ -654,6 +905,37 @@ export const AtomDetailPage: React.FC = () => {
           </div>
         </div>
       </Modal>
+
+      {/* Deactivate Confirmation Modal */}
+      <Modal
+        isOpen={showDeactivateModal}
+        onClose={() => setShowDeactivateModal(false)}
+        title="Deactivate Atom"
+      >
+        <div className="space-y-4">
+          <p className="text-gray-900">
+            Deactivated atoms stop matching customers wherever they are used.
+          </p>
+
+          {impactReport && <AtomImpactPanel report={impactReport} />}
+          {impactError && <p className="text-sm text-red-600">{impactError}</p>}
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <Button
+              variant="secondary"
+              onClick={() => setShowDeactivateModal(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleStatusToggle}
+            >
+              Deactivate Atom
+            </Button>
+          </div>
+        </div>
+      </Modal>
     </div>
   );
 };
\ No newline at end of file
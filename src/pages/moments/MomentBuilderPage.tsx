@@ -15,6 +15,7 @@ import { Button } from '../../components/ui/Button';
 import { Card } from '../../components/ui/Card';
 import { Modal } from '../../components/ui/Modal';
 import { MomentBuilder, MomentConfig } from '../../components/business/moments/MomentBuilder';
+import { useCustomerSample } from '../../hooks/business/useCustomerSample';
 
 const MomentBuilderPage: React.FC = () => {
   const { momentId } = useParams<{ momentId: string }>();
@@ -27,6 +28,7 @@ const MomentBuilderPage: React.FC = () => {
   const [showExitConfirm, setShowExitConfirm] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
   const [previewChannel, setPreviewChannel] = useState('email');
+  const { customers, populationSize } = useCustomerSample();
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
 
   // Mock available data
@@ -68,6 +70,54 @@ const MomentBuilderPage: React.FC = () => {
       accuracy: 99,
       usage: 1890,
       lastUpdated: '2024-01-18'
+    },
+    {
+      id: 'high_value_customer',
+      name: 'High Value Customer',
+      displayName: 'High Value Customer',
+      category: 'Purchase Behavior',
+      type: 'behavioral',
+      description: 'Lifetime value of $1,000 or more',
+      dataType: 'boolean',
+      accuracy: 97,
+      usage: 980,
+      lastUpdated: '2024-01-20',
+      logic: {
+        operator: 'AND',
+        conditions: [{ field: 'behavioral.lifetimeValue', operator: 'greater_than_or_equal', value: 1000, dataType: 'number' }]
+      }
+    },
+    {
+      id: 'mobile_user',
+      name: 'Mobile User',
+      displayName: 'Mobile User',
+      category: 'Context',
+      type: 'technical',
+      description: 'Currently browsing on a mobile device',
+      dataType: 'boolean',
+      accuracy: 99,
+      usage: 1430,
+      lastUpdated: '2024-01-19',
+      logic: {
+        operator: 'AND',
+        conditions: [{ field: 'contextual.deviceType', operator: 'equals', value: 'mobile', dataType: 'string' }]
+      }
+    },
+    {
+      id: 'churn_risk',
+      name: 'Churn Risk',
+      displayName: 'Churn Risk',
+      category: 'Predictive',
+      type: 'predictive',
+      description: 'Churn risk score of 0.7 or higher',
+      dataType: 'boolean',
+      accuracy: 88,
+      usage: 760,
+      lastUpdated: '2024-01-21',
+      logic: {
+        operator: 'AND',
+        conditions: [{ field: 'behavioral.churnRisk', operator: 'greater_than_or_equal', value: 0.7, dataType: 'number' }]
+      }
     }
   ];
 
@@ -333,6 +383,8 @@ const MomentBuilderPage: React.FC = () => {
             availableChannels={availableChannels}
             availableAtoms={availableAtoms}
             templates={templates}
+            customers={customers}
+            populationSize={populationSize}
             readOnly={false}
           />
         ) : (
@@ -14,6 +14,7 @@ import { Card, CardHeader, CardBody } from '../../components/ui/Card';
 import { TestDashboard } from '../../components/business/testing/TestManagement/TestDashboard';
 import { ExperimentBuilder } from '../../components/business/testing/ExperimentDesigner/ExperimentBuilder';
 import { useTestingData } from '../../hooks/business/useTesting';
+import { useCustomerSample } from '../../hooks/business/useCustomerSample';
 import type { ExperimentConfig } from '../../components/business/testing/ExperimentDesigner/ExperimentBuilder';
 
 type ViewMode = 'dashboard' | 'create' | 'edit' | 'results';
@@ -32,6 +33,7 @@ export const TestingPage: React.FC = () => {
     pauseExperiment,
     stopExperiment
   } = useTestingData();
+  const { customers, populationSize } = useCustomerSample();
 
   const handleCreateExperiment = useCallback(() => {
     setSelectedExperiment(null);
@@ -133,6 +135,8 @@ export const TestingPage: React.FC = () => {
               experiment={selectedExperiment || undefined}
               onSave={handleSaveExperiment}
               onCancel={handleCancelEdit}
+              customers={customers}
+              populationSize={populationSize}
             />
           </motion.div>
         )}
@@ -0,0 +1,188 @@
+// src/services/ai/AtomBacktest.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { AtomCondition, EligibilityAtom } from '../../types/api/atoms';
+import { backtestComposition, parseCustomerSnapshot } from './AtomBacktest';
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+const atom = (id: string, conditions: AtomCondition[]): EligibilityAtom => ({
+  id,
+  name: id,
+  type: 'behavioral',
+  status: 'active',
+  version: 1,
+  createdAt: NOW,
+  updatedAt: NOW,
+  createdBy: 'test',
+  logic: { operator: 'AND', conditions }
+});
+
+const atoms: { [id: string]: EligibilityAtom } = {
+  high_value: atom('high_value', [{ field: 'lifetime_value', operator: 'gte', value: 1000, dataType: 'number' }]),
+  buyer: atom('buyer', [{ field: 'total_purchases', operator: 'gt', value: 10, dataType: 'number' }])
+};
+const resolveAtom = (id: string) => atoms[id];
+
+// High value and frequent buyers; only c1 and c4 are both
+const SNAPSHOT = [
+  'customerId,behavioral.lifetimeValue,behavioral.totalPurchases,outcome',
+  'c1,1500,12,1',
+  'c2,1500,2,1',
+  'c3,200,12,0',
+  'c4,2000,20,0',
+  'c5,100,1,0',
+  'c6,100,1,1'
+].join('\n');
+
+const composition = {
+  atoms: [
+    { id: 'n1', name: 'High value', data: { atomId: 'high_value' } },
+    { id: 'n2', data: { atomId: 'buyer' } }
+  ],
+  connections: []
+};
+
+describe('parseCustomerSnapshot', () => {
+  it('reads CSV columns as dotted context paths', () => {
+    const csv = [
+      'customerId,behavioral.preferredChannels,contextual.currentTime,features.churn_score,demographics.location,label',
+      'c1,email;push,2024-06-01T00:00:00Z,0.4,"{""country"": ""US""}",true',
+      '',
+      ',,,,,0'
+    ].join('\r\n');
+    const snapshot = parseCustomerSnapshot(csv, 'June');
+
+    expect(snapshot.format).toBe('csv');
+    expect(snapshot.name).toBe('June');
+    const [first, second] = snapshot.rows;
+    expect(first.outcome).toBe(1);
+    expect(first.features).toEqual({ churn_score: 0.4 });
+    expect(first.context.customerId).toBe('c1');
+    expect(first.context.behavioral.preferredChannels).toEqual(['email', 'push']);
+    expect(first.context.contextual.currentTime).toEqual(NOW);
+    expect(first.context.demographics.location).toEqual({ country: 'US' });
+
+    // Rows without an id are numbered
+    expect(second.context.customerId).toBe('row_2');
+    expect(second.context.tenantId).toBe('default');
+    expect(second.outcome).toBe(0);
+  });
+
+  it('keeps commas, newlines and quotes inside quoted cells', () => {
+    const snapshot = parseCustomerSnapshot('customerId,demographics.segment,outcome\nc1,"Big, ""loyal""\nspenders",1', 'Quoted');
+    expect(snapshot.rows[0].context.demographics.segment).toBe('Big, "loyal"\nspenders');
+  });
+
+  it('reads JSON arrays and objects with a rows array', () => {
+    const rows = [
+      { context: { customerId: 'c1', behavioral: { lifetimeValue: 1500 } }, converted: false, 'features.churn_score': 0.2 },
+      { customerId: 'c2', 'behavioral.lastLoginDate': '2024-05-30T00:00:00Z', outcome: 3 }
+    ];
+    const snapshot = parseCustomerSnapshot(JSON.stringify({ rows }), 'JSON');
+
+    expect(snapshot.format).toBe('json');
+    expect(snapshot.rows.map(row => row.outcome)).toEqual([0, 3]);
+    expect(snapshot.rows[0].context.behavioral.lifetimeValue).toBe(1500);
+    expect(snapshot.rows[0].features).toEqual({ churn_score: 0.2 });
+    expect(snapshot.rows[1].context.behavioral.lastLoginDate).toEqual(new Date('2024-05-30T00:00:00Z'));
+    expect(parseCustomerSnapshot(JSON.stringify(rows), 'Array').rows).toHaveLength(2);
+  });
+
+  it('reports what is wrong with the file', () => {
+    expect(() => parseCustomerSnapshot('customerId,outcome\n', 'Empty')).toThrow('Invalid customer snapshot: no rows found');
+    expect(() => parseCustomerSnapshot('customerId,outcome\nc1', 'Short')).toThrow('row 1 has 1 cells, expected 2');
+    expect(() => parseCustomerSnapshot('customerId,outcome\nc1,', 'Blank')).toThrow('row 1 has no outcome');
+    expect(() => parseCustomerSnapshot('customerId,outcome\nc1,yes', 'Text')).toThrow('row 1 has a non-numeric outcome yes');
+    expect(() => parseCustomerSnapshot('customerId,outcome\n"c1,1', 'Open')).toThrow('a quoted cell is never closed');
+    expect(() => parseCustomerSnapshot('{"customers": []}', 'Keyed')).toThrow('JSON must be an array of rows or an object with a rows array');
+    expect(() => parseCustomerSnapshot('[1]', 'Scalar')).toThrow('row 1 is not an object');
+    expect(() => parseCustomerSnapshot('customerId,contextual.currentTime,outcome\nc1,someday,1', 'Date'))
+      .toThrow('row 1 has an invalid contextual.currentTime someday');
+  });
+});
+
+describe('backtestComposition', () => {
+  const snapshot = parseCustomerSnapshot(SNAPSHOT, 'June');
+
+  it('scores the composition against the outcomes', () => {
+    const result = backtestComposition(composition, snapshot, { resolveAtom, now: NOW });
+
+    expect(result.snapshotId).toBe(snapshot.id);
+    expect(result.metrics).toEqual({
+      sampleSize: 6,
+      matched: 2,
+      positives: 3,
+      truePositives: 1,
+      falsePositives: 1,
+      falseNegatives: 2,
+      trueNegatives: 2,
+      coverage: 2 / 6,
+      precision: 0.5,
+      recall: 1 / 3,
+      accuracy: 0.5,
+      f1: 0.4,
+      baseRate: 0.5,
+      lift: 1
+    });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('measures each node on its own and by taking it out', () => {
+    const [highValue, buyer] = backtestComposition(composition, snapshot, { resolveAtom, now: NOW }).contributions;
+
+    expect(highValue).toMatchObject({ nodeId: 'n1', atomId: 'high_value', label: 'High value', matchRate: 0.5 });
+    expect(highValue.precision).toBeCloseTo(2 / 3);
+    expect(highValue.lift).toBeCloseTo(4 / 3);
+    // Without it the buyers alone match c1, c3 and c4
+    expect(highValue.coverageDelta).toBeCloseTo(-1 / 6);
+    expect(highValue.precisionDelta).toBeCloseTo(1 / 6);
+    expect(highValue.recallDelta).toBeCloseTo(0);
+
+    expect(buyer).toMatchObject({ nodeId: 'n2', atomId: 'buyer', label: 'n2' });
+    expect(buyer.precision).toBeCloseTo(1 / 3);
+    expect(buyer.recallDelta).toBeCloseTo(1 / 3 - 2 / 3);
+  });
+
+  it('treats a composition without the node as matching everyone', () => {
+    const single = { atoms: [composition.atoms[1]], connections: [] };
+    const [buyer] = backtestComposition(single, snapshot, { resolveAtom, now: NOW }).contributions;
+    expect(buyer.coverageDelta).toBeCloseTo(0.5 - 1);
+  });
+
+  it('ranks saved atoms by how much their audience overlaps', () => {
+    const result = backtestComposition(composition, snapshot, {
+      resolveAtom,
+      now: NOW,
+      savedAtoms: [
+        { id: 'big_spenders', name: 'Big spenders', data: { logic: { operator: 'AND', conditions: [{ field: 'lifetime_value', operator: 'gte', value: 1800, dataType: 'number' }] } } },
+        { id: 'high_value' },
+        { id: 'missing' }
+      ]
+    });
+
+    expect(result.overlaps).toEqual([
+      { atomId: 'high_value', label: 'high_value', matched: 3, intersection: 2, jaccard: 2 / 3, shareOfAudience: 1 },
+      { atomId: 'big_spenders', label: 'Big spenders', matched: 1, intersection: 1, jaccard: 0.5, shareOfAudience: 0.5 }
+    ]);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toMatch(/^Skipped overlap with missing: .*unknown atom missing/);
+  });
+
+  it('warns when nothing matches or nothing converted', () => {
+    const quiet = parseCustomerSnapshot('customerId,behavioral.lifetimeValue,outcome\nc1,10,0\nc2,20,0', 'Quiet');
+    const result = backtestComposition(composition, quiet, { resolveAtom, now: NOW });
+
+    expect(result.metrics.precision).toBe(0);
+    expect(result.metrics.lift).toBe(0);
+    expect(result.warnings).toEqual([
+      'The snapshot has no positive outcomes, so precision and recall are zero',
+      'The composition matches no one in the snapshot'
+    ]);
+  });
+
+  it('rejects empty snapshots', () => {
+    expect(() => backtestComposition(composition, { ...snapshot, rows: [] }, { resolveAtom }))
+      .toThrow('Invalid customer snapshot: the snapshot has no rows');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,345 @@
+// src/services/ai/AtomBacktest.ts
+
+import { CustomerContext } from '../../types/ai';
+import {
+  AtomBacktestMetrics,
+  AtomBacktestResult,
+  AtomContribution,
+  AtomOverlap,
+  CustomerSnapshot,
+  CustomerSnapshotRow
+} from '../../types/api/atoms';
+import { AtomResolver, CompiledEligibility, CompositionGraph, EligibilityInput, compileComposition } from './EligibilityRules';
+
+export type CompositionNode = CompositionGraph['atoms'][number];
+
+export interface BacktestOptions {
+  resolveAtom?: AtomResolver;
+  savedAtoms?: CompositionNode[]; // atoms to measure audience overlap with
+  now?: Date; // reference time for relative dates; defaults to each row's contextual.currentTime
+}
+
+const OUTCOME_COLUMNS = ['outcome', 'label', 'converted'];
+const LIST_FIELDS = ['preferredChannels', 'contentTypes', 'topics', 'optedOutChannels'];
+const DATE_FIELDS: [section: 'behavioral' | 'contextual', field: string][] = [
+  ['behavioral', 'lastLoginDate'],
+  ['contextual', 'currentTime']
+];
+
+/**
+ * Read a customer snapshot from CSV or JSON. Columns (or keys) are dotted context paths such
+ * as `behavioral.lifetimeValue`, `features.<name>` for feature store values, and an
+ * `outcome` (or `label`, `converted`) column. JSON rows may instead nest the context under
+ * `context`. CSV cells holding JSON are decoded, and list fields may be `;` separated.
+ */
+export function parseCustomerSnapshot(text: string, name: string, format?: 'csv' | 'json'): CustomerSnapshot {
+  const resolvedFormat = format || (/^\s*[[{]/.test(text) ? 'json' : 'csv');
+  const records = resolvedFormat === 'json' ? parseJSONRecords(text) : parseCSVRecords(text);
+  if (records.length === 0) fail('no rows found');
+
+  return {
+    id: `snapshot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    format: resolvedFormat,
+    rows: records.map((record, index) => toSnapshotRow(record, index)),
+    loadedAt: new Date()
+  };
+}
+
+/**
+ * Run a composition over a snapshot and score it against the outcomes: coverage,
+ * precision and recall, what each node adds (by removing it and re-running), and how much
+ * of the audience each saved atom also matches.
+ */
+export function backtestComposition(
+  composition: CompositionGraph,
+  snapshot: CustomerSnapshot,
+  options: BacktestOptions = {}
+): AtomBacktestResult {
+  if (snapshot.rows.length === 0) fail('the snapshot has no rows');
+
+  const resolveAtom = options.resolveAtom || (() => undefined);
+  const inputs: EligibilityInput[] = snapshot.rows.map(row => ({
+    context: row.context,
+    features: row.features,
+    now: options.now || row.context.contextual?.currentTime
+  }));
+  const outcomes = snapshot.rows.map(row => row.outcome > 0);
+  const warnings: string[] = [];
+
+  const compiled = compileComposition(composition, resolveAtom);
+  const startTime = Date.now();
+  const matches = matchAll(compiled, inputs);
+  const avgEvaluationMs = (Date.now() - startTime) / inputs.length;
+  const metrics = scoreMatches(matches, outcomes);
+
+  if (metrics.positives === 0) {
+    warnings.push('The snapshot has no positive outcomes, so precision and recall are zero');
+  }
+  if (metrics.matched === 0) {
+    warnings.push('The composition matches no one in the snapshot');
+  }
+
+  const contributions: AtomContribution[] = composition.atoms.map(node => {
+    const own = scoreMatches(matchAll(compileComposition({ atoms: [node], connections: [] }, resolveAtom), inputs), outcomes);
+    const without = scoreMatches(withoutNode(composition, node.id, inputs, resolveAtom), outcomes);
+
+    return {
+      nodeId: node.id,
+      atomId: node.data?.logic ? undefined : node.data?.atomId || node.id,
+      label: node.name || node.id,
+      matchRate: own.coverage,
+      precision: own.precision,
+      lift: own.lift,
+      coverageDelta: metrics.coverage - without.coverage,
+      precisionDelta: metrics.precision - without.precision,
+      recallDelta: metrics.recall - without.recall
+    };
+  });
+
+  const overlaps: AtomOverlap[] = [];
+  (options.savedAtoms || []).forEach(atom => {
+    let atomMatches: boolean[];
+    try {
+      atomMatches = matchAll(compileComposition({ atoms: [atom], connections: [] }, resolveAtom), inputs);
+    } catch (error) {
+      warnings.push(`Skipped overlap with ${atom.name || atom.id}: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    const matched = atomMatches.filter(Boolean).length;
+    const intersection = atomMatches.filter((match, index) => match && matches[index]).length;
+    overlaps.push({
+      atomId: atom.id,
+      label: atom.name || atom.id,
+      matched,
+      intersection,
+      jaccard: ratio(intersection, matched + metrics.matched - intersection),
+      shareOfAudience: ratio(intersection, metrics.matched)
+    });
+  });
+  overlaps.sort((a, b) => b.jaccard - a.jaccard);
+
+  return {
+    snapshotId: snapshot.id,
+    snapshotName: snapshot.name,
+    metrics,
+    contributions,
+    overlaps,
+    avgEvaluationMs,
+    warnings,
+    testedAt: new Date()
+  };
+}
+
+function matchAll(compiled: CompiledEligibility, inputs: EligibilityInput[]): boolean[] {
+  return inputs.map(input => compiled.evaluate(input).eligible);
+}
+
+// Matches with the node and its connections taken out; an empty composition matches everyone
+function withoutNode(
+  composition: CompositionGraph,
+  nodeId: string,
+  inputs: EligibilityInput[],
+  resolveAtom: AtomResolver
+): boolean[] {
+  const atoms = composition.atoms.filter(node => node.id !== nodeId);
+  if (atoms.length === 0) return inputs.map(() => true);
+
+  const connections = composition.connections.filter(
+    connection => connection.sourceId !== nodeId && connection.targetId !== nodeId
+  );
+  return matchAll(compileComposition({ atoms, connections }, resolveAtom), inputs);
+}
+
+function scoreMatches(matches: boolean[], outcomes: boolean[]): AtomBacktestMetrics {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  let trueNegatives = 0;
+
+  matches.forEach((match, index) => {
+    if (match && outcomes[index]) truePositives++;
+    else if (match) falsePositives++;
+    else if (outcomes[index]) falseNegatives++;
+    else trueNegatives++;
+  });
+
+  const sampleSize = matches.length;
+  const matched = truePositives + falsePositives;
+  const positives = truePositives + falseNegatives;
+  const precision = ratio(truePositives, matched);
+  const recall = ratio(truePositives, positives);
+  const baseRate = ratio(positives, sampleSize);
+
+  return {
+    sampleSize,
+    matched,
+    positives,
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    trueNegatives,
+    coverage: ratio(matched, sampleSize),
+    precision,
+    recall,
+    accuracy: ratio(truePositives + trueNegatives, sampleSize),
+    f1: ratio(2 * precision * recall, precision + recall),
+    baseRate,
+    lift: ratio(precision, baseRate)
+  };
+}
+
+function toSnapshotRow(record: Record<string, any>, index: number): CustomerSnapshotRow {
+  const outcomeColumn = OUTCOME_COLUMNS.find(column => record[column] !== undefined && record[column] !== '');
+  if (!outcomeColumn) fail(`row ${index + 1} has no outcome`);
+
+  const raw = record[outcomeColumn!];
+  const outcome = typeof raw === 'boolean' ? (raw ? 1 : 0) : Number(raw);
+  if (!isFinite(outcome)) fail(`row ${index + 1} has a non-numeric outcome ${raw}`);
+
+  const nested: Record<string, any> = record.context ? { ...record.context } : {};
+  let features: Record<string, any> | undefined = record.features ? { ...record.features } : undefined;
+
+  Object.entries(record).forEach(([key, value]) => {
+    if (value === undefined || OUTCOME_COLUMNS.includes(key) || key === 'context' || key === 'features') return;
+
+    const path = key.split('.');
+    if (path[0] === 'features') {
+      features = { ...features, [path.slice(1).join('.')]: value };
+      return;
+    }
+    setPath(nested, path, value);
+  });
+
+  const context = {
+    ...nested,
+    customerId: String(nested.customerId ?? `row_${index + 1}`),
+    tenantId: String(nested.tenantId ?? 'default'),
+    demographics: nested.demographics || {},
+    behavioral: nested.behavioral || {},
+    contextual: nested.contextual || {},
+    preferences: nested.preferences || {}
+  } as CustomerContext;
+
+  DATE_FIELDS.forEach(([section, field]) => {
+    const value = (context[section] as Record<string, any>)[field];
+    if (value !== undefined && !(value instanceof Date)) {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) fail(`row ${index + 1} has an invalid ${section}.${field} ${value}`);
+      (context[section] as Record<string, any>)[field] = date;
+    }
+  });
+
+  return { context, outcome, features };
+}
+
+function setPath(target: Record<string, any>, path: string[], value: any): void {
+  let current = target;
+  path.slice(0, -1).forEach(segment => {
+    if (typeof current[segment] !== 'object' || current[segment] === null) current[segment] = {};
+    current = current[segment];
+  });
+  current[path[path.length - 1]] = value;
+}
+
+function parseJSONRecords(text: string): Record<string, any>[] {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    fail(`JSON could not be parsed: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const records = Array.isArray(parsed) ? parsed : parsed?.rows;
+  if (!Array.isArray(records)) fail('JSON must be an array of rows or an object with a rows array');
+  records.forEach((record: any, index: number) => {
+    if (typeof record !== 'object' || record === null) fail(`row ${index + 1} is not an object`);
+  });
+  return records;
+}
+
+function parseCSVRecords(text: string): Record<string, any>[] {
+  const [header, ...lines] = splitCSV(text).filter(cells => cells.some(cell => cell.trim() !== ''));
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return lines.map((cells, index) => {
+    if (cells.length !== columns.length) {
+      fail(`row ${index + 1} has ${cells.length} cells, expected ${columns.length}`);
+    }
+    const record: Record<string, any> = {};
+    columns.forEach((column, i) => {
+      record[column] = parseCell(cells[i], column);
+    });
+    return record;
+  });
+}
+
+// RFC 4180: quoted cells may contain commas, newlines and doubled quotes
+function splitCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) fail('a quoted cell is never closed');
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function parseCell(cell: string, column: string): any {
+  const value = cell.trim();
+  if (value === '') return undefined;
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^[[{]/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      // Not JSON after all, keep the text
+    }
+  }
+  if (LIST_FIELDS.includes(column.split('.').pop()!)) {
+    return value.split(/[;|]/).map(item => item.trim()).filter(Boolean);
+  }
+  const number = Number(value);
+  return isFinite(number) ? number : value;
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+function fail(message: string): never {
+  throw new Error(`Invalid customer snapshot: ${message}`);
+}
\ No newline at end of file
@@ -0,0 +1,171 @@
+// src/services/ai/AtomDependencyGraph.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { Experiment } from '../../types/ai';
+import { Campaign, EligibilityAtom, Moment } from '../../types/api/atoms';
+import { AtomDependencyGraph, collectRuleTreeAtomIds } from './AtomDependencyGraph';
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+const atom = (id: string, dependencies: string[] = [], status: EligibilityAtom['status'] = 'active'): EligibilityAtom => ({
+  id,
+  name: id,
+  type: 'behavioral',
+  status,
+  version: 1,
+  createdAt: NOW,
+  updatedAt: NOW,
+  createdBy: 'test',
+  logic: { operator: 'AND', conditions: [] },
+  dependencies
+});
+
+const moment = (id: string, eligibilityAtoms: string[], status: Moment['status'], campaignId?: string): Moment => ({
+  id,
+  name: id,
+  status,
+  channels: ['email'],
+  eligibilityAtoms,
+  isPersonalized: false,
+  createdAt: NOW,
+  updatedAt: NOW,
+  createdBy: 'test',
+  campaignId,
+  version: 1
+});
+
+const campaign = (id: string, status: Campaign['status']): Campaign => ({
+  id,
+  name: id,
+  status,
+  startDate: NOW,
+  endDate: NOW,
+  createdAt: NOW,
+  updatedAt: NOW,
+  createdBy: 'test'
+});
+
+const experiment = (id: string, criteria: string, status: Experiment['status']): Experiment => ({
+  id,
+  name: id,
+  description: '',
+  status,
+  type: 'ab_test',
+  startDate: NOW,
+  targetAudience: { criteria, size: 1000, allocation: { control: 50, treatment: 50 } },
+  variants: [],
+  metrics: { primary: 'purchase', secondary: [] },
+  configuration: { confidenceLevel: 0.95, minimumDetectableEffect: 0.1, trafficAllocation: 1, randomizationUnit: 'customer' }
+});
+
+// base <- engaged <- vip, and an unrelated mobile atom
+const library = () => new AtomDependencyGraph([atom('vip', ['engaged']), atom('engaged', ['base']), atom('base'), atom('mobile')]);
+
+describe('collectRuleTreeAtomIds', () => {
+  it('lists the atoms of a rule tree once, in order', () => {
+    expect(collectRuleTreeAtomIds([
+      { id: 'r1', type: 'atom', atomId: 'b' },
+      {
+        id: 'g1',
+        type: 'group',
+        operation: 'OR',
+        children: [{ id: 'r2', type: 'atom', atomId: 'a' }, { id: 'r3', type: 'atom', atomId: 'b' }, { id: 'r4', type: 'gate' }]
+      }
+    ])).toEqual(['b', 'a']);
+  });
+});
+
+describe('AtomDependencyGraph', () => {
+  it('loads atoms in any order and resolves dependencies before their users', () => {
+    const graph = library();
+    expect(graph.resolveDependencies('vip').map(a => a.id)).toEqual(['base', 'engaged']);
+    expect(graph.getDependents('base').map(a => a.id)).toEqual(['engaged', 'vip']);
+    expect(graph.getDependents('mobile')).toEqual([]);
+  });
+
+  it('rejects unknown dependencies', () => {
+    expect(() => new AtomDependencyGraph([atom('vip', ['engaged'])])).toThrow('Atom vip depends on unknown atom engaged');
+  });
+
+  it('rejects cycles and leaves the graph unchanged', () => {
+    const graph = library();
+    expect(() => graph.saveAtom(atom('base', ['vip']))).toThrow('Atom base would create a dependency cycle: base → vip → engaged → base');
+    expect(() => graph.saveAtom(atom('mobile', ['mobile']))).toThrow('Atom mobile would create a dependency cycle: mobile → mobile');
+    expect(graph.getAtom('base')?.dependencies).toEqual([]);
+
+    expect(() => new AtomDependencyGraph([atom('a', ['b']), atom('b', ['a'])])).toThrow('would create a dependency cycle');
+    expect(() => graph.loadAtoms([atom('mobile', ['vip']), atom('engaged', ['base', 'mobile'])])).toThrow('dependency cycle');
+    expect(graph.getAtom('engaged')?.dependencies).toEqual(['base']);
+  });
+
+  it('adds the atoms RuleBuilder rules reference to the dependencies', () => {
+    const graph = library();
+    const saved = graph.saveAtom(atom('mobile_vip', ['mobile']), [
+      { id: 'r1', type: 'atom', atomId: 'vip' },
+      { id: 'r2', type: 'atom', atomId: 'mobile' }
+    ]);
+
+    expect(saved.dependencies).toEqual(['mobile', 'vip']);
+    expect(graph.getDependents('base').map(a => a.id)).toEqual(['engaged', 'vip', 'mobile_vip']);
+  });
+
+  it('refuses to remove atoms others depend on', () => {
+    const graph = library();
+    expect(() => graph.removeAtom('engaged')).toThrow('Cannot remove atom engaged: it is a dependency of vip');
+
+    graph.removeAtom('vip');
+    graph.removeAtom('engaged');
+    expect(graph.getAtoms().map(a => a.id)).toEqual(['base', 'mobile']);
+  });
+});
+
+describe('AtomDependencyGraph.analyzeImpact', () => {
+  const consumers = {
+    moments: [
+      moment('welcome', ['mobile'], 'active', 'spring'),
+      moment('draft_offer', ['vip'], 'draft', 'spring'),
+      moment('reactivation', ['engaged', 'base'], 'scheduled', 'winback')
+    ],
+    campaigns: [campaign('spring', 'active'), campaign('winback', 'draft'), campaign('summer', 'active')],
+    experiments: [
+      experiment('exp_vip', 'atom:vip AND demographics.age > 30', 'running'),
+      experiment('exp_mobile', 'atom:mobile', 'running'),
+      experiment('exp_broken', 'atom:base AND (', 'running'),
+      experiment('exp_done', 'NOT atom:engaged', 'completed')
+    ]
+  };
+
+  it('finds the atoms and consumers that reach the changed atom, live ones first', () => {
+    const report = library().analyzeImpact('base', 'archive', consumers);
+
+    expect(report.dependentAtoms).toEqual([
+      { kind: 'atom', id: 'engaged', name: 'engaged', status: 'active', active: true, via: ['base'] },
+      { kind: 'atom', id: 'vip', name: 'vip', status: 'active', active: true, via: ['engaged'] }
+    ]);
+    expect(report.moments.map(item => [item.id, item.active, item.via])).toEqual([
+      ['reactivation', true, ['engaged', 'base']],
+      ['draft_offer', false, ['vip']]
+    ]);
+    // Campaigns are reached through their moments
+    expect(report.campaigns.map(item => [item.id, item.active, item.via])).toEqual([
+      ['spring', true, ['vip']],
+      ['winback', false, ['engaged', 'base']]
+    ]);
+    // Unparseable criteria reference nothing
+    expect(report.experiments.map(item => [item.id, item.active, item.via])).toEqual([
+      ['exp_vip', true, ['vip']],
+      ['exp_done', false, ['engaged']]
+    ]);
+    expect(report.activeCount).toBe(5);
+    expect(report).toMatchObject({ atomId: 'base', action: 'archive' });
+  });
+
+  it('reports nothing for an atom nobody uses', () => {
+    const graph = library();
+    graph.saveAtom(atom('unused'));
+    const report = graph.analyzeImpact('unused', 'delete', consumers);
+
+    expect([report.dependentAtoms, report.moments, report.campaigns, report.experiments]).toEqual([[], [], [], []]);
+    expect(report.activeCount).toBe(0);
+  });
+});
\ No newline at end of file
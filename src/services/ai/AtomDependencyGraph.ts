@@ -0,0 +1,256 @@
+// src/services/ai/AtomDependencyGraph.ts
+
+import { Experiment } from '../../types/ai';
+import {
+  AtomImpactAction,
+  AtomImpactItem,
+  AtomImpactReport,
+  Campaign,
+  EligibilityAtom,
+  Moment
+} from '../../types/api/atoms';
+import { collectAtomIds, parseCriteria } from './AudienceCriteria';
+import { RuleTreeNode } from './EligibilityRules';
+
+/**
+ * Everything outside the atom library that can reference atoms
+ */
+export interface AtomConsumers {
+  moments?: Moment[];
+  campaigns?: Campaign[];
+  experiments?: Experiment[];
+}
+
+// Statuses in which a consumer is live
+const ACTIVE_STATUSES: { [kind in AtomImpactItem['kind']]: string[] } = {
+  atom: ['active'],
+  moment: ['active', 'scheduled'],
+  campaign: ['active', 'scheduled'],
+  experiment: ['running', 'paused']
+};
+
+/**
+ * IDs of the atoms a RuleBuilder tree references, in order of first appearance
+ */
+export function collectRuleTreeAtomIds(rules: RuleTreeNode | RuleTreeNode[]): string[] {
+  const collect = (node: RuleTreeNode): string[] => [
+    ...(node.type === 'atom' && node.atomId ? [node.atomId] : []),
+    ...(node.children || []).flatMap(collect)
+  ];
+  return unique((Array.isArray(rules) ? rules : [rules]).flatMap(collect));
+}
+
+/**
+ * The atom library as a directed graph from each atom to the atoms it depends on. Saving
+ * keeps it acyclic, and impact analysis walks it backwards to find what an atom change breaks.
+ */
+export class AtomDependencyGraph {
+  private atoms: Map<string, EligibilityAtom> = new Map();
+
+  /**
+   * Load a library in one go; throws if it references unknown atoms or contains a cycle
+   */
+  constructor(atoms: EligibilityAtom[] = []) {
+    atoms.forEach(atom => this.atoms.set(atom.id, { ...atom, dependencies: unique(atom.dependencies || []) }));
+    this.atoms.forEach(atom => this.validate(atom));
+  }
+
+  /**
+   * Add or replace an atom. Its dependencies are its own plus the atoms its RuleBuilder rules
+   * reference. Throws, leaving the graph unchanged, if a dependency is unknown or would close a cycle.
+   */
+  saveAtom(atom: EligibilityAtom, rules?: RuleTreeNode[]): EligibilityAtom {
+    const saved: EligibilityAtom = {
+      ...atom,
+      dependencies: unique([...(atom.dependencies || []), ...(rules ? collectRuleTreeAtomIds(rules) : [])])
+    };
+
+    this.validate(saved);
+    this.atoms.set(saved.id, saved);
+    return saved;
+  }
+
+  /**
+   * Add or replace a batch of atoms, such as the library loaded from the API. Atoms in the
+   * batch may reference each other in any order; throws, leaving the graph unchanged, if the
+   * result references unknown atoms or contains a cycle.
+   */
+  loadAtoms(atoms: EligibilityAtom[]): void {
+    const replaced = new Set(atoms.map(atom => atom.id));
+    const merged = new AtomDependencyGraph([...this.getAtoms().filter(atom => !replaced.has(atom.id)), ...atoms]);
+    this.atoms = merged.atoms;
+  }
+
+  /**
+   * Remove an atom. Throws if other atoms still depend on it.
+   */
+  removeAtom(atomId: string): void {
+    const dependents = this.getDirectDependents(atomId);
+    if (dependents.length > 0) {
+      throw new Error(`Cannot remove atom ${atomId}: it is a dependency of ${dependents.map(atom => atom.id).join(', ')}`);
+    }
+    this.atoms.delete(atomId);
+  }
+
+  getAtom(atomId: string): EligibilityAtom | undefined {
+    return this.atoms.get(atomId);
+  }
+
+  getAtoms(): EligibilityAtom[] {
+    return Array.from(this.atoms.values());
+  }
+
+  /**
+   * Every atom this one depends on, directly or not, with dependencies before the atoms that use them
+   */
+  resolveDependencies(atomId: string): EligibilityAtom[] {
+    const ordered: EligibilityAtom[] = [];
+    const visited = new Set<string>([atomId]);
+
+    const visit = (id: string) => {
+      (this.atoms.get(id)?.dependencies || []).forEach(dependencyId => {
+        if (visited.has(dependencyId)) return;
+        visited.add(dependencyId);
+        visit(dependencyId);
+        const dependency = this.atoms.get(dependencyId);
+        if (dependency) ordered.push(dependency);
+      });
+    };
+
+    visit(atomId);
+    return ordered;
+  }
+
+  /**
+   * Every atom that depends on this one, directly or not, nearest first
+   */
+  getDependents(atomId: string): EligibilityAtom[] {
+    const dependents: EligibilityAtom[] = [];
+    const visited = new Set<string>([atomId]);
+    const queue = [atomId];
+
+    while (queue.length > 0) {
+      this.getDirectDependents(queue.shift()!).forEach(dependent => {
+        if (visited.has(dependent.id)) return;
+        visited.add(dependent.id);
+        dependents.push(dependent);
+        queue.push(dependent.id);
+      });
+    }
+
+    return dependents;
+  }
+
+  /**
+   * What stops working if the atom is archived, deactivated or deleted: the atoms built on it,
+   * and the moments, campaigns and experiments that use it or any of those atoms
+   */
+  analyzeImpact(atomId: string, action: AtomImpactAction, consumers: AtomConsumers = {}): AtomImpactReport {
+    const dependents = this.getDependents(atomId);
+    const affected = new Set([atomId, ...dependents.map(atom => atom.id)]);
+    const affectedBy = (atomIds: string[]) => unique(atomIds.filter(id => affected.has(id)));
+
+    const dependentAtoms = dependents.map(atom => toItem('atom', atom.id, atom.name, atom.status, affectedBy(atom.dependencies || [])));
+
+    const moments = (consumers.moments || [])
+      .map(moment => toItem('moment', moment.id, moment.name, moment.status, affectedBy(moment.eligibilityAtoms || [])))
+      .filter(item => item.via.length > 0);
+
+    const momentsByCampaign = new Map<string, AtomImpactItem[]>();
+    (consumers.moments || []).forEach(moment => {
+      const item = moments.find(candidate => candidate.id === moment.id);
+      if (item && moment.campaignId) {
+        momentsByCampaign.set(moment.campaignId, [...(momentsByCampaign.get(moment.campaignId) || []), item]);
+      }
+    });
+    const campaigns = (consumers.campaigns || [])
+      .filter(campaign => momentsByCampaign.has(campaign.id))
+      .map(campaign => toItem(
+        'campaign',
+        campaign.id,
+        campaign.name,
+        campaign.status,
+        unique(momentsByCampaign.get(campaign.id)!.flatMap(item => item.via))
+      ));
+
+    const experiments = (consumers.experiments || [])
+      .map(experiment => toItem(
+        'experiment',
+        experiment.id,
+        experiment.name,
+        experiment.status,
+        affectedBy(criteriaAtomIds(experiment.targetAudience.criteria))
+      ))
+      .filter(item => item.via.length > 0);
+
+    const byActive = (a: AtomImpactItem, b: AtomImpactItem) => Number(b.active) - Number(a.active);
+    const report = {
+      dependentAtoms: dependentAtoms.sort(byActive),
+      moments: moments.sort(byActive),
+      campaigns: campaigns.sort(byActive),
+      experiments: experiments.sort(byActive)
+    };
+
+    return {
+      atomId,
+      action,
+      ...report,
+      activeCount: Object.values(report).reduce((count, items) => count + items.filter(item => item.active).length, 0),
+      analyzedAt: new Date()
+    };
+  }
+
+  private getDirectDependents(atomId: string): EligibilityAtom[] {
+    return this.getAtoms().filter(atom => atom.id !== atomId && (atom.dependencies || []).includes(atomId));
+  }
+
+  private validate(atom: EligibilityAtom): void {
+    (atom.dependencies || []).forEach(dependencyId => {
+      if (dependencyId !== atom.id && !this.atoms.has(dependencyId)) {
+        throw new Error(`Atom ${atom.id} depends on unknown atom ${dependencyId}`);
+      }
+
+      const path = this.findPath(dependencyId, atom.id, atom);
+      if (path) {
+        throw new Error(`Atom ${atom.id} would create a dependency cycle: ${[atom.id, ...path].join(' → ')}`);
+      }
+    });
+  }
+
+  // Dependency path from one atom to another, reading `candidate` in place of its stored version
+  private findPath(fromId: string, toId: string, candidate: EligibilityAtom): string[] | null {
+    const visited = new Set<string>();
+
+    const search = (id: string): string[] | null => {
+      if (id === toId) return [id];
+      if (visited.has(id)) return null;
+      visited.add(id);
+
+      const atom = id === candidate.id ? candidate : this.atoms.get(id);
+      for (const dependencyId of atom?.dependencies || []) {
+        const path = search(dependencyId);
+        if (path) return [id, ...path];
+      }
+      return null;
+    };
+
+    return search(fromId);
+  }
+}
+
+function toItem(kind: AtomImpactItem['kind'], id: string, name: string, status: string, via: string[]): AtomImpactItem {
+  return { kind, id, name, status, active: ACTIVE_STATUSES[kind].includes(status), via };
+}
+
+// Experiment criteria were validated when the experiment was created; anything unparseable references nothing
+function criteriaAtomIds(criteria: string): string[] {
+  try {
+    return collectAtomIds(parseCriteria(criteria));
+  } catch {
+    return [];
+  }
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
\ No newline at end of file
@@ -0,0 +1,169 @@
+// src/services/ai/AtomVersioning.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { AtomCondition, AtomLogic, Campaign, Moment } from '../../types/api/atoms';
+import { AtomVersionStore, bumpVersion, diffAtomLogic } from './AtomVersioning';
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+const spend: AtomCondition = { field: 'lifetime_value', operator: 'gte', value: 1000, dataType: 'number' };
+const recent: AtomCondition = { field: 'last_purchase_date', operator: 'within_last_days', value: 30, dataType: 'date' };
+const mobile: AtomCondition = { field: 'device_type', operator: 'equals', value: 'mobile', dataType: 'string' };
+
+const logic = (conditions: AtomCondition[], operator: AtomLogic['operator'] = 'AND'): AtomLogic => ({ conditions, operator });
+const atom = (conditions: AtomCondition[]) => ({ id: 'high_value', name: 'High value', logic: logic(conditions) });
+
+const moment: Moment = {
+  id: 'moment-1',
+  name: 'Win-back',
+  status: 'active',
+  channels: ['email'],
+  eligibilityAtoms: ['high_value'],
+  isPersonalized: false,
+  createdAt: NOW,
+  updatedAt: NOW,
+  createdBy: 'ana',
+  campaignId: 'campaign-1',
+  version: 1
+};
+
+const campaign: Campaign = {
+  id: 'campaign-1',
+  name: 'Summer',
+  status: 'active',
+  startDate: NOW,
+  endDate: NOW,
+  createdAt: NOW,
+  updatedAt: NOW,
+  createdBy: 'ana'
+};
+
+const publish = (store: AtomVersionStore, conditions: AtomCondition[]) => {
+  const draft = store.createDraft(atom(conditions), 'ana');
+  store.submitForReview(draft.id);
+  return store.approve(draft.id, 'ben');
+};
+
+describe('diffAtomLogic', () => {
+  it('pairs conditions by field and calls a moved threshold a minor change', () => {
+    const diff = diffAtomLogic(logic([spend, recent]), logic([{ ...spend, value: 1500 }, recent]));
+
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed).toEqual([{ before: spend, after: { ...spend, value: 1500 }, fields: ['value'] }]);
+    expect(diff.bump).toBe('minor');
+  });
+
+  it('treats removals, new comparisons and a new join as major', () => {
+    expect(diffAtomLogic(logic([spend, recent]), logic([spend])).bump).toBe('major');
+    expect(diffAtomLogic(logic([spend]), logic([{ ...spend, operator: 'lt' }])).bump).toBe('major');
+
+    const rejoined = diffAtomLogic(logic([spend, recent]), logic([spend, recent], 'OR'));
+    expect(rejoined.operatorChanged).toEqual({ before: 'AND', after: 'OR' });
+    expect(rejoined.bump).toBe('major');
+  });
+
+  it('ignores the join of a single condition and calls additions minor', () => {
+    expect(diffAtomLogic(logic([spend]), logic([spend], 'OR'))).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+      operatorChanged: undefined,
+      bump: 'patch'
+    });
+    expect(diffAtomLogic(logic([spend]), logic([spend, mobile])).bump).toBe('minor');
+  });
+});
+
+describe('bumpVersion', () => {
+  it('increments one part and resets the lower ones', () => {
+    expect(bumpVersion('1.4.2', 'major')).toBe('2.0.0');
+    expect(bumpVersion('1.4.2', 'minor')).toBe('1.5.0');
+    expect(bumpVersion('1.4.2', 'patch')).toBe('1.4.3');
+    expect(() => bumpVersion('v1', 'patch')).toThrow('Invalid semantic version: v1');
+  });
+});
+
+describe('AtomVersionStore', () => {
+  it('numbers drafts from the latest approved version', () => {
+    const store = new AtomVersionStore();
+    expect(publish(store, [spend]).version).toBe('1.0.0');
+
+    const minor = store.createDraft(atom([spend, mobile]), 'ana');
+    expect(minor.version).toBe('1.1.0');
+    expect(minor.basedOn).toBe('1.0.0');
+    expect(minor.diff?.added).toEqual([mobile]);
+
+    const major = store.updateDraft(minor.id, { logic: logic([mobile]) });
+    expect(major.version).toBe('2.0.0');
+  });
+
+  it('allows one open version per atom and freezes stored versions', () => {
+    const store = new AtomVersionStore();
+    const draft = store.createDraft(atom([spend]), 'ana');
+
+    expect(() => store.createDraft(atom([spend]), 'ana')).toThrow('Atom high_value already has version 1.0.0 in draft');
+    expect(Object.isFrozen(draft.logic.conditions[0])).toBe(true);
+
+    store.submitForReview(draft.id);
+    expect(() => store.updateDraft(draft.id, { name: 'Renamed' })).toThrow('is review and can no longer be edited');
+  });
+
+  it('needs an approval from someone other than the author', () => {
+    const store = new AtomVersionStore();
+    const draft = store.createDraft(atom([spend]), 'ana');
+    store.submitForReview(draft.id);
+
+    expect(() => store.approve(draft.id, 'ana')).toThrow('Authors cannot review their own version');
+    const approved = store.approve(draft.id, 'ben', 'Looks right');
+    expect(approved.status).toBe('approved');
+    expect(approved.publishedAt).toBeInstanceOf(Date);
+    expect(() => store.approve(draft.id, 'cy')).toThrow('is approved, not in review');
+  });
+
+  it('needs a second approver for atoms used by an active campaign', () => {
+    const store = new AtomVersionStore();
+    const draft = store.createDraft(atom([spend]), 'ana');
+    expect(store.submitForReview(draft.id, { moments: [moment], campaigns: [campaign] }).requiredApprovals).toBe(2);
+
+    expect(store.approve(draft.id, 'ben').status).toBe('review');
+    expect(() => store.approve(draft.id, 'ben')).toThrow('ben has already reviewed version 1.0.0');
+    expect(store.approve(draft.id, 'cy').status).toBe('approved');
+  });
+
+  it('drops rejected versions from lookups so the next draft reuses the number', () => {
+    const store = new AtomVersionStore();
+    publish(store, [spend]);
+
+    const draft = store.createDraft(atom([spend, mobile]), 'ana');
+    store.submitForReview(draft.id);
+    expect(store.reject(draft.id, 'ben', 'Too broad').status).toBe('rejected');
+    expect(store.getVersion('high_value', '1.1.0')).toBeUndefined();
+
+    expect(store.createDraft(atom([spend, recent]), 'ana').version).toBe('1.1.0');
+  });
+
+  it('resolves pinned moments to their version and others to the latest approved', () => {
+    const store = new AtomVersionStore();
+    publish(store, [spend]);
+    const pinned = store.pinMoment(moment, 'high_value');
+    publish(store, [spend, mobile]);
+
+    expect(pinned.atomVersions).toEqual({ high_value: '1.0.0' });
+    expect(store.resolveVersion('high_value', pinned)?.version).toBe('1.0.0');
+    expect(store.resolveVersion('high_value', moment)?.version).toBe('1.1.0');
+    expect(store.resolveVersion('high_value', store.unpinMoment(pinned, 'high_value'))?.version).toBe('1.1.0');
+
+    expect(store.diff('high_value', '1.0.0', '1.1.0').added).toEqual([mobile]);
+    expect(() => store.diff('high_value', '1.0.0', '9.9.9')).toThrow('Unknown version 9.9.9 of atom high_value');
+  });
+
+  it('only pins atoms the moment uses to approved versions', () => {
+    const store = new AtomVersionStore();
+    expect(() => store.pinMoment(moment, 'other')).toThrow('Moment moment-1 does not use atom other');
+    expect(() => store.pinMoment(moment, 'high_value')).toThrow('Atom high_value has no approved version');
+
+    store.createDraft(atom([spend]), 'ana');
+    expect(() => store.pinMoment(moment, 'high_value', '1.0.0')).toThrow('Atom high_value has no approved version 1.0.0');
+  });
+});
\ No newline at end of file
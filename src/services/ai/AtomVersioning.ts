@@ -0,0 +1,303 @@
+// src/services/ai/AtomVersioning.ts
+
+import {
+  AtomCondition,
+  AtomConditionChange,
+  AtomLogic,
+  AtomLogicDiff,
+  AtomVersion,
+  EligibilityAtom,
+  Moment
+} from '../../types/api/atoms';
+import { AtomConsumers, AtomDependencyGraph } from './AtomDependencyGraph';
+
+type DraftChanges = Partial<Pick<AtomVersion, 'name' | 'description' | 'logic' | 'changeSummary'>>;
+
+const COMPARED_FIELDS: (keyof AtomCondition)[] = ['operator', 'value', 'dataType'];
+
+/**
+ * Compare two versions of an atom's logic. Conditions are paired by field, in order, so a
+ * condition whose threshold moved shows as changed rather than removed and re-added.
+ * Removing a condition or changing what it compares is a major change, adding one or
+ * changing a value is minor, and anything else is a patch.
+ */
+export function diffAtomLogic(before: AtomLogic, after: AtomLogic): AtomLogicDiff {
+  const unmatched = [...before.conditions];
+  const added: AtomCondition[] = [];
+  const changed: AtomConditionChange[] = [];
+
+  after.conditions.forEach(condition => {
+    const index = unmatched.findIndex(candidate => candidate.field === condition.field);
+    if (index === -1) {
+      added.push(condition);
+      return;
+    }
+
+    const [previous] = unmatched.splice(index, 1);
+    const fields = COMPARED_FIELDS.filter(field => JSON.stringify(previous[field]) !== JSON.stringify(condition[field]));
+    if (fields.length > 0) changed.push({ before: previous, after: condition, fields });
+  });
+
+  // The join only matters once there is more than one condition
+  const joined = before.conditions.length > 1 || after.conditions.length > 1;
+  const operatorChanged = joined && before.operator !== after.operator
+    ? { before: before.operator, after: after.operator }
+    : undefined;
+  const breaking = unmatched.length > 0
+    || operatorChanged !== undefined
+    || changed.some(change => change.fields.some(field => field !== 'value'));
+
+  return {
+    added,
+    removed: unmatched,
+    changed,
+    operatorChanged,
+    bump: breaking ? 'major' : added.length > 0 || changed.length > 0 ? 'minor' : 'patch'
+  };
+}
+
+/**
+ * Increment a semantic version, resetting the lower parts
+ */
+export function bumpVersion(version: string, bump: AtomLogicDiff['bump']): string {
+  const [major, minor, patch] = parseVersion(version);
+  switch (bump) {
+    case 'major': return `${major + 1}.0.0`;
+    case 'minor': return `${major}.${minor + 1}.0`;
+    default: return `${major}.${minor}.${patch + 1}`;
+  }
+}
+
+/**
+ * Version history of each atom and the draft → review → approved publishing flow. Stored
+ * versions are frozen; every transition replaces a version rather than editing it.
+ */
+export class AtomVersionStore {
+  private versions: Map<string, AtomVersion[]> = new Map(); // per atom, oldest first
+  private graph: AtomDependencyGraph;
+
+  constructor(graph: AtomDependencyGraph = new AtomDependencyGraph()) {
+    this.graph = graph;
+  }
+
+  /**
+   * Start a new version from the latest approved one. Each atom has at most one version in
+   * draft or review at a time.
+   */
+  createDraft(
+    atom: Pick<EligibilityAtom, 'id' | 'name' | 'description' | 'logic'>,
+    createdBy: string,
+    changeSummary?: string
+  ): AtomVersion {
+    const open = this.getVersions(atom.id).find(version => version.status === 'draft' || version.status === 'review');
+    if (open) {
+      throw new Error(`Atom ${atom.id} already has version ${open.version} in ${open.status}`);
+    }
+
+    const draft = this.withDiff({
+      id: `atomver_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      atomId: atom.id,
+      version: '1.0.0',
+      name: atom.name,
+      description: atom.description,
+      logic: atom.logic,
+      status: 'draft',
+      changeSummary,
+      basedOn: this.getLatestApproved(atom.id)?.version,
+      createdBy,
+      createdAt: new Date(),
+      requiredApprovals: 1,
+      reviews: []
+    });
+
+    this.store(draft);
+    return this.getVersionById(draft.id);
+  }
+
+  /**
+   * Edit a version that has not been submitted yet
+   */
+  updateDraft(versionId: string, changes: DraftChanges): AtomVersion {
+    const draft = this.getVersionById(versionId);
+    if (draft.status !== 'draft') {
+      throw new Error(`Version ${draft.version} of ${draft.atomId} is ${draft.status} and can no longer be edited`);
+    }
+
+    this.store(this.withDiff({ ...draft, ...changes }));
+    return this.getVersionById(versionId);
+  }
+
+  /**
+   * Send a draft for review. Atoms that active campaigns use, directly or through other
+   * atoms, need a second approver.
+   */
+  submitForReview(versionId: string, consumers: AtomConsumers = {}): AtomVersion {
+    const draft = this.getVersionById(versionId);
+    if (draft.status !== 'draft') {
+      throw new Error(`Only drafts can be submitted, version ${draft.version} of ${draft.atomId} is ${draft.status}`);
+    }
+
+    const impact = this.graph.analyzeImpact(draft.atomId, 'publish', consumers);
+    const inActiveCampaign = impact.campaigns.some(campaign => campaign.active);
+
+    this.store({
+      ...draft,
+      status: 'review',
+      submittedAt: new Date(),
+      requiredApprovals: inActiveCampaign ? 2 : 1
+    });
+    return this.getVersionById(versionId);
+  }
+
+  /**
+   * Approve a version in review. It is published once it has enough approvals from
+   * people other than its author.
+   */
+  approve(versionId: string, by: string, comment?: string): AtomVersion {
+    const version = this.getReviewable(versionId, by);
+    const reviews = [...version.reviews, { by, decision: 'approved' as const, comment, at: new Date() }];
+    const approved = reviews.filter(review => review.decision === 'approved').length >= version.requiredApprovals;
+
+    this.store({
+      ...version,
+      reviews,
+      status: approved ? 'approved' : 'review',
+      publishedAt: approved ? new Date() : undefined
+    });
+
+    if (approved) {
+      console.log(`[AtomVersionStore] Published ${version.atomId} ${version.version}`);
+    }
+    return this.getVersionById(versionId);
+  }
+
+  /**
+   * Send a version in review back; the author starts a new draft to try again
+   */
+  reject(versionId: string, by: string, comment: string): AtomVersion {
+    const version = this.getReviewable(versionId, by);
+
+    this.store({
+      ...version,
+      reviews: [...version.reviews, { by, decision: 'rejected', comment, at: new Date() }],
+      status: 'rejected'
+    });
+    return this.getVersionById(versionId);
+  }
+
+  /**
+   * All versions of an atom, newest first
+   */
+  getVersions(atomId: string): AtomVersion[] {
+    return [...(this.versions.get(atomId) || [])].reverse();
+  }
+
+  getVersion(atomId: string, version: string): AtomVersion | undefined {
+    return (this.versions.get(atomId) || []).find(candidate => candidate.version === version && candidate.status !== 'rejected');
+  }
+
+  getLatestApproved(atomId: string): AtomVersion | undefined {
+    return this.getVersions(atomId).find(version => version.status === 'approved');
+  }
+
+  /**
+   * The version a moment evaluates: its pinned version, or the latest approved one
+   */
+  resolveVersion(atomId: string, moment?: Moment): AtomVersion | undefined {
+    const pinned = moment?.atomVersions?.[atomId];
+    return pinned ? this.getVersion(atomId, pinned) : this.getLatestApproved(atomId);
+  }
+
+  /**
+   * Pin a moment to an approved version of one of its atoms, by default the latest
+   */
+  pinMoment(moment: Moment, atomId: string, version?: string): Moment {
+    if (!moment.eligibilityAtoms.includes(atomId)) {
+      throw new Error(`Moment ${moment.id} does not use atom ${atomId}`);
+    }
+
+    const target = version ? this.getVersion(atomId, version) : this.getLatestApproved(atomId);
+    if (!target || target.status !== 'approved') {
+      throw new Error(`Atom ${atomId} has no approved version ${version || ''}`.trim());
+    }
+
+    return { ...moment, atomVersions: { ...moment.atomVersions, [atomId]: target.version } };
+  }
+
+  /**
+   * Let a moment follow the latest approved version of an atom again
+   */
+  unpinMoment(moment: Moment, atomId: string): Moment {
+    const { [atomId]: _, ...atomVersions } = moment.atomVersions || {};
+    return { ...moment, atomVersions };
+  }
+
+  /**
+   * Structured difference between two versions of an atom
+   */
+  diff(atomId: string, fromVersion: string, toVersion: string): AtomLogicDiff {
+    const from = this.getVersion(atomId, fromVersion);
+    const to = this.getVersion(atomId, toVersion);
+    if (!from || !to) {
+      throw new Error(`Unknown version ${from ? toVersion : fromVersion} of atom ${atomId}`);
+    }
+    return diffAtomLogic(from.logic, to.logic);
+  }
+
+  // Recompute the diff and version number against the version the draft is based on
+  private withDiff(draft: AtomVersion): AtomVersion {
+    const base = draft.basedOn ? this.getVersion(draft.atomId, draft.basedOn) : undefined;
+    if (!base) return draft;
+
+    const diff = diffAtomLogic(base.logic, draft.logic);
+    return { ...draft, diff, version: bumpVersion(base.version, diff.bump) };
+  }
+
+  private getReviewable(versionId: string, by: string): AtomVersion {
+    const version = this.getVersionById(versionId);
+    if (version.status !== 'review') {
+      throw new Error(`Version ${version.version} of ${version.atomId} is ${version.status}, not in review`);
+    }
+    if (by === version.createdBy) {
+      throw new Error('Authors cannot review their own version');
+    }
+    if (version.reviews.some(review => review.by === by)) {
+      throw new Error(`${by} has already reviewed version ${version.version}`);
+    }
+    return version;
+  }
+
+  private getVersionById(versionId: string): AtomVersion {
+    for (const versions of this.versions.values()) {
+      const version = versions.find(candidate => candidate.id === versionId);
+      if (version) return version;
+    }
+    throw new Error(`Atom version not found: ${versionId}`);
+  }
+
+  private store(version: AtomVersion): void {
+    const versions = this.versions.get(version.atomId) || [];
+    const index = versions.findIndex(candidate => candidate.id === version.id);
+    const frozen = deepFreeze(structuredClone(version));
+
+    if (index === -1) versions.push(frozen);
+    else versions[index] = frozen;
+    this.versions.set(version.atomId, versions);
+  }
+}
+
+function parseVersion(version: string): [number, number, number] {
+  const match = /^(\d+)\.(\d+)\.(\d+)$/.exec(version.trim());
+  if (!match) {
+    throw new Error(`Invalid semantic version: ${version}`);
+  }
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+}
+
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    Object.values(value as Record<string, unknown>).forEach(deepFreeze);
+  }
+  return value;
+}
\ No newline at end of file
@@ -0,0 +1,186 @@
+// src/services/ai/AudienceCriteria.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { CustomerContext } from '../../types/ai';
+import { EligibilityAtom } from '../../types/api/atoms';
+import {
+  buildCondition,
+  collectAtomIds,
+  estimateAudienceSize,
+  evaluateCriteria,
+  findUnmeasuredFields,
+  formatCriteriaValue,
+  parseCriteria
+} from './AudienceCriteria';
+
+const customer = (id: string, overrides: { ltv?: number; device?: CustomerContext['contextual']['deviceType']; country?: string } = {}): CustomerContext => ({
+  customerId: id,
+  tenantId: 'tenant-1',
+  demographics: { age: 30, location: { country: overrides.country || 'DE', city: 'Berlin', timezone: 'Europe/Berlin' } },
+  behavioral: {
+    totalPurchases: 5,
+    avgOrderValue: 50,
+    lifetimeValue: overrides.ltv ?? 250,
+    churnRisk: 0.1,
+    engagementScore: 60,
+    preferredChannels: ['email'],
+    activityLevel: 'medium'
+  },
+  contextual: { currentTime: new Date('2024-06-01T00:00:00Z'), deviceType: overrides.device || 'mobile', sessionDuration: 60, pageViews: 3 },
+  preferences: { communicationFrequency: 'low', contentTypes: [], topics: [], optedOutChannels: [] }
+});
+
+const highValue: EligibilityAtom = {
+  id: 'high_value',
+  name: 'High value',
+  type: 'behavioral',
+  status: 'active',
+  version: 1,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  createdBy: 'test',
+  logic: { operator: 'AND', conditions: [{ field: 'lifetime_value', operator: 'gte', value: 1000, dataType: 'number' }] }
+};
+const resolveAtom = (id: string) => (id === 'high_value' ? highValue : undefined);
+
+const matches = (criteria: string, context: CustomerContext) => evaluateCriteria(parseCriteria(criteria), context, resolveAtom);
+
+describe('parseCriteria', () => {
+  it('matches everyone when the criteria are empty', () => {
+    expect(parseCriteria('  ')).toBeNull();
+    expect(parseCriteria('*')).toBeNull();
+    expect(matches('', customer('c1'))).toBe(true);
+  });
+
+  it('binds AND tighter than OR', () => {
+    expect(parseCriteria('a = 1 OR b = 2 AND c = 3')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'comparison', field: 'a', operator: '=', value: 1 },
+        {
+          type: 'and',
+          children: [
+            { type: 'comparison', field: 'b', operator: '=', value: 2 },
+            { type: 'comparison', field: 'c', operator: '=', value: 3 }
+          ]
+        }
+      ]
+    });
+  });
+
+  it('parses lists, ranges and escaped strings', () => {
+    expect(parseCriteria("country NOT IN ('DE', 'FR')")).toEqual({ type: 'comparison', field: 'country', operator: 'NOT IN', value: ['DE', 'FR'] });
+    expect(parseCriteria('age BETWEEN 18 AND 30')).toEqual({ type: 'comparison', field: 'age', operator: 'BETWEEN', value: [18, 30] });
+    expect(parseCriteria("name = 'O\\'Brien'")).toEqual({ type: 'comparison', field: 'name', operator: '=', value: "O'Brien" });
+  });
+
+  it('reports where parsing failed', () => {
+    expect(() => parseCriteria('age >')).toThrow('Invalid audience criteria at position 5: expected a value');
+    expect(() => parseCriteria('age 5')).toThrow('at position 4: expected an operator after age');
+    expect(() => parseCriteria('age BETWEEN 1 OR 2')).toThrow('expected AND in BETWEEN');
+    expect(() => parseCriteria('(age > 1')).toThrow("expected ')'");
+    expect(() => parseCriteria("name = 'open")).toThrow('at position 7: unterminated string');
+  });
+});
+
+describe('evaluateCriteria', () => {
+  const rich = customer('c1', { ltv: 1500, device: 'desktop', country: 'US' });
+  const regular = customer('c2');
+
+  it('compares context fields by dotted path', () => {
+    expect(matches("behavioral.lifetimeValue >= 1000 AND contextual.deviceType = 'desktop'", rich)).toBe(true);
+    expect(matches("demographics.location.country IN ('DE', 'AT')", regular)).toBe(true);
+    expect(matches("behavioral.preferredChannels CONTAINS 'email'", regular)).toBe(true);
+    expect(matches('behavioral.lifetimeValue BETWEEN 100 AND 300', regular)).toBe(true);
+  });
+
+  it('never matches missing fields, even with negative operators', () => {
+    expect(matches("demographics.gender != 'f'", regular)).toBe(false);
+    expect(matches("NOT demographics.gender = 'f'", regular)).toBe(true);
+  });
+
+  it('evaluates atoms through the resolver and treats unknown atoms as no match', () => {
+    expect(matches('atom:high_value', rich)).toBe(true);
+    expect(matches('NOT atom:high_value', regular)).toBe(true);
+    expect(matches('atom:unknown OR atom:high_value', regular)).toBe(false);
+  });
+});
+
+describe('collectAtomIds', () => {
+  it('lists each referenced atom once, in order', () => {
+    expect(collectAtomIds(parseCriteria('atom:b AND (atom:a OR NOT atom:b) AND x = 1'))).toEqual(['b', 'a']);
+    expect(collectAtomIds(null)).toEqual([]);
+  });
+});
+
+describe('estimateAudienceSize', () => {
+  const sample = [customer('c1', { ltv: 1500 }), customer('c2'), customer('c3'), customer('c4', { ltv: 2000 })];
+
+  it('scales the matching share of the sample to the population', () => {
+    expect(estimateAudienceSize('atom:high_value', sample, 10000, resolveAtom)).toBe(5000);
+    expect(estimateAudienceSize('*', sample, 10000)).toBe(10000);
+    expect(estimateAudienceSize('atom:high_value', [], 10000, resolveAtom)).toBe(0);
+  });
+});
+
+describe('findUnmeasuredFields', () => {
+  // Profiles without behavioral or session data, as the customers API returns them
+  const profiles = ['c1', 'c2'].map(id => {
+    const context = customer(id, { ltv: 1500 });
+    return {
+      ...context,
+      behavioral: { lifetimeValue: context.behavioral.lifetimeValue } as CustomerContext['behavioral'],
+      contextual: { currentTime: context.contextual.currentTime } as CustomerContext['contextual']
+    };
+  });
+
+  it('lists fields no customer in the sample has a value for', () => {
+    expect(findUnmeasuredFields("contextual.deviceType = 'mobile' AND behavioral.lifetimeValue > 10", profiles)).toEqual(['contextual.deviceType']);
+    expect(findUnmeasuredFields('behavioral.daysSinceLastLogin <= 30', profiles)).toEqual(['behavioral.daysSinceLastLogin']);
+    expect(findUnmeasuredFields('behavioral.lifetimeValue >= 1000', profiles)).toEqual([]);
+  });
+
+  it('checks the fields atoms read', () => {
+    const engaged: EligibilityAtom = {
+      ...highValue,
+      id: 'engaged',
+      logic: { operator: 'AND', conditions: [{ field: 'engagement_score', operator: 'gte', value: 60, dataType: 'number' }] }
+    };
+    const resolve = (id: string) => (id === 'engaged' ? engaged : resolveAtom(id));
+
+    expect(findUnmeasuredFields('atom:high_value AND NOT atom:engaged', profiles, resolve)).toEqual(['engagement_score']);
+    expect(findUnmeasuredFields('atom:engaged', [customer('c3')], resolve)).toEqual([]);
+  });
+
+  it('counts a field as measured when any customer has it', () => {
+    expect(findUnmeasuredFields("contextual.deviceType = 'mobile'", [...profiles, customer('c3')])).toEqual([]);
+  });
+});
+
+describe('buildCondition', () => {
+  it('writes designer operators as criteria that parse back', () => {
+    const cases: [string, any, string][] = [
+      ['greater_than', 5, 'x > 5'],
+      ['in', ['a', 'b'], "x IN ('a', 'b')"],
+      ['not_in', 'a', "x NOT IN ('a')"],
+      ['between', [1, 9], 'x BETWEEN 1 AND 9'],
+      ['equals', true, 'x = TRUE']
+    ];
+
+    cases.forEach(([operator, value, expected]) => {
+      const condition = buildCondition('x', operator, value);
+      expect(condition).toBe(expected);
+      expect(() => parseCriteria(condition)).not.toThrow();
+    });
+  });
+
+  it('escapes quotes and backslashes in strings', () => {
+    expect(formatCriteriaValue("it's \\ here")).toBe("'it\\'s \\\\ here'");
+    expect(parseCriteria(buildCondition('x', 'equals', "it's \\ here"))).toEqual({
+      type: 'comparison',
+      field: 'x',
+      operator: '=',
+      value: "it's \\ here"
+    });
+  });
+});
\ No newline at end of file
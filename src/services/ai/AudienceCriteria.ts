@@ -0,0 +1,466 @@
+// src/services/ai/AudienceCriteria.ts
+
+import { CustomerContext } from '../../types/ai';
+import { EligibilityAtom } from '../../types/api/atoms';
+import { AtomResolver, compileAtom, flattenTrace } from './EligibilityRules';
+
+export type { AtomResolver };
+
+// Audience criteria are boolean expressions over CustomerContext fields and eligibility atoms, e.g.
+//   behavioral.lifetimeValue >= 1000 AND contextual.deviceType = 'mobile' AND demographics.location.country IN ('DE')
+//   atom:high_value AND NOT atom:churned
+
+export type CriteriaValue = string | number | boolean;
+
+export type ComparisonOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'IN' | 'NOT IN' | 'CONTAINS' | 'BETWEEN';
+
+export type CriteriaNode =
+  | { type: 'and'; children: CriteriaNode[] }
+  | { type: 'or'; children: CriteriaNode[] }
+  | { type: 'not'; child: CriteriaNode }
+  | { type: 'atom'; atomId: string }
+  | { type: 'comparison'; field: string; operator: ComparisonOperator; value: CriteriaValue | CriteriaValue[] };
+
+type Token =
+  | { kind: 'identifier'; value: string; position: number }
+  | { kind: 'atom'; value: string; position: number }
+  | { kind: 'keyword'; value: string; position: number }
+  | { kind: 'operator'; value: string; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'punctuation'; value: '(' | ')' | ','; position: number };
+
+const KEYWORDS = ['AND', 'OR', 'NOT', 'IN', 'CONTAINS', 'BETWEEN', 'TRUE', 'FALSE'];
+
+// Fields derived from the context rather than stored on it
+const DERIVED_FIELDS: { [field: string]: (context: CustomerContext) => any } = {
+  'behavioral.daysSinceLastLogin': context => {
+    const lastLogin = context.behavioral.lastLoginDate;
+    if (!lastLogin) return undefined;
+    return Math.floor((Date.now() - new Date(lastLogin).getTime()) / (24 * 60 * 60 * 1000));
+  }
+};
+
+// Operators used by eligibility atom conditions and the audience designer
+const CONDITION_OPERATORS: { [operator: string]: ComparisonOperator } = {
+  equals: '=',
+  not_equals: '!=',
+  greater_than: '>',
+  greater_than_or_equal: '>=',
+  less_than: '<',
+  less_than_or_equal: '<=',
+  in: 'IN',
+  not_in: 'NOT IN',
+  contains: 'CONTAINS',
+  between: 'BETWEEN'
+};
+
+/**
+ * Parse an audience criteria expression. Empty criteria (or '*') match everyone and parse to null.
+ */
+export function parseCriteria(criteria: string): CriteriaNode | null {
+  const source = criteria.trim();
+  if (source === '' || source === '*') {
+    return null;
+  }
+
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = (): Token | undefined => tokens[index];
+  const fail = (message: string): never => {
+    const position = peek()?.position ?? source.length;
+    throw new Error(`Invalid audience criteria at position ${position}: ${message}`);
+  };
+  const isKeyword = (value: string): boolean => {
+    const token = peek();
+    return token?.kind === 'keyword' && token.value === value;
+  };
+  const expectPunctuation = (value: '(' | ')' | ','): void => {
+    const token = peek();
+    if (token?.kind !== 'punctuation' || token.value !== value) {
+      fail(`expected '${value}'`);
+    }
+    index++;
+  };
+
+  const parseValue = (): CriteriaValue => {
+    const token = peek();
+    if (!token) return fail('expected a value');
+
+    if (token.kind === 'string' || token.kind === 'number') {
+      index++;
+      return token.value;
+    }
+    if (token.kind === 'keyword' && (token.value === 'TRUE' || token.value === 'FALSE')) {
+      index++;
+      return token.value === 'TRUE';
+    }
+    return fail('expected a string, number or boolean');
+  };
+
+  const parseList = (): CriteriaValue[] => {
+    expectPunctuation('(');
+    const values = [parseValue()];
+    while (peek()?.kind === 'punctuation' && peek()?.value === ',') {
+      index++;
+      values.push(parseValue());
+    }
+    expectPunctuation(')');
+    return values;
+  };
+
+  const parseComparison = (field: string): CriteriaNode => {
+    const token = peek();
+
+    if (token?.kind === 'operator') {
+      index++;
+      const operator = (token.value === '==' ? '=' : token.value) as ComparisonOperator;
+      return { type: 'comparison', field, operator, value: parseValue() };
+    }
+    if (isKeyword('IN')) {
+      index++;
+      return { type: 'comparison', field, operator: 'IN', value: parseList() };
+    }
+    if (isKeyword('NOT')) {
+      index++;
+      if (!isKeyword('IN')) fail('expected IN after NOT');
+      index++;
+      return { type: 'comparison', field, operator: 'NOT IN', value: parseList() };
+    }
+    if (isKeyword('CONTAINS')) {
+      index++;
+      return { type: 'comparison', field, operator: 'CONTAINS', value: parseValue() };
+    }
+    if (isKeyword('BETWEEN')) {
+      index++;
+      const low = parseValue();
+      if (!isKeyword('AND')) fail('expected AND in BETWEEN');
+      index++;
+      return { type: 'comparison', field, operator: 'BETWEEN', value: [low, parseValue()] };
+    }
+
+    return fail(`expected an operator after ${field}`);
+  };
+
+  const parsePrimary = (): CriteriaNode => {
+    const token = peek();
+    if (!token) return fail('unexpected end of criteria');
+
+    if (token.kind === 'punctuation' && token.value === '(') {
+      index++;
+      const node = parseOr();
+      expectPunctuation(')');
+      return node;
+    }
+    if (token.kind === 'atom') {
+      index++;
+      return { type: 'atom', atomId: token.value };
+    }
+    if (token.kind === 'identifier') {
+      index++;
+      return parseComparison(token.value);
+    }
+
+    return fail('expected a field, atom or group');
+  };
+
+  const parseNot = (): CriteriaNode => {
+    if (isKeyword('NOT')) {
+      index++;
+      return { type: 'not', child: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parseAnd = (): CriteriaNode => {
+    const children = [parseNot()];
+    while (isKeyword('AND')) {
+      index++;
+      children.push(parseNot());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseOr = (): CriteriaNode => {
+    const children = [parseAnd()];
+    while (isKeyword('OR')) {
+      index++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const node = parseOr();
+  if (index < tokens.length) {
+    fail('unexpected input');
+  }
+  return node;
+}
+
+/**
+ * Evaluate parsed criteria for a customer. Unknown atoms and missing fields never match.
+ */
+export function evaluateCriteria(
+  node: CriteriaNode | null,
+  context: CustomerContext,
+  resolveAtom?: AtomResolver
+): boolean {
+  if (!node) return true;
+
+  switch (node.type) {
+    case 'and':
+      return node.children.every(child => evaluateCriteria(child, context, resolveAtom));
+    case 'or':
+      return node.children.some(child => evaluateCriteria(child, context, resolveAtom));
+    case 'not':
+      return !evaluateCriteria(node.child, context, resolveAtom);
+    case 'atom': {
+      const atom = resolveAtom?.(node.atomId);
+      return atom ? evaluateAtom(atom, context) : false;
+    }
+    case 'comparison':
+      return compare(resolveField(context, node.field), node.operator, node.value);
+  }
+}
+
+/**
+ * IDs of the atoms parsed criteria reference, in order of first appearance
+ */
+export function collectAtomIds(node: CriteriaNode | null): string[] {
+  if (!node) return [];
+
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return Array.from(new Set(node.children.flatMap(collectAtomIds)));
+    case 'not':
+      return collectAtomIds(node.child);
+    case 'atom':
+      return [node.atomId];
+    case 'comparison':
+      return [];
+  }
+}
+
+/**
+ * Evaluate an eligibility atom's conditions for a customer
+ */
+export function evaluateAtom(atom: EligibilityAtom, context: CustomerContext): boolean {
+  return compileAtom(atom).evaluate({ context }).eligible;
+}
+
+/**
+ * Estimate how many customers match by evaluating a sample and scaling to the population
+ */
+export function estimateAudienceSize(
+  criteria: string,
+  sample: CustomerContext[],
+  populationSize: number,
+  resolveAtom?: AtomResolver
+): number {
+  const node = parseCriteria(criteria);
+  if (!node) return populationSize;
+  if (sample.length === 0) return 0;
+
+  const matching = sample.filter(context => evaluateCriteria(node, context, resolveAtom)).length;
+  return Math.round((matching / sample.length) * populationSize);
+}
+
+/**
+ * Fields the criteria read, directly or through atoms, that no customer in the sample has a
+ * value for. Missing fields never match, so an estimate over them would read as zero reach
+ * rather than unknown reach.
+ */
+export function findUnmeasuredFields(
+  criteria: string,
+  sample: CustomerContext[],
+  resolveAtom?: AtomResolver
+): string[] {
+  const node = parseCriteria(criteria);
+  if (!node || sample.length === 0) return [];
+
+  const isPresent = (value: any) => value !== undefined && value !== null;
+  const unmeasured = collectFields(node)
+    .filter(field => !sample.some(context => isPresent(resolveField(context, field))));
+
+  collectAtomIds(node).forEach(atomId => {
+    const atom = resolveAtom?.(atomId);
+    if (!atom) return;
+
+    const compiled = compileAtom(atom);
+    const pending = new Set(atom.logic.conditions.map(condition => condition.field));
+    for (const context of sample) {
+      flattenTrace(compiled.evaluate({ context }).trace).forEach(leaf => {
+        if (leaf.condition && isPresent(leaf.condition.actual)) pending.delete(leaf.condition.field);
+      });
+      if (pending.size === 0) break;
+    }
+    pending.forEach(field => unmeasured.push(field));
+  });
+
+  return Array.from(new Set(unmeasured));
+}
+
+/**
+ * Format a value as a criteria literal
+ */
+export function formatCriteriaValue(value: CriteriaValue): string {
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'TRUE' : 'FALSE';
+  }
+  return String(value);
+}
+
+/**
+ * Build a comparison clause from a designer or atom condition operator (equals, greater_than, in, ...)
+ */
+export function buildCondition(field: string, operator: string, value: any): string {
+  const comparison = CONDITION_OPERATORS[operator] || operator;
+  const values: CriteriaValue[] = Array.isArray(value) ? value : [value];
+
+  switch (comparison) {
+    case 'IN':
+    case 'NOT IN':
+      return `${field} ${comparison} (${values.map(formatCriteriaValue).join(', ')})`;
+    case 'BETWEEN':
+      return `${field} BETWEEN ${formatCriteriaValue(values[0])} AND ${formatCriteriaValue(values[1] ?? values[0])}`;
+    default:
+      return `${field} ${comparison} ${formatCriteriaValue(values[0])}`;
+  }
+}
+
+function collectFields(node: CriteriaNode): string[] {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return Array.from(new Set(node.children.flatMap(collectFields)));
+    case 'not':
+      return collectFields(node.child);
+    case 'atom':
+      return [];
+    case 'comparison':
+      return [node.field];
+  }
+}
+
+function resolveField(context: CustomerContext, field: string): any {
+  const derived = DERIVED_FIELDS[field];
+  if (derived) return derived(context);
+
+  let current: any = context;
+  for (const part of field.split('.')) {
+    if (current === undefined || current === null) return undefined;
+    current = current[part];
+  }
+  return current instanceof Date ? current.getTime() : current;
+}
+
+function compare(actual: any, operator: ComparisonOperator, expected: any): boolean {
+  if (actual === undefined || actual === null) return false;
+
+  const expectedValues: any[] = Array.isArray(expected) ? expected : [expected];
+  const actualValues: any[] = Array.isArray(actual) ? actual : [actual];
+
+  switch (operator) {
+    case '=':
+      return actualValues.some(a => a === expectedValues[0]);
+    case '!=':
+      return actualValues.every(a => a !== expectedValues[0]);
+    case '>':
+      return Number(actual) > Number(expectedValues[0]);
+    case '>=':
+      return Number(actual) >= Number(expectedValues[0]);
+    case '<':
+      return Number(actual) < Number(expectedValues[0]);
+    case '<=':
+      return Number(actual) <= Number(expectedValues[0]);
+    case 'IN':
+      return actualValues.some(a => expectedValues.includes(a));
+    case 'NOT IN':
+      return actualValues.every(a => !expectedValues.includes(a));
+    case 'CONTAINS':
+      return Array.isArray(actual)
+        ? actual.includes(expectedValues[0])
+        : String(actual).includes(String(expectedValues[0]));
+    case 'BETWEEN':
+      return Number(actual) >= Number(expectedValues[0]) && Number(actual) <= Number(expectedValues[1]);
+    default:
+      return false;
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ kind: 'punctuation', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        value += source[i];
+        i++;
+      }
+      if (i >= source.length) {
+        throw new Error(`Invalid audience criteria at position ${start}: unterminated string`);
+      }
+      i++;
+      tokens.push({ kind: 'string', value, position: start });
+      continue;
+    }
+
+    const operator = source.slice(i).match(/^(==|!=|>=|<=|=|>|<)/);
+    if (operator) {
+      tokens.push({ kind: 'operator', value: operator[1], position: i });
+      i += operator[1].length;
+      continue;
+    }
+
+    const number = source.slice(i).match(/^-?\d+(\.\d+)?/);
+    if (number) {
+      tokens.push({ kind: 'number', value: parseFloat(number[0]), position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const atom = source.slice(i).match(/^atom:([A-Za-z0-9_-]+)/);
+    if (atom) {
+      tokens.push({ kind: 'atom', value: atom[1], position: i });
+      i += atom[0].length;
+      continue;
+    }
+
+    const word = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_.]*/);
+    if (word) {
+      const upper = word[0].toUpperCase();
+      tokens.push(KEYWORDS.includes(upper)
+        ? { kind: 'keyword', value: upper, position: i }
+        : { kind: 'identifier', value: word[0], position: i });
+      i += word[0].length;
+      continue;
+    }
+
+    throw new Error(`Invalid audience criteria at position ${i}: unexpected character '${char}'`);
+  }
+
+  return tokens;
+}
\ No newline at end of file
@@ -0,0 +1,152 @@
+// src/services/ai/AudienceOverlap.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { CustomerContext } from '../../types/ai';
+import { EligibilityAtom } from '../../types/api/atoms';
+import { computeAudienceOverlap, OverlapSegment, ThetaSketch } from './AudienceOverlap';
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+const customer = (index: number): CustomerContext => ({
+  customerId: `cust-${index}`,
+  tenantId: 'tenant-1',
+  demographics: { age: 18 + (index % 60) },
+  behavioral: {
+    totalPurchases: index % 7,
+    avgOrderValue: 40,
+    lifetimeValue: (index * 37) % 2000,
+    churnRisk: 0.2,
+    engagementScore: 50,
+    preferredChannels: ['email'],
+    activityLevel: 'medium'
+  },
+  contextual: { currentTime: NOW, deviceType: index % 3 === 0 ? 'desktop' : 'mobile', sessionDuration: 60, pageViews: 2 },
+  preferences: { communicationFrequency: 'low', contentTypes: [], topics: [], optedOutChannels: [] }
+});
+
+const customers = (count: number) => Array.from({ length: count }, (_, index) => customer(index));
+
+const SEGMENTS: OverlapSegment[] = [
+  { id: 'older', label: 'Over 50', criteria: 'demographics.age >= 50' },
+  { id: 'mobile', label: 'Mobile', criteria: "contextual.deviceType = 'mobile'" },
+  { id: 'valuable', label: 'Valuable', criteria: 'behavioral.lifetimeValue >= 1000' }
+];
+
+const older = (c: CustomerContext) => c.demographics.age! >= 50;
+const mobile = (c: CustomerContext) => c.contextual.deviceType === 'mobile';
+const valuable = (c: CustomerContext) => c.behavioral.lifetimeValue >= 1000;
+
+const count = (sample: CustomerContext[], predicate: (c: CustomerContext) => boolean) => sample.filter(predicate).length;
+
+describe('ThetaSketch', () => {
+  it('counts distinct keys exactly while they fit', () => {
+    const sketch = new ThetaSketch(64);
+    ['a', 'b', 'a', 'c'].forEach(key => sketch.update(key));
+
+    expect(sketch.estimate()).toBe(3);
+    expect(sketch.getTheta()).toBe(1);
+  });
+
+  it('estimates larger counts from the smallest hashes', () => {
+    const sketch = new ThetaSketch(512);
+    for (let i = 0; i < 20000; i++) sketch.update(`key-${i % 10000}`);
+
+    expect(sketch.getRetained()).toHaveLength(512);
+    expect(sketch.getTheta()).toBeLessThan(1);
+    expect(Math.abs(sketch.estimate() - 10000) / 10000).toBeLessThan(0.15);
+  });
+
+  it('rejects sketches too small to be useful', () => {
+    expect(() => new ThetaSketch(8)).toThrow('Sketch size must be an integer of at least 16, got 8');
+  });
+});
+
+describe('computeAudienceOverlap', () => {
+  it('counts every region exactly when the sketches hold all matches', () => {
+    const sample = customers(600);
+    const result = computeAudienceOverlap(SEGMENTS, sample, { now: NOW });
+
+    expect(result.exact).toBe(true);
+    expect(result.regions).toHaveLength(7);
+    expect(result.segments.map(segment => segment.estimatedSize)).toEqual([
+      count(sample, older),
+      count(sample, mobile),
+      count(sample, valuable)
+    ]);
+
+    const olderMobileOnly = result.regions.find(region => region.segmentIds.join() === 'older,mobile')!;
+    expect(olderMobileOnly.exclusiveSize).toBe(count(sample, c => older(c) && mobile(c) && !valuable(c)));
+    expect(olderMobileOnly.intersectionSize).toBe(count(sample, c => older(c) && mobile(c)));
+    expect(olderMobileOnly.standardError).toBe(0);
+
+    expect(result.intersectionSize).toBe(count(sample, c => older(c) && mobile(c) && valuable(c)));
+    expect(result.unionSize).toBe(count(sample, c => older(c) || mobile(c) || valuable(c)));
+  });
+
+  it('orders regions by how many segments they combine', () => {
+    const result = computeAudienceOverlap(SEGMENTS, customers(100));
+    expect(result.regions.map(region => region.segmentIds.length)).toEqual([1, 1, 1, 2, 2, 2, 3]);
+  });
+
+  it('scales sample counts to the population with sampling error', () => {
+    const sample = customers(600);
+    const result = computeAudienceOverlap(SEGMENTS, sample, { populationSize: 6000 });
+
+    expect(result.exact).toBe(true);
+    expect(result.populationSize).toBe(6000);
+    expect(result.sampleSize).toBe(600);
+    expect(result.segments[0].estimatedSize).toBe(10 * count(sample, older));
+    expect(result.regions[0].standardError).toBeGreaterThan(0);
+  });
+
+  it('estimates regions within their error once the sketches fill up', () => {
+    const sample = customers(6000);
+    const result = computeAudienceOverlap(SEGMENTS, sample, { sketchSize: 256 });
+
+    expect(result.exact).toBe(false);
+    const truth = count(sample, c => older(c) && mobile(c) && !valuable(c));
+    const region = result.regions.find(candidate => candidate.segmentIds.join() === 'older,mobile')!;
+    expect(region.standardError).toBeGreaterThan(0);
+    expect(Math.abs(region.exclusiveSize - truth)).toBeLessThan(4 * region.standardError);
+
+    // Exclusive regions partition the union
+    const partitioned = result.regions.reduce((sum, candidate) => sum + candidate.exclusiveSize, 0);
+    expect(Math.abs(partitioned - result.unionSize)).toBeLessThanOrEqual(result.regions.length);
+  });
+
+  it('evaluates saved atoms and compositions', () => {
+    const atom: EligibilityAtom = {
+      id: 'valuable',
+      name: 'Valuable',
+      type: 'behavioral',
+      status: 'active',
+      version: 1,
+      createdAt: NOW,
+      updatedAt: NOW,
+      createdBy: 'test',
+      logic: { operator: 'AND', conditions: [{ field: 'lifetime_value', operator: 'gte', value: 1000, dataType: 'number' }] }
+    };
+    const sample = customers(300);
+
+    const result = computeAudienceOverlap([
+      { id: 'saved', label: 'Saved atom', criteria: 'atom:valuable' },
+      { id: 'composed', label: 'Composed', composition: { atoms: [{ id: 'valuable' }], connections: [] } }
+    ], sample, { resolveAtom: id => (id === 'valuable' ? atom : undefined), now: NOW });
+
+    expect(result.segments[0].estimatedSize).toBe(count(sample, valuable));
+    expect(result.intersectionSize).toBe(count(sample, valuable));
+  });
+
+  it('rejects comparisons it cannot make', () => {
+    const sample = customers(10);
+    expect(() => computeAudienceOverlap([SEGMENTS[0]], sample)).toThrow('Invalid audience overlap: compare 2 to 5 segments, got 1');
+    expect(() => computeAudienceOverlap([SEGMENTS[0], SEGMENTS[0]], sample)).toThrow('segment older is listed twice');
+    expect(() => computeAudienceOverlap(SEGMENTS, [])).toThrow('there are no customers to evaluate');
+    expect(() => computeAudienceOverlap([SEGMENTS[0], { id: 'bad', label: 'Bad', criteria: 'age >' }], sample))
+      .toThrow('segment Bad has invalid criteria');
+    expect(() => computeAudienceOverlap([SEGMENTS[0], { id: 'empty', label: 'Empty' }], sample))
+      .toThrow('segment Empty has neither criteria nor a composition');
+    expect(() => computeAudienceOverlap([SEGMENTS[0], { id: 'c', label: 'Ghost', composition: { atoms: [{ id: 'ghost' }], connections: [] } }], sample))
+      .toThrow('segment Ghost could not be compiled');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,213 @@
+// src/services/ai/AudienceOverlap.ts
+
+import { CustomerContext } from '../../types/ai';
+import { AudienceOverlapRegion, AudienceOverlapResult } from '../../types/api/atoms';
+import { evaluateCriteria, parseCriteria } from './AudienceCriteria';
+import { AtomResolver, CompiledEligibility, CompositionGraph, compileComposition } from './EligibilityRules';
+
+/**
+ * A segment to compare: audience criteria (`atom:high_value` for a saved atom) or a
+ * composition built in the AtomComposer
+ */
+export interface OverlapSegment {
+  id: string;
+  label: string;
+  criteria?: string;
+  composition?: CompositionGraph;
+}
+
+export interface AudienceOverlapOptions {
+  populationSize?: number; // size of the customer base the customers were sampled from
+  sketchSize?: number; // customers each sketch keeps; larger is more accurate
+  resolveAtom?: AtomResolver;
+  now?: Date; // reference time for relative dates; defaults to each customer's contextual.currentTime
+}
+
+export const MIN_OVERLAP_SEGMENTS = 2;
+export const MAX_OVERLAP_SEGMENTS = 5;
+
+// Keeps the relative error of a segment's size near 1 / sqrt(1024), about 3%
+const DEFAULT_SKETCH_SIZE = 1024;
+
+/**
+ * Theta sketch (k minimum values) of distinct customer IDs. Each ID hashes to a point in
+ * [0, 1) and the sketch keeps the k smallest; theta is the cut-off, so retained / theta
+ * estimates the distinct count. Sketches cut to a common theta can be intersected and
+ * differenced by comparing the hashes they retain.
+ */
+export class ThetaSketch {
+  private hashes: Set<number> = new Set();
+  private theta = 1;
+  private size: number;
+
+  constructor(size: number = DEFAULT_SKETCH_SIZE) {
+    if (!Number.isInteger(size) || size < 16) {
+      throw new Error(`Sketch size must be an integer of at least 16, got ${size}`);
+    }
+    this.size = size;
+  }
+
+  update(key: string): void {
+    const hash = hashKey(key);
+    if (hash >= this.theta) return;
+
+    this.hashes.add(hash);
+    // Trim lazily so most updates are a set insert
+    if (this.hashes.size > 2 * this.size) this.trim();
+  }
+
+  getTheta(): number {
+    this.trim();
+    return this.theta;
+  }
+
+  /**
+   * Hashes below theta, at most `size` of them
+   */
+  getRetained(): number[] {
+    this.trim();
+    return Array.from(this.hashes);
+  }
+
+  estimate(): number {
+    return this.getRetained().length / this.theta;
+  }
+
+  private trim(): void {
+    if (this.hashes.size <= this.size) return;
+
+    const sorted = Array.from(this.hashes).sort((a, b) => a - b);
+    this.theta = sorted[this.size];
+    this.hashes = new Set(sorted.slice(0, this.size));
+  }
+}
+
+/**
+ * Sizes of every intersection and exclusive region of two to five segments. Each segment
+ * is evaluated over the customers into a theta sketch; the sketches are cut to a common
+ * theta and the retained hashes grouped by which segments hold them. Counts are scaled
+ * from the customers to the population, and each region's standard error covers both the
+ * sketch and the customer sample.
+ */
+export function computeAudienceOverlap(
+  segments: OverlapSegment[],
+  customers: CustomerContext[],
+  options: AudienceOverlapOptions = {}
+): AudienceOverlapResult {
+  if (segments.length < MIN_OVERLAP_SEGMENTS || segments.length > MAX_OVERLAP_SEGMENTS) {
+    fail(`compare ${MIN_OVERLAP_SEGMENTS} to ${MAX_OVERLAP_SEGMENTS} segments, got ${segments.length}`);
+  }
+  const duplicate = segments.find((segment, index) => segments.findIndex(other => other.id === segment.id) !== index);
+  if (duplicate) fail(`segment ${duplicate.id} is listed twice`);
+  if (customers.length === 0) fail('there are no customers to evaluate');
+
+  const populationSize = options.populationSize ?? customers.length;
+  const matchers = segments.map(segment => toMatcher(segment, options));
+  const sketches = segments.map(() => new ThetaSketch(options.sketchSize));
+
+  customers.forEach(context => {
+    const now = options.now || context.contextual?.currentTime;
+    matchers.forEach((matches, index) => {
+      if (matches(context, now)) sketches[index].update(context.customerId);
+    });
+  });
+
+  // Every sketch holds all its hashes below its own theta, so below the smallest one
+  // membership can be read off the retained hashes directly
+  const theta = Math.min(...sketches.map(sketch => sketch.getTheta()));
+  const memberships = new Map<number, number>();
+  sketches.forEach((sketch, index) => {
+    sketch.getRetained().forEach(hash => {
+      if (hash < theta) memberships.set(hash, (memberships.get(hash) || 0) | (1 << index));
+    });
+  });
+
+  const counts = new Map<number, number>();
+  memberships.forEach(mask => counts.set(mask, (counts.get(mask) || 0) + 1));
+
+  // Each customer is in a region's count with this probability
+  const samplingRate = theta * (customers.length / populationSize);
+  const scale = (count: number) => Math.round(count / samplingRate);
+  const standardError = (count: number) => Math.round(Math.sqrt(count * Math.max(1 - samplingRate, 0)) / samplingRate);
+
+  const fullMask = (1 << segments.length) - 1;
+  const masks = Array.from({ length: fullMask }, (_, i) => i + 1)
+    .sort((a, b) => bitCount(a) - bitCount(b) || a - b);
+  const countAtLeast = (mask: number) => Array.from(counts.entries())
+    .filter(([candidate]) => (candidate & mask) === mask)
+    .reduce((sum, [, count]) => sum + count, 0);
+
+  const regions: AudienceOverlapRegion[] = masks.map(mask => ({
+    segmentIds: segments.filter((_, index) => mask & (1 << index)).map(segment => segment.id),
+    exclusiveSize: scale(counts.get(mask) || 0),
+    intersectionSize: scale(countAtLeast(mask)),
+    standardError: standardError(counts.get(mask) || 0)
+  }));
+
+  return {
+    segments: segments.map((segment, index) => ({
+      id: segment.id,
+      label: segment.label,
+      estimatedSize: scale(countAtLeast(1 << index)),
+      exclusiveSize: scale(counts.get(1 << index) || 0)
+    })),
+    regions,
+    unionSize: scale(memberships.size),
+    intersectionSize: scale(counts.get(fullMask) || 0),
+    populationSize,
+    sampleSize: customers.length,
+    exact: theta === 1,
+    computedAt: new Date()
+  };
+}
+
+function toMatcher(
+  segment: OverlapSegment,
+  options: AudienceOverlapOptions
+): (context: CustomerContext, now?: Date) => boolean {
+  if (segment.composition) {
+    let compiled: CompiledEligibility;
+    try {
+      compiled = compileComposition(segment.composition, options.resolveAtom || (() => undefined));
+    } catch (error) {
+      fail(`segment ${segment.label} could not be compiled: ${error instanceof Error ? error.message : error}`);
+    }
+    return (context, now) => compiled.evaluate({ context, now }).eligible;
+  }
+
+  if (segment.criteria === undefined) fail(`segment ${segment.label} has neither criteria nor a composition`);
+
+  let node: ReturnType<typeof parseCriteria>;
+  try {
+    node = parseCriteria(segment.criteria!);
+  } catch (error) {
+    fail(`segment ${segment.label} has invalid criteria: ${error instanceof Error ? error.message : error}`);
+  }
+  return context => evaluateCriteria(node, context, options.resolveAtom);
+}
+
+// Murmur3 finalizer over each code unit, run with two seeds to fill the 53 bits of a double
+function hashKey(key: string): number {
+  const hash32 = (seed: number) => {
+    let h = seed;
+    for (let i = 0; i < key.length; i++) {
+      h = Math.imul(h ^ key.charCodeAt(i), 0xcc9e2d51);
+      h = (h << 15) | (h >>> 17);
+    }
+    h ^= key.length;
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return (h ^ (h >>> 16)) >>> 0;
+  };
+  return (hash32(0x9747b28c) * 2 ** 21 + (hash32(0x5bd1e995) >>> 11)) / 2 ** 53;
+}
+
+function bitCount(mask: number): number {
+  let count = 0;
+  for (let value = mask; value; value &= value - 1) count++;
+  return count;
+}
+
+function fail(message: string): never {
+  throw new Error(`Invalid audience overlap: ${message}`);
+}
\ No newline at end of file
@@ -0,0 +1,251 @@
+// src/services/ai/ConstraintEnforcement.ts
+
+import {
+  ContactRecord,
+  DecisionConstraint,
+  DecisionRequest,
+  DroppedRecommendation,
+  FrequencyCap,
+  Recommendation
+} from '../../types/ai';
+
+export interface InventoryProvider {
+  getAvailableQuantity(productId: string, tenantId: string): Promise<number>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Per customer and channel ledger of contacts made with a customer
+ */
+export class ContactHistoryLedger {
+  private contacts: Map<string, ContactRecord[]> = new Map();
+  private retentionDays: number;
+
+  constructor(retentionDays: number = 90) {
+    this.retentionDays = retentionDays;
+  }
+
+  /**
+   * Record a contact made with a customer
+   */
+  recordContact(record: ContactRecord): void {
+    const key = this.getKey(record.tenantId, record.customerId);
+    const history = this.contacts.get(key) || [];
+
+    history.push(record);
+
+    // Drop contacts older than the retention window
+    const cutoff = Date.now() - this.retentionDays * DAY_MS;
+    this.contacts.set(key, history.filter(c => c.timestamp.getTime() >= cutoff));
+  }
+
+  /**
+   * Get contacts for a customer, optionally limited to a channel and time window
+   */
+  getContacts(
+    tenantId: string,
+    customerId: string,
+    filters?: { channel?: string; since?: Date }
+  ): ContactRecord[] {
+    let history = this.contacts.get(this.getKey(tenantId, customerId)) || [];
+
+    if (filters?.channel) {
+      history = history.filter(c => c.channel === filters.channel);
+    }
+    if (filters?.since) {
+      const since = filters.since.getTime();
+      history = history.filter(c => c.timestamp.getTime() >= since);
+    }
+
+    return history;
+  }
+
+  /**
+   * Count contacts for a customer within the last windowDays
+   */
+  countContacts(tenantId: string, customerId: string, windowDays: number, channel?: string): number {
+    return this.getContacts(tenantId, customerId, {
+      channel,
+      since: new Date(Date.now() - windowDays * DAY_MS)
+    }).length;
+  }
+
+  clearCustomer(tenantId: string, customerId: string): void {
+    this.contacts.delete(this.getKey(tenantId, customerId));
+  }
+
+  private getKey(tenantId: string, customerId: string): string {
+    return `${tenantId}:${customerId}`;
+  }
+}
+
+/**
+ * Applies request constraints to recommendations and reports what was dropped
+ */
+export class ConstraintEnforcer {
+  private contactHistory: ContactHistoryLedger;
+  private inventoryProvider: InventoryProvider | null;
+
+  constructor(contactHistory: ContactHistoryLedger, inventoryProvider: InventoryProvider | null = null) {
+    this.contactHistory = contactHistory;
+    this.inventoryProvider = inventoryProvider;
+  }
+
+  setInventoryProvider(provider: InventoryProvider | null): void {
+    this.inventoryProvider = provider;
+  }
+
+  /**
+   * Filter recommendations through every constraint on the request
+   */
+  async apply(
+    recommendations: Recommendation[],
+    request: DecisionRequest
+  ): Promise<{ recommendations: Recommendation[]; dropped: DroppedRecommendation[] }> {
+    const constraints = request.constraints || [];
+    if (constraints.length === 0) {
+      return { recommendations, dropped: [] };
+    }
+
+    const kept: Recommendation[] = [];
+    const dropped: DroppedRecommendation[] = [];
+
+    for (const rec of recommendations) {
+      const violation = await this.findViolation(rec, constraints, request);
+
+      if (violation) {
+        dropped.push({
+          recommendationId: rec.id,
+          strategyId: rec.strategyId,
+          constraint: violation.constraint.type,
+          reason: violation.reason
+        });
+      } else {
+        kept.push(rec);
+      }
+    }
+
+    return { recommendations: kept, dropped };
+  }
+
+  /**
+   * Validate constraint values before a decision is made
+   */
+  validateConstraints(constraints: DecisionConstraint[]): void {
+    constraints.forEach(constraint => {
+      if (constraint.type === 'frequency') {
+        const cap = constraint.value as FrequencyCap;
+        if (!cap || !(cap.maxContacts >= 0) || !(cap.windowDays > 0)) {
+          throw new Error(`Invalid frequency constraint: ${constraint.description}`);
+        }
+      }
+      if (constraint.type === 'budget' && typeof constraint.value !== 'number') {
+        throw new Error(`Invalid budget constraint: ${constraint.description}`);
+      }
+    });
+  }
+
+  private async findViolation(
+    rec: Recommendation,
+    constraints: DecisionConstraint[],
+    request: DecisionRequest
+  ): Promise<{ constraint: DecisionConstraint; reason: string } | null> {
+    for (const constraint of constraints) {
+      const reason = await this.checkConstraint(rec, constraint, request);
+      if (reason) {
+        return { constraint, reason };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Returns the reason the recommendation violates the constraint, or null if it passes
+   */
+  private async checkConstraint(
+    rec: Recommendation,
+    constraint: DecisionConstraint,
+    request: DecisionRequest
+  ): Promise<string | null> {
+    switch (constraint.type) {
+      case 'budget':
+        return rec.expectedValue <= constraint.value
+          ? null
+          : `Expected value ${rec.expectedValue.toFixed(2)} exceeds budget ${constraint.value}`;
+
+      case 'frequency':
+        return this.checkFrequency(rec, constraint.value as FrequencyCap, request);
+
+      case 'inventory':
+        return await this.checkInventory(rec, constraint, request.tenantId);
+
+      case 'compliance':
+        return this.checkCompliance(rec, request);
+
+      default:
+        return null;
+    }
+  }
+
+  private checkFrequency(rec: Recommendation, cap: FrequencyCap, request: DecisionRequest): string | null {
+    const channel = rec.metadata.channel;
+
+    // A channel-specific cap only limits recommendations delivered on that channel
+    if (cap.channel && channel !== cap.channel) {
+      return null;
+    }
+
+    const contacts = this.contactHistory.countContacts(
+      request.tenantId,
+      request.customerId,
+      cap.windowDays,
+      cap.channel
+    );
+
+    if (contacts < cap.maxContacts) {
+      return null;
+    }
+
+    return `${contacts} ${cap.channel || 'total'} contacts in last ${cap.windowDays} days (max ${cap.maxContacts})`;
+  }
+
+  private async checkInventory(
+    rec: Recommendation,
+    constraint: DecisionConstraint,
+    tenantId: string
+  ): Promise<string | null> {
+    const productId = rec.metadata.productId;
+    if (!productId) {
+      return null;
+    }
+
+    if (!this.inventoryProvider) {
+      console.warn('[ConstraintEnforcer] Inventory constraint requested but no inventory provider is configured');
+      return null;
+    }
+
+    const minQuantity = typeof constraint.value === 'number' ? constraint.value : 1;
+
+    try {
+      const available = await this.inventoryProvider.getAvailableQuantity(productId, tenantId);
+      return available >= minQuantity
+        ? null
+        : `Product ${productId} has ${available} units available (min ${minQuantity})`;
+    } catch (error) {
+      console.error(`[ConstraintEnforcer] Inventory lookup failed for ${productId}:`, error);
+      return `Inventory unavailable for product ${productId}`;
+    }
+  }
+
+  private checkCompliance(rec: Recommendation, request: DecisionRequest): string | null {
+    const channel = rec.metadata.channel;
+    const optedOut = request.context.preferences.optedOutChannels;
+
+    if (channel && optedOut.includes(channel)) {
+      return `Customer opted out of ${channel}`;
+    }
+
+    return null;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,138 @@
+// src/services/ai/ContextualBandit.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { ContextualBandit } from './ContextualBandit';
+
+const FEATURES = [{ name: 'x' }, { name: 'y', scale: 10 }];
+const START = new Date('2024-06-01T00:00:00Z');
+
+const greedy = (options: ConstructorParameters<typeof ContextualBandit>[0] = {}) =>
+  new ContextualBandit({ features: FEATURES, defaults: { explorationRate: 0 }, ...options });
+
+// Solve A z = b by Gaussian elimination, for checking the incrementally updated inverse
+const solve = (matrix: number[][], vector: number[]): number[] => {
+  const rows = matrix.map((row, i) => [...row, vector[i]]);
+  const size = rows.length;
+  for (let col = 0; col < size; col++) {
+    const pivot = rows.reduce((best, row, i) => (i >= col && Math.abs(row[col]) > Math.abs(rows[best][col]) ? i : best), col);
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let i = 0; i < size; i++) {
+      if (i === col) continue;
+      const factor = rows[i][col] / rows[col][col];
+      for (let j = col; j <= size; j++) rows[i][j] -= factor * rows[col][j];
+    }
+  }
+  return rows.map((row, i) => row[size] / row[i]);
+};
+
+describe('ContextualBandit', () => {
+  it('learns the ridge regression weights of each arm', () => {
+    const bandit = greedy();
+    bandit.recordImpression('t1', 'r1', 'rec', 'arm', { x: 1 }, START);
+    bandit.recordImpression('t1', 'r2', 'rec', 'arm', { x: 0 }, START);
+    bandit.recordFeedback('r1', 'rec', 1);
+    bandit.recordFeedback('r2', 'rec', 0);
+
+    // A = I + [1,1][1,1]' + [1,0][1,0]' = [[3,1],[1,2]] over (bias, x), b = [1, 1], so w = [0.2, 0.4]
+    const scoreAt = (x: number) => bandit.score('t1', ['arm'], { x, y: 0 }).get('arm')!;
+    expect(scoreAt(1)).toBeCloseTo(0.6, 12);
+    expect(scoreAt(0)).toBeCloseTo(0.2, 12);
+  });
+
+  it('keeps the Sherman-Morrison inverse equal to a direct solve', () => {
+    const bandit = new ContextualBandit({ features: FEATURES, defaults: { explorationRate: 0.5 }, ridge: 2 });
+    const design = [[2, 0, 0], [0, 2, 0], [0, 0, 2]];
+    const rewards = [0, 0, 0];
+
+    let seed = 7;
+    const next = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+
+    for (let i = 0; i < 200; i++) {
+      const input = { x: next(), y: next() * 10 };
+      const context = [1, input.x, input.y / 10];
+      const reward = next() < 0.3 + 0.5 * input.x ? 1 : 0;
+
+      bandit.recordImpression('t1', `r${i}`, 'rec', 'arm', input, START);
+      bandit.recordFeedback(`r${i}`, 'rec', reward);
+      context.forEach((a, row) => {
+        context.forEach((b, col) => { design[row][col] += a * b; });
+        rewards[row] += reward * a;
+      });
+    }
+
+    const weights = solve(design, rewards);
+    const probe = [1, 0.8, 0.3];
+    const mean = weights.reduce((sum, w, i) => sum + w * probe[i], 0);
+    const width = Math.sqrt(solve(design, probe).reduce((sum, z, i) => sum + z * probe[i], 0));
+
+    expect(bandit.score('t1', ['arm'], { x: 0.8, y: 3 }).get('arm')).toBeCloseTo(mean + 0.5 * width, 9);
+  });
+
+  it('widens the confidence bound for arms with less feedback', () => {
+    const bandit = new ContextualBandit({ features: FEATURES, defaults: { explorationRate: 1 } });
+    for (let i = 0; i < 20; i++) {
+      bandit.recordImpression('t1', `r${i}`, 'rec', 'tried', { x: 1 }, START);
+      bandit.recordFeedback(`r${i}`, 'rec', 0);
+    }
+
+    const scores = bandit.score('t1', ['tried', 'untried'], { x: 1 });
+    expect(scores.get('untried')).toBeGreaterThan(scores.get('tried')!);
+    expect(scores.get('untried')).toBeCloseTo(Math.sqrt(2), 12);
+  });
+
+  it('samples the posterior mean when Thompson sampling has no exploration', () => {
+    const bandit = greedy();
+    bandit.configureTenant('t1', { algorithm: 'thompson' });
+    bandit.recordImpression('t1', 'r1', 'rec', 'arm', { x: 1 }, START);
+    bandit.recordFeedback('r1', 'rec', 1);
+
+    const ucb = greedy();
+    ucb.recordImpression('t1', 'r1', 'rec', 'arm', { x: 1 }, START);
+    ucb.recordFeedback('r1', 'rec', 1);
+
+    expect(bandit.score('t1', ['arm'], { x: 1 }).get('arm')).toBeCloseTo(ucb.score('t1', ['arm'], { x: 1 }).get('arm')!, 12);
+  });
+
+  it('counts impressions without feedback as unrewarded once the window lapses', () => {
+    const bandit = greedy({ feedbackWindowMs: 1000 });
+    bandit.recordImpression('t1', 'r1', 'rec', 'arm', { x: 1 }, START);
+    bandit.recordImpression('t1', 'r2', 'rec', 'arm', { x: 1 }, new Date(START.getTime() + 500));
+
+    expect(bandit.expirePending(new Date(START.getTime() + 1200))).toBe(1);
+    expect(bandit.recordFeedback('r1', 'rec')).toBe(false);
+    expect(bandit.recordFeedback('r2', 'rec')).toBe(true);
+    expect(bandit.getArmStats('t1')).toEqual([
+      { armId: 'arm', tenantId: 't1', pulls: 2, totalReward: 1, meanReward: 0.5, pending: 0 }
+    ]);
+  });
+
+  it('resolves the oldest impression when too many are pending', () => {
+    const bandit = greedy({ maxPending: 2 });
+    ['r1', 'r2', 'r3'].forEach(requestId => bandit.recordImpression('t1', requestId, 'rec', 'arm', { x: 1 }, START));
+
+    const [stats] = bandit.getArmStats('t1');
+    expect(stats.pulls).toBe(1);
+    expect(stats.pending).toBe(2);
+    expect(bandit.recordFeedback('r1', 'rec')).toBe(false);
+  });
+
+  it('keeps tenants apart and forgets one on reset', () => {
+    const bandit = greedy();
+    bandit.recordImpression('t1', 'r1', 'rec', 'arm', { x: 1 }, START);
+    bandit.recordImpression('t2', 'r2', 'rec', 'arm', { x: 1 }, START);
+    bandit.recordFeedback('r1', 'rec', 1);
+
+    bandit.reset('t1');
+    expect(bandit.getArmStats('t1')).toEqual([]);
+    expect(bandit.getArmStats('t2')[0].pending).toBe(1);
+  });
+
+  it('rejects invalid settings and rewards', () => {
+    const bandit = greedy();
+    expect(() => bandit.configureTenant('t1', { explorationRate: -1 })).toThrow('Exploration rate must be zero or more, got -1');
+    expect(() => bandit.recordFeedback('r1', 'rec', NaN)).toThrow('Reward must be a finite number, got NaN');
+  });
+});
\ No newline at end of file
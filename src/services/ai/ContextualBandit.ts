@@ -0,0 +1,311 @@
+// src/services/ai/ContextualBandit.ts
+
+import { BanditArmStats, BanditSettings } from '../../types/ai';
+import { toFeatureVector } from './ModelRuntime';
+
+/**
+ * A context feature, divided by `scale` so every dimension is roughly 0-1
+ */
+export interface BanditFeature {
+  name: string; // feature store name; `name=value` is a one-hot indicator
+  scale?: number;
+}
+
+export interface ContextualBanditOptions {
+  features?: BanditFeature[];
+  defaults?: Partial<BanditSettings>; // settings for tenants that have not been configured
+  ridge?: number; // prior precision of each arm's weights
+  feedbackWindowMs?: number; // impressions without feedback after this long count as no reward
+  maxPending?: number;
+}
+
+export const DEFAULT_BANDIT_FEATURES: BanditFeature[] = [
+  { name: 'churn_risk_score' },
+  { name: 'engagement_score', scale: 100 },
+  { name: 'recency_score', scale: 5 },
+  { name: 'frequency_score', scale: 5 },
+  { name: 'monetary_score', scale: 5 },
+  { name: 'purchase_propensity' },
+  { name: 'engagement_velocity', scale: 2 },
+  { name: 'is_weekend' },
+  { name: 'is_business_hours' },
+  { name: 'current_device_type=mobile' }
+];
+
+const DEFAULT_SETTINGS: BanditSettings = {
+  enabled: true,
+  algorithm: 'linucb',
+  explorationRate: 1
+};
+
+interface ArmModel {
+  inverse: number[][]; // inverse of the regularized design matrix
+  rewards: number[]; // sum of reward-weighted contexts
+  pulls: number;
+  totalReward: number;
+}
+
+interface PendingImpression {
+  tenantId: string;
+  armId: string;
+  context: number[];
+  timestamp: number;
+}
+
+/**
+ * Online contextual bandit over recommendation strategies. Each tenant and strategy is an
+ * arm with its own ridge regression from context to reward (disjoint LinUCB); arms are
+ * scored either by an upper confidence bound or by sampling the posterior (linear Thompson
+ * sampling). Impressions are held until conversion feedback arrives or the window lapses.
+ */
+export class ContextualBandit {
+  private features: BanditFeature[];
+  private defaults: BanditSettings;
+  private ridge: number;
+  private feedbackWindowMs: number;
+  private maxPending: number;
+  private settings: Map<string, BanditSettings> = new Map();
+  private arms: Map<string, ArmModel> = new Map();
+  private pending: Map<string, PendingImpression> = new Map();
+
+  constructor(options: ContextualBanditOptions = {}) {
+    this.features = options.features || DEFAULT_BANDIT_FEATURES;
+    this.defaults = { ...DEFAULT_SETTINGS, ...options.defaults };
+    this.ridge = options.ridge ?? 1;
+    this.feedbackWindowMs = options.feedbackWindowMs ?? 7 * 24 * 60 * 60 * 1000;
+    this.maxPending = options.maxPending ?? 10000;
+  }
+
+  /**
+   * Change how a tenant's recommendations are ranked
+   */
+  configureTenant(tenantId: string, settings: Partial<BanditSettings>): BanditSettings {
+    if (settings.explorationRate !== undefined && !(settings.explorationRate >= 0)) {
+      throw new Error(`Exploration rate must be zero or more, got ${settings.explorationRate}`);
+    }
+
+    const updated = { ...this.getSettings(tenantId), ...settings };
+    this.settings.set(tenantId, updated);
+    return updated;
+  }
+
+  getSettings(tenantId: string): BanditSettings {
+    return this.settings.get(tenantId) || { ...this.defaults };
+  }
+
+  isEnabled(tenantId: string): boolean {
+    return this.getSettings(tenantId).enabled;
+  }
+
+  /**
+   * Score each arm for this context. Untried arms share the same prior, so they tie until
+   * feedback separates them.
+   */
+  score(tenantId: string, armIds: string[], input: Record<string, any>): Map<string, number> {
+    const { algorithm, explorationRate } = this.getSettings(tenantId);
+    const context = this.toContext(input);
+    const scores = new Map<string, number>();
+
+    new Set(armIds).forEach(armId => {
+      const arm = this.getArm(tenantId, armId);
+      const weights = matrixVector(arm.inverse, arm.rewards);
+
+      if (algorithm === 'thompson') {
+        const sampled = sampleGaussian(weights, arm.inverse, explorationRate);
+        scores.set(armId, dot(sampled, context));
+      } else {
+        const width = Math.sqrt(Math.max(dot(context, matrixVector(arm.inverse, context)), 0));
+        scores.set(armId, dot(weights, context) + explorationRate * width);
+      }
+    });
+
+    return scores;
+  }
+
+  /**
+   * Remember the context a recommendation was shown in, so feedback can update its arm
+   */
+  recordImpression(
+    tenantId: string,
+    requestId: string,
+    recommendationId: string,
+    armId: string,
+    input: Record<string, any>,
+    timestamp: Date = new Date()
+  ): void {
+    this.expirePending(timestamp);
+
+    this.pending.set(this.getPendingKey(requestId, recommendationId), {
+      tenantId,
+      armId,
+      context: this.toContext(input),
+      timestamp: timestamp.getTime()
+    });
+
+    if (this.pending.size > this.maxPending) {
+      const oldest = this.pending.keys().next().value as string;
+      this.resolve(oldest, 0);
+    }
+  }
+
+  /**
+   * Reward a recommendation that converted. Returns false if the impression is unknown
+   * or its feedback window has already lapsed.
+   */
+  recordFeedback(requestId: string, recommendationId: string, reward: number = 1): boolean {
+    if (!isFinite(reward)) {
+      throw new Error(`Reward must be a finite number, got ${reward}`);
+    }
+    return this.resolve(this.getPendingKey(requestId, recommendationId), reward);
+  }
+
+  /**
+   * Count impressions older than the feedback window as unrewarded
+   */
+  expirePending(now: Date = new Date()): number {
+    const cutoff = now.getTime() - this.feedbackWindowMs;
+    let expired = 0;
+
+    // Impressions are inserted in time order, so stop at the first one still in the window
+    for (const [key, impression] of this.pending) {
+      if (impression.timestamp >= cutoff) break;
+      this.resolve(key, 0);
+      expired++;
+    }
+
+    return expired;
+  }
+
+  getArmStats(tenantId: string): BanditArmStats[] {
+    const pending = new Map<string, number>();
+    this.pending.forEach(impression => {
+      if (impression.tenantId === tenantId) {
+        pending.set(impression.armId, (pending.get(impression.armId) || 0) + 1);
+      }
+    });
+
+    const armIds = new Set(pending.keys());
+    this.arms.forEach((_, key) => {
+      const [armTenant, armId] = key.split('::');
+      if (armTenant === tenantId) armIds.add(armId);
+    });
+
+    return Array.from(armIds).map(armId => {
+      const arm = this.arms.get(this.getArmKey(tenantId, armId));
+      const pulls = arm?.pulls || 0;
+      const totalReward = arm?.totalReward || 0;
+      return {
+        armId,
+        tenantId,
+        pulls,
+        totalReward,
+        meanReward: pulls > 0 ? totalReward / pulls : 0,
+        pending: pending.get(armId) || 0
+      };
+    });
+  }
+
+  /**
+   * Forget what has been learned for a tenant
+   */
+  reset(tenantId: string): void {
+    Array.from(this.arms.keys())
+      .filter(key => key.startsWith(`${tenantId}::`))
+      .forEach(key => this.arms.delete(key));
+    this.pending.forEach((impression, key) => {
+      if (impression.tenantId === tenantId) this.pending.delete(key);
+    });
+  }
+
+  private resolve(key: string, reward: number): boolean {
+    const impression = this.pending.get(key);
+    if (!impression) return false;
+    this.pending.delete(key);
+
+    const arm = this.getArm(impression.tenantId, impression.armId);
+    const { context } = impression;
+
+    // Sherman-Morrison: update the inverse directly instead of re-inverting
+    const projected = matrixVector(arm.inverse, context);
+    const denominator = 1 + dot(context, projected);
+    arm.inverse = arm.inverse.map((row, i) => row.map((value, j) => value - (projected[i] * projected[j]) / denominator));
+    arm.rewards = arm.rewards.map((value, i) => value + reward * context[i]);
+    arm.pulls++;
+    arm.totalReward += reward;
+
+    return true;
+  }
+
+  // Bias term followed by the scaled features; missing values sit at zero
+  private toContext(input: Record<string, any>): number[] {
+    const values = toFeatureVector(this.features.map(feature => feature.name), input);
+    return [1, ...values.map((value, index) => (value ?? 0) / (this.features[index].scale || 1))];
+  }
+
+  private getArm(tenantId: string, armId: string): ArmModel {
+    const key = this.getArmKey(tenantId, armId);
+    let arm = this.arms.get(key);
+
+    if (!arm) {
+      const dimensions = this.features.length + 1;
+      arm = {
+        inverse: identity(dimensions).map(row => row.map(value => value / this.ridge)),
+        rewards: new Array(dimensions).fill(0),
+        pulls: 0,
+        totalReward: 0
+      };
+      this.arms.set(key, arm);
+    }
+
+    return arm;
+  }
+
+  private getArmKey(tenantId: string, armId: string): string {
+    return `${tenantId}::${armId}`;
+  }
+
+  private getPendingKey(requestId: string, recommendationId: string): string {
+    return `${requestId}::${recommendationId}`;
+  }
+}
+
+function identity(size: number): number[][] {
+  return Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? 1 : 0)));
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+function matrixVector(matrix: number[][], vector: number[]): number[] {
+  return matrix.map(row => dot(row, vector));
+}
+
+// Draw from N(mean, scale² · covariance) through the Cholesky factor of the covariance
+function sampleGaussian(mean: number[], covariance: number[][], scale: number): number[] {
+  const factor = cholesky(covariance);
+  const noise = mean.map(() => standardNormal());
+  return mean.map((value, i) => value + scale * factor[i].reduce((sum, entry, j) => sum + entry * noise[j], 0));
+}
+
+function cholesky(matrix: number[][]): number[][] {
+  const size = matrix.length;
+  const lower = Array.from({ length: size }, () => new Array(size).fill(0));
+
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+      lower[i][j] = i === j ? Math.sqrt(Math.max(sum, 0)) : lower[j][j] > 0 ? sum / lower[j][j] : 0;
+    }
+  }
+
+  return lower;
+}
+
+// Box-Muller transform
+function standardNormal(): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
\ No newline at end of file
@@ -0,0 +1,273 @@
+// src/services/ai/DecisionEngine.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import { CustomerContext, DecisionRequest, DecisionResult, Experiment } from '../../types/ai';
+import { ContactHistoryLedger } from './ConstraintEnforcement';
+import { ContextualBandit } from './ContextualBandit';
+import { DecisionEngine } from './DecisionEngine';
+import { DecisionLog, InMemoryDecisionStorage } from './DecisionLog';
+import { ExperimentationEngine } from './ExperimentationEngine';
+import { ExperimentEventLog, InMemoryEventStorage } from './ExperimentEventLog';
+import { FeatureStore } from './FeatureStore';
+import { ModelRegistry } from './ModelRegistry';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const context = (customerId: string): CustomerContext => ({
+  customerId,
+  tenantId: 'tenant-1',
+  demographics: { age: 40, segment: 'premium' },
+  behavioral: {
+    totalPurchases: 12,
+    avgOrderValue: 180,
+    lifetimeValue: 4000,
+    churnRisk: 0.7,
+    engagementScore: 80,
+    preferredChannels: ['email'],
+    activityLevel: 'high'
+  },
+  contextual: { currentTime: new Date(), deviceType: 'desktop', sessionDuration: 400, pageViews: 6 },
+  preferences: { communicationFrequency: 'medium', contentTypes: [], topics: [], optedOutChannels: [] }
+});
+
+const request = (requestId: string, overrides: Partial<DecisionRequest> = {}): DecisionRequest => ({
+  requestId,
+  customerId: 'cust-1',
+  tenantId: 'tenant-1',
+  decisionType: 'next_best_action',
+  context: context(overrides.customerId || 'cust-1'),
+  objectives: [{ type: 'revenue', weight: 1 }],
+  options: { includeReasons: true },
+  ...overrides
+});
+
+const createEngine = (contactHistory = new ContactHistoryLedger(), bandit = new ContextualBandit()) =>
+  new DecisionEngine(undefined, contactHistory, new DecisionLog(new InMemoryDecisionStorage()), bandit);
+
+const strategies = (result: DecisionResult) => result.recommendations.map(rec => rec.strategyId);
+
+// Revenue objective: upsell is worth the most, then channel optimization, then the rest
+const OBJECTIVE_ORDER = ['upsell', 'channel_optimization', 'timing_optimization', 'content_personalization'];
+
+// Wire the registry's default models into the engine the way the AI store does
+const createServingEngine = (featureStore: FeatureStore | null) => {
+  const registry = new ModelRegistry();
+  const engine = createEngine();
+  registry.getModels().forEach(model => engine.registerModel(model));
+  engine.setModelRegistry(registry);
+  engine.setFeatureStore(featureStore);
+  return { engine, registry };
+};
+
+describe('contact history', () => {
+  const capped = { constraints: [{ type: 'frequency' as const, value: { maxContacts: 1, windowDays: 7 }, description: 'Once a week' }] };
+
+  it('records each served recommendation as a contact', async () => {
+    const contactHistory = new ContactHistoryLedger();
+    const result = await createEngine(contactHistory).makeDecision(request('r1'));
+
+    expect(result.recommendations.length).toBeGreaterThan(0);
+    expect(contactHistory.getContacts('tenant-1', 'cust-1').map(contact => [contact.recommendationId, contact.channel]))
+      .toEqual(result.recommendations.map(rec => [rec.id, 'email']));
+  });
+
+  it('filters a second decision inside the cap window', async () => {
+    const engine = createEngine();
+    expect((await engine.makeDecision(request('r1', capped))).recommendations.length).toBeGreaterThan(0);
+
+    const second = await engine.makeDecision(request('r2', capped));
+    expect(second.recommendations).toEqual([]);
+    expect(second.debugInfo?.droppedRecommendations?.every(dropped => dropped.constraint === 'frequency')).toBe(true);
+
+    // Other customers have their own history
+    const other = await engine.makeDecision(request('r3', { ...capped, customerId: 'cust-2' }));
+    expect(other.recommendations.length).toBeGreaterThan(0);
+  });
+
+  it('does not count replayed decisions', async () => {
+    const contactHistory = new ContactHistoryLedger();
+    const engine = createEngine(contactHistory);
+    await engine.makeDecision(request('r1'));
+    const served = contactHistory.getContacts('tenant-1', 'cust-1').length;
+
+    const [entry] = await engine.getDecisionLog().getEntries(new Date(0));
+    await engine.replayDecision(entry);
+    expect(contactHistory.getContacts('tenant-1', 'cust-1')).toHaveLength(served);
+  });
+});
+
+describe('bandit ranking', () => {
+  it('keeps the objective order until feedback separates the arms', async () => {
+    expect(strategies(await createEngine().makeDecision(request('r1')))).toEqual(OBJECTIVE_ORDER);
+  });
+
+  it('weights the objective score by how often each arm converts', async () => {
+    const bandit = new ContextualBandit({ defaults: { explorationRate: 0 } });
+    const engine = createEngine(new ContactHistoryLedger(), bandit);
+
+    for (let i = 0; i < 20; i++) {
+      const result = await engine.makeDecision(request(`train-${i}`));
+      result.recommendations.forEach(rec => {
+        const converted = rec.strategyId === 'upsell' ? i % 2 === 0 : rec.strategyId === 'channel_optimization' && i < 11;
+        engine.recordFeedback(`train-${i}`, rec.id, converted ? 1 : 0);
+      });
+    }
+
+    const rates = Object.fromEntries(bandit.getArmStats('tenant-1').map(stats => [stats.armId, stats.meanReward]));
+    expect(rates).toEqual({ upsell: 0.5, channel_optimization: 0.55, timing_optimization: 0, content_personalization: 0 });
+
+    // Channel optimization converts a little more often, but upsell is worth more per conversion.
+    // Arms that never convert drop below both.
+    expect(strategies(await engine.makeDecision(request('r1')))).toEqual(OBJECTIVE_ORDER);
+
+    for (let i = 20; i < 40; i++) {
+      const result = await engine.makeDecision(request(`train-${i}`));
+      result.recommendations.forEach(rec => engine.recordFeedback(`train-${i}`, rec.id, rec.strategyId === 'timing_optimization' ? 1 : 0));
+    }
+    expect(strategies(await engine.makeDecision(request('r2')))[0]).toBe('timing_optimization');
+  });
+});
+
+describe('model features', () => {
+  const runtimeWarnings = (warn: { mock: { calls: any[][] } }) =>
+    warn.mock.calls.map(call => String(call[0])).filter(message => message.startsWith('[ModelRuntime]'));
+
+  it('gives the default models every feature their artifacts read', async () => {
+    const { engine, registry } = createServingEngine(new FeatureStore());
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await engine.makeDecision(request('r1'));
+    expect(runtimeWarnings(warn)).toEqual([]);
+
+    // The declared features are the ones the artifacts read
+    registry.getModels().filter(model => model.artifact).forEach(model => {
+      const sources = model.artifact!.features.map(feature => feature.split('=')[0]);
+      expect(model.metadata.features).toEqual(sources);
+    });
+    warn.mockRestore();
+  });
+
+  it('warns once per missing feature when the input lacks it', async () => {
+    const { engine } = createServingEngine(null);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await engine.makeDecision(request('r1'));
+    const warnings = runtimeWarnings(warn);
+    expect(warnings.some(message => message.includes('days_since_last_login'))).toBe(true);
+
+    // Each compiled model warns about a feature only once
+    await engine.makeDecision(request('r2'));
+    expect(runtimeWarnings(warn)).toEqual(warnings);
+    warn.mockRestore();
+  });
+});
+
+
+describe('experiments', () => {
+  const upsellOnly: Experiment = {
+    id: 'exp_upsell',
+    name: 'Upsell only',
+    description: '',
+    status: 'draft',
+    type: 'ab_test',
+    startDate: new Date('2024-06-01T00:00:00Z'),
+    targetAudience: { criteria: '', size: 1000, allocation: { control: 50, upsell: 50 } },
+    variants: [
+      { id: 'control', name: 'Control', description: '', allocation: 0.5, configuration: {} },
+      { id: 'upsell', name: 'Upsell', description: '', allocation: 0.5, configuration: { rules: ['upsell'] } }
+    ],
+    metrics: { primary: 'purchase', secondary: [] },
+    configuration: { confidenceLevel: 0.95, minimumDetectableEffect: 0.1, trafficAllocation: 1, randomizationUnit: 'customer' }
+  };
+
+  const createExperimentEngine = async () => {
+    const experiments = new ExperimentationEngine(new ExperimentEventLog(new InMemoryEventStorage()));
+    await experiments.createExperiment(structuredClone(upsellOnly));
+    await experiments.startExperiment('exp_upsell');
+    return experiments;
+  };
+
+  it('serves each customer the strategies of their variant', async () => {
+    const engine = createEngine();
+    engine.setExperimentationEngine(await createExperimentEngine());
+
+    const variants = new Set<string>();
+    for (let i = 0; i < 20; i++) {
+      const result = await engine.makeDecision(request(`r${i}`, { customerId: `cust-${i}` }));
+      const [applied] = result.experimentsApplied || [];
+      variants.add(applied);
+
+      expect(strategies(result)).toEqual(applied === 'exp_upsell:upsell' ? ['upsell'] : OBJECTIVE_ORDER);
+    }
+    expect(variants).toEqual(new Set(['exp_upsell:control', 'exp_upsell:upsell']));
+  });
+
+  it('logs the overrides so replays serve the same variant', async () => {
+    const engine = createEngine();
+    const experiments = await createExperimentEngine();
+    engine.setExperimentationEngine(experiments);
+
+    let customerId = '';
+    for (let i = 0; !customerId; i++) {
+      if (await experiments.getVariantAssignment('exp_upsell', `cust-${i}`, 'tenant-1') === 'upsell') customerId = `cust-${i}`;
+    }
+    await engine.makeDecision(request('r1', { customerId }));
+
+    const [entry] = await engine.getDecisionLog().getEntries(new Date(0));
+    expect(entry.overrides?.strategies).toEqual(['upsell']);
+
+    engine.setExperimentationEngine(null);
+    expect(strategies(await engine.replayDecision(entry))).toEqual(['upsell']);
+  });
+
+  it('still decides when the experimentation engine fails', async () => {
+    const engine = createEngine();
+    const experiments = await createExperimentEngine();
+    vi.spyOn(experiments, 'applyExperiments').mockRejectedValue(new Error('storage unavailable'));
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    engine.setExperimentationEngine(experiments);
+
+    const result = await engine.makeDecision(request('r1'));
+    expect(strategies(result)).toEqual(OBJECTIVE_ORDER);
+    expect(result.experimentsApplied).toEqual([]);
+    error.mockRestore();
+  });
+});
+
+
+describe('challengers', () => {
+  const withChallenger = async (options: Parameters<ModelRegistry['startChallenger']>[1]) => {
+    const { engine, registry } = createServingEngine(new FeatureStore());
+    const champion = registry.getModel('churn_prediction_v1')!;
+    await registry.registerModel({
+      ...structuredClone(champion),
+      id: 'churn_gbm',
+      familyId: 'churn_gbm',
+      version: '2.0.0',
+      status: 'ready',
+      deployment: { ...champion.deployment, environment: 'development' }
+    });
+    registry.startChallenger('churn_gbm', options);
+    return { engine, registry };
+  };
+
+  it('scores shadow challengers alongside the champion without serving them', async () => {
+    const { engine, registry } = await withChallenger({ mode: 'shadow' });
+
+    const result = await engine.makeDecision(request('r1'));
+    expect(result.modelVersions?.churn_prediction).toBe('1.0.0');
+
+    const [prediction] = registry.getShadowPredictions('churn_prediction');
+    expect(prediction).toMatchObject({ requestId: 'r1', championId: 'churn_prediction_v1', challengerId: 'churn_gbm' });
+    expect(prediction.challengerScore).toBe(prediction.championScore);
+  });
+
+  it('serves canary customers from the challenger', async () => {
+    const { engine, registry } = await withChallenger({ mode: 'canary', trafficPercentage: 100 });
+
+    const result = await engine.makeDecision(request('r1'));
+    expect(result.modelVersions?.churn_prediction).toBe('2.0.0');
+    expect(registry.getShadowPredictions()).toEqual([]);
+    expect(registry.getChallenger('churn_prediction')?.requests).toEqual({ champion: 0, challenger: 1 });
+  });
+});
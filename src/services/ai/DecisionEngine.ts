@@ -5,20 +5,139 @@ import {
   DecisionResult, 
   Recommendation, 
   CustomerContext,
-  DecisionObjective,
+  DecisionOverrides,
+  DecisionLogEntry,
+  DecisionReplayScenario,
+  DroppedRecommendation,
+  ContactRecord,
+  RecommendationStrategyConfig,
+  RecommendationExplanation,
   MLModel 
 } from '../../types/ai';
+import { RecommendationStrategy, StrategyRegistry } from './RecommendationStrategies';
+import { ExperimentationEngine } from './ExperimentationEngine';
+import { FeatureStore } from './FeatureStore';
+import { ModelRegistry } from './ModelRegistry';
+import { CompiledModel, compileModelArtifact } from './ModelRuntime';
+import { ConstraintEnforcer, ContactHistoryLedger, InventoryProvider } from './ConstraintEnforcement';
+import { DecisionLog } from './DecisionLog';
+import { ContextualBandit } from './ContextualBandit';
+
+// Engine features that a model's prediction replaces when the model has an artifact
+const MODEL_SCORE_FEATURES: { [purpose: string]: string } = {
+  churn_prediction: 'churnRisk',
+  propensity_scoring: 'propensityToBuy'
+};
+
+const MAX_ATTRIBUTIONS = 5;
 
 export class DecisionEngine {
   private modelRegistry: Map<string, MLModel> = new Map();
-  private featureStore: Map<string, any> = new Map();
-  private experimentConfig: Map<string, any> = new Map();
+  private availableModels: Map<string, MLModel> = new Map();
+  private experimentationEngine: ExperimentationEngine | null = null;
+  private featureStore: FeatureStore | null = null;
+  private registry: ModelRegistry | null = null;
+  private runtimes: Map<string, CompiledModel> = new Map();
   private performanceCache: Map<string, any> = new Map();
-
-  constructor() {
+  private strategyRegistry: StrategyRegistry;
+  private contactHistory: ContactHistoryLedger;
+  private constraintEnforcer: ConstraintEnforcer;
+  private decisionLog: DecisionLog;
+  private bandit: ContextualBandit;
+
+  constructor(
+    strategyRegistry: StrategyRegistry = new StrategyRegistry(),
+    contactHistory: ContactHistoryLedger = new ContactHistoryLedger(),
+    decisionLog: DecisionLog = new DecisionLog(),
+    bandit: ContextualBandit = new ContextualBandit()
+  ) {
+    this.strategyRegistry = strategyRegistry;
+    this.contactHistory = contactHistory;
+    this.decisionLog = decisionLog;
+    this.bandit = bandit;
+    this.constraintEnforcer = new ConstraintEnforcer(contactHistory);
     this.initializeDefaultModels();
   }
 
+  /**
+   * Strategy registry used to generate recommendations
+   */
+  getStrategyRegistry(): StrategyRegistry {
+    return this.strategyRegistry;
+  }
+
+  /**
+   * Route decision requests through experiments so variants can change strategies and models
+   */
+  setExperimentationEngine(engine: ExperimentationEngine | null): void {
+    this.experimentationEngine = engine;
+  }
+
+  /**
+   * Read streaming features (recent page views, last category viewed, ...) at decision time
+   */
+  setFeatureStore(featureStore: FeatureStore | null): void {
+    this.featureStore = featureStore;
+  }
+
+  /**
+   * Log of decisions made by this engine, for replay
+   */
+  getDecisionLog(): DecisionLog {
+    return this.decisionLog;
+  }
+
+  /**
+   * Bandit that learns from conversion feedback how to rank recommendations
+   */
+  getBandit(): ContextualBandit {
+    return this.bandit;
+  }
+
+  /**
+   * Report that a recommendation from a decision converted, so the ranking learns from it
+   */
+  recordFeedback(requestId: string, recommendationId: string, reward: number = 1): boolean {
+    return this.bandit.recordFeedback(requestId, recommendationId, reward);
+  }
+
+  /**
+   * Route traffic to challenger models and log their shadow predictions
+   */
+  setModelRegistry(registry: ModelRegistry | null): void {
+    this.registry = registry;
+  }
+
+  /**
+   * Make a model available to the engine. Deployed models serve their purpose by default;
+   * other models only run when an experiment variant selects them by ID.
+   */
+  registerModel(model: MLModel): void {
+    this.availableModels.set(model.id, model);
+    this.runtimes.delete(model.id);
+    if (model.status === 'deployed') {
+      this.modelRegistry.set(model.purpose, model);
+    }
+  }
+
+  /**
+   * Record a contact so frequency constraints account for it
+   */
+  recordContact(record: ContactRecord): void {
+    this.contactHistory.recordContact(record);
+  }
+
+  getContactHistory(): ContactHistoryLedger {
+    return this.contactHistory;
+  }
+
+  /**
+   * Set the provider used to check product availability for inventory constraints
+   */
+  setInventoryProvider(provider: InventoryProvider | null): void {
+    this.constraintEnforcer.setInventoryProvider(provider);
+  }
+
   /**
    * Core decision making method - Next Best Action
    */
@@ -33,46 +152,30 @@ export class DecisionEngine {
       
       // 2. Get customer features
       const features = await this.extractFeatures(request.context);
+      const modelInput = await this.buildModelInput(request.context, features);
       
-      // 3. Get active experiments
-      const experiments = await this.getActiveExperiments(request.customerId, request.tenantId);
-      
-      // 4. Generate recommendations
-      const recommendations = await this.generateRecommendations(request, features);
+      // Snapshot the inputs before model predictions are applied, so replays can rerun them
+      const inputs = { features: { ...features }, modelInput: { ...modelInput } };
       
-      // 5. Apply business rules and constraints
-      const filteredRecommendations = this.applyConstraints(recommendations, request);
+      // 3. Route through active experiments; variants may override strategies and models
+      const { request: experimentRequest, experimentsApplied } = await this.applyExperiments(request);
       
-      // 6. Rank and optimize
-      const optimizedRecommendations = await this.optimizeRecommendations(
-        filteredRecommendations, 
-        request.objectives
-      );
-      
-      // 7. Calculate overall confidence
-      const overallConfidence = this.calculateOverallConfidence(optimizedRecommendations);
-      
-      const executionTime = Date.now() - startTime;
+      // Global holdout customers get the non-personalized baseline
+      if (experimentRequest.overrides?.holdout) {
+        const baseline = this.createBaselineResult(request, startTime, experimentsApplied);
+        this.logPerformanceMetrics(baseline);
+        this.recordDecision(request, experimentRequest.overrides, inputs, baseline);
+        return baseline;
+      }
       
-      const result: DecisionResult = {
-        requestId: request.requestId,
-        customerId: request.customerId,
-        tenantId: request.tenantId,
-        timestamp: new Date(),
-        recommendations: optimizedRecommendations.slice(0, request.options?.maxRecommendations || 5),
-        overallConfidence,
-        executionTimeMs: executionTime,
-        modelVersions: this.getActiveModelVersions(),
-        experimentsApplied: experiments.map(e => e.id),
-        debugInfo: request.options?.includeReasons ? {
-          featureValues: features,
-          modelScores: this.getModelScores(),
-          rules_applied: this.getAppliedRules()
-        } : undefined
-      };
+      const models = this.routeChallengers(this.resolveModels(experimentRequest), request, modelInput);
+      const result = await this.decide(experimentRequest, features, modelInput, models, experimentsApplied, startTime);
 
       // Log performance metrics
       this.logPerformanceMetrics(result);
+      this.recordDecision(request, experimentRequest.overrides, inputs, result);
+      this.recordImpressions(request, result, modelInput);
+      this.recordContacts(result);
       
       return result;
       
@@ -83,137 +186,213 @@ export class DecisionEngine {
   }
 
   /**
-   * Generate recommendations using multiple models and strategies
+   * Re-run a logged decision with this engine's current strategies and models and the
+   * scenario's changes. The features and experiment overrides recorded at the time are
+   * reused; nothing is logged and experiments and challengers are left untouched.
+   * Constraints are checked against this engine's current contact history, which includes
+   * the replayed decision's own contacts.
    */
-  private async generateRecommendations(
-    request: DecisionRequest, 
-    features: Record<string, any>
-  ): Promise<Recommendation[]> {
-    const recommendations: Recommendation[] = [];
+  async replayDecision(entry: DecisionLogEntry, scenario: DecisionReplayScenario = {}): Promise<DecisionResult> {
+    const startTime = Date.now();
+    const request: DecisionRequest = {
+      ...entry.request,
+      objectives: scenario.objectives || entry.request.objectives,
+      overrides: this.mergeOverrides(entry.overrides, scenario.overrides)
+    };
     
-    // 1. Churn Prevention Recommendations
-    if (features.churnRisk > 0.7) {
-      recommendations.push({
-        id: `churn_prevention_${Date.now()}`,
-        type: 'offer',
-        title: 'Retention Offer - Special Discount',
-        description: 'High-value customer at risk of churning - offer 20% discount',
-        confidence: features.churnRisk,
-        expectedValue: features.lifetimeValue * 0.6, // 60% retention probability
-        priority: 9,
-        metadata: {
-          offerType: 'discount',
-          discount: 20,
-          validUntil: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
-          targetMetrics: {
-            expectedConversionRate: 0.35,
-            expectedRevenue: features.avgOrderValue * 0.8,
-            expectedEngagement: 85
-          }
-        },
-        reasons: [
-          `High churn risk detected (${(features.churnRisk * 100).toFixed(1)}%)`,
-          `Customer lifetime value: $${features.lifetimeValue.toFixed(2)}`,
-          'Retention offers have 60% success rate for this segment'
-        ]
-      });
+    if (request.overrides?.holdout) {
+      return this.createBaselineResult(request, startTime, entry.result.experimentsApplied);
     }
+    
+    return this.decide(
+      request,
+      { ...entry.features },
+      { ...entry.modelInput },
+      this.resolveModels(request),
+      entry.result.experimentsApplied,
+      startTime
+    );
+  }
 
-    // 2. Upsell/Cross-sell Recommendations
-    if (features.propensityToBuy > 0.6 && features.engagementScore > 70) {
-      recommendations.push({
-        id: `upsell_${Date.now()}`,
-        type: 'product',
-        title: 'Premium Product Recommendation',
-        description: 'Customer shows high purchase intent for premium products',
-        confidence: features.propensityToBuy,
-        expectedValue: features.avgOrderValue * 1.4,
-        priority: 7,
-        metadata: {
-          offerType: 'upsell',
-          targetMetrics: {
-            expectedConversionRate: 0.25,
-            expectedRevenue: features.avgOrderValue * 1.4,
-            expectedEngagement: 75
-          }
-        },
-        reasons: [
-          `High purchase propensity (${(features.propensityToBuy * 100).toFixed(1)}%)`,
-          `Strong engagement score (${features.engagementScore})`,
-          'Customer has purchased premium products before'
-        ]
-      });
-    }
+  /**
+   * Steps 4-7: score, generate, constrain and rank recommendations for a request whose
+   * features, experiments and models are already resolved
+   */
+  private async decide(
+    request: DecisionRequest,
+    features: Record<string, any>,
+    modelInput: Record<string, any>,
+    models: Map<string, MLModel>,
+    experimentsApplied: string[],
+    startTime: number
+  ): Promise<DecisionResult> {
+    const modelScores = this.getModelScores(models, modelInput);
+    
+    // Model predictions replace the heuristic estimates the strategies would otherwise use
+    Object.entries(MODEL_SCORE_FEATURES).forEach(([purpose, feature]) => {
+      const prediction = this.predict(models.get(purpose), modelInput);
+      if (prediction !== null) {
+        features[feature] = prediction;
+      }
+    });
+    
+    // 4. Generate recommendations from the tenant's strategies
+    const { recommendations, strategiesApplied } = await this.generateRecommendations(
+      request,
+      features,
+      models,
+      modelInput
+    );
+    
+    // 5. Apply business rules and constraints
+    const { recommendations: filteredRecommendations, dropped } = await this.applyConstraints(
+      recommendations,
+      request
+    );
+    
+    // 6. Rank and optimize
+    const optimizedRecommendations = await this.optimizeRecommendations(
+      filteredRecommendations, 
+      request,
+      modelInput
+    );
+    
+    // 7. Calculate overall confidence
+    const overallConfidence = this.calculateOverallConfidence(optimizedRecommendations);
+    
+    return {
+      requestId: request.requestId,
+      customerId: request.customerId,
+      tenantId: request.tenantId,
+      timestamp: new Date(),
+      recommendations: optimizedRecommendations.slice(0, request.options?.maxRecommendations || 5),
+      overallConfidence,
+      executionTimeMs: Date.now() - startTime,
+      modelVersions: this.getActiveModelVersions(models),
+      experimentsApplied,
+      debugInfo: request.options?.includeReasons ? {
+        featureValues: features,
+        modelScores,
+        rules_applied: strategiesApplied,
+        droppedRecommendations: dropped
+      } : undefined
+    };
+  }
 
-    // 3. Channel Optimization
-    const optimalChannel = this.getOptimalChannel(features);
-    if (optimalChannel.confidence > 0.5) {
-      recommendations.push({
-        id: `channel_opt_${Date.now()}`,
-        type: 'channel',
-        title: `Optimize for ${optimalChannel.channel}`,
-        description: `Customer responds best to ${optimalChannel.channel} communications`,
-        confidence: optimalChannel.confidence,
-        expectedValue: features.avgOrderValue * optimalChannel.lift,
-        priority: 6,
-        metadata: {
-          targetMetrics: {
-            expectedConversionRate: optimalChannel.conversionRate,
-            expectedRevenue: features.avgOrderValue * optimalChannel.lift,
-            expectedEngagement: optimalChannel.engagement
-          }
-        },
-        reasons: [
-          `${optimalChannel.channel} shows ${((optimalChannel.lift - 1) * 100).toFixed(1)}% lift`,
-          `Historical conversion rate: ${(optimalChannel.conversionRate * 100).toFixed(1)}%`
-        ]
-      });
-    }
+  /**
+   * Persist a decision with its inputs without blocking the decision path
+   */
+  private recordDecision(
+    request: DecisionRequest,
+    overrides: DecisionOverrides | undefined,
+    inputs: { features: Record<string, any>; modelInput: Record<string, any> },
+    result: DecisionResult
+  ): void {
+    this.decisionLog.append({
+      id: request.requestId,
+      timestamp: result.timestamp,
+      request,
+      overrides,
+      features: inputs.features,
+      modelInput: inputs.modelInput,
+      result
+    }).catch(error => {
+      console.error('[DecisionEngine] Failed to append to decision log:', error);
+    });
+  }
 
-    // 4. Timing Optimization
-    const optimalTiming = this.getOptimalTiming(features);
-    recommendations.push({
-      id: `timing_opt_${Date.now()}`,
-      type: 'timing',
-      title: `Send at ${optimalTiming.time}`,
-      description: `Customer engagement peaks at ${optimalTiming.time} on ${optimalTiming.day}`,
-      confidence: optimalTiming.confidence,
-      expectedValue: features.avgOrderValue * optimalTiming.lift,
-      priority: 5,
-      metadata: {
-        targetMetrics: {
-          expectedConversionRate: optimalTiming.conversionRate,
-          expectedRevenue: features.avgOrderValue * optimalTiming.lift,
-          expectedEngagement: optimalTiming.engagement
-        }
-      },
-      reasons: [
-        `Peak engagement time based on historical data`,
-        `${((optimalTiming.lift - 1) * 100).toFixed(1)}% higher response rate`
-      ]
+  /**
+   * Layer replay scenario overrides on top of the experiment overrides recorded with a decision
+   */
+  private mergeOverrides(recorded?: DecisionOverrides, scenario?: DecisionOverrides): DecisionOverrides | undefined {
+    if (!scenario) return recorded;
+    
+    const strategyConfig = { ...recorded?.strategyConfig };
+    Object.entries(scenario.strategyConfig || {}).forEach(([strategyId, config]) => {
+      const current = strategyConfig[strategyId];
+      strategyConfig[strategyId] = {
+        ...current,
+        ...config,
+        thresholds: { ...current?.thresholds, ...config.thresholds }
+      };
     });
+    
+    return {
+      ...recorded,
+      ...scenario,
+      strategyConfig,
+      parameters: { ...recorded?.parameters, ...scenario.parameters }
+    };
+  }
 
-    // 5. Content Personalization
-    const personalizedContent = this.getPersonalizedContent(features);
-    recommendations.push({
-      id: `content_${Date.now()}`,
-      type: 'content',
-      title: personalizedContent.title,
-      description: personalizedContent.description,
-      confidence: personalizedContent.confidence,
-      expectedValue: features.avgOrderValue * personalizedContent.lift,
-      priority: 4,
-      metadata: {
-        targetMetrics: {
-          expectedConversionRate: personalizedContent.conversionRate,
-          expectedRevenue: features.avgOrderValue * personalizedContent.lift,
-          expectedEngagement: personalizedContent.engagement
+  /**
+   * Generate recommendations by running every enabled strategy for the tenant
+   */
+  private async generateRecommendations(
+    request: DecisionRequest, 
+    features: Record<string, any>,
+    models: Map<string, MLModel>,
+    modelInput: Record<string, any>
+  ): Promise<{ recommendations: Recommendation[]; strategiesApplied: string[] }> {
+    const recommendations: Recommendation[] = [];
+    const strategiesApplied: string[] = [];
+    
+    for (const { strategy, config } of this.resolveStrategies(request)) {
+      try {
+        const generated = strategy.generate(features, request, config);
+        if (generated.length > 0) {
+          strategiesApplied.push(strategy.id);
         }
-      },
-      reasons: personalizedContent.reasons
-    });
+        generated.forEach(rec => recommendations.push({
+          ...rec,
+          strategyId: strategy.id,
+          metadata: {
+            ...rec.metadata,
+            channel: rec.metadata.channel || features.preferredChannel
+          },
+          explanation: this.explainRecommendation(strategy, rec.explanation, models, modelInput)
+        }));
+      } catch (error) {
+        console.error(`[DecisionEngine] Strategy ${strategy.id} failed:`, error);
+      }
+    }
 
-    return recommendations.filter(r => r.confidence > 0.3); // Filter low confidence recommendations
+    return {
+      recommendations: recommendations.filter(r => r.confidence > 0.3), // Filter low confidence recommendations
+      strategiesApplied
+    };
+  }
+
+  /**
+   * Resolve the strategies to run, applying experiment overrides for this request only
+   */
+  private resolveStrategies(
+    request: DecisionRequest
+  ): { strategy: RecommendationStrategy; config: RecommendationStrategyConfig }[] {
+    const overrides = request.overrides;
+    
+    const strategies = overrides?.strategies
+      ? this.strategyRegistry.getStrategies(request.tenantId)
+        .filter(({ strategy }) => overrides.strategies!.includes(strategy.id))
+      : this.strategyRegistry.getActiveStrategies(request.tenantId);
+    
+    return strategies.map(({ strategy, config }) => {
+      const override = overrides?.strategyConfig?.[strategy.id];
+      if (!override) {
+        return { strategy, config };
+      }
+      
+      return {
+        strategy,
+        config: {
+          ...config,
+          ...override,
+          strategyId: strategy.id,
+          thresholds: { ...config.thresholds, ...override.thresholds },
+          offer: override.offer ? { ...config.offer, ...override.offer } : config.offer
+        }
+      };
+    });
   }
 
   /**
@@ -246,7 +425,10 @@ export class DecisionEngine {
       preferredChannel: context.behavioral.preferredChannels[0] || 'email',
       recency: this.calculateRecency(context.behavioral.lastLoginDate),
       frequency: this.calculateFrequency(context.behavioral.totalPurchases),
-      monetary: context.behavioral.avgOrderValue
+      monetary: context.behavioral.avgOrderValue,
+      
+      // Streaming aggregates keep their feature store names
+      ...(this.featureStore?.getStreamingFeatures(context.customerId, context.tenantId) || {})
     };
 
     return features;
@@ -283,163 +465,20 @@ export class DecisionEngine {
     return Math.min(score, 1.0);
   }
 
-  /**
-   * Get optimal channel for customer
-   */
-  private getOptimalChannel(features: Record<string, any>): {
-    channel: string;
-    confidence: number;
-    lift: number;
-    conversionRate: number;
-    engagement: number;
-  } {
-    // Simplified channel optimization - in production would use ML model
-    const preferredChannel = features.preferredChannel;
-    
-    const channelData = {
-      'email': { confidence: 0.8, lift: 1.2, conversionRate: 0.15, engagement: 75 },
-      'sms': { confidence: 0.9, lift: 1.4, conversionRate: 0.22, engagement: 85 },
-      'push': { confidence: 0.7, lift: 1.1, conversionRate: 0.12, engagement: 65 },
-      'web': { confidence: 0.6, lift: 1.0, conversionRate: 0.08, engagement: 55 }
-    };
-
-    return {
-      channel: preferredChannel,
-      ...channelData[preferredChannel as keyof typeof channelData] || channelData.email
-    };
-  }
-
-  /**
-   * Get optimal timing for customer
-   */
-  private getOptimalTiming(features: Record<string, any>): {
-    time: string;
-    day: string;
-    confidence: number;
-    lift: number;
-    conversionRate: number;
-    engagement: number;
-  } {
-    // Simplified timing optimization - in production would use ML model
-    const hour = features.timeOfDay;
-    const dayOfWeek = features.dayOfWeek;
-    
-    // Peak engagement times based on general patterns
-    let optimalHour = 10; // 10 AM default
-    let confidence = 0.6;
-    
-    if (hour >= 9 && hour <= 11) {
-      optimalHour = hour;
-      confidence = 0.8;
-    } else if (hour >= 14 && hour <= 16) {
-      optimalHour = hour;
-      confidence = 0.7;
-    }
-    
-    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    const optimalDay = dayOfWeek >= 1 && dayOfWeek <= 4 ? days[dayOfWeek] : 'Tuesday';
-    
-    return {
-      time: `${optimalHour}:00`,
-      day: optimalDay,
-      confidence,
-      lift: 1.15,
-      conversionRate: 0.18,
-      engagement: 80
-    };
-  }
-
-  /**
-   * Get personalized content recommendation
-   */
-  private getPersonalizedContent(features: Record<string, any>): {
-    title: string;
-    description: string;
-    confidence: number;
-    lift: number;
-    conversionRate: number;
-    engagement: number;
-    reasons: string[];
-  } {
-    const engagementScore = features.engagementScore;
-    const segment = features.segment;
-    const lifetimeValue = features.lifetimeValue;
-    
-    if (lifetimeValue > 1000 && engagementScore > 80) {
-      return {
-        title: 'VIP Exclusive Content',
-        description: 'Premium content tailored for high-value customers',
-        confidence: 0.85,
-        lift: 1.3,
-        conversionRate: 0.25,
-        engagement: 90,
-        reasons: [
-          'High lifetime value customer',
-          'Strong engagement history',
-          'VIP content shows 30% higher conversion'
-        ]
-      };
-    } else if (engagementScore > 60) {
-      return {
-        title: 'Personalized Recommendations',
-        description: 'Content based on browsing and purchase history',
-        confidence: 0.7,
-        lift: 1.15,
-        conversionRate: 0.18,
-        engagement: 75,
-        reasons: [
-          'Good engagement history',
-          'Personalization improves relevance',
-          'Content matches customer interests'
-        ]
-      };
-    } else {
-      return {
-        title: 'Re-engagement Content',
-        description: 'Educational content to rebuild engagement',
-        confidence: 0.5,
-        lift: 1.05,
-        conversionRate: 0.10,
-        engagement: 60,
-        reasons: [
-          'Low engagement detected',
-          'Educational content builds trust',
-          'Gradual re-engagement strategy'
-        ]
-      };
-    }
-  }
-
   /**
    * Apply business constraints to filter recommendations
    */
-  private applyConstraints(
+  private async applyConstraints(
     recommendations: Recommendation[], 
     request: DecisionRequest
-  ): Recommendation[] {
-    if (!request.constraints || request.constraints.length === 0) {
-      return recommendations;
-    }
+  ): Promise<{ recommendations: Recommendation[]; dropped: DroppedRecommendation[] }> {
+    const { recommendations: kept, dropped } = await this.constraintEnforcer.apply(recommendations, request);
 
-    return recommendations.filter(rec => {
-      return request.constraints!.every(constraint => {
-        switch (constraint.type) {
-          case 'budget':
-            return rec.expectedValue <= constraint.value;
-          case 'frequency':
-            // Check if customer hasn't been contacted recently
-            return true; // Simplified - would check actual contact history
-          case 'inventory':
-            // Check product availability
-            return true; // Simplified - would check actual inventory
-          case 'compliance':
-            // Check compliance rules
-            return true; // Simplified - would check actual compliance
-          default:
-            return true;
-        }
-      });
+    dropped.forEach(d => {
+      console.log(`[DecisionEngine] Dropped ${d.recommendationId} (${d.constraint}): ${d.reason}`);
     });
+
+    return { recommendations: kept, dropped };
   }
 
   /**
@@ -447,8 +486,11 @@ export class DecisionEngine {
    */
   private async optimizeRecommendations(
     recommendations: Recommendation[],
-    objectives: DecisionObjective[]
+    request: DecisionRequest,
+    modelInput: Record<string, any>
   ): Promise<Recommendation[]> {
+    const { objectives } = request;
+    
     // Calculate weighted scores for each recommendation
     const scoredRecommendations = recommendations.map(rec => {
       let weightedScore = 0;
@@ -482,10 +524,57 @@ export class DecisionEngine {
       };
     });
     
-    // Sort by weighted score and return
-    return scoredRecommendations
-      .sort((a, b) => b.weightedScore - a.weightedScore)
-      .map(({ weightedScore, ...rec }) => rec);
+    // Sort by weighted score
+    scoredRecommendations.sort((a, b) => b.weightedScore - a.weightedScore);
+    
+    if (this.bandit.isEnabled(request.tenantId)) {
+      // The bandit estimates how likely each recommendation is to convert in this context, so
+      // the objective score is weighted by it: a recommendation that converts a little more
+      // often can't outrank one worth much more to the objectives. Estimates below zero count
+      // as zero. Arms the bandit cannot yet tell apart score alike and keep their objective order.
+      const banditScores = this.bandit.score(
+        request.tenantId,
+        scoredRecommendations.map(rec => this.getArmId(rec)),
+        modelInput
+      );
+      const rankScore = (rec: { weightedScore: number } & Recommendation) =>
+        rec.weightedScore * Math.max(banditScores.get(this.getArmId(rec))!, 0);
+      
+      scoredRecommendations.sort((a, b) => rankScore(b) - rankScore(a));
+    }
+    
+    return scoredRecommendations.map(({ weightedScore, ...rec }) => rec);
+  }
+
+  /**
+   * Hold the context each served recommendation was ranked in until feedback arrives
+   */
+  private recordImpressions(request: DecisionRequest, result: DecisionResult, modelInput: Record<string, any>): void {
+    if (!this.bandit.isEnabled(request.tenantId)) return;
+    
+    result.recommendations.forEach(rec => {
+      this.bandit.recordImpression(request.tenantId, request.requestId, rec.id, this.getArmId(rec), modelInput, result.timestamp);
+    });
+  }
+
+  /**
+   * Count each served recommendation as a contact, so frequency caps see it on the next decision
+   */
+  private recordContacts(result: DecisionResult): void {
+    result.recommendations.forEach(rec => {
+      this.contactHistory.recordContact({
+        customerId: result.customerId,
+        tenantId: result.tenantId,
+        channel: rec.metadata.channel,
+        timestamp: result.timestamp,
+        recommendationId: rec.id,
+        campaignId: rec.metadata.campaignId
+      });
+    });
+  }
+
+  private getArmId(recommendation: Recommendation): string {
+    return recommendation.strategyId || recommendation.type;
   }
 
   /**
@@ -515,38 +604,213 @@ export class DecisionEngine {
     if (Math.abs(totalWeight - 1.0) > 0.01) {
       throw new Error('Objective weights must sum to 1.0');
     }
+    
+    if (request.constraints) {
+      this.constraintEnforcer.validateConstraints(request.constraints);
+    }
   }
 
-  private async getActiveExperiments(customerId: string, tenantId: string): Promise<any[]> {
-    // Simplified - would query actual experiment service
-    return [];
+  private async applyExperiments(request: DecisionRequest): Promise<{
+    request: DecisionRequest;
+    experimentsApplied: string[];
+  }> {
+    if (!this.experimentationEngine) {
+      return { request, experimentsApplied: [] };
+    }
+    
+    try {
+      return await this.experimentationEngine.applyExperiments(request);
+    } catch (error) {
+      // Experiments must never block a decision; fall back to the unmodified request
+      console.error('[DecisionEngine] Failed to apply experiments:', error);
+      return { request, experimentsApplied: [] };
+    }
   }
 
-  private getActiveModelVersions(): { [modelName: string]: string } {
-    const versions: { [modelName: string]: string } = {};
-    this.modelRegistry.forEach((model, name) => {
-      if (model.status === 'deployed') {
-        versions[name] = model.version;
+  /**
+   * Deployed models by purpose, with an experiment's model replacing the one with the same purpose
+   */
+  private resolveModels(request: DecisionRequest): Map<string, MLModel> {
+    const models = new Map(this.modelRegistry);
+    const modelId = request.overrides?.modelId;
+    
+    if (modelId) {
+      const override = this.availableModels.get(modelId);
+      if (override) {
+        models.set(override.purpose, override);
+      } else {
+        console.warn(`[DecisionEngine] Experiment model not registered: ${modelId}`);
+      }
+    }
+    
+    return models;
+  }
+
+  /**
+   * Serve canary customers from the challenger and score shadow challengers alongside
+   * the champion. Experiments that pick a model for the same purpose take precedence.
+   */
+  private routeChallengers(
+    models: Map<string, MLModel>,
+    request: DecisionRequest,
+    features: Record<string, any>
+  ): Map<string, MLModel> {
+    const registry = this.registry;
+    if (!registry) {
+      return models;
+    }
+    
+    const routed = new Map(models);
+    registry.getChallengers({ status: 'running' }).forEach(deployment => {
+      const champion = models.get(deployment.purpose);
+      const challenger = registry.getModel(deployment.challengerId);
+      if (!challenger || champion?.id !== deployment.championId) return;
+      
+      const servedBy = registry.routeRequest(deployment.purpose, request.tenantId, request.customerId);
+      if (servedBy === 'challenger') {
+        routed.set(deployment.purpose, challenger);
+      }
+      
+      if (deployment.mode === 'shadow') {
+        registry.recordShadowPrediction({
+          requestId: request.requestId,
+          customerId: request.customerId,
+          tenantId: request.tenantId,
+          purpose: deployment.purpose,
+          championId: champion.id,
+          challengerId: challenger.id,
+          championScore: this.scoreModel(champion, features),
+          challengerScore: this.scoreModel(challenger, features),
+          timestamp: new Date()
+        });
       }
+      
+      registry.evaluateChallenger(deployment.purpose)
+        .then(promoted => {
+          if (promoted) {
+            console.log(`[DecisionEngine] Challenger ${promoted.id} promoted for ${promoted.purpose}`);
+            this.registerModel(promoted);
+          }
+        })
+        .catch(error => console.error(`[DecisionEngine] Failed to promote challenger ${challenger.id}:`, error));
+    });
+    
+    return routed;
+  }
+
+  private getActiveModelVersions(models: Map<string, MLModel>): { [modelName: string]: string } {
+    const versions: { [modelName: string]: string } = {};
+    models.forEach((model, name) => {
+      versions[name] = model.version;
     });
     return versions;
   }
 
-  private getModelScores(): { [modelName: string]: number } {
-    // Simplified - would return actual model prediction scores
-    return {
-      'churn_prediction': 0.75,
-      'propensity_scoring': 0.68,
-      'recommendation_engine': 0.82
-    };
+  private getModelScores(
+    models: Map<string, MLModel>,
+    features: Record<string, any>
+  ): { [modelName: string]: number } {
+    const scores: { [modelName: string]: number } = {};
+    models.forEach((model, name) => {
+      scores[name] = this.scoreModel(model, features);
+    });
+    return scores;
+  }
+
+  /**
+   * Feature vector models score: the engine's features plus the feature store's, which
+   * use the names models are trained on
+   */
+  private async buildModelInput(
+    context: CustomerContext,
+    features: Record<string, any>
+  ): Promise<Record<string, any>> {
+    if (!this.featureStore) {
+      return features;
+    }
+    
+    try {
+      return { ...features, ...(await this.featureStore.computeFeaturesFromContext(context)) };
+    } catch (error) {
+      console.error('[DecisionEngine] Failed to compute feature store features:', error);
+      return features;
+    }
   }
 
-  private getAppliedRules(): string[] {
-    return [
-      'high_value_customer_rule',
-      'churn_prevention_rule',
-      'engagement_optimization_rule'
-    ];
+  /**
+   * Add the top feature attributions of the model behind the strategy to the
+   * strategy's own explanation
+   */
+  private explainRecommendation(
+    strategy: RecommendationStrategy,
+    explanation: RecommendationExplanation | undefined,
+    models: Map<string, MLModel>,
+    modelInput: Record<string, any>
+  ): RecommendationExplanation {
+    const base: RecommendationExplanation = { attributions: [], rulesFired: [], ...explanation };
+    const model = strategy.modelPurpose ? models.get(strategy.modelPurpose) : undefined;
+    
+    try {
+      const runtime = model ? this.getRuntime(model) : null;
+      if (!model || !runtime) return base;
+      
+      const attributions = runtime.explain(modelInput)
+        .filter(attribution => attribution.contribution !== 0)
+        .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+        .slice(0, MAX_ATTRIBUTIONS);
+      
+      return {
+        ...base,
+        modelId: model.id,
+        modelVersion: model.version,
+        modelScore: runtime.predict(modelInput),
+        attributions
+      };
+    } catch (error) {
+      console.error(`[DecisionEngine] Failed to explain model ${model?.id}:`, error);
+      return base;
+    }
+  }
+
+  /**
+   * Run a model's artifact, or null if it has none or scoring fails
+   */
+  private predict(model: MLModel | undefined, features: Record<string, any>): number | null {
+    if (!model) return null;
+    
+    try {
+      const score = this.getRuntime(model)?.predict(features);
+      return score !== undefined && isFinite(score) ? score : null;
+    } catch (error) {
+      console.error(`[DecisionEngine] Failed to score model ${model.id}:`, error);
+      return null;
+    }
+  }
+
+  private getRuntime(model: MLModel): CompiledModel | null {
+    if (!model.artifact) return null;
+    
+    let runtime = this.runtimes.get(model.id);
+    if (!runtime) {
+      runtime = this.registry?.getModel(model.id)
+        ? this.registry.loadModelRuntime(model.id)
+        : compileModelArtifact(model.artifact);
+      this.runtimes.set(model.id, runtime);
+    }
+    return runtime;
+  }
+
+  private scoreModel(model: MLModel, features: Record<string, any>): number {
+    const prediction = this.predict(model, features);
+    if (prediction !== null) return prediction;
+    
+    // Models without an artifact fall back to the features their purpose maps to
+    const scoreByPurpose: { [purpose: string]: number } = {
+      'churn_prediction': features.churnRisk,
+      'propensity_scoring': features.propensityToBuy,
+      'clv_forecasting': features.lifetimeValue
+    };
+    return scoreByPurpose[model.purpose] ?? 0;
   }
 
   private calculateRecency(lastLogin?: Date): number {
@@ -559,6 +823,40 @@ export class DecisionEngine {
     return Math.min(totalPurchases / 10, 1); // 0-1 score, normalized to 10 purchases
   }
 
+  private createBaselineResult(
+    request: DecisionRequest,
+    startTime: number,
+    experimentsApplied: string[]
+  ): DecisionResult {
+    return {
+      requestId: request.requestId,
+      customerId: request.customerId,
+      tenantId: request.tenantId,
+      timestamp: new Date(),
+      recommendations: [{
+        id: 'baseline_recommendation',
+        type: 'content',
+        title: 'Default Experience',
+        description: 'Standard content shown to customers outside personalization',
+        confidence: 0.5,
+        expectedValue: 0,
+        priority: 1,
+        metadata: {
+          targetMetrics: {
+            expectedConversionRate: 0.05,
+            expectedRevenue: 0,
+            expectedEngagement: 30
+          }
+        },
+        reasons: ['Customer is in the global holdout']
+      }],
+      overallConfidence: 0.5,
+      executionTimeMs: Date.now() - startTime,
+      modelVersions: {},
+      experimentsApplied
+    };
+  }
+
   private createFallbackResult(request: DecisionRequest, startTime: number, error: Error): DecisionResult {
     return {
       requestId: request.requestId,
@@ -625,7 +923,7 @@ export class DecisionEngine {
       }
     };
 
-    this.modelRegistry.set('churn_prediction', churnModel);
+    this.registerModel(churnModel);
   }
 
   private logPerformanceMetrics(result: DecisionResult): void {
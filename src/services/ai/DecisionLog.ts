@@ -0,0 +1,150 @@
+// src/services/ai/DecisionLog.ts
+
+import { DecisionLogEntry } from '../../types/ai';
+
+/**
+ * Storage backend for the decision log. Implement this to persist decisions on a server.
+ */
+export interface DecisionLogStorage {
+  append(entries: DecisionLogEntry[]): Promise<void>;
+  readRange(start: Date, end: Date): Promise<DecisionLogEntry[]>;
+  deleteBefore(cutoff: Date): Promise<void>;
+}
+
+/**
+ * Non-persistent storage, used where IndexedDB is unavailable
+ */
+export class InMemoryDecisionStorage implements DecisionLogStorage {
+  private entries: DecisionLogEntry[] = [];
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 10000) {
+    this.maxEntries = maxEntries;
+  }
+
+  async append(entries: DecisionLogEntry[]): Promise<void> {
+    this.entries.push(...entries);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+
+  async readRange(start: Date, end: Date): Promise<DecisionLogEntry[]> {
+    return this.entries.filter(entry => entry.timestamp >= start && entry.timestamp <= end);
+  }
+
+  async deleteBefore(cutoff: Date): Promise<void> {
+    this.entries = this.entries.filter(entry => entry.timestamp >= cutoff);
+  }
+}
+
+/**
+ * Browser storage that survives reloads, indexed by decision time
+ */
+export class IndexedDBDecisionStorage implements DecisionLogStorage {
+  private static readonly STORE = 'decisions';
+  private dbName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName: string = 'kairos-decision-log') {
+    this.dbName = dbName;
+  }
+
+  async append(entries: DecisionLogEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction(IndexedDBDecisionStorage.STORE, 'readwrite');
+    const store = transaction.objectStore(IndexedDBDecisionStorage.STORE);
+    entries.forEach(entry => store.put(entry));
+
+    await this.complete(transaction);
+  }
+
+  async readRange(start: Date, end: Date): Promise<DecisionLogEntry[]> {
+    const db = await this.openDatabase();
+    const store = db.transaction(IndexedDBDecisionStorage.STORE, 'readonly').objectStore(IndexedDBDecisionStorage.STORE);
+    return this.request<DecisionLogEntry[]>(store.index('timestamp').getAll(IDBKeyRange.bound(start, end)));
+  }
+
+  async deleteBefore(cutoff: Date): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(IndexedDBDecisionStorage.STORE, 'readwrite');
+    const store = transaction.objectStore(IndexedDBDecisionStorage.STORE);
+
+    const keys = await this.request<IDBValidKey[]>(store.index('timestamp').getAllKeys(IDBKeyRange.upperBound(cutoff, true)));
+    keys.forEach(key => store.delete(key));
+
+    await this.complete(transaction);
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(IndexedDBDecisionStorage.STORE, { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp', { unique: false });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * IndexedDB in the browser, in-memory elsewhere
+ */
+export function createDefaultDecisionStorage(): DecisionLogStorage {
+  return typeof indexedDB !== 'undefined' ? new IndexedDBDecisionStorage() : new InMemoryDecisionStorage();
+}
+
+/**
+ * Append-only log of decisions with the inputs needed to replay them
+ */
+export class DecisionLog {
+  private storage: DecisionLogStorage;
+
+  constructor(storage: DecisionLogStorage = createDefaultDecisionStorage()) {
+    this.storage = storage;
+  }
+
+  async append(entry: DecisionLogEntry): Promise<void> {
+    await this.storage.append([entry]);
+  }
+
+  /**
+   * Decisions made between `start` and `end` inclusive, oldest first
+   */
+  async getEntries(start: Date, end: Date = new Date()): Promise<DecisionLogEntry[]> {
+    const entries = await this.storage.readRange(start, end);
+    return entries
+      .map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) }))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  /**
+   * Drop decisions older than the cutoff
+   */
+  async prune(cutoff: Date): Promise<void> {
+    await this.storage.deleteBefore(cutoff);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,119 @@
+// src/services/ai/DecisionReplay.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import { CustomerContext, DecisionLogEntry, DecisionRequest } from '../../types/ai';
+import { DecisionEngine } from './DecisionEngine';
+import { DecisionLog, InMemoryDecisionStorage } from './DecisionLog';
+import { replayDecisions } from './DecisionReplay';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const context = (customerId: string): CustomerContext => ({
+  customerId,
+  tenantId: 'tenant-1',
+  demographics: { age: 40, segment: 'premium' },
+  behavioral: {
+    totalPurchases: 12,
+    avgOrderValue: 180,
+    lifetimeValue: 4000,
+    churnRisk: 0.7,
+    engagementScore: 80,
+    preferredChannels: ['email'],
+    activityLevel: 'high'
+  },
+  contextual: { currentTime: new Date(), deviceType: 'desktop', sessionDuration: 400, pageViews: 6 },
+  preferences: { communicationFrequency: 'medium', contentTypes: [], topics: [], optedOutChannels: [] }
+});
+
+const request = (index: number): DecisionRequest => ({
+  requestId: `r${index}`,
+  customerId: `cust-${index}`,
+  tenantId: 'tenant-1',
+  decisionType: 'next_best_action',
+  context: context(`cust-${index}`),
+  objectives: [{ type: 'revenue', weight: 1 }],
+  options: { includeReasons: true }
+});
+
+// Make a few decisions and return the engine with its logged entries
+const logDecisions = async (count: number): Promise<{ engine: DecisionEngine; entries: DecisionLogEntry[] }> => {
+  const engine = new DecisionEngine(undefined, undefined, new DecisionLog(new InMemoryDecisionStorage()));
+  for (let i = 0; i < count; i++) {
+    await engine.makeDecision(request(i));
+  }
+  return { engine, entries: await engine.getDecisionLog().getEntries(new Date(0)) };
+};
+
+describe('replayDecisions', () => {
+  it('reproduces the logged decisions when nothing changes', async () => {
+    const { engine, entries } = await logDecisions(3);
+    const report = await replayDecisions(engine, entries);
+
+    expect(report).toMatchObject({ scenario: 'Unnamed scenario', decisions: 3, changedDecisions: 0, failedDecisions: 0, diffs: [] });
+    expect(report.expectedValue.delta).toBeCloseTo(0, 10);
+    expect(report.strategyCounts).toEqual({ upsell: { before: 3, after: 3 } });
+  });
+
+  it('reports how a scenario changes the top recommendation and expected value', async () => {
+    const { engine, entries } = await logDecisions(3);
+    const report = await replayDecisions(engine, entries, {
+      name: 'Timing only',
+      overrides: { strategies: ['timing_optimization'] }
+    });
+
+    expect(report).toMatchObject({ scenario: 'Timing only', decisions: 3, changedDecisions: 3 });
+    expect(report.strategyCounts).toEqual({
+      upsell: { before: 3, after: 0 },
+      timing_optimization: { before: 0, after: 3 }
+    });
+
+    const [diff] = report.diffs;
+    expect(diff).toMatchObject({ requestId: 'r0', customerId: 'cust-0', topChanged: true });
+    expect(diff.after.map(summary => summary.strategyId)).toEqual(['timing_optimization']);
+    expect(report.expectedValue.delta).toBeCloseTo(report.diffs.reduce((sum, d) => sum + d.expectedValueDelta, 0), 6);
+    expect(report.expectedValue.after).toBeLessThan(report.expectedValue.before);
+  });
+
+  it('counts decisions that fail to replay and carries on', async () => {
+    const { engine, entries } = await logDecisions(3);
+    vi.spyOn(engine, 'replayDecision').mockRejectedValueOnce(new Error('model missing'));
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const report = await replayDecisions(engine, entries);
+    expect(report).toMatchObject({ decisions: 2, failedDecisions: 1 });
+    error.mockRestore();
+  });
+
+  it('defaults the window to the span of the replayed decisions', async () => {
+    const { engine, entries } = await logDecisions(2);
+    const times = entries.map(entry => entry.timestamp.getTime());
+
+    const report = await replayDecisions(engine, entries);
+    expect(report.window).toEqual({ start: new Date(Math.min(...times)), end: new Date(Math.max(...times)) });
+
+    const window = { start: new Date(0), end: new Date(1) };
+    expect((await replayDecisions(engine, entries, {}, window)).window).toBe(window);
+  });
+});
+
+describe('DecisionEngine.replayDecision', () => {
+  it('reuses the logged features instead of the current context', async () => {
+    const { engine, entries } = await logDecisions(1);
+    const [entry] = entries;
+
+    // A changed context in the log entry must not leak into the replay
+    const tampered: DecisionLogEntry = {
+      ...entry,
+      request: { ...entry.request, context: { ...entry.request.context, behavioral: { ...entry.request.context.behavioral, avgOrderValue: 20 } } }
+    };
+    const replayed = await engine.replayDecision(tampered);
+    expect(replayed.recommendations.map(rec => [rec.strategyId, rec.expectedValue]))
+      .toEqual(entry.result.recommendations.map(rec => [rec.strategyId, rec.expectedValue]));
+  });
+
+  it('does not log replays', async () => {
+    const { engine, entries } = await logDecisions(2);
+    await replayDecisions(engine, entries, { overrides: { strategies: ['upsell'] } });
+    expect(await engine.getDecisionLog().getEntries(new Date(0))).toHaveLength(2);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,114 @@
+// src/services/ai/DecisionReplay.ts
+
+import {
+  DecisionLogEntry,
+  DecisionReplayDiff,
+  DecisionReplayReport,
+  DecisionReplayScenario,
+  DecisionResult
+} from '../../types/ai';
+import { DecisionEngine } from './DecisionEngine';
+
+type RecommendationSummary = DecisionReplayDiff['before'][number];
+
+/**
+ * Re-run logged decisions through the engine with a what-if scenario applied, and report how
+ * the top recommendations and their expected value would have changed
+ */
+export async function replayDecisions(
+  engine: DecisionEngine,
+  entries: DecisionLogEntry[],
+  scenario: DecisionReplayScenario = {},
+  window?: { start: Date; end: Date }
+): Promise<DecisionReplayReport> {
+  const strategyCounts: DecisionReplayReport['strategyCounts'] = {};
+  const diffs: DecisionReplayDiff[] = [];
+  let before = 0;
+  let after = 0;
+  let failedDecisions = 0;
+  let changedDecisions = 0;
+
+  for (const entry of entries) {
+    let replayed: DecisionResult;
+    try {
+      replayed = await engine.replayDecision(entry, scenario);
+    } catch (error) {
+      console.error(`[DecisionReplay] Failed to replay decision ${entry.id}:`, error);
+      failedDecisions++;
+      continue;
+    }
+
+    const diff = compareResults(entry, replayed);
+    before += sumExpectedValue(diff.before);
+    after += sumExpectedValue(diff.after);
+    countTopStrategy(strategyCounts, diff.before[0], 'before');
+    countTopStrategy(strategyCounts, diff.after[0], 'after');
+
+    if (diff.topChanged) {
+      changedDecisions++;
+      diffs.push(diff);
+    }
+  }
+
+  const timestamps = entries.map(entry => entry.timestamp.getTime());
+
+  return {
+    scenario: scenario.name || 'Unnamed scenario',
+    window: window || {
+      start: new Date(timestamps.length > 0 ? Math.min(...timestamps) : Date.now()),
+      end: new Date(timestamps.length > 0 ? Math.max(...timestamps) : Date.now())
+    },
+    decisions: entries.length - failedDecisions,
+    changedDecisions,
+    failedDecisions,
+    expectedValue: { before, after, delta: after - before },
+    strategyCounts,
+    diffs,
+    generatedAt: new Date()
+  };
+}
+
+/**
+ * Compare the recommendations a decision returned with those of its replay
+ */
+export function compareResults(entry: DecisionLogEntry, replayed: DecisionResult): DecisionReplayDiff {
+  const before = summarize(entry.result);
+  const after = summarize(replayed);
+
+  return {
+    requestId: entry.request.requestId,
+    customerId: entry.request.customerId,
+    timestamp: entry.timestamp,
+    before,
+    after,
+    topChanged: recommendationKey(before[0]) !== recommendationKey(after[0]),
+    expectedValueDelta: sumExpectedValue(after) - sumExpectedValue(before)
+  };
+}
+
+function summarize(result: DecisionResult): RecommendationSummary[] {
+  return result.recommendations.map(recommendation => ({
+    strategyId: recommendation.strategyId,
+    title: recommendation.title,
+    expectedValue: recommendation.expectedValue
+  }));
+}
+
+function recommendationKey(summary?: RecommendationSummary): string {
+  return summary ? `${summary.strategyId ?? ''}:${summary.title}` : '';
+}
+
+function sumExpectedValue(summaries: RecommendationSummary[]): number {
+  return summaries.reduce((sum, summary) => sum + summary.expectedValue, 0);
+}
+
+function countTopStrategy(
+  counts: DecisionReplayReport['strategyCounts'],
+  summary: RecommendationSummary | undefined,
+  side: 'before' | 'after'
+): void {
+  if (!summary) return;
+  const strategyId = summary.strategyId || 'unknown';
+  counts[strategyId] = counts[strategyId] || { before: 0, after: 0 };
+  counts[strategyId][side]++;
+}
\ No newline at end of file
@@ -0,0 +1,247 @@
+// src/services/ai/EligibilityRules.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { CustomerContext } from '../../types/ai';
+import { AtomCondition, EligibilityAtom } from '../../types/api/atoms';
+import {
+  compileAtom,
+  compileComposition,
+  compileRuleTree,
+  flattenTrace,
+  normalizeOperator
+} from './EligibilityRules';
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+const context: CustomerContext = {
+  customerId: 'cust-1',
+  tenantId: 'tenant-1',
+  demographics: { age: 34, segment: 'premium', location: { country: 'US', city: 'Austin', timezone: 'America/Chicago' } },
+  behavioral: {
+    lastLoginDate: new Date(NOW.getTime() - 3 * DAY),
+    totalPurchases: 12,
+    avgOrderValue: 80,
+    lifetimeValue: 960,
+    churnRisk: 0.2,
+    engagementScore: 70,
+    preferredChannels: ['email', 'push'],
+    activityLevel: 'high'
+  },
+  contextual: { currentTime: NOW, deviceType: 'mobile', sessionDuration: 120, pageViews: 4 },
+  preferences: { communicationFrequency: 'medium', contentTypes: [], topics: ['running'], optedOutChannels: [] }
+};
+
+const atom = (id: string, conditions: AtomCondition[], operator: 'AND' | 'OR' = 'AND'): EligibilityAtom => ({
+  id,
+  name: id,
+  type: 'behavioral',
+  status: 'active',
+  version: 1,
+  createdAt: NOW,
+  updatedAt: NOW,
+  createdBy: 'test',
+  logic: { conditions, operator }
+});
+
+const check = (condition: AtomCondition, features?: Record<string, any>) =>
+  compileAtom(atom('a', [condition])).evaluate({ context, features, now: NOW }).eligible;
+
+describe('normalizeOperator', () => {
+  it('maps aliases to canonical names', () => {
+    expect(normalizeOperator('>=')).toBe('greater_than_or_equal');
+    expect(normalizeOperator('NOT IN')).toBe('not_in');
+    expect(normalizeOperator('exists')).toBe('is_set');
+    expect(normalizeOperator('roughly')).toBeUndefined();
+  });
+});
+
+describe('conditions by operator and data type', () => {
+  const cases: [AtomCondition['dataType'], string, any, any, boolean][] = [
+    ['number', 'equals', 12, 12, true],
+    ['number', 'not_equals', 12, 12, false],
+    ['number', 'greater_than', 10, 12, true],
+    ['number', 'less_than_or_equal', 12, 12, true],
+    ['number', 'between', [10, 20], 12, true],
+    ['number', 'not_between', [10, 20], 12, false],
+    ['number', 'in', [1, 2, 12], '12', true],
+    ['string', 'equals', 'premium', 'premium', true],
+    ['string', 'contains', 'rem', 'premium', true],
+    ['string', 'starts_with', 'pre', 'premium', true],
+    ['string', 'ends_with', 'ium', 'basic', false],
+    ['string', 'matches', '^p.*m$', 'premium', true],
+    ['string', 'between', ['18:00', '22:00'], '19:30', true],
+    ['string', 'not_in', ['email', 'sms'], ['push', 'email'], false],
+    ['string', 'in', ['sms', 'email'], ['push', 'email'], true],
+    ['boolean', 'is_true', undefined, 'yes', true],
+    ['boolean', 'is_false', undefined, false, true],
+    ['boolean', 'equals', true, 1, true],
+    ['date', 'before', '2024-05-01', '2024-04-15', true],
+    ['date', 'after', '2024-05-01', '2024-04-15', false],
+    ['date', 'within_last_days', 7, new Date(NOW.getTime() - 3 * DAY), true],
+    ['date', 'within_last_days', 7, new Date(NOW.getTime() - 10 * DAY), false],
+    ['date', 'more_than_days_ago', 7, new Date(NOW.getTime() - 10 * DAY), true]
+  ];
+
+  it.each(cases)('%s %s %j against %j is %s', (dataType, operator, value, actual, expected) => {
+    expect(check({ field: 'x', operator, value, dataType }, { x: actual })).toBe(expected);
+  });
+
+  it('checks whether a value is set', () => {
+    expect(check({ field: 'x', operator: 'is_set', value: null, dataType: 'string' }, {})).toBe(false);
+    expect(check({ field: 'x', operator: 'is_not_set', value: null, dataType: 'string' }, { x: '' })).toBe(true);
+  });
+
+  it('fails missing and unreadable values with a reason', () => {
+    const compiled = compileAtom(atom('a', [{ field: 'x', operator: '>', value: 1, dataType: 'number' }]));
+
+    const missing = flattenTrace(compiled.evaluate({ context, now: NOW }).trace)[0];
+    expect(missing.passed).toBe(false);
+    expect(missing.condition?.reason).toBe('value is missing');
+
+    const unreadable = flattenTrace(compiled.evaluate({ context, features: { x: 'lots' }, now: NOW }).trace)[0];
+    expect(unreadable.condition?.reason).toBe('value is not a valid number');
+  });
+
+  it('reads context fields by path, by snake_case name and derived', () => {
+    expect(check({ field: 'demographics.location.country', operator: 'equals', value: 'US', dataType: 'string' })).toBe(true);
+    expect(check({ field: 'total_purchases', operator: 'gt', value: 10, dataType: 'number' })).toBe(true);
+    expect(check({ field: 'days_since_last_login', operator: '<=', value: 3, dataType: 'number' })).toBe(true);
+  });
+
+  it('prefers feature store values over the context', () => {
+    expect(check({ field: 'total_purchases', operator: 'gt', value: 10, dataType: 'number' }, { total_purchases: 2 })).toBe(false);
+  });
+});
+
+describe('compile errors', () => {
+  const compile = (condition: AtomCondition) => () => compileAtom(atom('a', [condition]));
+
+  it('rejects operators that do not fit the data type', () => {
+    expect(compile({ field: 'x', operator: 'contains', value: 1, dataType: 'number' }))
+      .toThrow('Invalid eligibility rule: atom a, field x: operator contains does not apply to number values');
+    expect(compile({ field: 'x', operator: 'is_true', value: null, dataType: 'string' }))
+      .toThrow('does not apply to string values');
+    expect(compile({ field: 'x', operator: 'roughly', value: 1, dataType: 'number' })).toThrow('unknown operator roughly');
+  });
+
+  it('rejects expected values that cannot be read', () => {
+    expect(compile({ field: 'x', operator: 'gt', value: 'ten', dataType: 'number' })).toThrow('"ten" is not a valid number');
+    expect(compile({ field: 'x', operator: 'between', value: [5], dataType: 'number' })).toThrow('needs a lower and an upper bound');
+    expect(compile({ field: 'x', operator: 'between', value: [9, 5], dataType: 'number' })).toThrow('lower bound is above the upper bound');
+    expect(compile({ field: 'x', operator: 'matches', value: '(', dataType: 'string' })).toThrow('invalid pattern');
+  });
+});
+
+describe('compileRuleTree', () => {
+  const atoms: { [id: string]: EligibilityAtom } = {
+    buyer: atom('buyer', [{ field: 'total_purchases', operator: 'gt', value: 10, dataType: 'number' }]),
+    churning: atom('churning', [{ field: 'churn_risk', operator: 'gt', value: 0.5, dataType: 'number' }]),
+    desktop: atom('desktop', [{ field: 'device_type', operator: 'equals', value: 'desktop', dataType: 'string' }])
+  };
+  const resolve = (id: string) => atoms[id];
+
+  it('negates the AND of a NOT gate\'s children', () => {
+    const compiled = compileRuleTree({
+      id: 'root',
+      type: 'gate',
+      operation: 'NOT',
+      children: [
+        { id: 'n1', type: 'atom', atomId: 'buyer' },
+        { id: 'n2', type: 'atom', atomId: 'desktop' }
+      ]
+    }, resolve);
+
+    const verdict = compiled.evaluate({ context, now: NOW });
+    expect(verdict.eligible).toBe(true);
+    expect(verdict.trace.kind).toBe('not');
+    expect(compiled.atomIds.sort()).toEqual(['buyer', 'desktop']);
+  });
+
+  it('ANDs sibling roots and ORs within OR gates', () => {
+    const compiled = compileRuleTree([
+      { id: 'n1', type: 'atom', atomId: 'buyer' },
+      {
+        id: 'g',
+        type: 'group',
+        operation: 'OR',
+        children: [
+          { id: 'n2', type: 'atom', atomId: 'churning' },
+          { id: 'n3', type: 'atom', atomId: 'desktop' }
+        ]
+      }
+    ], resolve);
+
+    expect(compiled.evaluate({ context, now: NOW }).eligible).toBe(false);
+  });
+
+  it('rejects unknown atoms and empty gates', () => {
+    expect(() => compileRuleTree({ id: 'n', type: 'atom', atomId: 'ghost' }, resolve)).toThrow('rule node n references unknown atom ghost');
+    expect(() => compileRuleTree({ id: 'g', type: 'gate', children: [] }, resolve)).toThrow('gate g has no children');
+  });
+});
+
+describe('compileComposition', () => {
+  const atoms: { [id: string]: EligibilityAtom } = {
+    buyer: atom('buyer', [{ field: 'total_purchases', operator: 'gt', value: 10, dataType: 'number' }]),
+    churning: atom('churning', [{ field: 'churn_risk', operator: 'gt', value: 0.5, dataType: 'number' }]),
+    mobile: atom('mobile', [{ field: 'device_type', operator: 'equals', value: 'mobile', dataType: 'string' }])
+  };
+  const resolve = (id: string) => atoms[id];
+
+  it('excludes NOT sources from their target', () => {
+    const compiled = compileComposition({
+      atoms: [{ id: 'n1', data: { atomId: 'churning' } }, { id: 'n2', data: { atomId: 'buyer' } }],
+      connections: [{ sourceId: 'n1', targetId: 'n2', type: 'NOT' }]
+    }, resolve);
+
+    expect(compiled.evaluate({ context, now: NOW }).eligible).toBe(true);
+    expect(compiled.evaluate({ context, features: { churn_risk: 0.9 }, now: NOW }).eligible).toBe(false);
+  });
+
+  it('lets an OR source stand in for its target', () => {
+    const compiled = compileComposition({
+      atoms: [{ id: 'buyer' }, { id: 'churning' }],
+      connections: [{ sourceId: 'buyer', targetId: 'churning', type: 'OR' }]
+    }, resolve);
+
+    expect(compiled.evaluate({ context, now: NOW }).eligible).toBe(true);
+  });
+
+  it('compiles inline logic and ANDs unconnected nodes', () => {
+    const compiled = compileComposition({
+      atoms: [
+        { id: 'mobile' },
+        { id: 'inline', data: { logic: { operator: 'AND', conditions: [{ field: 'page_views', operator: '>', value: 10, dataType: 'number' }] } } }
+      ],
+      connections: []
+    }, resolve);
+
+    expect(compiled.evaluate({ context, now: NOW }).eligible).toBe(false);
+    expect(compiled.atomIds).toEqual(['mobile']);
+  });
+
+  it('rejects cycles and dangling connections', () => {
+    expect(() => compileComposition({
+      atoms: [{ id: 'buyer' }, { id: 'churning' }, { id: 'mobile' }],
+      connections: [
+        { sourceId: 'buyer', targetId: 'churning', type: 'AND' },
+        { sourceId: 'churning', targetId: 'buyer', type: 'AND' },
+        { sourceId: 'buyer', targetId: 'mobile', type: 'AND' }
+      ]
+    }, resolve)).toThrow('the composition has a cycle through');
+
+    expect(() => compileComposition({
+      atoms: [{ id: 'buyer' }, { id: 'churning' }],
+      connections: [
+        { sourceId: 'buyer', targetId: 'churning', type: 'AND' },
+        { sourceId: 'churning', targetId: 'buyer', type: 'AND' }
+      ]
+    }, resolve)).toThrow('the composition has a cycle and no final node');
+
+    expect(() => compileComposition({
+      atoms: [{ id: 'buyer' }],
+      connections: [{ sourceId: 'buyer', targetId: 'ghost', type: 'AND' }]
+    }, resolve)).toThrow('connection references unknown node ghost');
+  });
+});
\ No newline at end of file
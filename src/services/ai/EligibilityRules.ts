@@ -0,0 +1,508 @@
+// src/services/ai/EligibilityRules.ts
+
+import { CustomerContext } from '../../types/ai';
+import {
+  AtomCondition,
+  ConditionTrace,
+  EligibilityAtom,
+  EligibilityTrace,
+  EligibilityVerdict
+} from '../../types/api/atoms';
+import { FeatureStore } from './FeatureStore';
+
+// Eligibility rules compile once and then evaluate per customer. Three shapes describe them:
+//   an atom's own logic        conditions joined by AND or OR
+//   a RuleBuilder tree         atom leaves under AND/OR/NOT gates and groups
+//   an AtomComposer graph      atom nodes joined by AND/OR/NOT connections
+
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'greater_than'
+  | 'greater_than_or_equal'
+  | 'less_than'
+  | 'less_than_or_equal'
+  | 'between'
+  | 'not_between'
+  | 'in'
+  | 'not_in'
+  | 'contains'
+  | 'not_contains'
+  | 'starts_with'
+  | 'ends_with'
+  | 'matches'
+  | 'is_true'
+  | 'is_false'
+  | 'before'
+  | 'after'
+  | 'within_last_days'
+  | 'more_than_days_ago'
+  | 'is_set'
+  | 'is_not_set';
+
+export type AtomResolver = (atomId: string) => EligibilityAtom | undefined;
+
+export interface EligibilityInput {
+  context: CustomerContext;
+  features?: Record<string, any>; // feature store values, looked up before the context
+  now?: Date; // reference time for relative date conditions
+}
+
+export interface CompiledEligibility {
+  atomIds: string[]; // atoms the rule depends on
+  evaluate(input: EligibilityInput): EligibilityVerdict;
+}
+
+// Same shape as the RuleBuilder's RuleNode
+export interface RuleTreeNode {
+  id: string;
+  type: 'atom' | 'gate' | 'group';
+  operation?: 'AND' | 'OR' | 'NOT';
+  atomId?: string;
+  children?: RuleTreeNode[];
+  metadata?: { name?: string };
+}
+
+// Same shape as the AtomComposer's atoms and connections
+export interface CompositionGraph {
+  atoms: { id: string; name?: string; data?: Record<string, any> }[];
+  connections: { sourceId: string; targetId: string; type: 'AND' | 'OR' | 'NOT' }[];
+}
+
+type DataType = AtomCondition['dataType'];
+type RuleEvaluator = (input: EligibilityInput, now: number) => EligibilityTrace;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OPERATOR_ALIASES: { [alias: string]: ConditionOperator } = {
+  '=': 'equals',
+  '==': 'equals',
+  eq: 'equals',
+  is: 'equals',
+  '!=': 'not_equals',
+  '<>': 'not_equals',
+  neq: 'not_equals',
+  is_not: 'not_equals',
+  '>': 'greater_than',
+  gt: 'greater_than',
+  '>=': 'greater_than_or_equal',
+  gte: 'greater_than_or_equal',
+  '<': 'less_than',
+  lt: 'less_than',
+  '<=': 'less_than_or_equal',
+  lte: 'less_than_or_equal',
+  within_days: 'within_last_days',
+  in_last_days: 'within_last_days',
+  older_than_days: 'more_than_days_ago',
+  exists: 'is_set',
+  is_not_empty: 'is_set',
+  not_exists: 'is_not_set',
+  is_empty: 'is_not_set'
+};
+
+const ORDERING: ConditionOperator[] = [
+  'greater_than',
+  'greater_than_or_equal',
+  'less_than',
+  'less_than_or_equal',
+  'between',
+  'not_between'
+];
+const COMMON: ConditionOperator[] = ['equals', 'not_equals', 'in', 'not_in', 'is_set', 'is_not_set'];
+
+// Operators each data type supports; strings order lexicographically, e.g. '18:00' to '22:00'
+const SUPPORTED_OPERATORS: { [type in DataType]: ConditionOperator[] } = {
+  string: [...COMMON, ...ORDERING, 'contains', 'not_contains', 'starts_with', 'ends_with', 'matches'],
+  number: [...COMMON, ...ORDERING],
+  boolean: [...COMMON, 'is_true', 'is_false'],
+  date: [...COMMON, ...ORDERING, 'before', 'after', 'within_last_days', 'more_than_days_ago']
+};
+
+// Fields derived from the context rather than stored on it, by camelCase name
+const DERIVED_FIELDS: { [field: string]: (context: CustomerContext, now: number) => any } = {
+  daysSinceLastLogin: (context, now) => {
+    const lastLogin = context.behavioral.lastLoginDate;
+    return lastLogin ? Math.floor((now - new Date(lastLogin).getTime()) / DAY_MS) : undefined;
+  }
+};
+
+const CONTEXT_SECTIONS = ['behavioral', 'demographics', 'contextual', 'preferences'] as const;
+
+/**
+ * Map an operator as written in atoms and designers (gt, '>=', 'NOT IN', ...) to its canonical name
+ */
+export function normalizeOperator(operator: string): ConditionOperator | undefined {
+  const key = operator.trim().toLowerCase().replace(/\s+/g, '_');
+  if (OPERATOR_ALIASES[key]) return OPERATOR_ALIASES[key];
+  return Object.values(SUPPORTED_OPERATORS).some(operators => operators.includes(key as ConditionOperator))
+    ? key as ConditionOperator
+    : undefined;
+}
+
+/**
+ * Compile an atom's conditions. Throws if an operator is unknown or does not fit the
+ * condition's data type, or if an expected value cannot be read as that type.
+ */
+export function compileAtom(atom: EligibilityAtom): CompiledEligibility {
+  return toCompiled(compileAtomRule(atom), [atom.id]);
+}
+
+/**
+ * Compile a RuleBuilder tree. Sibling roots are ANDed, gates and groups combine their
+ * children with their operation (AND by default), and NOT negates the AND of its children.
+ */
+export function compileRuleTree(rules: RuleTreeNode | RuleTreeNode[], resolveAtom: AtomResolver): CompiledEligibility {
+  const roots = Array.isArray(rules) ? rules : [rules];
+  if (roots.length === 0) fail('the rule tree is empty');
+
+  const atomIds = new Set<string>();
+  const compileNode = (node: RuleTreeNode): RuleEvaluator => {
+    const label = node.metadata?.name || node.id;
+
+    if (node.type === 'atom') {
+      if (!node.atomId) fail(`rule node ${node.id} does not reference an atom`);
+      atomIds.add(node.atomId!);
+      return compileAtomRule(requireAtom(resolveAtom, node.atomId!, `rule node ${node.id}`));
+    }
+
+    const children = (node.children || []).map(compileNode);
+    if (children.length === 0) fail(`${node.type} ${node.id} has no children`);
+
+    switch (node.operation || 'AND') {
+      case 'OR':
+        return combine('or', label, children);
+      case 'NOT':
+        return negate(label, children.length === 1 ? children[0] : combine('and', label, children));
+      default:
+        return combine('and', label, children);
+    }
+  };
+
+  const evaluators = roots.map(compileNode);
+  return toCompiled(evaluators.length === 1 ? evaluators[0] : combine('and', 'Rules', evaluators), Array.from(atomIds));
+}
+
+/**
+ * Compile an AtomComposer graph. Each node's atom comes from `data.atomId` (or the node ID),
+ * or from inline `data.logic`. A node holds when its atom, every AND source and no NOT source
+ * holds, or when any OR source holds; nodes without outgoing connections are ANDed.
+ */
+export function compileComposition(composition: CompositionGraph, resolveAtom: AtomResolver): CompiledEligibility {
+  if (composition.atoms.length === 0) fail('the composition has no atoms');
+
+  const nodes = new Map(composition.atoms.map(node => [node.id, node]));
+  composition.connections.forEach(connection => {
+    [connection.sourceId, connection.targetId].forEach(id => {
+      if (!nodes.has(id)) fail(`connection references unknown node ${id}`);
+    });
+  });
+
+  const atomIds = new Set<string>();
+  const compiled = new Map<string, RuleEvaluator>();
+
+  const compileNode = (id: string, visiting: Set<string>): RuleEvaluator => {
+    const existing = compiled.get(id);
+    if (existing) return existing;
+    if (visiting.has(id)) fail(`the composition has a cycle through ${id}`);
+    visiting.add(id);
+
+    const node = nodes.get(id)!;
+    const label = node.name || id;
+    let own: RuleEvaluator;
+    if (node.data?.logic) {
+      own = compileAtomRule({ id, name: label, logic: node.data.logic } as EligibilityAtom);
+    } else {
+      const atomId = node.data?.atomId || id;
+      atomIds.add(atomId);
+      own = compileAtomRule(requireAtom(resolveAtom, atomId, `composition node ${id}`));
+    }
+
+    const incoming = composition.connections.filter(connection => connection.targetId === id);
+    const sources = (type: 'AND' | 'OR' | 'NOT') => incoming
+      .filter(connection => connection.type === type)
+      .map(connection => compileNode(connection.sourceId, visiting));
+
+    const required = [
+      own,
+      ...sources('AND'),
+      ...sources('NOT').map(source => negate(`Not ${label}`, source))
+    ];
+    const alternatives = sources('OR');
+
+    let evaluator = required.length === 1 ? own : combine('and', label, required);
+    if (alternatives.length > 0) {
+      evaluator = combine('or', label, [evaluator, ...alternatives]);
+    }
+
+    visiting.delete(id);
+    compiled.set(id, evaluator);
+    return evaluator;
+  };
+
+  const sinks = composition.atoms
+    .filter(node => !composition.connections.some(connection => connection.sourceId === node.id))
+    .map(node => compileNode(node.id, new Set()));
+  if (sinks.length === 0) fail('the composition has a cycle and no final node');
+
+  return toCompiled(sinks.length === 1 ? sinks[0] : combine('and', 'Composition', sinks), Array.from(atomIds));
+}
+
+/**
+ * Evaluation input with the customer's feature store features alongside the context
+ */
+export async function loadEligibilityInput(context: CustomerContext, featureStore?: FeatureStore | null): Promise<EligibilityInput> {
+  const features = featureStore ? await featureStore.computeFeaturesFromContext(context) : undefined;
+  return { context, features };
+}
+
+/**
+ * Condition leaves of a trace, in evaluation order
+ */
+export function flattenTrace(trace: EligibilityTrace): EligibilityTrace[] {
+  if (trace.kind === 'condition') return [trace];
+  return (trace.children || []).flatMap(flattenTrace);
+}
+
+function compileAtomRule(atom: EligibilityAtom): RuleEvaluator {
+  const conditions = atom.logic.conditions.map(condition => compileCondition(condition, atom.id));
+  const operator = atom.logic.operator === 'OR' ? 'or' : 'and';
+
+  return (input, now) => {
+    const children = conditions.map(condition => condition(input, now));
+    return {
+      kind: 'atom',
+      label: atom.name || atom.id,
+      atomId: atom.id,
+      // An atom without conditions matches everyone
+      passed: children.length === 0 || (operator === 'or' ? children.some(c => c.passed) : children.every(c => c.passed)),
+      children
+    };
+  };
+}
+
+function compileCondition(condition: AtomCondition, atomId: string): RuleEvaluator {
+  const where = `atom ${atomId}, field ${condition.field}`;
+  const dataType = condition.dataType;
+  if (!SUPPORTED_OPERATORS[dataType]) fail(`${where}: unknown data type ${dataType}`);
+
+  const operator = normalizeOperator(String(condition.operator));
+  if (!operator) fail(`${where}: unknown operator ${condition.operator}`);
+  if (!SUPPORTED_OPERATORS[dataType].includes(operator!)) {
+    fail(`${where}: operator ${operator} does not apply to ${dataType} values`);
+  }
+
+  const expected = compileExpected(operator!, dataType, condition.value, where);
+  const test = conditionTest(operator!, expected);
+  const label = describeCondition(condition.field, operator!, expected, dataType);
+
+  return (input, now) => {
+    const raw = resolveField(condition.field, input, now);
+    const values = (Array.isArray(raw) ? raw : [raw])
+      .filter(value => value !== undefined && value !== null && value !== '')
+      .map(value => coerce(value, dataType));
+    const unreadable = values.some(value => value === undefined);
+    const actual = unreadable ? [] : values as any[];
+
+    let passed: boolean;
+    let reason: string | undefined;
+    if (operator === 'is_set' || operator === 'is_not_set') {
+      passed = (actual.length > 0) === (operator === 'is_set');
+    } else if (actual.length === 0) {
+      passed = false;
+      reason = unreadable ? `value is not a valid ${dataType}` : 'value is missing';
+    } else {
+      passed = test(actual, now);
+    }
+
+    const trace: ConditionTrace = {
+      field: condition.field,
+      operator: operator!,
+      dataType,
+      expected: condition.value,
+      actual: raw instanceof Date ? raw.toISOString() : raw,
+      reason
+    };
+    return { kind: 'condition', label, passed, condition: trace };
+  };
+}
+
+type Expected = { kind: 'none' } | { kind: 'one'; value: any } | { kind: 'list'; values: any[] } | { kind: 'pattern'; value: RegExp };
+
+function compileExpected(operator: ConditionOperator, dataType: DataType, value: any, where: string): Expected {
+  const values: any[] = Array.isArray(value) ? value : [value];
+  const read = (raw: any, type: DataType = dataType) => {
+    const coerced = raw === undefined || raw === null ? undefined : coerce(raw, type);
+    if (coerced === undefined) fail(`${where}: expected value ${JSON.stringify(raw)} is not a valid ${type}`);
+    return coerced;
+  };
+
+  switch (operator) {
+    case 'is_set':
+    case 'is_not_set':
+    case 'is_true':
+    case 'is_false':
+      return { kind: 'none' };
+    case 'between':
+    case 'not_between': {
+      if (values.length !== 2) fail(`${where}: ${operator} needs a lower and an upper bound`);
+      const [low, high] = values.map(raw => read(raw));
+      if (low > high) fail(`${where}: the lower bound is above the upper bound`);
+      return { kind: 'list', values: [low, high] };
+    }
+    case 'in':
+    case 'not_in':
+      if (values.length === 0) fail(`${where}: ${operator} needs at least one value`);
+      return { kind: 'list', values: values.map(raw => read(raw)) };
+    case 'within_last_days':
+    case 'more_than_days_ago':
+      return { kind: 'one', value: read(values[0], 'number') };
+    case 'matches':
+      try {
+        return { kind: 'pattern', value: new RegExp(String(values[0])) };
+      } catch {
+        return fail(`${where}: invalid pattern ${values[0]}`);
+      }
+    default:
+      if (values.length !== 1) fail(`${where}: ${operator} needs exactly one value`);
+      return { kind: 'one', value: read(values[0]) };
+  }
+}
+
+// Multi-valued fields (preferred channels, topics, ...) match when any value does, and
+// negative operators hold only when no value matches
+function conditionTest(operator: ConditionOperator, expected: Expected): (actual: any[], now: number) => boolean {
+  const one = expected.kind === 'one' ? expected.value : undefined;
+  const list = expected.kind === 'list' ? expected.values : [];
+
+  switch (operator) {
+    case 'equals': return actual => actual.some(value => value === one);
+    case 'not_equals': return actual => actual.every(value => value !== one);
+    case 'greater_than':
+    case 'after': return actual => actual.some(value => value > one);
+    case 'greater_than_or_equal': return actual => actual.some(value => value >= one);
+    case 'less_than':
+    case 'before': return actual => actual.some(value => value < one);
+    case 'less_than_or_equal': return actual => actual.some(value => value <= one);
+    case 'between': return actual => actual.some(value => value >= list[0] && value <= list[1]);
+    case 'not_between': return actual => actual.every(value => value < list[0] || value > list[1]);
+    case 'in': return actual => actual.some(value => list.includes(value));
+    case 'not_in': return actual => actual.every(value => !list.includes(value));
+    case 'contains': return actual => actual.some(value => value.includes(one));
+    case 'not_contains': return actual => actual.every(value => !value.includes(one));
+    case 'starts_with': return actual => actual.some(value => value.startsWith(one));
+    case 'ends_with': return actual => actual.some(value => value.endsWith(one));
+    case 'matches': return actual => actual.some(value => (expected as { value: RegExp }).value.test(value));
+    case 'is_true': return actual => actual.some(value => value === true);
+    case 'is_false': return actual => actual.every(value => value === false);
+    case 'within_last_days': return (actual, now) => actual.some(value => value <= now && value >= now - one * DAY_MS);
+    case 'more_than_days_ago': return (actual, now) => actual.some(value => value < now - one * DAY_MS);
+    default: return () => false;
+  }
+}
+
+// Read a value as the condition's data type; undefined means it cannot be read as one
+function coerce(value: any, dataType: DataType): any {
+  switch (dataType) {
+    case 'number': {
+      const number = typeof value === 'boolean' ? Number(value)
+        : typeof value === 'string' && value.trim() === '' ? NaN
+        : value instanceof Date ? value.getTime() : Number(value);
+      return isFinite(number) ? number : undefined;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const text = String(value).trim().toLowerCase();
+      if (['true', '1', 'yes'].includes(text)) return true;
+      if (['false', '0', 'no'].includes(text)) return false;
+      return undefined;
+    }
+    case 'date': {
+      const time = value instanceof Date ? value.getTime() : typeof value === 'number' ? value : Date.parse(String(value));
+      return isFinite(time) ? time : undefined;
+    }
+    default:
+      return value instanceof Date ? value.toISOString() : String(value);
+  }
+}
+
+// Feature store names first, then dotted context paths, then context fields by camelCase name
+function resolveField(field: string, input: EligibilityInput, now: number): any {
+  if (input.features && input.features[field] !== undefined) {
+    return input.features[field];
+  }
+
+  const context = input.context as any;
+  if (field.includes('.')) {
+    return field.split('.').reduce((current, part) => (current === undefined || current === null ? undefined : current[part]), context);
+  }
+
+  const name = field.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+  for (const section of CONTEXT_SECTIONS) {
+    if (context[section]?.[name] !== undefined) return context[section][name];
+  }
+  if (context[name] !== undefined) return context[name];
+
+  return DERIVED_FIELDS[name]?.(input.context, now);
+}
+
+function describeCondition(field: string, operator: ConditionOperator, expected: Expected, dataType: DataType): string {
+  const format = (value: any) => dataType === 'date' && typeof value === 'number' ? new Date(value).toISOString() : String(value);
+
+  switch (operator) {
+    case 'within_last_days': return `${field} within the last ${(expected as { value: number }).value} days`;
+    case 'more_than_days_ago': return `${field} more than ${(expected as { value: number }).value} days ago`;
+    case 'between':
+    case 'not_between': {
+      const [low, high] = (expected as { values: any[] }).values.map(format);
+      return `${field} ${operator.replace(/_/g, ' ')} ${low} and ${high}`;
+    }
+  }
+
+  const text = `${field} ${operator.replace(/_/g, ' ')}`;
+  switch (expected.kind) {
+    case 'none': return text;
+    case 'list': return `${text} ${expected.values.map(format).join(', ')}`;
+    case 'pattern': return `${text} ${expected.value}`;
+    default: return `${text} ${format(expected.value)}`;
+  }
+}
+
+function combine(kind: 'and' | 'or', label: string, evaluators: RuleEvaluator[]): RuleEvaluator {
+  return (input, now) => {
+    const children = evaluators.map(evaluator => evaluator(input, now));
+    return {
+      kind,
+      label,
+      passed: kind === 'and' ? children.every(child => child.passed) : children.some(child => child.passed),
+      children
+    };
+  };
+}
+
+function negate(label: string, evaluator: RuleEvaluator): RuleEvaluator {
+  return (input, now) => {
+    const child = evaluator(input, now);
+    return { kind: 'not', label, passed: !child.passed, children: [child] };
+  };
+}
+
+function toCompiled(evaluator: RuleEvaluator, atomIds: string[]): CompiledEligibility {
+  return {
+    atomIds,
+    evaluate: input => {
+      const now = input.now || new Date();
+      const trace = evaluator(input, now.getTime());
+      return { eligible: trace.passed, trace, evaluatedAt: now };
+    }
+  };
+}
+
+function requireAtom(resolveAtom: AtomResolver, atomId: string, where: string): EligibilityAtom {
+  const atom = resolveAtom(atomId);
+  if (!atom) fail(`${where} references unknown atom ${atomId}`);
+  return atom!;
+}
+
+function fail(message: string): never {
+  throw new Error(`Invalid eligibility rule: ${message}`);
+}
\ No newline at end of file
@@ -0,0 +1,108 @@
+// src/services/ai/ExperimentEventLog.test.ts
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ExperimentEvent } from '../../types/ai';
+import { ExperimentEventLog, IndexedDBEventStorage, InMemoryEventStorage } from './ExperimentEventLog';
+
+const event = (id: string, overrides: Partial<ExperimentEvent> = {}): ExperimentEvent => ({
+  id,
+  type: 'conversion',
+  experimentId: 'exp_a',
+  customerId: 'c1',
+  tenantId: 't1',
+  variantId: 'control',
+  metric: 'purchase',
+  value: 1,
+  timestamp: new Date('2024-06-01T00:00:00Z'),
+  ...overrides
+});
+
+const createLog = () => new ExperimentEventLog(new InMemoryEventStorage());
+
+describe('NDJSON export and import', () => {
+  it('round-trips events with their timestamps', async () => {
+    const source = createLog();
+    await source.append(event('e1'));
+    await source.append(event('e2', { type: 'exposure', metric: undefined, value: undefined, experimentId: 'exp_b' }));
+
+    const ndjson = await source.exportNDJSON();
+    expect(ndjson.split('\n')).toHaveLength(2);
+    expect(await source.exportNDJSON('exp_b')).not.toContain('"e1"');
+
+    const target = createLog();
+    expect(await target.importNDJSON(ndjson)).toBe(2);
+    expect(await target.getEvents()).toEqual(await source.getEvents());
+  });
+
+  it('skips events already in the log or repeated in the file', async () => {
+    const log = createLog();
+    await log.append(event('e1'));
+
+    const ndjson = [event('e1'), event('e2'), event('e2'), event('e3')]
+      .map(e => JSON.stringify(e))
+      .join('\n');
+    expect(await log.importNDJSON(`${ndjson}\n\n`)).toBe(2);
+    expect((await log.getEvents()).map(e => e.id)).toEqual(['e1', 'e2', 'e3']);
+
+    // Importing the same file again adds nothing
+    expect(await log.importNDJSON(ndjson)).toBe(0);
+  });
+
+  it('rejects the whole file on the first invalid line', async () => {
+    const log = createLog();
+    const valid = JSON.stringify(event('e1'));
+
+    await expect(log.importNDJSON(`${valid}\n{oops`)).rejects.toThrow('Invalid event on line 2: not valid JSON');
+    await expect(log.importNDJSON(JSON.stringify({ ...event('e2'), type: 'click' }))).rejects.toThrow('unknown type click');
+    await expect(log.importNDJSON(JSON.stringify({ ...event('e3'), variantId: undefined }))).rejects.toThrow('missing variantId');
+    await expect(log.importNDJSON(JSON.stringify({ ...event('e4'), value: '1' }))).rejects.toThrow('value must be a number');
+    await expect(log.importNDJSON(JSON.stringify({ ...event('e5'), timestamp: 'yesterday' }))).rejects.toThrow('invalid timestamp');
+    expect(await log.getEvents()).toEqual([]);
+  });
+});
+
+describe('IndexedDBEventStorage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // Records the schema changes an upgrade from `oldVersion` makes, then opens the database
+  const upgradeFrom = (oldVersion: number) => {
+    const created: string[] = [];
+    const request: any = {
+      result: {
+        createObjectStore: (name: string) => {
+          created.push(name);
+          return { createIndex: (index: string) => created.push(`${name}.${index}`) };
+        },
+        transaction: () => {
+          throw new Error('opened');
+        }
+      }
+    };
+    const open = vi.fn(() => {
+      setTimeout(() => {
+        request.onupgradeneeded({ oldVersion });
+        request.onsuccess();
+      });
+      return request;
+    });
+    vi.stubGlobal('indexedDB', { open });
+    return { created, open };
+  };
+
+  it('creates both stores in a new database', async () => {
+    const { created, open } = upgradeFrom(0);
+    await expect(new IndexedDBEventStorage('test-db').readExperiments()).rejects.toThrow('opened');
+
+    expect(open).toHaveBeenCalledWith('test-db', 2);
+    expect(created).toEqual(['events', 'events.experimentId', 'experiments']);
+  });
+
+  it('adds the experiment store to a version 1 database and keeps its events', async () => {
+    const { created } = upgradeFrom(1);
+    await expect(new IndexedDBEventStorage('test-db').readAll()).rejects.toThrow('opened');
+
+    expect(created).toEqual(['experiments']);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,282 @@
+// src/services/ai/ExperimentEventLog.ts
+
+import { Experiment, ExperimentEvent } from '../../types/ai';
+
+const EVENT_TYPES: ExperimentEvent['type'][] = ['exposure', 'conversion', 'covariate'];
+
+/**
+ * Storage backend for the experiment event log and the experiments the events belong to.
+ * Implement this to persist them on a server.
+ */
+export interface ExperimentEventStorage {
+  append(events: ExperimentEvent[]): Promise<void>;
+  readAll(experimentId?: string): Promise<ExperimentEvent[]>;
+  clear(experimentId?: string): Promise<void>;
+  putExperiment(experiment: Experiment): Promise<void>;
+  readExperiments(): Promise<Experiment[]>;
+}
+
+/**
+ * Non-persistent storage, used where IndexedDB is unavailable
+ */
+export class InMemoryEventStorage implements ExperimentEventStorage {
+  private events: ExperimentEvent[] = [];
+  private experiments: Map<string, Experiment> = new Map();
+
+  async append(events: ExperimentEvent[]): Promise<void> {
+    this.events.push(...events);
+  }
+
+  async readAll(experimentId?: string): Promise<ExperimentEvent[]> {
+    return experimentId ? this.events.filter(e => e.experimentId === experimentId) : [...this.events];
+  }
+
+  async clear(experimentId?: string): Promise<void> {
+    this.events = experimentId ? this.events.filter(e => e.experimentId !== experimentId) : [];
+  }
+
+  async putExperiment(experiment: Experiment): Promise<void> {
+    this.experiments.set(experiment.id, { ...experiment });
+  }
+
+  async readExperiments(): Promise<Experiment[]> {
+    return Array.from(this.experiments.values()).map(experiment => ({ ...experiment }));
+  }
+}
+
+/**
+ * Browser storage that survives reloads
+ */
+export class IndexedDBEventStorage implements ExperimentEventStorage {
+  private static readonly STORE = 'events';
+  private static readonly EXPERIMENT_STORE = 'experiments';
+  private dbName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName: string = 'kairos-experiment-events') {
+    this.dbName = dbName;
+  }
+
+  async append(events: ExperimentEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction(IndexedDBEventStorage.STORE, 'readwrite');
+    const store = transaction.objectStore(IndexedDBEventStorage.STORE);
+    events.forEach(event => store.put(event));
+
+    await this.complete(transaction);
+  }
+
+  async readAll(experimentId?: string): Promise<ExperimentEvent[]> {
+    const db = await this.openDatabase();
+    const store = db.transaction(IndexedDBEventStorage.STORE, 'readonly').objectStore(IndexedDBEventStorage.STORE);
+    const request = experimentId ? store.index('experimentId').getAll(experimentId) : store.getAll();
+
+    const events = await this.request<ExperimentEvent[]>(request);
+    return events.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+
+  async clear(experimentId?: string): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(IndexedDBEventStorage.STORE, 'readwrite');
+    const store = transaction.objectStore(IndexedDBEventStorage.STORE);
+
+    if (!experimentId) {
+      store.clear();
+    } else {
+      const keys = await this.request<IDBValidKey[]>(store.index('experimentId').getAllKeys(experimentId));
+      keys.forEach(key => store.delete(key));
+    }
+
+    await this.complete(transaction);
+  }
+
+  async putExperiment(experiment: Experiment): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(IndexedDBEventStorage.EXPERIMENT_STORE, 'readwrite');
+    transaction.objectStore(IndexedDBEventStorage.EXPERIMENT_STORE).put(experiment);
+
+    await this.complete(transaction);
+  }
+
+  async readExperiments(): Promise<Experiment[]> {
+    const db = await this.openDatabase();
+    const store = db.transaction(IndexedDBEventStorage.EXPERIMENT_STORE, 'readonly').objectStore(IndexedDBEventStorage.EXPERIMENT_STORE);
+    return this.request<Experiment[]>(store.getAll());
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 2);
+
+        // Version 1 held only events; version 2 adds the experiments they belong to
+        request.onupgradeneeded = event => {
+          if (event.oldVersion < 1) {
+            const store = request.result.createObjectStore(IndexedDBEventStorage.STORE, { keyPath: 'id' });
+            store.createIndex('experimentId', 'experimentId', { unique: false });
+          }
+          if (event.oldVersion < 2) {
+            request.result.createObjectStore(IndexedDBEventStorage.EXPERIMENT_STORE, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * IndexedDB in the browser, in-memory elsewhere
+ */
+export function createDefaultEventStorage(): ExperimentEventStorage {
+  return typeof indexedDB !== 'undefined' ? new IndexedDBEventStorage() : new InMemoryEventStorage();
+}
+
+/**
+ * Append-only log of experiment exposures, conversions and covariates, alongside the latest
+ * definition of each experiment
+ */
+export class ExperimentEventLog {
+  private storage: ExperimentEventStorage;
+  private sequence = 0;
+  private pendingWrites: Set<Promise<void>> = new Set();
+
+  constructor(storage: ExperimentEventStorage = createDefaultEventStorage()) {
+    this.storage = storage;
+  }
+
+  /**
+   * Append an event, assigning its id and timestamp if missing
+   */
+  async append(event: Omit<ExperimentEvent, 'id' | 'timestamp'> & Partial<Pick<ExperimentEvent, 'id' | 'timestamp'>>): Promise<ExperimentEvent> {
+    const stored: ExperimentEvent = {
+      ...event,
+      id: event.id || this.generateId(),
+      timestamp: event.timestamp || new Date()
+    };
+
+    await this.track(this.storage.append([stored]));
+    return stored;
+  }
+
+  /**
+   * Wait until every write started so far has finished, successfully or not
+   */
+  async flush(): Promise<void> {
+    while (this.pendingWrites.size > 0) {
+      await Promise.all(Array.from(this.pendingWrites));
+    }
+  }
+
+  /**
+   * Store the current definition of an experiment, replacing any earlier one
+   */
+  async saveExperiment(experiment: Experiment): Promise<void> {
+    await this.track(this.storage.putExperiment(experiment));
+  }
+
+  async getExperiments(): Promise<Experiment[]> {
+    const experiments = await this.storage.readExperiments();
+    return experiments.map(experiment => ({
+      ...experiment,
+      startDate: new Date(experiment.startDate),
+      endDate: experiment.endDate ? new Date(experiment.endDate) : undefined
+    }));
+  }
+
+  async getEvents(experimentId?: string): Promise<ExperimentEvent[]> {
+    const events = await this.storage.readAll(experimentId);
+    return events.map(event => ({ ...event, timestamp: new Date(event.timestamp) }));
+  }
+
+  async clear(experimentId?: string): Promise<void> {
+    await this.storage.clear(experimentId);
+  }
+
+  /**
+   * Export events as newline-delimited JSON, one event per line
+   */
+  async exportNDJSON(experimentId?: string): Promise<string> {
+    const events = await this.getEvents(experimentId);
+    return events
+      .map(event => JSON.stringify({ ...event, timestamp: event.timestamp.toISOString() }))
+      .join('\n');
+  }
+
+  /**
+   * Import events from NDJSON. Events already in the log, or repeated in the file, are
+   * skipped by id. Returns the number of events added.
+   */
+  async importNDJSON(ndjson: string): Promise<number> {
+    const parsed: ExperimentEvent[] = [];
+
+    ndjson.split('\n').forEach((line, index) => {
+      if (line.trim() === '') return;
+
+      let raw: any;
+      try {
+        raw = JSON.parse(line);
+      } catch {
+        throw new Error(`Invalid event on line ${index + 1}: not valid JSON`);
+      }
+
+      const problem = this.validateEvent(raw);
+      if (problem) {
+        throw new Error(`Invalid event on line ${index + 1}: ${problem}`);
+      }
+
+      parsed.push({ ...raw, timestamp: new Date(raw.timestamp) });
+    });
+
+    const seen = new Set((await this.storage.readAll()).map(e => e.id));
+    const added = parsed.filter(event => {
+      if (seen.has(event.id)) return false;
+      seen.add(event.id);
+      return true;
+    });
+    await this.track(this.storage.append(added));
+
+    return added.length;
+  }
+
+  private track(write: Promise<void>): Promise<void> {
+    const pending = write.catch(() => undefined).finally(() => this.pendingWrites.delete(pending));
+    this.pendingWrites.add(pending);
+    return write;
+  }
+
+  private validateEvent(raw: any): string | null {
+    if (!raw || typeof raw !== 'object') return 'expected an object';
+    if (typeof raw.id !== 'string' || !raw.id) return 'missing id';
+    if (!EVENT_TYPES.includes(raw.type)) return `unknown type ${raw.type}`;
+    if (!raw.experimentId || !raw.customerId || !raw.tenantId) return 'missing experimentId, customerId or tenantId';
+    if (raw.type !== 'covariate' && !raw.variantId) return 'missing variantId';
+    if (raw.value !== undefined && typeof raw.value !== 'number') return 'value must be a number';
+    if (isNaN(new Date(raw.timestamp).getTime())) return 'invalid timestamp';
+    return null;
+  }
+
+  private generateId(): string {
+    this.sequence++;
+    return `evt_${Date.now()}_${this.sequence}_${Math.random().toString(36).substr(2, 6)}`;
+  }
+}
\ No newline at end of file
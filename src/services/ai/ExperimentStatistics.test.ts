@@ -0,0 +1,152 @@
+// src/services/ai/ExperimentStatistics.test.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  adjustPValues,
+  chiSquareTest,
+  cupedAdjust,
+  estimateEffect,
+  mean,
+  msprtTest,
+  normalQuantile,
+  variance,
+  welchTTest
+} from './ExperimentStatistics';
+
+describe('normalQuantile', () => {
+  it('inverts the standard normal CDF', () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 8);
+  });
+});
+
+describe('msprtTest', () => {
+  it('matches the normal mixture likelihood ratio', () => {
+    const effect = { difference: 2, variance: 1, controlMean: 0, treatmentMean: 2 };
+    const outcome = msprtTest(effect, 0.05, 1);
+
+    // sqrt(v / (v + tau2)) * exp(tau2 * d^2 / (2 v (v + tau2)))
+    expect(outcome.likelihoodRatio).toBeCloseTo(Math.SQRT1_2 * Math.E, 10);
+    expect(outcome.pValue).toBeCloseTo(1 / (Math.SQRT1_2 * Math.E), 10);
+    expect(outcome.interval[0]).toBeLessThan(2);
+    expect(outcome.interval[1]).toBeGreaterThan(2);
+  });
+
+  it('never raises the p-value above an earlier look', () => {
+    const noEffect = { difference: 0, variance: 1, controlMean: 1, treatmentMean: 1 };
+
+    expect(msprtTest(noEffect, 0.05, 1).pValue).toBe(1);
+    expect(msprtTest(noEffect, 0.05, 1, 0.02).pValue).toBe(0.02);
+    expect(msprtTest(noEffect, 0.05, 1, 0.02).significant).toBe(true);
+  });
+
+  it('becomes significant once the effect is large relative to its variance', () => {
+    const effect = { difference: 0.5, variance: 0.01, controlMean: 1, treatmentMean: 1.5 };
+    const outcome = msprtTest(effect, 0.05, 0.25);
+
+    expect(outcome.significant).toBe(true);
+    expect(outcome.interval[0]).toBeGreaterThan(0);
+  });
+
+  it('carries the previous p-value forward when there is no variance yet', () => {
+    const effect = { difference: 1, variance: 0, controlMean: 0, treatmentMean: 1 };
+    const outcome = msprtTest(effect, 0.05, 1, 0.3);
+
+    expect(outcome.pValue).toBe(0.3);
+    expect(outcome.interval).toEqual([-Infinity, Infinity]);
+    expect(outcome.likelihoodRatio).toBe(1);
+  });
+});
+
+describe('cupedAdjust', () => {
+  const covariates = Array.from({ length: 200 }, (_, i) => i % 20);
+  const outcomes = covariates.map((x, i) => 2 * x + (i % 3) - 1);
+
+  it('estimates theta and removes the variance the covariate explains', () => {
+    const { adjusted, theta, varianceReduction } = cupedAdjust(outcomes, covariates);
+
+    expect(theta).toBeCloseTo(2, 1);
+    expect(varianceReduction).toBeGreaterThan(0.9);
+    expect(variance(adjusted)).toBeLessThan(variance(outcomes));
+  });
+
+  it('keeps the mean of the outcomes', () => {
+    const { adjusted } = cupedAdjust(outcomes, covariates);
+    expect(mean(adjusted)).toBeCloseTo(mean(outcomes), 10);
+  });
+
+  it('leaves outcomes alone when the covariate is constant or misaligned', () => {
+    expect(cupedAdjust([1, 2, 3], [5, 5, 5])).toEqual({ adjusted: [1, 2, 3], theta: 0, varianceReduction: 0 });
+    expect(cupedAdjust([1, 2, 3], [1, 2]).theta).toBe(0);
+  });
+});
+
+describe('estimateEffect', () => {
+  it('adds the variances of both means', () => {
+    const effect = estimateEffect([1, 2, 3, 4, 5], [2, 3, 4, 5, 6]);
+
+    expect(effect.difference).toBe(1);
+    expect(effect.variance).toBeCloseTo(2.5 / 5 + 2.5 / 5, 10);
+  });
+});
+
+describe('welchTTest', () => {
+  it('matches a reference t-test', () => {
+    const outcome = welchTTest([1, 2, 3, 4, 5], [2, 3, 4, 5, 6], 0.05);
+
+    // t = 1 on 8 degrees of freedom
+    expect(outcome.degreesOfFreedom).toBeCloseTo(8, 8);
+    expect(outcome.pValue).toBeCloseTo(0.3466, 3);
+    expect(outcome.significant).toBe(false);
+    expect(outcome.interval[0]).toBeCloseTo(1 - 2.306, 2);
+    expect(outcome.interval[1]).toBeCloseTo(1 + 2.306, 2);
+  });
+
+  it('uses fewer degrees of freedom when the variances differ', () => {
+    const outcome = welchTTest([10, 10.1, 9.9, 10, 10.2], [8, 14, 11, 17, 5, 13], 0.05);
+    expect(outcome.degreesOfFreedom).toBeLessThan(9);
+    expect(outcome.degreesOfFreedom).toBeGreaterThan(4);
+  });
+
+  it('declines to test samples that are too small', () => {
+    const outcome = welchTTest([1], [2, 3], 0.05);
+    expect(outcome.pValue).toBe(1);
+    expect(outcome.degreesOfFreedom).toBe(0);
+  });
+});
+
+describe('adjustPValues', () => {
+  const pValues = [0.01, 0.04, 0.03, 0.005];
+
+  it('applies Holm step-down and keeps adjusted values monotone', () => {
+    const adjusted = adjustPValues(pValues, 'holm');
+    [0.03, 0.06, 0.06, 0.02].forEach((expected, i) => expect(adjusted[i]).toBeCloseTo(expected, 10));
+  });
+
+  it('applies Benjamini-Hochberg step-up', () => {
+    const adjusted = adjustPValues(pValues, 'benjamini_hochberg');
+    [0.02, 0.04, 0.04, 0.02].forEach((expected, i) => expect(adjusted[i]).toBeCloseTo(expected, 10));
+  });
+
+  it('caps Bonferroni at one and leaves a single comparison alone', () => {
+    expect(adjustPValues([0.3, 0.01], 'bonferroni')).toEqual([0.6, 0.02]);
+    expect(adjustPValues([0.6, 0.7], 'bonferroni')).toEqual([1, 1]);
+    expect(adjustPValues([0.04], 'holm')).toEqual([0.04]);
+  });
+});
+
+describe('chiSquareTest', () => {
+  it('finds no mismatch when counts follow the allocation', () => {
+    const outcome = chiSquareTest([500, 500], [0.5, 0.5]);
+    expect(outcome.statistic).toBe(0);
+    expect(outcome.pValue).toBeCloseTo(1, 10);
+  });
+
+  it('flags a sample ratio mismatch', () => {
+    const outcome = chiSquareTest([550, 450], [0.5, 0.5]);
+
+    expect(outcome.statistic).toBeCloseTo(10, 10);
+    expect(outcome.degreesOfFreedom).toBe(1);
+    expect(outcome.pValue).toBeCloseTo(0.001565, 5);
+  });
+});
\ No newline at end of file
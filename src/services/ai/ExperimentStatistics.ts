@@ -0,0 +1,494 @@
+// src/services/ai/ExperimentStatistics.ts
+
+/**
+ * Statistical routines used by the ExperimentationEngine
+ */
+
+export interface EffectEstimate {
+  difference: number; // treatment mean - control mean
+  variance: number; // variance of the difference
+  controlMean: number;
+  treatmentMean: number;
+}
+
+export interface TestOutcome {
+  pValue: number;
+  interval: [number, number];
+  significant: boolean;
+}
+
+/**
+ * Standard normal cumulative distribution function
+ */
+export function normalCdf(z: number): number {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+
+  const pLow = 0.02425;
+  const pHigh = 1 - pLow;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  if (p > pHigh) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Sample variance (n - 1 denominator)
+ */
+export function variance(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+}
+
+export function covariance(x: number[], y: number[]): number {
+  if (x.length < 2 || x.length !== y.length) return 0;
+  const mx = mean(x);
+  const my = mean(y);
+  let sum = 0;
+  for (let i = 0; i < x.length; i++) {
+    sum += (x[i] - mx) * (y[i] - my);
+  }
+  return sum / (x.length - 1);
+}
+
+/**
+ * CUPED adjustment: Y' = Y - theta * (X - mean(X)), theta = cov(X, Y) / var(X).
+ * Theta is estimated on the pooled data of all variants so the adjustment does not bias the comparison.
+ */
+export function cupedAdjust(
+  outcomes: number[],
+  covariates: number[]
+): { adjusted: number[]; theta: number; varianceReduction: number } {
+  const varX = variance(covariates);
+  if (varX === 0 || outcomes.length !== covariates.length) {
+    return { adjusted: outcomes, theta: 0, varianceReduction: 0 };
+  }
+
+  const theta = covariance(covariates, outcomes) / varX;
+  const meanX = mean(covariates);
+  const adjusted = outcomes.map((y, i) => y - theta * (covariates[i] - meanX));
+
+  const varY = variance(outcomes);
+  const varianceReduction = varY > 0 ? Math.max(0, 1 - variance(adjusted) / varY) : 0;
+
+  return { adjusted, theta, varianceReduction };
+}
+
+/**
+ * Difference in means between two independent samples with its (unpooled) variance
+ */
+export function estimateEffect(control: number[], treatment: number[]): EffectEstimate {
+  const controlMean = mean(control);
+  const treatmentMean = mean(treatment);
+
+  const varianceOfDifference =
+    (control.length > 0 ? variance(control) / control.length : 0) +
+    (treatment.length > 0 ? variance(treatment) / treatment.length : 0);
+
+  return {
+    difference: treatmentMean - controlMean,
+    variance: varianceOfDifference,
+    controlMean,
+    treatmentMean
+  };
+}
+
+/**
+ * Two-sided fixed-horizon z-test. Only valid when evaluated once at the planned sample size.
+ */
+export function fixedHorizonTest(effect: EffectEstimate, alpha: number): TestOutcome {
+  if (effect.variance <= 0) {
+    return { pValue: 1, interval: [effect.difference, effect.difference], significant: false };
+  }
+
+  const se = Math.sqrt(effect.variance);
+  const z = effect.difference / se;
+  const pValue = 2 * (1 - normalCdf(Math.abs(z)));
+  const zCritical = normalQuantile(1 - alpha / 2);
+
+  return {
+    pValue,
+    interval: [effect.difference - zCritical * se, effect.difference + zCritical * se],
+    significant: pValue < alpha
+  };
+}
+
+/**
+ * Mixture sequential probability ratio test (normal mixture, Johari et al. 2017).
+ *
+ * Returns an always-valid p-value and confidence sequence, so results may be checked after every
+ * observation without inflating the false positive rate. `previousPValue` carries the running minimum
+ * from earlier looks.
+ */
+export function msprtTest(
+  effect: EffectEstimate,
+  alpha: number,
+  mixingVariance: number,
+  previousPValue: number = 1
+): TestOutcome & { likelihoodRatio: number } {
+  const v = effect.variance;
+  const tau2 = mixingVariance;
+
+  if (v <= 0 || tau2 <= 0) {
+    return {
+      pValue: previousPValue,
+      interval: [-Infinity, Infinity],
+      significant: previousPValue < alpha,
+      likelihoodRatio: 1
+    };
+  }
+
+  const d = effect.difference;
+  const likelihoodRatio = Math.sqrt(v / (v + tau2)) * Math.exp((tau2 * d * d) / (2 * v * (v + tau2)));
+  const pValue = Math.min(previousPValue, 1 / likelihoodRatio, 1);
+
+  const halfWidth = Math.sqrt(((v * (v + tau2)) / tau2) * (2 * Math.log(1 / alpha) + Math.log((v + tau2) / v)));
+
+  return {
+    pValue,
+    interval: [d - halfWidth, d + halfWidth],
+    significant: pValue < alpha,
+    likelihoodRatio
+  };
+}
+
+/**
+ * Normal-approximation interval for a proportion
+ */
+export function proportionInterval(successes: number, trials: number, alpha: number): [number, number] {
+  if (trials === 0) return [0, 0];
+  const p = successes / trials;
+  const z = normalQuantile(1 - alpha / 2);
+  const se = Math.sqrt((p * (1 - p)) / trials);
+  return [Math.max(0, p - z * se), Math.min(1, p + z * se)];
+}
+
+/**
+ * Welch's unequal-variance t-test on the difference in means
+ */
+export function welchTTest(control: number[], treatment: number[], alpha: number): TestOutcome & { degreesOfFreedom: number } {
+  const effect = estimateEffect(control, treatment);
+  const v1 = control.length > 0 ? variance(control) / control.length : 0;
+  const v2 = treatment.length > 0 ? variance(treatment) / treatment.length : 0;
+
+  if (effect.variance <= 0 || control.length < 2 || treatment.length < 2) {
+    return { pValue: 1, interval: [effect.difference, effect.difference], significant: false, degreesOfFreedom: 0 };
+  }
+
+  // Welch-Satterthwaite degrees of freedom
+  const df = (effect.variance ** 2) /
+    ((v1 ** 2) / (control.length - 1) + (v2 ** 2) / (treatment.length - 1));
+
+  const se = Math.sqrt(effect.variance);
+  const t = effect.difference / se;
+  const pValue = 2 * (1 - studentTCdf(Math.abs(t), df));
+  const tCritical = studentTQuantile(1 - alpha / 2, df);
+
+  return {
+    pValue,
+    interval: [effect.difference - tCritical * se, effect.difference + tCritical * se],
+    significant: pValue < alpha,
+    degreesOfFreedom: df
+  };
+}
+
+/**
+ * Percentile bootstrap for the difference in means. The p-value is twice the share of
+ * resampled differences on the other side of zero.
+ */
+export function bootstrapTest(
+  control: number[],
+  treatment: number[],
+  alpha: number,
+  iterations: number = 1000,
+  random: () => number = Math.random
+): TestOutcome {
+  if (control.length < 2 || treatment.length < 2) {
+    const difference = mean(treatment) - mean(control);
+    return { pValue: 1, interval: [difference, difference], significant: false };
+  }
+
+  const differences: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    differences.push(resampleMean(treatment, random) - resampleMean(control, random));
+  }
+  differences.sort((a, b) => a - b);
+
+  const lower = differences[Math.floor((alpha / 2) * (iterations - 1))];
+  const upper = differences[Math.ceil((1 - alpha / 2) * (iterations - 1))];
+
+  const belowZero = differences.filter(d => d <= 0).length / iterations;
+  const aboveZero = differences.filter(d => d >= 0).length / iterations;
+  const pValue = Math.min(1, 2 * Math.min(belowZero, aboveZero));
+
+  return { pValue, interval: [lower, upper], significant: pValue < alpha };
+}
+
+/**
+ * Adjust a family of p-values for multiple comparisons
+ */
+export function adjustPValues(
+  pValues: number[],
+  method: 'none' | 'bonferroni' | 'holm' | 'benjamini_hochberg'
+): number[] {
+  const m = pValues.length;
+  if (m <= 1 || method === 'none') return [...pValues];
+
+  if (method === 'bonferroni') {
+    return pValues.map(p => Math.min(1, p * m));
+  }
+
+  const order = pValues.map((p, i) => ({ p, i })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(m);
+
+  if (method === 'holm') {
+    let running = 0;
+    order.forEach(({ p, i }, rank) => {
+      running = Math.max(running, Math.min(1, (m - rank) * p));
+      adjusted[i] = running;
+    });
+    return adjusted;
+  }
+
+  // Benjamini-Hochberg step-up
+  let running = 1;
+  for (let rank = m - 1; rank >= 0; rank--) {
+    const { p, i } = order[rank];
+    running = Math.min(running, (p * m) / (rank + 1));
+    adjusted[i] = Math.min(1, running);
+  }
+  return adjusted;
+}
+
+/**
+ * Pearson chi-square goodness-of-fit test of observed counts against expected proportions
+ */
+export function chiSquareTest(
+  observed: number[],
+  expectedProportions: number[]
+): { statistic: number; degreesOfFreedom: number; pValue: number } {
+  const total = observed.reduce((sum, count) => sum + count, 0);
+  const proportionTotal = expectedProportions.reduce((sum, p) => sum + p, 0);
+  if (total === 0 || proportionTotal <= 0) {
+    return { statistic: 0, degreesOfFreedom: 0, pValue: 1 };
+  }
+
+  let statistic = 0;
+  let categories = 0;
+  observed.forEach((count, i) => {
+    const expected = (expectedProportions[i] / proportionTotal) * total;
+    if (expected > 0) {
+      statistic += ((count - expected) ** 2) / expected;
+      categories++;
+    }
+  });
+
+  const degreesOfFreedom = categories - 1;
+  if (degreesOfFreedom < 1) {
+    return { statistic, degreesOfFreedom: 0, pValue: 1 };
+  }
+
+  return {
+    statistic,
+    degreesOfFreedom,
+    pValue: 1 - regularizedGammaP(degreesOfFreedom / 2, statistic / 2)
+  };
+}
+
+/**
+ * Student's t cumulative distribution function
+ */
+export function studentTCdf(t: number, df: number): number {
+  if (!isFinite(df) || df > 1e6) return normalCdf(t);
+  const x = df / (df + t * t);
+  const tail = 0.5 * regularizedIncompleteBeta(x, df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * Inverse Student's t CDF by bisection
+ */
+export function studentTQuantile(p: number, df: number): number {
+  if (!isFinite(df) || df > 1e6) return normalQuantile(p);
+
+  let low = -1000;
+  let high = 1000;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (studentTCdf(mid, df) < p) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+function resampleMean(values: number[], random: () => number): number {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[Math.floor(random() * values.length)];
+  }
+  return sum / values.length;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b) (continued fraction, Numerical Recipes 6.4)
+ */
+function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(x, a, b)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const maxIterations = 200;
+  const epsilon = 3e-14;
+  const tiny = 1e-300;
+
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= maxIterations; m++) {
+    const m2 = 2 * m;
+
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+
+    if (Math.abs(delta - 1) < epsilon) break;
+  }
+
+  return h;
+}
+
+/**
+ * Regularized lower incomplete gamma function P(a, x) (Numerical Recipes 6.2)
+ */
+function regularizedGammaP(a: number, x: number): number {
+  if (x <= 0) return 0;
+
+  const logPrefix = -x + a * Math.log(x) - logGamma(a);
+
+  if (x < a + 1) {
+    // Series representation
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 3e-14) break;
+    }
+    return sum * Math.exp(logPrefix);
+  }
+
+  // Continued fraction for the upper tail
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 3e-14) break;
+  }
+  return 1 - Math.exp(logPrefix) * h;
+}
+
+/**
+ * Log gamma (Lanczos approximation)
+ */
+function logGamma(z: number): number {
+  const coefficients = [
+    676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012,
+    9.9843695780195716e-6, 1.5056327351493116e-7
+  ];
+
+  if (z < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * z)) - logGamma(1 - z);
+  }
+
+  const x = z - 1;
+  let sum = 0.99999999999980993;
+  coefficients.forEach((coefficient, i) => {
+    sum += coefficient / (x + i + 1);
+  });
+  const t = x + coefficients.length - 0.5;
+
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/**
+ * Error function (Abramowitz and Stegun 7.1.26, |error| < 1.5e-7)
+ */
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const ax = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * ax);
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-ax * ax);
+  return sign * y;
+}
\ No newline at end of file
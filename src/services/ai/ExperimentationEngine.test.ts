@@ -0,0 +1,209 @@
+// src/services/ai/ExperimentationEngine.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import { DecisionRequest, Experiment } from '../../types/ai';
+import { ExperimentationEngine, GLOBAL_HOLDOUT_ID } from './ExperimentationEngine';
+import { ExperimentEventLog, InMemoryEventStorage } from './ExperimentEventLog';
+import { estimateEffect, fixedHorizonTest } from './ExperimentStatistics';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const experiment = (overrides: Partial<Experiment> = {}): Experiment => ({
+  id: 'exp_test',
+  name: 'Test',
+  description: '',
+  status: 'draft',
+  type: 'ab_test',
+  startDate: new Date('2024-06-01T00:00:00Z'),
+  targetAudience: { criteria: '', size: 1000, allocation: { control: 50, treatment: 50 } },
+  variants: [
+    { id: 'control', name: 'Control', description: '', allocation: 0.5, configuration: {} },
+    { id: 'treatment', name: 'Treatment', description: '', allocation: 0.5, configuration: {} }
+  ],
+  metrics: { primary: 'purchase', secondary: [] },
+  configuration: { confidenceLevel: 0.9, minimumDetectableEffect: 0.2, trafficAllocation: 1, randomizationUnit: 'customer' },
+  ...overrides
+});
+
+const createEngine = () => new ExperimentationEngine(new ExperimentEventLog(new InMemoryEventStorage()));
+
+const random = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+describe('guardrails', () => {
+  const ALPHA = 0.1;
+  const guarded = experiment({
+    guardrails: [{ metric: 'unsubscribe', harmfulDirection: 'increase', maxRelativeChange: 0, minParticipants: 20 }]
+  });
+
+  // Customers enroll one by one and some unsubscribe; each unsubscribe is a look at the guardrail
+  const simulate = async (seed: number, rates: { [variantId: string]: number }, customers = 300) => {
+    const engine = createEngine();
+    const next = random(seed);
+    await engine.createExperiment(structuredClone(guarded));
+    await engine.startExperiment('exp_test');
+
+    // A fixed-horizon z-test at the same looks, for comparison
+    const outcomes: { [variantId: string]: number[] } = { control: [], treatment: [] };
+    let peekingRejected = false;
+
+    for (let i = 0; i < customers; i++) {
+      // Paused experiments stop enrolling
+      const variantId = await engine.getVariantAssignment('exp_test', `c${i}`, 't1');
+      if (!variantId) break;
+
+      const unsubscribes = next() < rates[variantId];
+      outcomes[variantId].push(unsubscribes ? 1 : 0);
+      if (!unsubscribes) continue;
+
+      await engine.trackConversion('exp_test', `c${i}`, 't1', 'unsubscribe', 1);
+      if (outcomes.control.length >= 20 && outcomes.treatment.length >= 20) {
+        peekingRejected ||= fixedHorizonTest(estimateEffect(outcomes.control, outcomes.treatment), ALPHA).pValue < ALPHA;
+      }
+    }
+
+    const paused = engine.getExperiments().find(e => e.id === 'exp_test')!.status === 'paused';
+    return { paused, peekingRejected };
+  };
+
+  it('pauses at most alpha of harmless experiments despite checking after every conversion', async () => {
+    const runs = 100;
+    let paused = 0;
+    let peekingRejected = 0;
+    for (let seed = 1; seed <= runs; seed++) {
+      const outcome = await simulate(seed, { control: 0.2, treatment: 0.2 });
+      paused += Number(outcome.paused);
+      peekingRejected += Number(outcome.peekingRejected);
+    }
+
+    expect(paused / runs).toBeLessThanOrEqual(ALPHA);
+    // Re-running a fixed-horizon test at every look rejects far more often
+    expect(peekingRejected / runs).toBeGreaterThan(2 * ALPHA);
+  });
+
+  it('still pauses an experiment that causes harm', async () => {
+    const { paused } = await simulate(7, { control: 0.1, treatment: 0.4 });
+    expect(paused).toBe(true);
+  });
+
+  it('fixes the prior variance at the first look', async () => {
+    const engine = createEngine();
+    await engine.createExperiment(structuredClone(guarded));
+    await engine.startExperiment('exp_test');
+    for (let i = 0; i < 60; i++) {
+      await engine.getVariantAssignment('exp_test', `c${i}`, 't1');
+    }
+
+    await engine.trackConversion('exp_test', 'c1', 't1', 'unsubscribe', 1);
+    const [guardrail] = engine.getExperiments().find(e => e.id === 'exp_test')!.guardrails!;
+    const mixingVariance = guardrail.mixingVariance;
+    expect(mixingVariance).toBeGreaterThan(0);
+
+    await engine.trackConversion('exp_test', 'c2', 't1', 'unsubscribe', 1);
+    expect(guardrail.mixingVariance).toBe(mixingVariance);
+  });
+});
+
+describe('layers', () => {
+  const layered = (id: string, trafficAllocation: number) => experiment({
+    id,
+    layerId: 'checkout',
+    configuration: { ...experiment().configuration, trafficAllocation }
+  });
+
+  const enrolled = async (engine: ExperimentationEngine, experimentId: string, customers: number) => {
+    const ids: string[] = [];
+    for (let i = 0; i < customers; i++) {
+      if (await engine.getVariantAssignment(experimentId, `c${i}`, 't1')) ids.push(`c${i}`);
+    }
+    return ids;
+  };
+
+  it('requires the layer to exist and be unique', async () => {
+    const engine = createEngine();
+    await expect(engine.createExperiment(layered('exp_a', 0.5))).rejects.toThrow('Layer not found: checkout');
+
+    engine.createLayer({ id: 'checkout', name: 'Checkout' });
+    expect(engine.getLayer('checkout')?.buckets).toBe(1000);
+    expect(() => engine.createLayer({ id: 'checkout', name: 'Again' })).toThrow('Layer already exists: checkout');
+  });
+
+  it('hands a completed experiment slice to the next experiment', async () => {
+    const engine = createEngine();
+    engine.createLayer({ id: 'checkout', name: 'Checkout', buckets: 100 });
+    await engine.createExperiment(layered('exp_a', 0.6));
+    await engine.createExperiment(layered('exp_b', 0.4));
+    await engine.startExperiment('exp_a');
+    await engine.startExperiment('exp_b');
+    const first = await enrolled(engine, 'exp_a', 200);
+
+    await engine.stopExperiment('exp_a');
+    expect(engine.getLayer('checkout')?.allocations).toEqual({ exp_b: [60, 100] });
+
+    // The freed buckets are reused first, so the new experiment reaches the same customers
+    await engine.createExperiment(layered('exp_c', 0.6));
+    await engine.startExperiment('exp_c');
+    expect(engine.getLayer('checkout')?.allocations.exp_c).toEqual([0, 60]);
+    expect(await enrolled(engine, 'exp_c', 200)).toEqual(first);
+  });
+
+  it('keeps the slice of a paused experiment', async () => {
+    const engine = createEngine();
+    engine.createLayer({ id: 'checkout', name: 'Checkout', buckets: 100 });
+    await engine.createExperiment(layered('exp_a', 1));
+    await engine.startExperiment('exp_a');
+    await engine.stopExperiment('exp_a', 'Investigating', 'paused');
+
+    await expect(engine.createExperiment(layered('exp_b', 0.1))).rejects.toThrow('needs 10 buckets, 0 free');
+  });
+});
+
+describe('global holdout', () => {
+  const decisionRequest = (customerId: string) =>
+    ({ requestId: `r_${customerId}`, customerId, tenantId: 't1', decisionType: 'next_best_action' } as DecisionRequest);
+
+  it('rejects percentages outside [0, 1)', () => {
+    expect(() => createEngine().configureHoldout({ enabled: true, percentage: 1 })).toThrow('Holdout percentage must be between 0 and 1');
+  });
+
+  it('holds out the configured share of customers from every experiment', async () => {
+    const engine = createEngine();
+    engine.configureHoldout({ enabled: true, percentage: 0.2 });
+    await engine.createExperiment(experiment());
+    await engine.startExperiment('exp_test');
+
+    let heldOut = 0;
+    for (let i = 0; i < 1000; i++) {
+      const { request, experimentsApplied } = await engine.applyExperiments(decisionRequest(`c${i}`));
+      if (request.overrides?.holdout) {
+        heldOut++;
+        expect(experimentsApplied).toEqual([`${GLOBAL_HOLDOUT_ID}:holdout`]);
+      } else {
+        expect(experimentsApplied[0]).toBe(`${GLOBAL_HOLDOUT_ID}:personalized`);
+        expect(experimentsApplied[1]).toMatch(/^exp_test:/);
+      }
+    }
+    expect(heldOut / 1000).toBeGreaterThan(0.16);
+    expect(heldOut / 1000).toBeLessThan(0.24);
+
+    // Assignment is sticky
+    const first = await engine.applyExperiments(decisionRequest('c1'));
+    const again = await engine.applyExperiments(decisionRequest('c1'));
+    expect(again.experimentsApplied).toEqual(first.experimentsApplied);
+  });
+
+  it('stops holding customers out when disabled', async () => {
+    const engine = createEngine();
+    engine.configureHoldout({ enabled: true, percentage: 0.5 });
+    engine.configureHoldout({ enabled: false, percentage: 0.5 });
+
+    for (let i = 0; i < 50; i++) {
+      const { request, experimentsApplied } = await engine.applyExperiments(decisionRequest(`c${i}`));
+      expect(request.overrides?.holdout).toBeUndefined();
+      expect(experimentsApplied).toEqual([]);
+    }
+    expect(engine.getExperiments().find(e => e.id === GLOBAL_HOLDOUT_ID)?.status).toBe('paused');
+  });
+});
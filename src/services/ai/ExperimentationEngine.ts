@@ -1,14 +1,65 @@
 // src/services/ai/ExperimentationEngine.ts
 
-import { Experiment, ExperimentVariant, ExperimentResults, DecisionRequest, DecisionResult } from '../../types/ai';
+import {
+  Experiment,
+  ExperimentVariant,
+  ExperimentResults,
+  ExperimentAssignment,
+  ExperimentEvent,
+  ExperimentGuardrail,
+  ExperimentLayer,
+  HoldoutConfig,
+  ExperimentMetricType,
+  MetricAnalysis,
+  GuardrailResult,
+  SampleRatioCheck,
+  DecisionRequest,
+  DecisionOverrides,
+  CustomerContext
+} from '../../types/ai';
+import { EligibilityAtom } from '../../types/api/atoms';
+import { useNotificationStore } from '../../stores/ui/notificationStore';
+import { AtomDependencyGraph } from './AtomDependencyGraph';
+import { CriteriaNode, evaluateCriteria, parseCriteria } from './AudienceCriteria';
+import { RuleTreeNode, compileAtom } from './EligibilityRules';
+import { ExperimentEventLog } from './ExperimentEventLog';
+import {
+  adjustPValues,
+  bootstrapTest,
+  chiSquareTest,
+  cupedAdjust,
+  estimateEffect,
+  fixedHorizonTest,
+  mean,
+  msprtTest,
+  normalQuantile,
+  proportionInterval,
+  variance,
+  welchTTest
+} from './ExperimentStatistics';
+
+export const GLOBAL_HOLDOUT_ID = 'global_holdout';
+
+// New assignments between sample ratio checks on the assignment path
+const SAMPLE_RATIO_CHECK_INTERVAL = 100;
 
 export class ExperimentationEngine {
   private experiments: Map<string, Experiment> = new Map();
   private variantAssignments: Map<string, { [experimentId: string]: string }> = new Map();
-  private experimentResults: Map<string, any[]> = new Map();
+  private experimentResults: Map<string, ExperimentEvent[]> = new Map();
   private statisticalTests: Map<string, any> = new Map();
+  private covariates: Map<string, Map<string, number>> = new Map();
+  private sequentialState: Map<string, { [variantId: string]: number }> = new Map();
+  private guardrailState: Map<string, { [metricAndVariant: string]: number }> = new Map();
+  private sampleRatioAlerts: Set<string> = new Set();
+  private audienceAtoms: AtomDependencyGraph = new AtomDependencyGraph();
+  private audienceCriteria: Map<string, { source: string; node: CriteriaNode | null }> = new Map();
+  private layers: Map<string, ExperimentLayer> = new Map();
+  private holdout: HoldoutConfig = { enabled: false, percentage: 0 };
+  private eventLog: ExperimentEventLog;
 
-  constructor() {
+  constructor(eventLog: ExperimentEventLog = new ExperimentEventLog()) {
+    this.eventLog = eventLog;
     this.initializeDefaultExperiments();
   }
 
@@ -21,14 +72,57 @@ export class ExperimentationEngine {
     // Validate experiment configuration
     this.validateExperiment(experiment);
     
+    // Claim a traffic slice in the experiment's layer
+    if (experiment.layerId) {
+      this.reserveLayerBuckets(experiment);
+    }
+    
     // Initialize experiment
     experiment.status = 'draft';
     this.experiments.set(experiment.id, experiment);
     this.experimentResults.set(experiment.id, []);
+    this.persistExperiment(experiment);
     
     console.log(`[ExperimentationEngine] Experiment created: ${experiment.id}`);
   }
 
+  /**
+   * Replace the definition of a draft experiment. Its layer slice is re-reserved for the new
+   * layer and traffic allocation; if that fails the experiment keeps its old definition.
+   */
+  async updateExperiment(experiment: Experiment): Promise<void> {
+    const previous = this.experiments.get(experiment.id);
+    if (!previous) {
+      throw new Error(`Experiment not found: ${experiment.id}`);
+    }
+    
+    if (previous.status !== 'draft') {
+      throw new Error(`Cannot edit experiment in status: ${previous.status}`);
+    }
+    
+    this.validateExperiment(experiment);
+    
+    if (previous.layerId) {
+      this.releaseLayerBuckets(previous);
+    }
+    try {
+      if (experiment.layerId) {
+        this.reserveLayerBuckets(experiment);
+      }
+    } catch (error) {
+      if (previous.layerId) {
+        this.reserveLayerBuckets(previous);
+      }
+      throw error;
+    }
+    
+    experiment.status = 'draft';
+    this.experiments.set(experiment.id, experiment);
+    this.persistExperiment(experiment);
+    
+    console.log(`[ExperimentationEngine] Experiment updated: ${experiment.id}`);
+  }
+
   /**
    * Start an experiment
    */
@@ -48,6 +142,7 @@ export class ExperimentationEngine {
     experiment.startDate = new Date();
     
     this.experiments.set(experimentId, experiment);
+    this.persistExperiment(experiment);
     
     // Initialize statistical tracking
     this.initializeStatisticalTracking(experiment);
@@ -59,7 +154,8 @@ export class ExperimentationEngine {
   async getVariantAssignment(
     experimentId: string, 
     customerId: string, 
-    tenantId: string
+    tenantId: string,
+    context?: CustomerContext
   ): Promise<string | null> {
     const experiment = this.experiments.get(experimentId);
     if (!experiment || experiment.status !== 'running') {
@@ -80,7 +176,7 @@ export class ExperimentationEngine {
     }
     
     // Check if customer is eligible for experiment
-    const isEligible = await this.isCustomerEligible(experiment, customerId, tenantId);
+    const isEligible = await this.isCustomerEligible(experiment, customerId, tenantId, context);
     if (!isEligible) {
       return null;
     }
@@ -90,6 +186,8 @@ export class ExperimentationEngine {
     assignments[experimentId] = variantId;
     
     this.variantAssignments.set(customerKey, assignments);
+    this.appendToLog({ type: 'exposure', experimentId, customerId, tenantId, variantId });
+    this.recordAssignment(experiment);
     
     console.log(`[ExperimentationEngine] Assigned customer ${customerId} to variant ${variantId} in experiment ${experimentId}`);
     
@@ -102,18 +200,36 @@ export class ExperimentationEngine {
   async applyExperiments(request: DecisionRequest): Promise<{
     request: DecisionRequest;
     experimentsApplied: string[];
+    assignments: ExperimentAssignment[];
   }> {
-    const experimentsApplied: string[] = [];
+    const assignments: ExperimentAssignment[] = [];
     let modifiedRequest = { ...request };
     
+    // Holdout customers are kept out of every experiment and all personalization
+    if (this.holdout.enabled) {
+      const holdoutVariant = await this.getVariantAssignment(GLOBAL_HOLDOUT_ID, request.customerId, request.tenantId);
+      if (holdoutVariant) {
+        assignments.push({ experimentId: GLOBAL_HOLDOUT_ID, variantId: holdoutVariant });
+      }
+      
+      if (holdoutVariant === 'holdout') {
+        return {
+          request: { ...request, overrides: { ...request.overrides, holdout: true } },
+          experimentsApplied: [`${GLOBAL_HOLDOUT_ID}:holdout`],
+          assignments
+        };
+      }
+    }
+    
     // Get active experiments
-    const activeExperiments = this.getActiveExperiments();
+    const activeExperiments = this.getActiveExperiments().filter(e => e.id !== GLOBAL_HOLDOUT_ID);
     
     for (const experiment of activeExperiments) {
       const variantId = await this.getVariantAssignment(
         experiment.id, 
         request.customerId, 
-        request.tenantId
+        request.tenantId,
+        request.context
       );
       
       if (variantId) {
@@ -121,14 +237,15 @@ export class ExperimentationEngine {
         if (variant) {
           // Apply variant configuration to request
           modifiedRequest = this.applyVariantConfiguration(modifiedRequest, variant);
-          experimentsApplied.push(experiment.id);
+          assignments.push({ experimentId: experiment.id, variantId });
         }
       }
     }
     
     return {
       request: modifiedRequest,
-      experimentsApplied
+      experimentsApplied: assignments.map(a => `${a.experimentId}:${a.variantId}`),
+      assignments
     };
   }
 
@@ -156,7 +273,9 @@ export class ExperimentationEngine {
     }
     
     const variantId = assignments[experimentId];
-    const conversionEvent = {
+    const conversionEvent: ExperimentEvent = {
+      id: `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type: 'conversion',
       experimentId,
       customerId,
       tenantId,
@@ -171,6 +290,7 @@ export class ExperimentationEngine {
     const results = this.experimentResults.get(experimentId) || [];
     results.push(conversionEvent);
     this.experimentResults.set(experimentId, results);
+    this.appendToLog(conversionEvent);
     
     console.log(`[ExperimentationEngine] Tracked conversion for experiment ${experimentId}, variant ${variantId}: ${metric} = ${value}`);
     
@@ -178,6 +298,114 @@ export class ExperimentationEngine {
     await this.updateExperimentStatistics(experimentId);
   }
 
+  /**
+   * Record a customer's pre-period covariate used for CUPED variance reduction
+   */
+  recordCovariate(experimentId: string, customerId: string, tenantId: string, value: number): void {
+    const covariates = this.covariates.get(experimentId) || new Map<string, number>();
+    covariates.set(`${tenantId}:${customerId}`, value);
+    this.covariates.set(experimentId, covariates);
+    this.appendToLog({ type: 'covariate', experimentId, customerId, tenantId, value });
+  }
+
+  /**
+   * Rebuild assignments, conversions and covariates by replaying the event log, restoring
+   * experiment definitions first when rebuilding everything. Logged events are merged into
+   * memory rather than replacing it, since events recorded while the log is read are held
+   * in memory but can be missing from the read. Sequential p-values restart from the full
+   * data, which is conservative.
+   */
+  async restoreFromLog(experimentId?: string): Promise<number> {
+    // Let this engine's own writes land so the read includes them
+    await this.eventLog.flush();
+    
+    if (!experimentId) {
+      await this.restoreExperiments();
+    }
+    
+    const events = await this.eventLog.getEvents(experimentId);
+    const logged = new Set(events.map(event => event.id));
+    const isRestored = (id: string) => !experimentId || id === experimentId;
+    
+    // Conversions held only in memory are kept and re-merged after the logged ones
+    const unlogged = new Map<string, ExperimentEvent[]>();
+    this.experimentResults.forEach((results, id) => {
+      if (!isRestored(id)) return;
+      unlogged.set(id, results.filter(event => !logged.has(event.id)));
+      this.experimentResults.set(id, []);
+    });
+    Array.from(this.sequentialState.keys()).filter(isRestored).forEach(id => this.sequentialState.delete(id));
+    Array.from(this.guardrailState.keys()).filter(isRestored).forEach(id => this.guardrailState.delete(id));
+    
+    events.forEach(event => {
+      const customerKey = `${event.tenantId}:${event.customerId}`;
+      
+      switch (event.type) {
+        case 'exposure': {
+          const assignments = this.variantAssignments.get(customerKey) || {};
+          assignments[event.experimentId] = event.variantId!;
+          this.variantAssignments.set(customerKey, assignments);
+          break;
+        }
+        case 'conversion': {
+          const results = this.experimentResults.get(event.experimentId) || [];
+          results.push(event);
+          this.experimentResults.set(event.experimentId, results);
+          break;
+        }
+        case 'covariate': {
+          const covariates = this.covariates.get(event.experimentId) || new Map<string, number>();
+          covariates.set(customerKey, event.value ?? 0);
+          this.covariates.set(event.experimentId, covariates);
+          break;
+        }
+      }
+    });
+    
+    unlogged.forEach((results, id) => {
+      if (results.length === 0) return;
+      const merged = [...(this.experimentResults.get(id) || []), ...results]
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      this.experimentResults.set(id, merged);
+    });
+    
+    console.log(`[ExperimentationEngine] Restored ${events.length} events from the event log`);
+    return events.length;
+  }
+
+  /**
+   * Recompute an experiment's results from the event log
+   */
+  async recomputeResults(experimentId: string): Promise<ExperimentResults | null> {
+    await this.restoreFromLog(experimentId);
+    return this.getExperimentResults(experimentId);
+  }
+
+  /**
+   * Read logged events, oldest first
+   */
+  async getEvents(experimentId?: string): Promise<ExperimentEvent[]> {
+    await this.eventLog.flush();
+    return this.eventLog.getEvents(experimentId);
+  }
+
+  /**
+   * Export the event log as NDJSON for offline auditing
+   */
+  async exportEventLog(experimentId?: string): Promise<string> {
+    await this.eventLog.flush();
+    return this.eventLog.exportNDJSON(experimentId);
+  }
+
+  /**
+   * Import NDJSON events into the log and rebuild state from it
+   */
+  async importEventLog(ndjson: string): Promise<number> {
+    const imported = await this.eventLog.importNDJSON(ndjson);
+    await this.restoreFromLog();
+    return imported;
+  }
+
   /**
    * Get experiment results and statistical analysis
    */
@@ -194,24 +422,36 @@ export class ExperimentationEngine {
         results: {},
         insights: ['No data collected yet'],
         recommendations: ['Wait for more data before drawing conclusions'],
-        confidence: 0
+        confidence: 0,
+        safeToStop: false
       };
     }
     
-    // Calculate results for each variant
+    const alpha = 1 - experiment.configuration.confidenceLevel;
+    const participantsByVariant = this.getParticipantsByVariant(experiment, events);
+    const primaryType = this.getMetricType(experiment, experiment.metrics.primary);
+    
+    // Per-participant primary metric outcomes (1 if the participant converted, or the summed value for continuous metrics)
+    const outcomesByVariant: { [variantId: string]: number[] } = {};
     const variantResults: { [variantId: string]: any } = {};
     
     for (const variant of experiment.variants) {
-      const variantEvents = events.filter(e => e.variantId === variant.id);
-      const participants = new Set(variantEvents.map(e => e.customerId)).size;
+      const participantKeys = participantsByVariant[variant.id];
+      const primaryMetricEvents = events.filter(
+        e => e.variantId === variant.id && e.metric === experiment.metrics.primary
+      );
+      const converters = new Set(primaryMetricEvents.map(e => `${e.tenantId}:${e.customerId}`));
       
-      // Calculate primary metric
-      const primaryMetricEvents = variantEvents.filter(e => e.metric === experiment.metrics.primary);
-      const conversions = primaryMetricEvents.length;
+      const participants = participantKeys.length;
+      const conversions = converters.size;
       const conversionRate = participants > 0 ? conversions / participants : 0;
-      const revenue = primaryMetricEvents.reduce((sum, e) => sum + e.value, 0);
+      const revenue = primaryMetricEvents.reduce((sum, e) => sum + (e.value ?? 0), 0);
       const revenuePerUser = participants > 0 ? revenue / participants : 0;
       
+      outcomesByVariant[variant.id] = primaryType === 'continuous'
+        ? this.getParticipantValues(participantKeys, primaryMetricEvents)
+        : participantKeys.map(key => converters.has(key) ? 1 : 0);
+      
       variantResults[variant.id] = {
         participants,
         conversions,
@@ -219,32 +459,61 @@ export class ExperimentationEngine {
         revenue,
         revenuePerUser,
         significance: 0, // Will be calculated below
-        confidenceInterval: [conversionRate * 0.9, conversionRate * 1.1] as [number, number]
+        confidenceInterval: proportionInterval(conversions, participants, alpha)
       };
     }
     
+    // CUPED variance reduction on the primary metric
+    const varianceReduction = this.applyCuped(experiment, participantsByVariant, outcomesByVariant);
+    
     // Statistical significance testing
-    const { winner, confidence, significance } = this.calculateStatisticalSignificance(
+    const { winner, confidence, significance, effects, safeToStop, method } = this.calculateStatisticalSignificance(
       experiment,
-      variantResults
+      varianceReduction?.adjusted || outcomesByVariant
     );
     
-    // Update significance in results
+    // Update significance and effect sizes in results
     Object.keys(variantResults).forEach(variantId => {
       variantResults[variantId].significance = significance[variantId] || 0;
+      if (effects[variantId]) {
+        Object.assign(variantResults[variantId], effects[variantId]);
+      }
+      if (varianceReduction) {
+        variantResults[variantId].varianceReduction = varianceReduction.reduction;
+      }
     });
     
+    // Revenue per user and secondary metrics, each with its own test and correction
+    const metricAnalyses = this.analyzeMetrics(experiment, events, participantsByVariant, alpha);
+    
+    const sampleRatio = this.checkSampleRatio(experiment, participantsByVariant);
+    const guardrails = this.checkGuardrails(experiment, events, participantsByVariant, alpha);
+    
     // Generate insights and recommendations
-    const insights = this.generateInsights(experiment, variantResults);
-    const recommendations = this.generateRecommendations(experiment, variantResults, confidence);
+    const insights = this.generateInsights(experiment, variantResults, metricAnalyses);
+    const recommendations = this.generateRecommendations(experiment, variantResults, confidence, safeToStop);
+    
+    if (sampleRatio.mismatch) {
+      insights.unshift(`Sample ratio mismatch detected (p=${sampleRatio.pValue.toExponential(2)}) - results may be biased`);
+      recommendations.unshift('Investigate variant assignment and event logging before trusting these results');
+    }
+    guardrails.filter(g => g.breached).forEach(g => {
+      insights.push(`Guardrail ${g.metric} breached by variant ${g.variantId} (${(g.relativeChange * 100).toFixed(1)}% change)`);
+    });
     
     const results: ExperimentResults = {
-      status: confidence > 0.95 ? 'completed' : 'running',
-      winner: confidence > 0.95 ? winner : undefined,
+      status: safeToStop ? 'completed' : 'running',
+      winner: safeToStop && winner ? winner : undefined,
       confidence,
       results: variantResults,
       insights,
-      recommendations
+      recommendations,
+      controlVariantId: experiment.variants[0].id,
+      analysisMethod: method,
+      safeToStop,
+      metricAnalyses,
+      sampleRatio,
+      guardrails
     };
     
     // Update experiment with results
@@ -255,9 +524,13 @@ export class ExperimentationEngine {
   }
 
   /**
-   * Stop an experiment
+   * Stop an experiment, or pause it so it can be resumed later
    */
-  async stopExperiment(experimentId: string, reason: string = 'Manual stop'): Promise<void> {
+  async stopExperiment(
+    experimentId: string,
+    reason: string = 'Manual stop',
+    status: 'completed' | 'paused' = 'completed'
+  ): Promise<void> {
     const experiment = this.experiments.get(experimentId);
     if (!experiment) {
       throw new Error(`Experiment not found: ${experimentId}`);
@@ -265,14 +538,163 @@ export class ExperimentationEngine {
     
     console.log(`[ExperimentationEngine] Stopping experiment: ${experiment.name}, Reason: ${reason}`);
     
-    experiment.status = 'completed';
+    experiment.status = status;
     experiment.endDate = new Date();
     
+    // Completed experiments hand their layer slice back
+    if (status === 'completed' && experiment.layerId) {
+      this.releaseLayerBuckets(experiment);
+    }
+    
     // Get final results
     const finalResults = await this.getExperimentResults(experimentId);
     experiment.results = finalResults || undefined;
     
     this.experiments.set(experimentId, experiment);
+    this.persistExperiment(experiment);
+  }
+
+  /**
+   * Register an eligibility atom that audience criteria can reference as atom:<id>, along with
+   * the atoms its RuleBuilder rules use. Throws if the atom's conditions do not compile or its
+   * dependencies are unknown or cyclic.
+   */
+  registerAudienceAtom(atom: EligibilityAtom, rules?: RuleTreeNode[]): EligibilityAtom {
+    compileAtom(atom);
+    return this.audienceAtoms.saveAtom(atom, rules);
+  }
+
+  /**
+   * Register the atom library in one go; throws, registering nothing, if any atom is invalid
+   */
+  loadAudienceAtoms(atoms: EligibilityAtom[]): void {
+    atoms.forEach(atom => compileAtom(atom));
+    this.audienceAtoms.loadAtoms(atoms);
+  }
+
+  /**
+   * Registered audience atoms and the dependencies between them
+   */
+  getAudienceAtomGraph(): AtomDependencyGraph {
+    return this.audienceAtoms;
+  }
+
+  /**
+   * Create a layer; experiments in the same layer never share customers
+   */
+  createLayer(layer: { id: string; name: string; description?: string; buckets?: number }): ExperimentLayer {
+    if (this.layers.has(layer.id)) {
+      throw new Error(`Layer already exists: ${layer.id}`);
+    }
+    
+    const created: ExperimentLayer = {
+      id: layer.id,
+      name: layer.name,
+      description: layer.description,
+      buckets: layer.buckets || 1000,
+      allocations: {}
+    };
+    this.layers.set(layer.id, created);
+    
+    console.log(`[ExperimentationEngine] Created layer: ${layer.id}`);
+    return created;
+  }
+
+  getLayers(): ExperimentLayer[] {
+    return Array.from(this.layers.values());
+  }
+
+  getLayer(layerId: string): ExperimentLayer | undefined {
+    return this.layers.get(layerId);
+  }
+
+  /**
+   * Configure the global long-term holdout. Holdout customers get the non-personalized baseline,
+   * and the global_holdout experiment measures the cumulative lift of personalization.
+   */
+  configureHoldout(config: HoldoutConfig): void {
+    if (config.percentage < 0 || config.percentage >= 1) {
+      throw new Error('Holdout percentage must be between 0 and 1');
+    }
+    
+    this.holdout = { ...config };
+    
+    const existing = this.experiments.get(GLOBAL_HOLDOUT_ID);
+    const holdoutExperiment: Experiment = {
+      id: GLOBAL_HOLDOUT_ID,
+      name: 'Global Holdout',
+      description: 'Customers held out from all personalization to measure cumulative decision engine lift',
+      status: config.enabled ? 'running' : 'paused',
+      type: 'ab_test',
+      startDate: existing?.startDate || new Date(),
+      targetAudience: {
+        criteria: '',
+        size: existing?.targetAudience.size || 0,
+        allocation: {
+          holdout: config.percentage * 100,
+          personalized: (1 - config.percentage) * 100
+        }
+      },
+      variants: [
+        {
+          id: 'holdout',
+          name: 'Holdout',
+          description: 'No personalization',
+          allocation: config.percentage,
+          configuration: { parameters: { holdout: true } }
+        },
+        {
+          id: 'personalized',
+          name: 'Personalized',
+          description: 'Full decision engine',
+          allocation: 1 - config.percentage,
+          configuration: {}
+        }
+      ],
+      metrics: {
+        primary: config.metric || 'conversion',
+        secondary: []
+      },
+      configuration: {
+        confidenceLevel: 0.95,
+        minimumDetectableEffect: 0.02,
+        trafficAllocation: 1,
+        randomizationUnit: 'customer'
+      }
+    };
+    
+    this.experiments.set(GLOBAL_HOLDOUT_ID, holdoutExperiment);
+    if (!this.experimentResults.has(GLOBAL_HOLDOUT_ID)) {
+      this.experimentResults.set(GLOBAL_HOLDOUT_ID, []);
+      this.initializeStatisticalTracking(holdoutExperiment);
+    }
+    
+    console.log(`[ExperimentationEngine] Global holdout ${config.enabled ? 'enabled' : 'disabled'} at ${(config.percentage * 100).toFixed(1)}%`);
+  }
+
+  getHoldoutConfig(): HoldoutConfig {
+    return { ...this.holdout };
+  }
+
+  /**
+   * Resume a paused experiment
+   */
+  async resumeExperiment(experimentId: string): Promise<void> {
+    const experiment = this.experiments.get(experimentId);
+    if (!experiment) {
+      throw new Error(`Experiment not found: ${experimentId}`);
+    }
+    
+    if (experiment.status !== 'paused') {
+      throw new Error(`Cannot resume experiment in status: ${experiment.status}`);
+    }
+    
+    experiment.status = 'running';
+    experiment.endDate = undefined;
+    this.experiments.set(experimentId, experiment);
+    this.persistExperiment(experiment);
+    
+    console.log(`[ExperimentationEngine] Experiment resumed: ${experimentId}`);
   }
 
   /**
@@ -354,21 +776,104 @@ export class ExperimentationEngine {
     if (experiment.targetAudience.size <= 0) {
       throw new Error('Target audience size must be positive');
     }
+    
+    // Throws with the position of any syntax error
+    parseCriteria(experiment.targetAudience.criteria || '');
+    
+    (experiment.guardrails || []).forEach(guardrail => {
+      if (!guardrail.metric || !(guardrail.maxRelativeChange >= 0)) {
+        throw new Error(`Invalid guardrail: ${guardrail.metric || 'missing metric'}`);
+      }
+    });
   }
 
   private async isCustomerEligible(
     experiment: Experiment,
     customerId: string,
-    tenantId: string
+    tenantId: string,
+    context?: CustomerContext
   ): Promise<boolean> {
-    // In production, this would evaluate the experiment's target audience criteria
-    // For now, use random sampling based on traffic allocation
+    const criteria = this.getAudienceCriteria(experiment);
+    if (criteria) {
+      // Targeted experiments can only enroll customers whose context is known
+      if (!context || !evaluateCriteria(criteria, context, atomId => this.audienceAtoms.getAtom(atomId))) {
+        return false;
+      }
+    }
+    
+    // Layered experiments only see customers hashed into their own slice of the layer
+    if (experiment.layerId) {
+      const layer = this.layers.get(experiment.layerId);
+      const range = layer?.allocations[experiment.id];
+      if (!layer || !range) {
+        return false;
+      }
+      
+      const bucket = this.hashString(`${tenantId}:${customerId}:${layer.id}`) % layer.buckets;
+      return bucket >= range[0] && bucket < range[1];
+    }
+    
+    // Sample the matching audience by traffic allocation
     const hash = this.hashString(`${tenantId}:${customerId}:${experiment.id}`);
     const randomValue = (hash % 10000) / 10000; // 0-1
     
     return randomValue < experiment.configuration.trafficAllocation;
   }
 
+  /**
+   * Give the experiment the first free contiguous bucket range sized by its traffic allocation
+   */
+  private reserveLayerBuckets(experiment: Experiment): void {
+    const layer = this.layers.get(experiment.layerId!);
+    if (!layer) {
+      throw new Error(`Layer not found: ${experiment.layerId}`);
+    }
+    
+    const size = Math.max(1, Math.round(experiment.configuration.trafficAllocation * layer.buckets));
+    const taken = Object.entries(layer.allocations)
+      .filter(([experimentId]) => experimentId !== experiment.id)
+      .map(([, range]) => range)
+      .sort((a, b) => a[0] - b[0]);
+    
+    let start = 0;
+    for (const [takenStart, takenEnd] of taken) {
+      if (takenStart - start >= size) break;
+      start = Math.max(start, takenEnd);
+    }
+    
+    if (start + size > layer.buckets) {
+      const free = layer.buckets - taken.reduce((sum, [a, b]) => sum + (b - a), 0);
+      throw new Error(
+        `Layer ${layer.id} cannot fit ${experiment.id}: needs ${size} buckets, ${free} free`
+      );
+    }
+    
+    layer.allocations[experiment.id] = [start, start + size];
+    console.log(`[ExperimentationEngine] Experiment ${experiment.id} assigned buckets ${start}-${start + size} in layer ${layer.id}`);
+  }
+
+  private releaseLayerBuckets(experiment: Experiment): void {
+    const layer = this.layers.get(experiment.layerId!);
+    if (layer) {
+      delete layer.allocations[experiment.id];
+    }
+  }
+
+  /**
+   * Parsed target audience criteria, re-parsed when the criteria change
+   */
+  private getAudienceCriteria(experiment: Experiment): CriteriaNode | null {
+    const source = experiment.targetAudience.criteria || '';
+    const cached = this.audienceCriteria.get(experiment.id);
+    if (cached && cached.source === source) {
+      return cached.node;
+    }
+    
+    const node = parseCriteria(source);
+    this.audienceCriteria.set(experiment.id, { source, node });
+    return node;
+  }
+
   private assignVariant(experiment: Experiment, customerId: string): string {
     // Use deterministic hash-based assignment for consistency
     const hash = this.hashString(`${customerId}:${experiment.id}`);
@@ -390,34 +895,36 @@ export class ExperimentationEngine {
     request: DecisionRequest,
     variant: ExperimentVariant
   ): DecisionRequest {
-    const modifiedRequest = { ...request };
-    
-    // Apply variant-specific configurations
-    if (variant.configuration.parameters) {
-      // Modify request parameters based on variant config
-      modifiedRequest.options = {
-        ...modifiedRequest.options,
-        ...variant.configuration.parameters
-      };
-    }
+    const overrides: DecisionOverrides = { ...request.overrides };
+    const { strategies, strategyConfig, ...parameters } = variant.configuration.parameters || {};
     
     if (variant.configuration.modelId) {
-      // Could influence model selection (implementation specific)
-      modifiedRequest.options = {
-        ...modifiedRequest.options,
-        preferredModelId: variant.configuration.modelId
-      };
+      overrides.modelId = variant.configuration.modelId;
+    }
+    
+    // Variant rules name the recommendation strategies to run
+    const strategyIds = strategies || variant.configuration.rules;
+    if (strategyIds && strategyIds.length > 0) {
+      overrides.strategies = strategyIds;
+    }
+    
+    if (strategyConfig) {
+      overrides.strategyConfig = { ...overrides.strategyConfig, ...strategyConfig };
     }
     
-    return modifiedRequest;
+    overrides.parameters = { ...overrides.parameters, ...parameters };
+    
+    return { ...request, overrides };
   }
 
   private initializeStatisticalTracking(experiment: Experiment): void {
     const tracking = {
       startTime: Date.now(),
       totalAssignments: 0,
+      assignmentsSinceCheck: 0,
       variantAssignments: {} as { [variantId: string]: number },
-      conversionsByVariant: {} as { [variantId: string]: number }
+      conversionsByVariant: {} as { [variantId: string]: number },
+      sampleRatio: null as SampleRatioCheck | null
     };
     
     // Initialize variant tracking
@@ -438,18 +945,11 @@ export class ExperimentationEngine {
     if (!experiment) return;
     
     // Update assignment counts
-    const assignmentCounts: { [variantId: string]: Set<string> } = {};
-    experiment.variants.forEach(variant => {
-      assignmentCounts[variant.id] = new Set();
-    });
-    
-    events.forEach(event => {
-      assignmentCounts[event.variantId]?.add(event.customerId);
-    });
+    const participantsByVariant = this.getParticipantsByVariant(experiment, events);
     
     // Update tracking data
     experiment.variants.forEach(variant => {
-      tracking.variantAssignments[variant.id] = assignmentCounts[variant.id]?.size || 0;
+      tracking.variantAssignments[variant.id] = participantsByVariant[variant.id].length;
       tracking.conversionsByVariant[variant.id] = events.filter(
         e => e.variantId === variant.id && e.metric === experiment.metrics.primary
       ).length;
@@ -457,80 +957,598 @@ export class ExperimentationEngine {
     
     tracking.totalAssignments = Object.values(tracking.variantAssignments).reduce((sum, count) => sum + count, 0);
     
+    this.updateSampleRatio(experiment, participantsByVariant);
     this.statisticalTests.set(experimentId, tracking);
+    
+    // Pause the experiment as soon as a treatment significantly harms a guardrail metric
+    const alpha = 1 - experiment.configuration.confidenceLevel;
+    const breaches = this.checkGuardrails(experiment, events, participantsByVariant, alpha).filter(g => g.breached);
+    
+    if (breaches.length > 0 && experiment.status === 'running') {
+      const summary = breaches
+        .map(g => `${g.metric} ${(g.relativeChange * 100).toFixed(1)}% in ${g.variantId}`)
+        .join(', ');
+      
+      await this.stopExperiment(experimentId, `Guardrail breach: ${summary}`, 'paused');
+      
+      this.notify(experiment, {
+        type: 'error',
+        priority: 'critical',
+        title: 'Experiment paused: guardrail breached',
+        message: `"${experiment.name}" was paused automatically: ${summary}`,
+        metadata: { guardrails: breaches }
+      });
+    }
+  }
+
+  /**
+   * Conversions drive the full statistics update, so assignments check the sample ratio on
+   * their own every SAMPLE_RATIO_CHECK_INTERVAL customers; a broken split shows up in the
+   * assignments before any conversions arrive
+   */
+  private recordAssignment(experiment: Experiment): void {
+    const tracking = this.statisticalTests.get(experiment.id);
+    if (!tracking) return;
+    
+    tracking.assignmentsSinceCheck++;
+    if (tracking.assignmentsSinceCheck < SAMPLE_RATIO_CHECK_INTERVAL) return;
+    
+    tracking.assignmentsSinceCheck = 0;
+    const participantsByVariant = this.getParticipantsByVariant(experiment, this.experimentResults.get(experiment.id) || []);
+    this.updateSampleRatio(experiment, participantsByVariant);
+  }
+
+  /**
+   * Observed assignment counts should match the configured allocation; alert once per experiment
+   */
+  private updateSampleRatio(experiment: Experiment, participantsByVariant: { [variantId: string]: string[] }): void {
+    const tracking = this.statisticalTests.get(experiment.id);
+    const sampleRatio = this.checkSampleRatio(experiment, participantsByVariant);
+    if (tracking) {
+      tracking.sampleRatio = sampleRatio;
+    }
+    
+    if (sampleRatio.mismatch && !this.sampleRatioAlerts.has(experiment.id)) {
+      this.sampleRatioAlerts.add(experiment.id);
+      console.warn(`[ExperimentationEngine] Sample ratio mismatch in experiment ${experiment.id} (p=${sampleRatio.pValue})`);
+      
+      this.notify(experiment, {
+        type: 'warning',
+        priority: 'high',
+        title: 'Sample ratio mismatch',
+        message: `Assignment counts in "${experiment.name}" don't match the configured allocation. Results may be biased.`,
+        metadata: { sampleRatio }
+      });
+    }
+  }
+
+  /**
+   * Chi-square test of participants per variant against the configured allocation
+   */
+  private checkSampleRatio(
+    experiment: Experiment,
+    participantsByVariant: { [variantId: string]: string[] }
+  ): SampleRatioCheck {
+    const observedCounts = experiment.variants.map(v => participantsByVariant[v.id]?.length || 0);
+    const proportions = experiment.variants.map(v => v.allocation);
+    const total = observedCounts.reduce((sum, count) => sum + count, 0);
+    const proportionTotal = proportions.reduce((sum, p) => sum + p, 0);
+    
+    const observed: { [variantId: string]: number } = {};
+    const expected: { [variantId: string]: number } = {};
+    experiment.variants.forEach((variant, i) => {
+      observed[variant.id] = observedCounts[i];
+      expected[variant.id] = proportionTotal > 0 ? (proportions[i] / proportionTotal) * total : 0;
+    });
+    
+    const { statistic, pValue } = chiSquareTest(observedCounts, proportions);
+    const threshold = experiment.configuration.sampleRatioThreshold ?? 0.001;
+    
+    // The chi-square approximation needs at least 5 expected participants per variant
+    const enoughData = Object.values(expected).every(count => count >= 5);
+    
+    return { observed, expected, statistic, pValue, mismatch: enoughData && pValue < threshold };
+  }
+
+  /**
+   * A guardrail is breached when a treatment moves the metric in the harmful direction by more
+   * than the tolerated amount and the change is statistically significant. Guardrails are
+   * checked after every conversion, so they use always-valid mSPRT p-values: the chance of
+   * pausing an experiment that does no harm stays below alpha however often they are checked.
+   */
+  private checkGuardrails(
+    experiment: Experiment,
+    events: any[],
+    participantsByVariant: { [variantId: string]: string[] },
+    alpha: number
+  ): GuardrailResult[] {
+    const results: GuardrailResult[] = [];
+    const correction = experiment.configuration.analysis?.multipleComparisonCorrection || 'none';
+    const previousPValues = this.guardrailState.get(experiment.id) || {};
+    const controlId = experiment.variants[0].id;
+    
+    (experiment.guardrails || []).forEach(guardrail => {
+      const minParticipants = guardrail.minParticipants ?? 100;
+      const enoughData = experiment.variants.every(v => participantsByVariant[v.id].length >= minParticipants);
+      if (!enoughData) return;
+      
+      const type = this.getMetricType(experiment, guardrail.metric);
+      const valuesByVariant = this.getMetricValuesByVariant(experiment, type, guardrail.metric, events, participantsByVariant);
+      const control = valuesByVariant[controlId];
+      
+      const tested: { variantId: string; relativeChange: number; pValue: number }[] = [];
+      experiment.variants.slice(1).forEach(variant => {
+        const treatment = valuesByVariant[variant.id];
+        if (control.length < 2 || treatment.length < 2) return;
+        
+        const key = `${guardrail.metric}:${variant.id}`;
+        const effect = estimateEffect(control, treatment);
+        const outcome = msprtTest(effect, alpha, this.getGuardrailMixingVariance(experiment, guardrail, effect), previousPValues[key]);
+        
+        previousPValues[key] = outcome.pValue;
+        tested.push({
+          variantId: variant.id,
+          relativeChange: effect.controlMean !== 0 ? effect.difference / effect.controlMean : 0,
+          pValue: outcome.pValue
+        });
+      });
+      
+      adjustPValues(tested.map(t => t.pValue), correction).forEach((adjustedPValue, i) => {
+        const { variantId, relativeChange } = tested[i];
+        const harmfulChange = guardrail.harmfulDirection === 'increase' ? relativeChange : -relativeChange;
+        
+        results.push({
+          metric: guardrail.metric,
+          variantId,
+          relativeChange,
+          pValue: adjustedPValue,
+          breached: adjustedPValue < alpha && harmfulChange > guardrail.maxRelativeChange
+        });
+      });
+    });
+    
+    this.guardrailState.set(experiment.id, previousPValues);
+    return results;
+  }
+
+  /**
+   * As for the primary metric, a guardrail's mSPRT prior variance is fixed at its first look.
+   * Harms are expected on the order of the tolerated change, or of the minimum detectable
+   * effect when no change is tolerated.
+   */
+  private getGuardrailMixingVariance(
+    experiment: Experiment,
+    guardrail: ExperimentGuardrail,
+    effect: { controlMean: number }
+  ): number {
+    if (guardrail.mixingVariance && guardrail.mixingVariance > 0) {
+      return guardrail.mixingVariance;
+    }
+    
+    const relativeChange = guardrail.maxRelativeChange > 0
+      ? guardrail.maxRelativeChange
+      : experiment.configuration.minimumDetectableEffect;
+    const scale = effect.controlMean !== 0 ? Math.abs(effect.controlMean) : 1;
+    
+    guardrail.mixingVariance = (relativeChange * scale) ** 2;
+    this.persistExperiment(experiment);
+    return guardrail.mixingVariance;
+  }
+
+  /**
+   * Replace in-memory experiments with their persisted definitions. Layered experiments take
+   * their slice back if their layer exists and has room.
+   */
+  private async restoreExperiments(): Promise<void> {
+    const definitions = await this.eventLog.getExperiments();
+    
+    definitions.forEach(experiment => {
+      const previous = this.experiments.get(experiment.id);
+      if (previous?.layerId) {
+        this.releaseLayerBuckets(previous);
+      }
+      
+      this.experiments.set(experiment.id, experiment);
+      if (!this.experimentResults.has(experiment.id)) {
+        this.experimentResults.set(experiment.id, []);
+      }
+      if (!this.statisticalTests.has(experiment.id) && experiment.status !== 'draft') {
+        this.initializeStatisticalTracking(experiment);
+      }
+      
+      if (experiment.layerId && experiment.status !== 'completed') {
+        try {
+          this.reserveLayerBuckets(experiment);
+        } catch (error) {
+          console.warn(`[ExperimentationEngine] Restored experiment ${experiment.id} has no traffic in layer ${experiment.layerId}:`, error);
+        }
+      }
+    });
+    
+    console.log(`[ExperimentationEngine] Restored ${definitions.length} experiment definitions`);
+  }
+
+  /**
+   * Persist an experiment's definition; results are rebuilt from the event log instead
+   */
+  private persistExperiment(experiment: Experiment): void {
+    this.eventLog.saveExperiment({ ...experiment, results: undefined }).catch(error => {
+      console.error('[ExperimentationEngine] Failed to persist experiment:', error);
+    });
+  }
+
+  /**
+   * Persist an event without blocking the decision path
+   */
+  private appendToLog(event: Omit<ExperimentEvent, 'id' | 'timestamp'> & Partial<Pick<ExperimentEvent, 'id' | 'timestamp'>>): void {
+    this.eventLog.append(event).catch(error => {
+      console.error('[ExperimentationEngine] Failed to append to event log:', error);
+    });
+  }
+
+  private notify(
+    experiment: Experiment,
+    notification: {
+      type: 'warning' | 'error';
+      priority: 'high' | 'critical';
+      title: string;
+      message: string;
+      metadata?: Record<string, any>;
+    }
+  ): void {
+    try {
+      useNotificationStore.getState().addNotification({
+        ...notification,
+        category: 'experiment',
+        entityId: experiment.id,
+        entityType: 'experiment'
+      });
+    } catch (error) {
+      console.error('[ExperimentationEngine] Failed to raise notification:', error);
+    }
+  }
+
+  /**
+   * Customers in each variant: everyone assigned, plus anyone with tracked events
+   */
+  private getParticipantsByVariant(experiment: Experiment, events: any[]): { [variantId: string]: string[] } {
+    const participants: { [variantId: string]: Set<string> } = {};
+    experiment.variants.forEach(variant => {
+      participants[variant.id] = new Set();
+    });
+    
+    this.variantAssignments.forEach((assignments, customerKey) => {
+      const variantId = assignments[experiment.id];
+      if (variantId) {
+        participants[variantId]?.add(customerKey);
+      }
+    });
+    
+    events.forEach(event => {
+      participants[event.variantId]?.add(`${event.tenantId}:${event.customerId}`);
+    });
+    
+    const result: { [variantId: string]: string[] } = {};
+    Object.entries(participants).forEach(([variantId, keys]) => {
+      result[variantId] = Array.from(keys);
+    });
+    return result;
   }
 
+  /**
+   * Adjust per-participant outcomes with the experiment's pre-period covariate, if configured
+   */
+  private applyCuped(
+    experiment: Experiment,
+    participantsByVariant: { [variantId: string]: string[] },
+    outcomesByVariant: { [variantId: string]: number[] }
+  ): { adjusted: { [variantId: string]: number[] }; reduction: number } | null {
+    if (experiment.configuration.varianceReduction?.method !== 'cuped') {
+      return null;
+    }
+    
+    const covariates = this.covariates.get(experiment.id);
+    if (!covariates || covariates.size === 0) {
+      return null;
+    }
+    
+    // Participants without a pre-period value get the mean covariate, which leaves their outcome unadjusted
+    const known = Array.from(covariates.values());
+    const fallback = known.reduce((sum, v) => sum + v, 0) / known.length;
+    
+    const variantIds = experiment.variants.map(v => v.id);
+    const pooledOutcomes: number[] = [];
+    const pooledCovariates: number[] = [];
+    
+    variantIds.forEach(variantId => {
+      participantsByVariant[variantId].forEach((key, i) => {
+        pooledOutcomes.push(outcomesByVariant[variantId][i]);
+        pooledCovariates.push(covariates.get(key) ?? fallback);
+      });
+    });
+    
+    const { adjusted, varianceReduction } = cupedAdjust(pooledOutcomes, pooledCovariates);
+    
+    const adjustedByVariant: { [variantId: string]: number[] } = {};
+    let offset = 0;
+    variantIds.forEach(variantId => {
+      const count = participantsByVariant[variantId].length;
+      adjustedByVariant[variantId] = adjusted.slice(offset, offset + count);
+      offset += count;
+    });
+    
+    return { adjusted: adjustedByVariant, reduction: varianceReduction };
+  }
+
+  /**
+   * Compare each treatment against the control (first variant) at the experiment's confidence level.
+   * Uses mSPRT by default so the result stays valid however often it is checked.
+   */
   private calculateStatisticalSignificance(
     experiment: Experiment,
-    variantResults: { [variantId: string]: any }
+    outcomesByVariant: { [variantId: string]: number[] }
   ): {
     winner: string | null;
     confidence: number;
     significance: { [variantId: string]: number };
+    effects: { [variantId: string]: any };
+    safeToStop: boolean;
+    method: 'msprt' | 'fixed_horizon';
   } {
-    const variantIds = Object.keys(variantResults);
+    const method = experiment.configuration.sequentialTesting?.method || 'msprt';
+    const variantIds = experiment.variants.map(v => v.id);
     if (variantIds.length < 2) {
-      return { winner: null, confidence: 0, significance: {} };
+      return { winner: null, confidence: 0, significance: {}, effects: {}, safeToStop: false, method };
     }
     
-    // Find control variant (first one) and treatment variants
+    const alpha = 1 - experiment.configuration.confidenceLevel;
+    const correction = experiment.configuration.analysis?.multipleComparisonCorrection || 'none';
     const controlId = variantIds[0];
-    const controlResult = variantResults[controlId];
+    const control = outcomesByVariant[controlId];
+    const previousPValues = this.sequentialState.get(experiment.id) || {};
     
-    let bestVariantId = controlId;
-    let bestConversionRate = controlResult.conversionRate;
-    let maxConfidence = 0;
     const significance: { [variantId: string]: number } = {};
+    const effects: { [variantId: string]: any } = {};
+    let bestVariantId: string | null = null;
+    let bestEffect = 0;
+    let maxConfidence = 0;
+    let allTreatmentsWorse = true;
+    let anySignificant = false;
+    
+    const tested: { variantId: string; difference: number; pValue: number }[] = [];
     
-    // Compare each variant against control
-    for (let i = 1; i < variantIds.length; i++) {
-      const variantId = variantIds[i];
-      const variantResult = variantResults[variantId];
+    for (const variantId of variantIds.slice(1)) {
+      const treatment = outcomesByVariant[variantId];
+      if (control.length < 2 || treatment.length < 2) {
+        allTreatmentsWorse = false;
+        continue;
+      }
       
-      // Simple z-test for conversion rates (simplified statistical test)
-      const pControl = controlResult.conversionRate;
-      const pVariant = variantResult.conversionRate;
-      const nControl = controlResult.participants;
-      const nVariant = variantResult.participants;
+      const effect = estimateEffect(control, treatment);
+      const outcome = method === 'msprt'
+        ? msprtTest(effect, alpha, this.getMixingVariance(experiment, effect), previousPValues[variantId])
+        : fixedHorizonTest(effect, alpha);
       
-      if (nControl > 30 && nVariant > 30) { // Minimum sample size
-        const pPooled = ((pControl * nControl) + (pVariant * nVariant)) / (nControl + nVariant);
-        const se = Math.sqrt(pPooled * (1 - pPooled) * (1/nControl + 1/nVariant));
-        
-        if (se > 0) {
-          const zScore = Math.abs(pVariant - pControl) / se;
-          const pValue = this.calculatePValue(zScore);
-          const confidence = 1 - pValue;
-          
-          significance[variantId] = confidence;
-          
-          if (pVariant > bestConversionRate && confidence > maxConfidence) {
-            bestVariantId = variantId;
-            bestConversionRate = pVariant;
-            maxConfidence = confidence;
-          }
+      previousPValues[variantId] = outcome.pValue;
+      effects[variantId] = {
+        pValue: outcome.pValue,
+        effectSize: effect.difference,
+        relativeEffect: effect.controlMean !== 0 ? effect.difference / effect.controlMean : 0,
+        effectInterval: outcome.interval
+      };
+      tested.push({ variantId, difference: effect.difference, pValue: outcome.pValue });
+    }
+    
+    // Correct across treatments so adding variants doesn't inflate the false positive rate
+    const adjustedPValues = adjustPValues(tested.map(t => t.pValue), correction);
+    
+    for (let i = 0; i < tested.length; i++) {
+      const { variantId, difference } = tested[i];
+      const adjustedPValue = adjustedPValues[i];
+      
+      effects[variantId].adjustedPValue = adjustedPValue;
+      significance[variantId] = 1 - adjustedPValue;
+      maxConfidence = Math.max(maxConfidence, 1 - adjustedPValue);
+      
+      // Fixed-horizon results are only conclusive once the planned sample size is reached
+      const conclusive = adjustedPValue < alpha && (
+        method === 'msprt' || this.hasReachedSampleSize(experiment, outcomesByVariant, controlId, variantId, alpha)
+      );
+      
+      if (conclusive) {
+        anySignificant = true;
+        if (difference > bestEffect) {
+          bestVariantId = variantId;
+          bestEffect = difference;
         }
       }
+      if (!(conclusive && difference < 0)) {
+        allTreatmentsWorse = false;
+      }
     }
     
-    // Set control significance
+    this.sequentialState.set(experiment.id, previousPValues);
+    
+    // Control is the reference for every comparison
     significance[controlId] = 0.5; // Baseline
     
+    const winner = bestVariantId || (allTreatmentsWorse ? controlId : null);
+    
     return {
-      winner: maxConfidence > 0.95 ? bestVariantId : null,
+      winner,
       confidence: maxConfidence,
-      significance
+      significance,
+      effects,
+      safeToStop: anySignificant,
+      method
     };
   }
 
-  private calculatePValue(zScore: number): number {
-    // Simplified p-value calculation for normal distribution
-    // In production, would use proper statistical library
-    const t = 1 / (1 + 0.2316419 * Math.abs(zScore));
-    const d = 0.3989423 * Math.exp(-zScore * zScore / 2);
-    const p = d * t * (0.3193815 + t * (-0.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
+  /**
+   * The mSPRT prior variance must not change between looks, or the p-values lose their
+   * guarantee. Unless configured, it is derived once from the control mean at the first look
+   * and written into the configuration, which is persisted with the experiment.
+   */
+  private getMixingVariance(experiment: Experiment, effect: { controlMean: number }): number {
+    const sequential = experiment.configuration.sequentialTesting;
+    if (sequential?.mixingVariance && sequential.mixingVariance > 0) {
+      return sequential.mixingVariance;
+    }
     
-    return zScore > 0 ? p : 1 - p;
+    // Expect effects on the order of the minimum detectable (relative) effect
+    const mde = experiment.configuration.minimumDetectableEffect;
+    const scale = effect.controlMean !== 0 ? Math.abs(effect.controlMean) : 1;
+    const mixingVariance = (mde * scale) ** 2;
+    
+    experiment.configuration.sequentialTesting = { method: 'msprt', ...sequential, mixingVariance };
+    this.persistExperiment(experiment);
+    console.log(`[ExperimentationEngine] Fixed mSPRT mixing variance for ${experiment.id} at ${mixingVariance}`);
+    return mixingVariance;
+  }
+
+  private hasReachedSampleSize(
+    experiment: Experiment,
+    outcomesByVariant: { [variantId: string]: number[] },
+    controlId: string,
+    variantId: string,
+    alpha: number
+  ): boolean {
+    const control = outcomesByVariant[controlId];
+    const controlMean = mean(control);
+    const delta = experiment.configuration.minimumDetectableEffect * (controlMean !== 0 ? Math.abs(controlMean) : 1);
+    if (delta <= 0) return true;
+    
+    // Per-variant sample size for 80% power; for 0/1 outcomes the variance is p(1 - p)
+    const z = normalQuantile(1 - alpha / 2) + normalQuantile(0.8);
+    const required = Math.ceil((2 * z * z * Math.max(variance(control), 0.0001)) / (delta * delta));
+    
+    return control.length >= required && outcomesByVariant[variantId].length >= required;
+  }
+
+  /**
+   * Analyse revenue per user and each secondary metric against the control.
+   * These are fixed-horizon tests; only the primary metric drives stopping.
+   */
+  private analyzeMetrics(
+    experiment: Experiment,
+    events: any[],
+    participantsByVariant: { [variantId: string]: string[] },
+    alpha: number
+  ): MetricAnalysis[] {
+    const analyses: MetricAnalysis[] = [];
+    const primary = experiment.metrics.primary;
+    
+    // A continuous primary metric already is revenue per user
+    if (this.getMetricType(experiment, primary) === 'binary') {
+      analyses.push(this.analyzeMetric(experiment, 'revenuePerUser', 'continuous', primary, events, participantsByVariant, alpha));
+    }
+    
+    experiment.metrics.secondary.forEach(metric => {
+      analyses.push(
+        this.analyzeMetric(experiment, metric, this.getMetricType(experiment, metric), metric, events, participantsByVariant, alpha)
+      );
+    });
+    
+    return analyses;
+  }
+
+  private analyzeMetric(
+    experiment: Experiment,
+    name: string,
+    type: ExperimentMetricType,
+    sourceMetric: string,
+    events: any[],
+    participantsByVariant: { [variantId: string]: string[] },
+    alpha: number
+  ): MetricAnalysis {
+    const analysisConfig = experiment.configuration.analysis;
+    const correction = analysisConfig?.multipleComparisonCorrection || 'none';
+    const test = type === 'binary' ? 'z_test' : (analysisConfig?.continuousTest || 'welch');
+    
+    const valuesByVariant = this.getMetricValuesByVariant(experiment, type, sourceMetric, events, participantsByVariant);
+    
+    const controlId = experiment.variants[0].id;
+    const control = valuesByVariant[controlId];
+    
+    const analysis: MetricAnalysis = { metric: name, type, test, correction, variants: {} };
+    experiment.variants.forEach(variant => {
+      analysis.variants[variant.id] = {
+        participants: valuesByVariant[variant.id].length,
+        mean: mean(valuesByVariant[variant.id])
+      };
+    });
+    
+    const tested: string[] = [];
+    const pValues: number[] = [];
+    
+    experiment.variants.slice(1).forEach(variant => {
+      const treatment = valuesByVariant[variant.id];
+      if (control.length < 2 || treatment.length < 2) return;
+      
+      const outcome = test === 'welch'
+        ? welchTTest(control, treatment, alpha)
+        : test === 'bootstrap'
+          ? bootstrapTest(control, treatment, alpha, analysisConfig?.bootstrapIterations)
+          : fixedHorizonTest(estimateEffect(control, treatment), alpha);
+      
+      const controlMean = analysis.variants[controlId].mean;
+      const difference = analysis.variants[variant.id].mean - controlMean;
+      
+      Object.assign(analysis.variants[variant.id], {
+        effectSize: difference,
+        relativeEffect: controlMean !== 0 ? difference / controlMean : 0,
+        effectInterval: outcome.interval,
+        pValue: outcome.pValue
+      });
+      tested.push(variant.id);
+      pValues.push(outcome.pValue);
+    });
+    
+    adjustPValues(pValues, correction).forEach((adjustedPValue, i) => {
+      Object.assign(analysis.variants[tested[i]], {
+        adjustedPValue,
+        significant: adjustedPValue < alpha
+      });
+    });
+    
+    return analysis;
+  }
+
+  /**
+   * Each participant's metric value per variant; 0/1 for binary metrics
+   */
+  private getMetricValuesByVariant(
+    experiment: Experiment,
+    type: ExperimentMetricType,
+    sourceMetric: string,
+    events: any[],
+    participantsByVariant: { [variantId: string]: string[] }
+  ): { [variantId: string]: number[] } {
+    const valuesByVariant: { [variantId: string]: number[] } = {};
+    experiment.variants.forEach(variant => {
+      const metricEvents = events.filter(e => e.variantId === variant.id && e.metric === sourceMetric);
+      const values = this.getParticipantValues(participantsByVariant[variant.id], metricEvents);
+      valuesByVariant[variant.id] = type === 'binary' ? values.map(v => v !== 0 ? 1 : 0) : values;
+    });
+    
+    return valuesByVariant;
+  }
+
+  /**
+   * Sum each participant's metric values; participants without events count as zero
+   */
+  private getParticipantValues(participantKeys: string[], metricEvents: any[]): number[] {
+    const totals = new Map<string, number>();
+    metricEvents.forEach(e => {
+      const key = `${e.tenantId}:${e.customerId}`;
+      totals.set(key, (totals.get(key) || 0) + e.value);
+    });
+    
+    return participantKeys.map(key => totals.get(key) || 0);
+  }
+
+  private getMetricType(experiment: Experiment, metric: string): ExperimentMetricType {
+    return experiment.metrics.types?.[metric] || 'binary';
   }
 
   private thompsonSampling(experiment: Experiment, results: ExperimentResults): string {
@@ -583,7 +1601,8 @@ export class ExperimentationEngine {
 
   private generateInsights(
     experiment: Experiment,
-    variantResults: { [variantId: string]: any }
+    variantResults: { [variantId: string]: any },
+    metricAnalyses: MetricAnalysis[]
   ): string[] {
     const insights: string[] = [];
     const variantIds = Object.keys(variantResults);
@@ -621,6 +1640,22 @@ export class ExperimentationEngine {
       if (bestRevenue > controlRevenue * 1.1) {
         insights.push(`Revenue per user increased by ${((bestRevenue - controlRevenue) / controlRevenue * 100).toFixed(1)}%`);
       }
+      
+      // Variance reduction insights
+      const reduction = controlResult.varianceReduction;
+      if (reduction > 0) {
+        insights.push(`CUPED adjustment on ${experiment.configuration.varianceReduction?.covariate} reduced variance by ${(reduction * 100).toFixed(1)}%`);
+      }
+      
+      // Significant movements in revenue and secondary metrics
+      metricAnalyses.forEach(analysis => {
+        Object.entries(analysis.variants).forEach(([variantId, result]) => {
+          if (result.significant && result.relativeEffect !== undefined) {
+            const direction = result.relativeEffect >= 0 ? 'increased' : 'decreased';
+            insights.push(`Variant ${variantId} ${direction} ${analysis.metric} by ${Math.abs(result.relativeEffect * 100).toFixed(1)}% (${analysis.test}, p=${result.adjustedPValue?.toFixed(3)})`);
+          }
+        });
+      });
     }
     
     return insights;
@@ -629,12 +1664,16 @@ export class ExperimentationEngine {
   private generateRecommendations(
     experiment: Experiment,
     variantResults: { [variantId: string]: any },
-    confidence: number
+    confidence: number,
+    safeToStop: boolean
   ): string[] {
     const recommendations: string[] = [];
+    const confidenceLevel = experiment.configuration.confidenceLevel;
     
-    if (confidence > 0.95) {
+    if (safeToStop) {
       recommendations.push('Experiment has reached statistical significance - consider implementing the winning variant');
+    } else if (confidence > confidenceLevel) {
+      recommendations.push('Significance threshold crossed but planned sample size not reached - keep the experiment running');
     } else if (confidence > 0.8) {
       recommendations.push('Strong trend detected - continue running for higher confidence');
     } else {
@@ -646,6 +1685,10 @@ export class ExperimentationEngine {
       recommendations.push('Increase traffic allocation to reach minimum sample size faster');
     }
     
+    if (!experiment.configuration.varianceReduction && totalParticipants > 0) {
+      recommendations.push('Configure a pre-period covariate (CUPED) to reduce variance and reach significance sooner');
+    }
+    
     return recommendations;
   }
 
@@ -668,7 +1711,7 @@ export class ExperimentationEngine {
       type: 'ab_test',
       startDate: new Date(),
       targetAudience: {
-        criteria: 'active_users_last_30_days',
+        criteria: 'behavioral.daysSinceLastLogin <= 30',
         size: 10000,
         allocation: {
           'control': 0.5,
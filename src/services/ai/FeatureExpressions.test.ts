@@ -0,0 +1,150 @@
+// src/services/ai/FeatureExpressions.test.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  compileFeatureExpression,
+  FeatureObservation,
+  FeatureScope,
+  parseFeatureExpression
+} from './FeatureExpressions';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 5, 1);
+
+const scopeOf = (
+  values: { [name: string]: any },
+  histories: { [name: string]: FeatureObservation[] } = {}
+): FeatureScope => ({
+  now: NOW,
+  value: name => values[name],
+  history: name => histories[name] || []
+});
+
+const evaluate = (expression: string, values: { [name: string]: any } = {}) =>
+  compileFeatureExpression(expression).evaluate(scopeOf(values));
+
+describe('parseFeatureExpression', () => {
+  it('reports where parsing failed', () => {
+    expect(() => parseFeatureExpression('   ')).toThrow('at position 0: expression is empty');
+    expect(() => parseFeatureExpression('a +')).toThrow('at position 3: unexpected end of expression');
+    expect(() => parseFeatureExpression('a b')).toThrow('at position 2: unexpected input');
+    expect(() => parseFeatureExpression("'open")).toThrow('at position 0: unterminated string');
+    expect(() => parseFeatureExpression('a # b')).toThrow("at position 2: unexpected character '#'");
+  });
+
+  it('rejects unknown functions, wrong arity and stray durations', () => {
+    expect(() => parseFeatureExpression('fetch(url)')).toThrow('at position 0: unknown function fetch');
+    expect(() => parseFeatureExpression('round()')).toThrow('round expects at least 1 argument(s), got 0');
+    expect(() => parseFeatureExpression('if(a, b)')).toThrow('if expects 3 argument(s), got 2');
+    expect(() => parseFeatureExpression('a + 30d')).toThrow('durations are only allowed as window_* arguments');
+    expect(() => parseFeatureExpression('window_sum(a, 5)')).toThrow('window_sum expects a window such as 30d');
+  });
+
+  it('binds multiplication tighter than addition and comparison tighter than and/or', () => {
+    expect(parseFeatureExpression('a + b * c')).toEqual({
+      type: 'binary',
+      operator: '+',
+      left: { type: 'reference', name: 'a' },
+      right: {
+        type: 'binary',
+        operator: '*',
+        left: { type: 'reference', name: 'b' },
+        right: { type: 'reference', name: 'c' }
+      }
+    });
+
+    const node = parseFeatureExpression('a > 1 or b > 1 and c > 1');
+    expect(node.type === 'binary' && node.operator).toBe('or');
+    expect(node.type === 'binary' && node.right.type === 'binary' && node.right.operator).toBe('and');
+  });
+});
+
+describe('compileFeatureExpression', () => {
+  it('lists the features it reads', () => {
+    const compiled = compileFeatureExpression('window_sum(order_value, 30d) / max(window_count(order_value, 30d), visits)');
+    expect(compiled.dependencies.sort()).toEqual(['order_value', 'visits']);
+  });
+
+  it('evaluates with the usual precedence', () => {
+    expect(evaluate('2 + 3 * 4')).toBe(14);
+    expect(evaluate('(2 + 3) * 4')).toBe(20);
+    expect(evaluate('10 - 4 - 3')).toBe(3);
+    expect(evaluate('-2 * 3 + 1')).toBe(-5);
+    expect(evaluate('not 1 > 2 and true')).toBe(true);
+    expect(evaluate('true or false and false')).toBe(true);
+  });
+
+  it('evaluates functions and conditionals', () => {
+    expect(evaluate('round((a + b + c) / 3)', { a: 3, b: 4, c: 4 })).toBe(4);
+    expect(evaluate('round(2.345, 2)')).toBe(2.35);
+    expect(evaluate('clamp(15, 0, 10)')).toBe(10);
+    expect(evaluate("if(total > 5 and aov >= 100, 'vip', 'standard')", { total: 6, aov: 120 })).toBe('vip');
+    expect(evaluate("if(total > 5 and aov >= 100, 'vip', 'standard')", { total: 6, aov: 80 })).toBe('standard');
+  });
+});
+
+describe('null semantics', () => {
+  it('turns missing inputs and out-of-domain math into null', () => {
+    expect(evaluate('missing + 1')).toBeNull();
+    expect(evaluate('a / 0', { a: 5 })).toBeNull();
+    expect(evaluate('a % 0', { a: 5 })).toBeNull();
+    expect(evaluate('sqrt(-1)')).toBeNull();
+    expect(evaluate('log(0)')).toBeNull();
+    expect(evaluate('pow(10, 400)')).toBeNull();
+    expect(evaluate('-missing')).toBeNull();
+  });
+
+  it('treats comparisons with null as false', () => {
+    expect(evaluate('missing > 1')).toBe(false);
+    expect(evaluate('missing <= 1')).toBe(false);
+    expect(evaluate('not missing > 1')).toBe(true);
+    expect(evaluate('missing = null')).toBe(true);
+    expect(evaluate('missing != 0')).toBe(true);
+  });
+
+  it('skips nulls in coalesce, min and max', () => {
+    expect(evaluate('coalesce(missing, a, 3)', { a: 2 })).toBe(2);
+    expect(evaluate('coalesce(missing, null)')).toBeNull();
+    expect(evaluate('max(missing, 4, 2)')).toBe(4);
+    expect(evaluate('min(missing)')).toBeNull();
+  });
+
+  it('short-circuits so guards protect the right-hand side', () => {
+    expect(evaluate('count > 0 and total / count > 10', { count: 0, total: 50 })).toBe(false);
+    expect(evaluate('if(count > 0, total / count, 0)', { count: 0, total: 50 })).toBe(0);
+  });
+
+  it('reads dates as timestamps and drops values it cannot use', () => {
+    expect(evaluate('last_seen', { last_seen: new Date(NOW) })).toBe(NOW);
+    expect(evaluate('tags', { tags: ['a'] })).toBeNull();
+    expect(evaluate('score', { score: NaN })).toBeNull();
+  });
+});
+
+describe('window aggregates', () => {
+  const history: FeatureObservation[] = [
+    { value: 50, timestamp: new Date(NOW - 40 * DAY) },
+    { value: 20, timestamp: new Date(NOW - 10 * DAY) },
+    { value: 10, timestamp: new Date(NOW - 20 * DAY) },
+    { value: 30, timestamp: new Date(NOW - 1 * DAY) }
+  ];
+  const windowed = (expression: string) =>
+    compileFeatureExpression(expression).evaluate(scopeOf({}, { order_value: history }));
+
+  it('only includes observations inside the window', () => {
+    expect(windowed('window_sum(order_value, 30d)')).toBe(60);
+    expect(windowed('window_count(order_value, 30d)')).toBe(3);
+    expect(windowed('window_avg(order_value, 30d)')).toBe(20);
+    expect(windowed('window_max(order_value, 2w)')).toBe(30);
+  });
+
+  it('measures change from the oldest to the newest observation', () => {
+    expect(windowed('window_delta(order_value, 30d)')).toBe(20);
+  });
+
+  it('returns zero counts but null averages for an empty window', () => {
+    expect(windowed('window_count(order_value, 1h)')).toBe(0);
+    expect(windowed('window_sum(order_value, 1h)')).toBe(0);
+    expect(windowed('window_avg(order_value, 1h)')).toBeNull();
+  });
+});
\ No newline at end of file
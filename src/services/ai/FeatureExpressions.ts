@@ -0,0 +1,541 @@
+// src/services/ai/FeatureExpressions.ts
+
+// Derived features are written as expressions over other features, e.g.
+//   round((recency_score + frequency_score + monetary_score) / 3)
+//   if(total_purchases > 5 and avg_order_value >= 100, 'vip', 'standard')
+//   window_sum(order_value, 30d) / max(window_count(order_value, 30d), 1)
+// Expressions can only read features; there is no property access or host function call.
+
+export type FeatureExpressionValue = number | string | boolean | null;
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '=' | '!=' | '>' | '>=' | '<' | '<=' | 'and' | 'or';
+
+export type WindowAggregate = 'sum' | 'avg' | 'min' | 'max' | 'count' | 'delta';
+
+export type FeatureExpressionNode =
+  | { type: 'literal'; value: FeatureExpressionValue }
+  | { type: 'reference'; name: string }
+  | { type: 'unary'; operator: '-' | 'not'; operand: FeatureExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: FeatureExpressionNode; right: FeatureExpressionNode }
+  | { type: 'call'; name: string; args: FeatureExpressionNode[] }
+  | { type: 'window'; aggregate: WindowAggregate; feature: string; windowMs: number };
+
+export interface FeatureObservation {
+  value: number;
+  timestamp: Date;
+}
+
+/**
+ * What a compiled expression can read: current feature values and their recent history
+ */
+export interface FeatureScope {
+  now: number;
+  value(name: string): any;
+  history(name: string): FeatureObservation[];
+}
+
+export interface CompiledFeatureExpression {
+  source: string;
+  ast: FeatureExpressionNode;
+  dependencies: string[];
+  evaluate(scope: FeatureScope): FeatureExpressionValue;
+}
+
+type Token =
+  | { kind: 'identifier'; value: string; position: number }
+  | { kind: 'keyword'; value: string; position: number }
+  | { kind: 'operator'; value: string; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'duration'; value: number; position: number }
+  | { kind: 'punctuation'; value: '(' | ')' | ','; position: number };
+
+const KEYWORDS = ['AND', 'OR', 'NOT', 'TRUE', 'FALSE', 'NULL'];
+
+const DURATION_UNITS: { [unit: string]: number } = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+const FUNCTIONS: { [name: string]: { minArgs: number; maxArgs: number } } = {
+  if: { minArgs: 3, maxArgs: 3 },
+  coalesce: { minArgs: 1, maxArgs: Infinity },
+  min: { minArgs: 1, maxArgs: Infinity },
+  max: { minArgs: 1, maxArgs: Infinity },
+  clamp: { minArgs: 3, maxArgs: 3 },
+  abs: { minArgs: 1, maxArgs: 1 },
+  round: { minArgs: 1, maxArgs: 2 },
+  floor: { minArgs: 1, maxArgs: 1 },
+  ceil: { minArgs: 1, maxArgs: 1 },
+  sqrt: { minArgs: 1, maxArgs: 1 },
+  log: { minArgs: 1, maxArgs: 1 },
+  exp: { minArgs: 1, maxArgs: 1 },
+  pow: { minArgs: 2, maxArgs: 2 }
+};
+
+const WINDOW_FUNCTIONS: { [name: string]: WindowAggregate } = {
+  window_sum: 'sum',
+  window_avg: 'avg',
+  window_min: 'min',
+  window_max: 'max',
+  window_count: 'count',
+  window_delta: 'delta'
+};
+
+/**
+ * Parse a feature expression into its syntax tree
+ */
+export function parseFeatureExpression(expression: string): FeatureExpressionNode {
+  const source = expression.trim();
+  if (source === '') {
+    throw new Error('Invalid feature expression at position 0: expression is empty');
+  }
+
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = (): Token | undefined => tokens[index];
+  const fail = (message: string): never => {
+    const position = peek()?.position ?? source.length;
+    throw new Error(`Invalid feature expression at position ${position}: ${message}`);
+  };
+  const isKeyword = (value: string): boolean => {
+    const token = peek();
+    return token?.kind === 'keyword' && token.value === value;
+  };
+  const isOperator = (...values: string[]): boolean => {
+    const token = peek();
+    return token?.kind === 'operator' && values.includes(token.value);
+  };
+  const isPunctuation = (value: '(' | ')' | ','): boolean => {
+    const token = peek();
+    return token?.kind === 'punctuation' && token.value === value;
+  };
+  const expectPunctuation = (value: '(' | ')' | ','): void => {
+    if (!isPunctuation(value)) fail(`expected '${value}'`);
+    index++;
+  };
+
+  const parseWindow = (name: string, aggregate: WindowAggregate): FeatureExpressionNode => {
+    const feature = peek();
+    if (feature?.kind !== 'identifier') return fail(`${name} expects a feature name`);
+    index++;
+    expectPunctuation(',');
+
+    const window = peek();
+    if (window?.kind !== 'duration') return fail(`${name} expects a window such as 30d`);
+    index++;
+    expectPunctuation(')');
+
+    return { type: 'window', aggregate, feature: feature.value, windowMs: window.value };
+  };
+
+  const parseCall = (name: string): FeatureExpressionNode => {
+    const lowerName = name.toLowerCase();
+    const aggregate = WINDOW_FUNCTIONS[lowerName];
+    const signature = FUNCTIONS[lowerName];
+    if (!aggregate && !signature) {
+      index--;
+      return fail(`unknown function ${name}`);
+    }
+    expectPunctuation('(');
+
+    if (aggregate) {
+      return parseWindow(lowerName, aggregate);
+    }
+
+    const args: FeatureExpressionNode[] = [];
+    if (!isPunctuation(')')) {
+      args.push(parseOr());
+      while (isPunctuation(',')) {
+        index++;
+        args.push(parseOr());
+      }
+    }
+
+    if (args.length < signature.minArgs || args.length > signature.maxArgs) {
+      fail(signature.minArgs === signature.maxArgs
+        ? `${lowerName} expects ${signature.minArgs} argument(s), got ${args.length}`
+        : `${lowerName} expects at least ${signature.minArgs} argument(s), got ${args.length}`);
+    }
+    expectPunctuation(')');
+
+    return { type: 'call', name: lowerName, args };
+  };
+
+  const parsePrimary = (): FeatureExpressionNode => {
+    const token = peek();
+    if (!token) return fail('unexpected end of expression');
+
+    if (token.kind === 'punctuation' && token.value === '(') {
+      index++;
+      const node = parseOr();
+      expectPunctuation(')');
+      return node;
+    }
+    if (token.kind === 'number' || token.kind === 'string') {
+      index++;
+      return { type: 'literal', value: token.value };
+    }
+    if (token.kind === 'keyword' && ['TRUE', 'FALSE', 'NULL'].includes(token.value)) {
+      index++;
+      return { type: 'literal', value: token.value === 'NULL' ? null : token.value === 'TRUE' };
+    }
+    if (token.kind === 'duration') {
+      return fail('durations are only allowed as window_* arguments');
+    }
+    if (token.kind === 'identifier') {
+      index++;
+      return isPunctuation('(') ? parseCall(token.value) : { type: 'reference', name: token.value };
+    }
+
+    return fail('expected a number, string, feature or function');
+  };
+
+  const parseUnary = (): FeatureExpressionNode => {
+    if (isOperator('-')) {
+      index++;
+      return { type: 'unary', operator: '-', operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parseMultiplicative = (): FeatureExpressionNode => {
+    let node = parseUnary();
+    while (isOperator('*', '/', '%')) {
+      const operator = tokens[index++].value as BinaryOperator;
+      node = { type: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseAdditive = (): FeatureExpressionNode => {
+    let node = parseMultiplicative();
+    while (isOperator('+', '-')) {
+      const operator = tokens[index++].value as BinaryOperator;
+      node = { type: 'binary', operator, left: node, right: parseMultiplicative() };
+    }
+    return node;
+  };
+
+  const parseComparison = (): FeatureExpressionNode => {
+    const left = parseAdditive();
+    if (isOperator('=', '==', '!=', '>', '>=', '<', '<=')) {
+      const value = tokens[index++].value;
+      const operator = (value === '==' ? '=' : value) as BinaryOperator;
+      return { type: 'binary', operator, left, right: parseAdditive() };
+    }
+    return left;
+  };
+
+  const parseNot = (): FeatureExpressionNode => {
+    if (isKeyword('NOT')) {
+      index++;
+      return { type: 'unary', operator: 'not', operand: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): FeatureExpressionNode => {
+    let node = parseNot();
+    while (isKeyword('AND')) {
+      index++;
+      node = { type: 'binary', operator: 'and', left: node, right: parseNot() };
+    }
+    return node;
+  };
+
+  const parseOr = (): FeatureExpressionNode => {
+    let node = parseAnd();
+    while (isKeyword('OR')) {
+      index++;
+      node = { type: 'binary', operator: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const node = parseOr();
+  if (index < tokens.length) {
+    fail('unexpected input');
+  }
+  return node;
+}
+
+/**
+ * Features an expression reads, directly or through a window
+ */
+export function getFeatureDependencies(node: FeatureExpressionNode): string[] {
+  const dependencies = new Set<string>();
+
+  const visit = (current: FeatureExpressionNode): void => {
+    switch (current.type) {
+      case 'reference':
+        dependencies.add(current.name);
+        break;
+      case 'window':
+        dependencies.add(current.feature);
+        break;
+      case 'unary':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+      case 'call':
+        current.args.forEach(visit);
+        break;
+    }
+  };
+
+  visit(node);
+  return Array.from(dependencies);
+}
+
+/**
+ * Parse and compile an expression into an evaluator
+ */
+export function compileFeatureExpression(expression: string): CompiledFeatureExpression {
+  const ast = parseFeatureExpression(expression);
+
+  return {
+    source: expression,
+    ast,
+    dependencies: getFeatureDependencies(ast),
+    evaluate: scope => evaluateFeatureExpression(ast, scope)
+  };
+}
+
+/**
+ * Evaluate an expression. Missing inputs, division by zero and out-of-domain math yield null
+ * rather than throwing, so one bad input degrades a feature to its default.
+ */
+export function evaluateFeatureExpression(node: FeatureExpressionNode, scope: FeatureScope): FeatureExpressionValue {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'reference':
+      return normalize(scope.value(node.name));
+    case 'unary': {
+      const operand = evaluateFeatureExpression(node.operand, scope);
+      if (node.operator === 'not') return !truthy(operand);
+      const number = toNumber(operand);
+      return number === null ? null : -number;
+    }
+    case 'binary':
+      return evaluateBinary(node.operator, node.left, node.right, scope);
+    case 'call':
+      return evaluateCall(node.name, node.args, scope);
+    case 'window':
+      return aggregateWindow(node.aggregate, scope.history(node.feature), scope.now - node.windowMs);
+  }
+}
+
+function evaluateBinary(
+  operator: BinaryOperator,
+  leftNode: FeatureExpressionNode,
+  rightNode: FeatureExpressionNode,
+  scope: FeatureScope
+): FeatureExpressionValue {
+  const left = evaluateFeatureExpression(leftNode, scope);
+
+  // Short-circuit so guards like `count > 0 and total / count > 10` are safe
+  if (operator === 'and') return truthy(left) && truthy(evaluateFeatureExpression(rightNode, scope));
+  if (operator === 'or') return truthy(left) || truthy(evaluateFeatureExpression(rightNode, scope));
+
+  const right = evaluateFeatureExpression(rightNode, scope);
+
+  if (operator === '=') return left === right;
+  if (operator === '!=') return left !== right;
+
+  if (operator === '+' && typeof left === 'string' && typeof right === 'string') {
+    return left + right;
+  }
+
+  if (['>', '>=', '<', '<='].includes(operator) && typeof left === 'string' && typeof right === 'string') {
+    return compareValues(operator, left.localeCompare(right), 0);
+  }
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+
+  if (['>', '>=', '<', '<='].includes(operator)) {
+    return a === null || b === null ? false : compareValues(operator, a, b);
+  }
+  if (a === null || b === null) return null;
+
+  switch (operator) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/': return b === 0 ? null : a / b;
+    case '%': return b === 0 ? null : a % b;
+    default: return null;
+  }
+}
+
+function evaluateCall(name: string, argNodes: FeatureExpressionNode[], scope: FeatureScope): FeatureExpressionValue {
+  // Only the chosen branch is evaluated
+  if (name === 'if') {
+    return truthy(evaluateFeatureExpression(argNodes[0], scope))
+      ? evaluateFeatureExpression(argNodes[1], scope)
+      : evaluateFeatureExpression(argNodes[2], scope);
+  }
+
+  const args = argNodes.map(arg => evaluateFeatureExpression(arg, scope));
+
+  if (name === 'coalesce') {
+    return args.find(arg => arg !== null) ?? null;
+  }
+
+  if (name === 'min' || name === 'max') {
+    const numbers = args.map(toNumber).filter((n): n is number => n !== null);
+    if (numbers.length === 0) return null;
+    return name === 'min' ? Math.min(...numbers) : Math.max(...numbers);
+  }
+
+  const numbers = args.map(toNumber);
+  if (numbers.some(n => n === null)) return null;
+  const [x, y, z] = numbers as number[];
+
+  switch (name) {
+    case 'clamp': return Math.min(Math.max(x, y), z);
+    case 'abs': return Math.abs(x);
+    case 'round': {
+      const factor = Math.pow(10, y ?? 0);
+      return Math.round(x * factor) / factor;
+    }
+    case 'floor': return Math.floor(x);
+    case 'ceil': return Math.ceil(x);
+    case 'sqrt': return x < 0 ? null : Math.sqrt(x);
+    case 'log': return x <= 0 ? null : Math.log(x);
+    case 'exp': return Math.exp(x);
+    case 'pow': return finite(Math.pow(x, y));
+    default: return null;
+  }
+}
+
+function aggregateWindow(aggregate: WindowAggregate, history: FeatureObservation[], since: number): number | null {
+  const values = history
+    .filter(observation => new Date(observation.timestamp).getTime() >= since)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .map(observation => observation.value);
+
+  if (aggregate === 'count') return values.length;
+  if (aggregate === 'sum') return values.reduce((sum, value) => sum + value, 0);
+  if (values.length === 0) return null;
+
+  switch (aggregate) {
+    case 'avg': return values.reduce((sum, value) => sum + value, 0) / values.length;
+    case 'min': return Math.min(...values);
+    case 'max': return Math.max(...values);
+    case 'delta': return values[values.length - 1] - values[0];
+  }
+}
+
+function compareValues(operator: BinaryOperator, a: number, b: number): boolean {
+  switch (operator) {
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    default: return false;
+  }
+}
+
+function normalize(value: any): FeatureExpressionValue {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return finite(value);
+  if (typeof value === 'string' || typeof value === 'boolean') return value;
+  return null;
+}
+
+function toNumber(value: FeatureExpressionValue): number | null {
+  if (value === null || value === '') return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return finite(Number(value));
+}
+
+function finite(value: number): number | null {
+  return Number.isFinite(value) ? value : null;
+}
+
+function truthy(value: FeatureExpressionValue): boolean {
+  return value !== null && value !== false && value !== 0 && value !== '';
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ kind: 'punctuation', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        value += source[i];
+        i++;
+      }
+      if (i >= source.length) {
+        throw new Error(`Invalid feature expression at position ${start}: unterminated string`);
+      }
+      i++;
+      tokens.push({ kind: 'string', value, position: start });
+      continue;
+    }
+
+    const operator = source.slice(i).match(/^(==|!=|>=|<=|=|>|<|\+|-|\*|\/|%)/);
+    if (operator) {
+      tokens.push({ kind: 'operator', value: operator[1], position: i });
+      i += operator[1].length;
+      continue;
+    }
+
+    const duration = source.slice(i).match(/^(\d+)([smhdw])(?![A-Za-z0-9_])/);
+    if (duration) {
+      tokens.push({ kind: 'duration', value: parseInt(duration[1], 10) * DURATION_UNITS[duration[2]], position: i });
+      i += duration[0].length;
+      continue;
+    }
+
+    const number = source.slice(i).match(/^\d+(\.\d+)?/);
+    if (number) {
+      tokens.push({ kind: 'number', value: parseFloat(number[0]), position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const word = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (word) {
+      const upper = word[0].toUpperCase();
+      tokens.push(KEYWORDS.includes(upper)
+        ? { kind: 'keyword', value: upper, position: i }
+        : { kind: 'identifier', value: word[0], position: i });
+      i += word[0].length;
+      continue;
+    }
+
+    throw new Error(`Invalid feature expression at position ${i}: unexpected character '${char}'`);
+  }
+
+  return tokens;
+}
\ No newline at end of file
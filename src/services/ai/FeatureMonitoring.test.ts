@@ -0,0 +1,131 @@
+// src/services/ai/FeatureMonitoring.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import { FeatureMonitor, kolmogorovSmirnovTest, populationStabilityIndex, quantile } from './FeatureMonitoring';
+import { FeatureStore } from './FeatureStore';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date('2024-06-01T12:00:00Z');
+
+const random = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+const normalSample = (seed: number, size: number, mean = 0, stdDev = 1) => {
+  const next = random(seed);
+  return Array.from({ length: size }, () =>
+    mean + stdDev * Math.sqrt(-2 * Math.log(next())) * Math.cos(2 * Math.PI * next()));
+};
+
+describe('quantile', () => {
+  it('interpolates between neighbours', () => {
+    expect(quantile([1, 2, 3, 4], 0.5)).toBe(2.5);
+    expect(quantile([1, 2, 3, 4], 1)).toBe(4);
+    expect(quantile([], 0.5)).toBeNaN();
+  });
+});
+
+describe('populationStabilityIndex', () => {
+  it('is zero for identical distributions', () => {
+    const sample = normalSample(1, 500);
+    expect(populationStabilityIndex(sample, sample)).toBeCloseTo(0, 10);
+    expect(populationStabilityIndex([], sample)).toBe(0);
+  });
+
+  it('compares categories share by share', () => {
+    const baseline = ['a', 'a', 'b', 'b'];
+    const current = [...Array(9).fill('a'), 'b'];
+    expect(populationStabilityIndex(baseline, current)).toBeCloseTo(0.4 * Math.log(1.8) + 0.4 * Math.log(5), 10);
+  });
+
+  it('separates sampling noise from a shifted mean', () => {
+    const baseline = normalSample(1, 2000);
+    expect(populationStabilityIndex(baseline, normalSample(2, 2000))).toBeLessThan(0.1);
+    expect(populationStabilityIndex(baseline, normalSample(3, 2000, 1))).toBeGreaterThan(0.2);
+  });
+
+  it('counts missing values as their own bucket', () => {
+    const baseline = Array.from({ length: 100 }, (_, i) => i);
+    const withNulls = baseline.map((value, i) => i % 2 === 0 ? null : value);
+    expect(populationStabilityIndex(baseline, withNulls)).toBeGreaterThan(0.2);
+  });
+});
+
+describe('kolmogorovSmirnovTest', () => {
+  it('finds the largest gap between the empirical distributions', () => {
+    expect(kolmogorovSmirnovTest([1, 2, 3], [1, 2, 3])).toEqual({ statistic: 0, pValue: 1 });
+    expect(kolmogorovSmirnovTest([1, 2, 3, 4], [3, 4, 5, 6]).statistic).toBe(0.5);
+    expect(kolmogorovSmirnovTest([], [1])).toEqual({ statistic: 0, pValue: 1 });
+  });
+
+  it('matches the tabulated Kolmogorov distribution on both sides of the series switch', () => {
+    // lambda 0.54 and 1.36; 1.358 is the familiar 5% critical value
+    expect(kolmogorovSmirnovTest([0, 1, 2, 3, 4, 5, 6, 7], [2, 3, 4, 5, 6, 7, 8, 9]).pValue).toBeCloseTo(0.929, 3);
+    expect(kolmogorovSmirnovTest([0, 1, 2, 3, 4, 5, 6, 7], [5, 6, 7, 8, 9, 10, 11, 12]).pValue).toBeCloseTo(0.05, 2);
+  });
+
+  it('rejects shifted samples and keeps samples from the same distribution', () => {
+    expect(kolmogorovSmirnovTest(normalSample(1, 500), normalSample(2, 500)).pValue).toBeGreaterThan(0.05);
+    expect(kolmogorovSmirnovTest(normalSample(1, 500), normalSample(3, 500, 0.5)).pValue).toBeLessThan(0.001);
+  });
+});
+
+describe('FeatureMonitor', () => {
+  it('profiles the values inside the rolling window', () => {
+    const monitor = new FeatureMonitor({ windowMs: 24 * HOUR });
+    monitor.record('spend', 1000, new Date(NOW.getTime() - 48 * HOUR));
+    [10, 20, 30, null].forEach(value => monitor.record('spend', value, new Date(NOW.getTime() - HOUR)));
+    ['email', 'email', 'sms'].forEach(value => monitor.record('channel', value, NOW));
+
+    const profile = monitor.getProfile('spend', NOW);
+    expect(profile).toMatchObject({ count: 4, nullRate: 0.25, numeric: { mean: 20, min: 10, max: 30 } });
+    expect(profile?.numeric?.quantiles.p50).toBe(20);
+    expect(monitor.getProfile('channel', NOW)?.categories).toEqual({ email: 2 / 3, sms: 1 / 3 });
+    expect(monitor.getProfile('unknown', NOW)).toBeNull();
+  });
+
+  it('reports drift against the baseline with PSI and KS', () => {
+    const monitor = new FeatureMonitor({ windowMs: HOUR, psiThreshold: 0.2 });
+    monitor.setBaseline('score', normalSample(1, 1000));
+    normalSample(2, 1000, 1).forEach(value => monitor.record('score', value, NOW));
+    monitor.setBaseline('stable', normalSample(3, 1000));
+    normalSample(4, 1000).forEach(value => monitor.record('stable', value, NOW));
+
+    const [score, stable] = monitor.getDriftReports(NOW);
+    expect(score).toMatchObject({ feature: 'score', drifted: true, baselineCount: 1000, currentCount: 1000, threshold: 0.2 });
+    expect(score.ks?.pValue).toBeLessThan(0.001);
+    expect(stable.drifted).toBe(false);
+
+    // Nothing observed in the window yet
+    expect(monitor.getDrift('score', new Date(NOW.getTime() + 2 * HOUR))).toBeNull();
+  });
+
+  it('refuses an empty baseline', () => {
+    expect(() => new FeatureMonitor().setBaseline('score')).toThrow('No observations to use as a baseline for feature score');
+  });
+});
+
+describe('FeatureStore validation', () => {
+  it('logs the values it replaced, newest first', async () => {
+    const store = new FeatureStore();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await store.updateCustomerFeatures('c1', 't1', { customer_age: 200 });
+    await store.updateCustomerFeatures('c1', 't1', { preferred_channel: 'fax', total_purchases: 4 });
+    await store.updateCustomerFeatures('c1', 't1', { total_purchases: null });
+
+    expect(store.getFeatureViolations().map(violation => [violation.feature, violation.rule, violation.value, violation.correctedValue])).toEqual([
+      ['total_purchases', 'required', null, 0],
+      ['preferred_channel', 'allowed_values', 'fax', 'email'],
+      ['customer_age', 'max', 200, 120]
+    ]);
+    expect(store.getFeatureViolations({ feature: 'customer_age' })).toHaveLength(1);
+
+    // The monitor sees the stored values, and missing ones as null
+    expect(store.getFeatureProfile('total_purchases')).toMatchObject({ count: 2, nullRate: 0.5 });
+    warn.mockRestore();
+  });
+});
\ No newline at end of file
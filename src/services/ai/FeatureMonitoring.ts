@@ -0,0 +1,291 @@
+// src/services/ai/FeatureMonitoring.ts
+
+import { FeatureDriftReport, FeatureProfile, FeatureViolation } from '../../types/ai';
+import { mean, variance } from './ExperimentStatistics';
+
+export interface FeatureMonitorOptions {
+  windowMs?: number; // rolling window profiles and drift are computed over
+  maxObservations?: number; // per feature
+  maxViolations?: number;
+  psiThreshold?: number; // 0.1 is a moderate shift, 0.2 and above a significant one
+}
+
+// Smoothing for empty bins, so PSI stays finite
+const PSI_EPSILON = 1e-4;
+const NULL_BUCKET = '(null)';
+
+/**
+ * Population stability index between a baseline and a current sample. Numerical samples are
+ * binned on baseline quantiles; anything else is compared category by category. Missing
+ * values count as their own bucket, so a jump in the null rate shows up as drift.
+ */
+export function populationStabilityIndex(baseline: any[], current: any[], bins: number = 10): number {
+  if (baseline.length === 0 || current.length === 0) return 0;
+
+  const toBucket = isNumericSample([...baseline, ...current])
+    ? numericBucketer(baseline.filter(isPresent) as number[], bins)
+    : (value: any) => isPresent(value) ? categoryKey(value) : NULL_BUCKET;
+
+  const baselineShares = shares(baseline.map(toBucket));
+  const currentShares = shares(current.map(toBucket));
+  const buckets = new Set([...Object.keys(baselineShares), ...Object.keys(currentShares)]);
+
+  let psi = 0;
+  buckets.forEach(bucket => {
+    const expected = Math.max(baselineShares[bucket] || 0, PSI_EPSILON);
+    const actual = Math.max(currentShares[bucket] || 0, PSI_EPSILON);
+    psi += (actual - expected) * Math.log(actual / expected);
+  });
+  return psi;
+}
+
+/**
+ * Two-sample Kolmogorov-Smirnov test with the asymptotic p-value
+ */
+export function kolmogorovSmirnovTest(sampleA: number[], sampleB: number[]): { statistic: number; pValue: number } {
+  if (sampleA.length === 0 || sampleB.length === 0) {
+    return { statistic: 0, pValue: 1 };
+  }
+
+  const a = [...sampleA].sort((x, y) => x - y);
+  const b = [...sampleB].sort((x, y) => x - y);
+  let i = 0;
+  let j = 0;
+  let statistic = 0;
+
+  while (i < a.length && j < b.length) {
+    const value = Math.min(a[i], b[j]);
+    while (i < a.length && a[i] === value) i++;
+    while (j < b.length && b[j] === value) j++;
+    statistic = Math.max(statistic, Math.abs(i / a.length - j / b.length));
+  }
+
+  const effectiveN = Math.sqrt((a.length * b.length) / (a.length + b.length));
+  const lambda = (effectiveN + 0.12 + 0.11 / effectiveN) * statistic;
+
+  return { statistic, pValue: Math.min(Math.max(kolmogorovSurvival(lambda), 0), 1) };
+}
+
+/**
+ * P(K > lambda) for the Kolmogorov distribution. The alternating series only converges
+ * for larger lambda; small lambda (similar samples) uses the theta-function form.
+ */
+function kolmogorovSurvival(lambda: number): number {
+  if (lambda <= 0) return 1;
+
+  let sum = 0;
+  if (lambda < 1.18) {
+    for (let k = 1; k <= 100; k++) {
+      const term = Math.exp(-((2 * k - 1) ** 2) * Math.PI * Math.PI / (8 * lambda * lambda));
+      sum += term;
+      if (term < 1e-10) break;
+    }
+    return 1 - (Math.sqrt(2 * Math.PI) / lambda) * sum;
+  }
+
+  for (let k = 1; k <= 100; k++) {
+    const term = 2 * Math.pow(-1, k - 1) * Math.exp(-2 * k * k * lambda * lambda);
+    sum += term;
+    if (Math.abs(term) < 1e-10) break;
+  }
+  return sum;
+}
+
+/**
+ * Quantile of an ascending sorted sample, interpolating between neighbours
+ */
+export function quantile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Tracks the values each feature takes, so the feature store can report distribution
+ * profiles, drift against a baseline and validation rule violations
+ */
+export class FeatureMonitor {
+  private observations: Map<string, { value: any; timestamp: number }[]> = new Map();
+  private baselines: Map<string, any[]> = new Map();
+  private violations: FeatureViolation[] = [];
+  private windowMs: number;
+  private maxObservations: number;
+  private maxViolations: number;
+  private psiThreshold: number;
+
+  constructor(options: FeatureMonitorOptions = {}) {
+    this.windowMs = options.windowMs ?? 24 * 60 * 60 * 1000;
+    this.maxObservations = options.maxObservations ?? 10000;
+    this.maxViolations = options.maxViolations ?? 1000;
+    this.psiThreshold = options.psiThreshold ?? 0.2;
+  }
+
+  record(feature: string, value: any, timestamp: Date = new Date()): void {
+    const observations = this.observations.get(feature) || [];
+    observations.push({ value: value ?? null, timestamp: timestamp.getTime() });
+
+    if (observations.length > this.maxObservations) {
+      observations.splice(0, observations.length - this.maxObservations);
+    }
+    this.observations.set(feature, observations);
+  }
+
+  recordViolation(violation: FeatureViolation): void {
+    this.violations.push(violation);
+    if (this.violations.length > this.maxViolations) {
+      this.violations.splice(0, this.violations.length - this.maxViolations);
+    }
+  }
+
+  /**
+   * Violations, newest first
+   */
+  getViolations(filters?: { feature?: string; since?: Date }): FeatureViolation[] {
+    return this.violations
+      .filter(violation => !filters?.feature || violation.feature === filters.feature)
+      .filter(violation => !filters?.since || violation.timestamp >= filters.since)
+      .reverse();
+  }
+
+  /**
+   * Distribution of the feature over the rolling window, or null if nothing was observed
+   */
+  getProfile(feature: string, now: Date = new Date()): FeatureProfile | null {
+    const values = this.getWindowValues(feature, now.getTime());
+    if (values.length === 0) return null;
+
+    const present = values.filter(isPresent);
+    const profile: FeatureProfile = {
+      feature,
+      windowStart: new Date(now.getTime() - this.windowMs),
+      windowEnd: now,
+      count: values.length,
+      nullRate: 1 - present.length / values.length
+    };
+
+    if (present.length > 0 && isNumericSample(present)) {
+      const sorted = (present as number[]).sort((a, b) => a - b);
+      profile.numeric = {
+        mean: mean(sorted),
+        stdDev: Math.sqrt(variance(sorted)),
+        min: sorted[0],
+        max: sorted[sorted.length - 1],
+        quantiles: {
+          p05: quantile(sorted, 0.05),
+          p25: quantile(sorted, 0.25),
+          p50: quantile(sorted, 0.5),
+          p75: quantile(sorted, 0.75),
+          p95: quantile(sorted, 0.95)
+        }
+      };
+    } else if (present.length > 0) {
+      profile.categories = shares(present.map(categoryKey));
+    }
+
+    return profile;
+  }
+
+  getMonitoredFeatures(): string[] {
+    return Array.from(this.observations.keys());
+  }
+
+  /**
+   * Use the current window (or the given sample) as the reference distribution for drift
+   */
+  setBaseline(feature: string, values?: any[]): void {
+    const baseline = values || this.getWindowValues(feature, Date.now());
+    if (baseline.length === 0) {
+      throw new Error(`No observations to use as a baseline for feature ${feature}`);
+    }
+    this.baselines.set(feature, baseline.map(value => value ?? null));
+  }
+
+  hasBaseline(feature: string): boolean {
+    return this.baselines.has(feature);
+  }
+
+  /**
+   * Compare the current window with the feature's baseline
+   */
+  getDrift(feature: string, now: Date = new Date()): FeatureDriftReport | null {
+    const baseline = this.baselines.get(feature);
+    const current = this.getWindowValues(feature, now.getTime());
+    if (!baseline || current.length === 0) return null;
+
+    const psi = populationStabilityIndex(baseline, current);
+    const report: FeatureDriftReport = {
+      feature,
+      psi,
+      baselineCount: baseline.length,
+      currentCount: current.length,
+      threshold: this.psiThreshold,
+      drifted: psi > this.psiThreshold,
+      evaluatedAt: now
+    };
+
+    const baselineNumbers = baseline.filter(isPresent);
+    const currentNumbers = current.filter(isPresent);
+    if (isNumericSample([...baselineNumbers, ...currentNumbers])) {
+      report.ks = kolmogorovSmirnovTest(baselineNumbers, currentNumbers);
+    }
+
+    return report;
+  }
+
+  /**
+   * Drift for every feature that has a baseline
+   */
+  getDriftReports(now: Date = new Date()): FeatureDriftReport[] {
+    return Array.from(this.baselines.keys())
+      .map(feature => this.getDrift(feature, now))
+      .filter((report): report is FeatureDriftReport => report !== null);
+  }
+
+  private getWindowValues(feature: string, now: number): any[] {
+    const windowStart = now - this.windowMs;
+    return (this.observations.get(feature) || [])
+      .filter(observation => observation.timestamp >= windowStart && observation.timestamp <= now)
+      .map(observation => observation.value);
+  }
+}
+
+function numericBucketer(baseline: number[], bins: number): (value: any) => string {
+  const sorted = [...baseline].sort((a, b) => a - b);
+  const edges: number[] = [];
+  for (let i = 1; i < bins; i++) {
+    const edge = quantile(sorted, i / bins);
+    if (!isNaN(edge) && edges[edges.length - 1] !== edge) edges.push(edge);
+  }
+
+  return (value: any) => {
+    if (!isPresent(value)) return NULL_BUCKET;
+    const bin = edges.findIndex(edge => value <= edge);
+    return `bin_${bin === -1 ? edges.length : bin}`;
+  };
+}
+
+function shares(keys: string[]): { [key: string]: number } {
+  const counts: { [key: string]: number } = {};
+  keys.forEach(key => {
+    counts[key] = (counts[key] || 0) + 1;
+  });
+  Object.keys(counts).forEach(key => {
+    counts[key] /= keys.length;
+  });
+  return counts;
+}
+
+function isPresent(value: any): boolean {
+  return value !== null && value !== undefined && !(typeof value === 'number' && isNaN(value));
+}
+
+function isNumericSample(values: any[]): boolean {
+  const present = values.filter(isPresent);
+  return present.length > 0 && present.every(value => typeof value === 'number');
+}
+
+function categoryKey(value: any): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
\ No newline at end of file
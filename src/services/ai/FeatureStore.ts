@@ -1,15 +1,38 @@
 // src/services/ai/FeatureStore.ts
 
-import { FeatureDefinition, FeatureStore as FeatureStoreType, CustomerContext } from '../../types/ai';
+import {
+  FeatureDefinition,
+  FeatureStore as FeatureStoreType,
+  CustomerContext,
+  CustomerEvent,
+  FeatureDriftReport,
+  FeatureProfile,
+  FeatureSnapshot,
+  FeatureValueRecord,
+  FeatureViolation,
+  StreamingFeatureSpec
+} from '../../types/ai';
+import { CompiledFeatureExpression, FeatureScope, compileFeatureExpression } from './FeatureExpressions';
+import { CustomerEventSource, StreamingAggregate } from './StreamingAggregates';
+import { FeatureMonitor } from './FeatureMonitoring';
+
+// Records kept per customer feature for point-in-time lookups and window_* aggregations
+const MAX_FEATURE_HISTORY = 500;
 
 export class FeatureStore {
   private featureDefinitions: Map<string, FeatureDefinition> = new Map();
   private customerFeatures: Map<string, FeatureStoreType> = new Map();
   private computedFeatureCache: Map<string, { value: any; timestamp: Date; ttl: number }> = new Map();
   private realTimeStreams: Map<string, any> = new Map();
+  private compiledFeatures: Map<string, CompiledFeatureExpression> = new Map();
+  private featureHistory: Map<string, FeatureValueRecord[]> = new Map();
+  private streamingFeatures: Map<string, StreamingFeatureSpec> = new Map();
+  private monitor: FeatureMonitor;
 
-  constructor() {
+  constructor(monitor: FeatureMonitor = new FeatureMonitor()) {
+    this.monitor = monitor;
     this.initializeFeatureDefinitions();
+    this.initializeStreamingFeatures();
     this.startCacheCleanup();
   }
 
@@ -58,12 +81,14 @@ export class FeatureStore {
   }
 
   /**
-   * Update features for a customer in real-time
+   * Update features for a customer in real-time. Pass `observedAt` to backfill values
+   * observed in the past; they are added to the history without replacing newer values.
    */
   async updateCustomerFeatures(
     customerId: string,
     tenantId: string,
-    features: { [featureName: string]: any }
+    features: { [featureName: string]: any },
+    observedAt: Date = new Date()
   ): Promise<void> {
     console.log(`[FeatureStore] Updating features for customer: ${customerId}`);
     
@@ -74,6 +99,8 @@ export class FeatureStore {
       customerFeatureStore = await this.createDefaultFeatureStore(customerId, tenantId);
     }
     
+    const version = this.generateVersion();
+    
     // Validate and update features
     for (const [featureName, value] of Object.entries(features)) {
       const featureDefinition = this.featureDefinitions.get(featureName);
@@ -83,14 +110,22 @@ export class FeatureStore {
       }
       
       // Validate feature value
-      const validatedValue = this.validateFeatureValue(value, featureDefinition);
+      const validatedValue = this.validateFeatureValue(value, featureDefinition, { customerId, tenantId });
+      this.monitor.record(featureName, value === null || value === undefined ? null : validatedValue, observedAt);
       if (validatedValue !== null) {
-        customerFeatureStore.features[featureName] = validatedValue;
+        const isLatest = this.recordFeatureHistory(customerId, tenantId, featureName, {
+          value: validatedValue,
+          timestamp: observedAt,
+          version
+        });
+        if (isLatest) {
+          customerFeatureStore.features[featureName] = validatedValue;
+        }
       }
     }
     
     customerFeatureStore.lastUpdated = new Date();
-    customerFeatureStore.version = this.generateVersion();
+    customerFeatureStore.version = version;
     
     this.customerFeatures.set(cacheKey, customerFeatureStore);
     
@@ -98,6 +133,101 @@ export class FeatureStore {
     this.invalidateComputedFeatures(customerId, tenantId);
   }
 
+  /**
+   * Register a real-time feature aggregated from customer events, e.g. page views in the
+   * last 30 minutes. It is also registered as a 'realtime' feature definition.
+   */
+  registerStreamingFeature(spec: StreamingFeatureSpec): void {
+    if (!spec.name) throw new Error('Streaming feature name is required');
+    if (!spec.eventTypes || spec.eventTypes.length === 0) {
+      throw new Error(`Streaming feature ${spec.name} needs at least one event type`);
+    }
+    if (spec.aggregation !== 'count' && !spec.property) {
+      throw new Error(`Streaming feature ${spec.name} needs a property to ${spec.aggregation}`);
+    }
+    if (spec.window?.type === 'sliding' && !(spec.window.durationMs > 0)) {
+      throw new Error(`Streaming feature ${spec.name} needs a positive window duration`);
+    }
+    
+    const isCategorical = spec.aggregation === 'last';
+    this.registerFeatureDefinition({
+      name: spec.name,
+      type: isCategorical ? 'categorical' : 'numerical',
+      description: spec.description,
+      source: 'realtime',
+      refreshFrequency: 'realtime',
+      defaultValue: spec.defaultValue ?? (['count', 'sum', 'distinct_count'].includes(spec.aggregation) ? 0 : undefined),
+      validationRules: {
+        required: false,
+        min: isCategorical ? undefined : 0
+      }
+    });
+    
+    this.streamingFeatures.set(spec.name, spec);
+    
+    // Aggregates built for a previous spec of this feature no longer apply
+    Array.from(this.realTimeStreams.keys())
+      .filter(streamKey => streamKey.endsWith(`:${spec.name}`))
+      .forEach(streamKey => this.realTimeStreams.delete(streamKey));
+  }
+
+  /**
+   * Fold a customer event into every streaming feature that listens for its type
+   */
+  ingestEvent(event: CustomerEvent): void {
+    let updated = false;
+    
+    this.streamingFeatures.forEach(spec => {
+      if (!spec.eventTypes.includes(event.type)) return;
+      
+      const streamKey = `${event.tenantId}:${spec.name}`;
+      let stream = this.realTimeStreams.get(streamKey);
+      if (!stream) {
+        stream = {};
+        this.realTimeStreams.set(streamKey, stream);
+      }
+      if (!stream[event.customerId]) {
+        stream[event.customerId] = new StreamingAggregate(spec);
+      }
+      
+      stream[event.customerId].add(event);
+      updated = true;
+    });
+    
+    if (updated) {
+      // Computed features may read the aggregates that just changed
+      this.invalidateComputedFeatures(event.customerId, event.tenantId);
+    }
+  }
+
+  /**
+   * Ingest events from a source (local event bus, WebSocket) until the returned function is called
+   */
+  subscribeToEvents(source: CustomerEventSource): () => void {
+    return source.subscribe(event => {
+      try {
+        this.ingestEvent(event);
+      } catch (error) {
+        console.error(`[FeatureStore] Failed to ingest ${event.type} event:`, error);
+      }
+    });
+  }
+
+  /**
+   * Current values of all streaming features for a customer
+   */
+  getStreamingFeatures(customerId: string, tenantId: string): { [featureName: string]: any } {
+    const features: { [featureName: string]: any } = {};
+    
+    this.streamingFeatures.forEach((_, featureName) => {
+      const aggregate = this.realTimeStreams.get(`${tenantId}:${featureName}`)?.[customerId];
+      const value = aggregate instanceof StreamingAggregate ? aggregate.valueAt() : undefined;
+      features[featureName] = value ?? this.featureDefinitions.get(featureName)?.defaultValue;
+    });
+    
+    return features;
+  }
+
   /**
    * Compute real-time features from customer context
    */
@@ -146,6 +276,62 @@ export class FeatureStore {
     return features;
   }
 
+  /**
+   * Reconstruct a customer's features as they were at `asOf`, using only values recorded
+   * up to that moment. Computed features are re-evaluated against those values, so
+   * training data built from snapshots never sees later information.
+   */
+  getFeaturesAsOf(
+    customerId: string,
+    tenantId: string,
+    asOf: Date,
+    featureNames?: string[]
+  ): FeatureSnapshot {
+    const requestedFeatures = featureNames || Array.from(this.featureDefinitions.keys());
+    const resolved: { [featureName: string]: any } = {};
+    let version: string | undefined;
+    let versionTime = -Infinity;
+    
+    const resolve = (featureName: string): any => {
+      if (featureName in resolved) return resolved[featureName];
+      
+      const definition = this.featureDefinitions.get(featureName);
+      const record = this.findRecordAsOf(customerId, tenantId, featureName, asOf);
+      const compiled = this.compiledFeatures.get(featureName);
+      
+      let value: any;
+      if (record) {
+        value = record.value;
+        if (record.timestamp.getTime() > versionTime) {
+          versionTime = record.timestamp.getTime();
+          version = record.version;
+        }
+      } else if (compiled && definition) {
+        const result = compiled.evaluate(this.createScope(customerId, tenantId, asOf.getTime(), resolve));
+        value = result === null ? definition.defaultValue : this.validateFeatureValue(result, definition);
+      } else {
+        value = definition?.defaultValue;
+      }
+      
+      resolved[featureName] = value;
+      return value;
+    };
+    
+    const features: { [featureName: string]: any } = {};
+    requestedFeatures.forEach(featureName => {
+      features[featureName] = resolve(featureName);
+    });
+    
+    return { customerId, tenantId, asOf, version, features };
+  }
+
+  /**
+   * Recorded values of a feature for a customer, oldest first
+   */
+  getFeatureHistory(customerId: string, tenantId: string, featureName: string): FeatureValueRecord[] {
+    return [...(this.featureHistory.get(`${tenantId}:${customerId}:${featureName}`) || [])];
+  }
+
   /**
    * Get feature definitions
    */
@@ -164,7 +350,8 @@ export class FeatureStore {
   }
 
   /**
-   * Register a new feature definition
+   * Register a new feature definition. Computed features must have a valid computationLogic
+   * expression that only references registered features and does not form a dependency cycle.
    */
   registerFeatureDefinition(definition: FeatureDefinition): void {
     console.log(`[FeatureStore] Registering feature definition: ${definition.name}`);
@@ -172,7 +359,76 @@ export class FeatureStore {
     // Validate definition
     this.validateFeatureDefinition(definition);
     
+    const compiled = this.compileFeatureDefinition(definition);
+    
     this.featureDefinitions.set(definition.name, definition);
+    if (compiled) {
+      this.compiledFeatures.set(definition.name, compiled);
+    } else {
+      this.compiledFeatures.delete(definition.name);
+    }
+    
+    // Cached values may have been computed with the previous definition
+    this.computedFeatureCache.clear();
+  }
+
+  /**
+   * Features the given feature's expression depends on, directly or transitively
+   */
+  getFeatureDependencies(featureName: string): string[] {
+    const dependencies = new Set<string>();
+    const visit = (name: string): void => {
+      this.compiledFeatures.get(name)?.dependencies.forEach(dependency => {
+        if (!dependencies.has(dependency)) {
+          dependencies.add(dependency);
+          visit(dependency);
+        }
+      });
+    };
+    
+    visit(featureName);
+    return Array.from(dependencies);
+  }
+
+  /**
+   * Distribution of a feature's recent values, or null if none were observed
+   */
+  getFeatureProfile(featureName: string): FeatureProfile | null {
+    return this.monitor.getProfile(featureName);
+  }
+
+  /**
+   * Distribution profiles of every feature with recent values
+   */
+  getFeatureProfiles(): FeatureProfile[] {
+    return this.monitor.getMonitoredFeatures()
+      .map(featureName => this.monitor.getProfile(featureName))
+      .filter((profile): profile is FeatureProfile => profile !== null);
+  }
+
+  /**
+   * Capture the current distributions as the drift baseline, e.g. after a model is trained
+   */
+  setDriftBaseline(featureNames?: string[]): void {
+    const names = featureNames || this.monitor.getMonitoredFeatures()
+      .filter(featureName => this.monitor.getProfile(featureName) !== null);
+    
+    names.forEach(featureName => this.monitor.setBaseline(featureName));
+    console.log(`[FeatureStore] Captured drift baseline for ${names.length} features`);
+  }
+
+  /**
+   * PSI and KS drift of each baselined feature's recent values against its baseline
+   */
+  getDriftReports(): FeatureDriftReport[] {
+    return this.monitor.getDriftReports();
+  }
+
+  /**
+   * Values that broke validation rules and were replaced, newest first
+   */
+  getFeatureViolations(filters?: { feature?: string; since?: Date }): FeatureViolation[] {
+    return this.monitor.getViolations(filters);
   }
 
   /**
@@ -184,6 +440,8 @@ export class FeatureStore {
     computedFeatures: number;
     cacheHitRate: number;
     avgComputeTime: number;
+    violationCount: number;
+    driftedFeatures: string[];
   } {
     const totalFeatures = this.featureDefinitions.size;
     const realtimeFeatures = Array.from(this.featureDefinitions.values())
@@ -200,7 +458,9 @@ export class FeatureStore {
       realtimeFeatures,
       computedFeatures,
       cacheHitRate,
-      avgComputeTime
+      avgComputeTime,
+      violationCount: this.monitor.getViolations().length,
+      driftedFeatures: this.getDriftReports().filter(report => report.drifted).map(report => report.feature)
     };
   }
 
@@ -240,7 +500,10 @@ export class FeatureStore {
     const streamKey = `${tenantId}:${featureName}`;
     const stream = this.realTimeStreams.get(streamKey);
     
-    if (stream && stream[customerId]) {
+    if (stream && stream[customerId] instanceof StreamingAggregate) {
+      const value = stream[customerId].valueAt();
+      if (value !== undefined) return value;
+    } else if (stream && stream[customerId]) {
       return stream[customerId];
     }
     
@@ -294,6 +557,12 @@ export class FeatureStore {
       return definition.defaultValue;
     }
     
+    const compiled = this.compiledFeatures.get(featureName);
+    if (compiled) {
+      return await this.evaluateCompiledFeature(customerId, tenantId, definition, compiled);
+    }
+    
+    // Built-in features predate the expression language and are computed by name
     try {
       // Simple computation logic evaluation
       // In production, this would use a proper expression engine or ML pipeline
@@ -313,6 +582,98 @@ export class FeatureStore {
     }
   }
 
+  private async evaluateCompiledFeature(
+    customerId: string,
+    tenantId: string,
+    definition: FeatureDefinition,
+    compiled: CompiledFeatureExpression
+  ): Promise<any> {
+    try {
+      const cacheKey = `${tenantId}:${customerId}`;
+      let customerStore = this.customerFeatures.get(cacheKey);
+      if (!customerStore) {
+        customerStore = await this.createDefaultFeatureStore(customerId, tenantId);
+        this.customerFeatures.set(cacheKey, customerStore);
+      }
+      
+      // Resolve inputs up front so evaluation itself is synchronous
+      const inputs: { [featureName: string]: any } = {};
+      for (const dependency of compiled.dependencies) {
+        const dependencyDefinition = this.featureDefinitions.get(dependency);
+        inputs[dependency] = dependencyDefinition
+          ? await this.getFeatureValue(customerId, tenantId, dependency, dependencyDefinition, customerStore)
+          : undefined;
+      }
+      
+      const value = compiled.evaluate(this.createScope(customerId, tenantId, Date.now(), name => inputs[name]));
+      
+      const result = value === null
+        ? definition.defaultValue
+        : this.validateFeatureValue(value, definition, { customerId, tenantId });
+      this.monitor.record(definition.name, value);
+      return result;
+    } catch (error) {
+      console.error(`[FeatureStore] Error evaluating feature ${definition.name}:`, error);
+      return definition.defaultValue;
+    }
+  }
+
+  private createScope(
+    customerId: string,
+    tenantId: string,
+    now: number,
+    value: (featureName: string) => any
+  ): FeatureScope {
+    return {
+      now,
+      value,
+      history: featureName => (this.featureHistory.get(`${tenantId}:${customerId}:${featureName}`) || [])
+        .filter(record => typeof record.value === 'number' && record.timestamp.getTime() <= now)
+    };
+  }
+
+  /**
+   * Insert a record in timestamp order; returns whether it is now the latest value
+   */
+  private recordFeatureHistory(
+    customerId: string,
+    tenantId: string,
+    featureName: string,
+    record: FeatureValueRecord
+  ): boolean {
+    const historyKey = `${tenantId}:${customerId}:${featureName}`;
+    const history = this.featureHistory.get(historyKey) || [];
+    
+    let position = history.length;
+    while (position > 0 && history[position - 1].timestamp.getTime() > record.timestamp.getTime()) {
+      position--;
+    }
+    history.splice(position, 0, record);
+    
+    if (history.length > MAX_FEATURE_HISTORY) {
+      history.splice(0, history.length - MAX_FEATURE_HISTORY);
+    }
+    this.featureHistory.set(historyKey, history);
+    
+    return history[history.length - 1] === record;
+  }
+
+  private findRecordAsOf(
+    customerId: string,
+    tenantId: string,
+    featureName: string,
+    asOf: Date
+  ): FeatureValueRecord | undefined {
+    const history = this.featureHistory.get(`${tenantId}:${customerId}:${featureName}`) || [];
+    
+    for (let i = history.length - 1; i >= 0; i--) {
+      if (history[i].timestamp.getTime() <= asOf.getTime()) {
+        return history[i];
+      }
+    }
+    return undefined;
+  }
+
   private async computeRFMScoreForCustomer(customerId: string, tenantId: string): Promise<number> {
     // Get customer's behavioral data
     const cacheKey = `${tenantId}:${customerId}`;
@@ -498,27 +859,47 @@ export class FeatureStore {
     return new Date().getTimezoneOffset();
   }
 
-  private validateFeatureValue(value: any, definition: FeatureDefinition): any {
+  private validateFeatureValue(
+    value: any,
+    definition: FeatureDefinition,
+    subject?: { customerId: string; tenantId: string }
+  ): any {
     const rules = definition.validationRules;
     
+    // Replaced values are logged when validating live data for a customer
+    const violation = (rule: FeatureViolation['rule'], correctedValue: any): any => {
+      if (subject) {
+        this.monitor.recordViolation({
+          feature: definition.name,
+          rule,
+          value,
+          correctedValue,
+          customerId: subject.customerId,
+          tenantId: subject.tenantId,
+          timestamp: new Date()
+        });
+      }
+      return correctedValue;
+    };
+    
     // Check required
     if (rules.required && (value === null || value === undefined)) {
       console.warn(`[FeatureStore] Required feature ${definition.name} is missing`);
-      return definition.defaultValue;
+      return violation('required', definition.defaultValue);
     }
     
     // Type validation
     switch (definition.type) {
       case 'numerical':
         const numValue = Number(value);
-        if (isNaN(numValue)) return definition.defaultValue;
-        if (rules.min !== undefined && numValue < rules.min) return rules.min;
-        if (rules.max !== undefined && numValue > rules.max) return rules.max;
+        if (isNaN(numValue)) return violation('type', definition.defaultValue);
+        if (rules.min !== undefined && numValue < rules.min) return violation('min', rules.min);
+        if (rules.max !== undefined && numValue > rules.max) return violation('max', rules.max);
         return numValue;
         
       case 'categorical':
         if (rules.allowedValues && !rules.allowedValues.includes(value)) {
-          return definition.defaultValue;
+          return violation('allowed_values', definition.defaultValue);
         }
         return value;
         
@@ -527,7 +908,13 @@ export class FeatureStore {
         
       case 'datetime':
         const dateValue = value instanceof Date ? value : new Date(value);
-        return isNaN(dateValue.getTime()) ? definition.defaultValue : dateValue;
+        return isNaN(dateValue.getTime()) ? violation('type', definition.defaultValue) : dateValue;
+        
+      case 'text':
+        if (rules.regex && typeof value === 'string' && !new RegExp(rules.regex).test(value)) {
+          return violation('regex', definition.defaultValue);
+        }
+        return value;
         
       default:
         return value;
@@ -550,6 +937,59 @@ export class FeatureStore {
     }
   }
 
+  private compileFeatureDefinition(definition: FeatureDefinition): CompiledFeatureExpression | null {
+    if (definition.source !== 'computed' || !definition.computationLogic) {
+      return null;
+    }
+    
+    let compiled: CompiledFeatureExpression;
+    try {
+      compiled = compileFeatureExpression(definition.computationLogic);
+    } catch (error) {
+      throw new Error(`Invalid computation logic for feature ${definition.name}: ${(error as Error).message}`);
+    }
+    
+    const unknown = compiled.dependencies.filter(
+      dependency => dependency !== definition.name && !this.featureDefinitions.has(dependency)
+    );
+    if (unknown.length > 0) {
+      throw new Error(`Feature ${definition.name} references unknown feature(s): ${unknown.join(', ')}`);
+    }
+    
+    const cycle = this.findDependencyCycle(definition.name, compiled.dependencies);
+    if (cycle) {
+      throw new Error(`Feature dependency cycle: ${cycle.join(' -> ')}`);
+    }
+    
+    return compiled;
+  }
+
+  private findDependencyCycle(featureName: string, dependencies: string[]): string[] | null {
+    // Walk the graph as it would look with the new definition in place
+    const getDependencies = (name: string): string[] =>
+      name === featureName ? dependencies : this.compiledFeatures.get(name)?.dependencies || [];
+    
+    const visited = new Set<string>();
+    const path: string[] = [];
+    
+    const visit = (name: string): string[] | null => {
+      const cycleStart = path.indexOf(name);
+      if (cycleStart !== -1) return [...path.slice(cycleStart), name];
+      if (visited.has(name)) return null;
+      
+      visited.add(name);
+      path.push(name);
+      for (const dependency of getDependencies(name)) {
+        const cycle = visit(dependency);
+        if (cycle) return cycle;
+      }
+      path.pop();
+      return null;
+    };
+    
+    return visit(featureName);
+  }
+
   private async createDefaultFeatureStore(customerId: string, tenantId: string): Promise<FeatureStoreType> {
     return {
       customerId,
@@ -622,6 +1062,42 @@ export class FeatureStore {
     }, 5 * 60 * 1000);
   }
 
+  private initializeStreamingFeatures(): void {
+    const defaultStreamingFeatures: StreamingFeatureSpec[] = [
+      {
+        name: 'page_views_30m',
+        description: 'Pages viewed in the last 30 minutes',
+        eventTypes: ['page_view'],
+        aggregation: 'count',
+        window: { type: 'sliding', durationMs: 30 * 60 * 1000 }
+      },
+      {
+        name: 'sessions_today',
+        description: 'Sessions started today',
+        eventTypes: ['session_start'],
+        aggregation: 'count',
+        window: { type: 'calendar_day' }
+      },
+      {
+        name: 'last_category_viewed',
+        description: 'Category of the most recently viewed product',
+        eventTypes: ['product_view'],
+        aggregation: 'last',
+        property: 'category'
+      },
+      {
+        name: 'cart_value_1h',
+        description: 'Value added to cart in the last hour',
+        eventTypes: ['add_to_cart'],
+        aggregation: 'sum',
+        property: 'value',
+        window: { type: 'sliding', durationMs: 60 * 60 * 1000 }
+      }
+    ];
+    
+    defaultStreamingFeatures.forEach(spec => this.registerStreamingFeature(spec));
+  }
+
   private initializeFeatureDefinitions(): void {
     const defaultFeatures: FeatureDefinition[] = [
       {
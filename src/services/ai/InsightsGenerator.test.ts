@@ -0,0 +1,142 @@
+// src/services/ai/InsightsGenerator.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import { FeatureDriftReport } from '../../types/ai';
+import { InsightsGenerator } from './InsightsGenerator';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const drift = (feature: string, psi: number): FeatureDriftReport => ({
+  feature,
+  psi,
+  baselineCount: 1000,
+  currentCount: 1000,
+  threshold: 0.2,
+  drifted: psi > 0.2,
+  evaluatedAt: new Date()
+});
+
+// Feature drift is the simplest detector to drive: one insight per drifted feature
+const detect = (generator: InsightsGenerator, ...reports: FeatureDriftReport[]) =>
+  generator.generateInsights([], [], [], reports);
+
+const threshold = (generator: InsightsGenerator) =>
+  generator.getDetectorThresholds().find(detector => detector.detector === 'feature_drift')!;
+
+describe('deduplication', () => {
+  it('folds repeat detections into the insight already raised', async () => {
+    const generator = new InsightsGenerator();
+    const [first] = await detect(generator, drift('engagement_score', 0.3));
+    const [again] = await detect(generator, drift('engagement_score', 0.6));
+
+    expect(again.id).toBe(first.id);
+    expect(again).toMatchObject({ occurrences: 2, severity: 'critical', fingerprint: 'feature_drift:engagement_score' });
+    expect(generator.getInsights()).toHaveLength(1);
+
+    await detect(generator, drift('recency', 0.3));
+    expect(generator.getInsights()).toHaveLength(2);
+  });
+
+  it('keeps dismissed insights dismissed and hidden', async () => {
+    const generator = new InsightsGenerator();
+    const [insight] = await detect(generator, drift('engagement_score', 0.3));
+    generator.dismissInsight(insight.id, 'already_known');
+
+    expect(await detect(generator, drift('engagement_score', 0.3))).toEqual([]);
+    expect(generator.getInsight(insight.id)).toMatchObject({ dismissed: true, occurrences: 2, dismissalReason: 'already_known' });
+  });
+});
+
+describe('lifecycle', () => {
+  it('moves through the allowed statuses and records who moved it', async () => {
+    const generator = new InsightsGenerator();
+    const [insight] = await detect(generator, drift('engagement_score', 0.3));
+    expect(insight.status).toBe('new');
+
+    generator.updateInsightStatus(insight.id, 'acknowledged', { by: 'ana' });
+    generator.recordActionTaken(insight.id, 'Opened a pipeline ticket');
+    generator.updateInsightStatus(insight.id, 'resolved', { by: 'ana', note: 'Upstream fix deployed' });
+
+    expect(generator.getInsight(insight.id)?.history?.map(change => [change.from, change.to, change.by, change.note])).toEqual([
+      ['new', 'acknowledged', 'ana', undefined],
+      ['acknowledged', 'in_progress', undefined, 'Opened a pipeline ticket'],
+      ['in_progress', 'resolved', 'ana', 'Upstream fix deployed']
+    ]);
+    expect(() => generator.updateInsightStatus(insight.id, 'acknowledged'))
+      .toThrow(`Cannot move insight ${insight.id} from resolved to acknowledged`);
+    expect(() => generator.updateInsightStatus('missing', 'resolved')).toThrow('Insight missing not found');
+  });
+
+  it('reopens a resolved insight that is detected again', async () => {
+    const generator = new InsightsGenerator();
+    const [insight] = await detect(generator, drift('engagement_score', 0.3));
+    generator.updateInsightStatus(insight.id, 'resolved');
+
+    const [reopened] = await detect(generator, drift('engagement_score', 0.3));
+    expect(reopened.status).toBe('new');
+    expect(reopened.history?.[reopened.history.length - 1].note).toBe('Detected again after being resolved');
+  });
+
+  it('hides snoozed insights until they wake up as new', async () => {
+    const generator = new InsightsGenerator();
+    const [insight] = await detect(generator, drift('engagement_score', 0.3));
+
+    expect(() => generator.updateInsightStatus(insight.id, 'snoozed')).toThrow('A snoozed insight needs a time to wake up');
+    generator.snoozeInsight(insight.id, new Date(Date.now() + 60 * 60 * 1000), 'ana');
+    expect(await detect(generator, drift('engagement_score', 0.3))).toEqual([]);
+
+    // An expired snooze wakes the insight the next time insights are read
+    vi.useFakeTimers({ now: Date.now() + 2 * 60 * 60 * 1000 });
+    expect(generator.getInsights({ status: 'new' }).map(i => i.id)).toEqual([insight.id]);
+    expect(generator.getInsight(insight.id)?.snoozedUntil).toBeUndefined();
+    vi.useRealTimers();
+  });
+
+  it('assigns owners', async () => {
+    const generator = new InsightsGenerator();
+    const [insight] = await detect(generator, drift('engagement_score', 0.3));
+
+    generator.assignInsight(insight.id, 'ana', 'lead');
+    expect(generator.getInsights({ owner: 'ana' }).map(i => i.id)).toEqual([insight.id]);
+
+    generator.assignInsight(insight.id, undefined, 'lead');
+    expect(generator.getInsights({ owner: 'ana' })).toEqual([]);
+    expect(generator.getInsight(insight.id)?.history?.map(change => change.note)).toEqual(['Assigned to ana', 'Unassigned']);
+  });
+});
+
+describe('detector tuning', () => {
+  it('needs stronger evidence after noise dismissals', async () => {
+    const generator = new InsightsGenerator();
+    const [insight] = await detect(generator, drift('engagement_score', 0.23));
+    generator.dismissInsight(insight.id, 'false_positive');
+
+    expect(threshold(generator)).toMatchObject({ threshold: 0.05, dismissals: 1 });
+    expect(await detect(generator, drift('recency', 0.23))).toEqual([]);
+    expect(await detect(generator, drift('recency', 0.3))).toHaveLength(1);
+  });
+
+  it('ignores dismissals that do not call the detector wrong', async () => {
+    const generator = new InsightsGenerator();
+    const [insight] = await detect(generator, drift('engagement_score', 0.3));
+    generator.dismissInsight(insight.id, 'already_known');
+
+    expect(threshold(generator)).toMatchObject({ threshold: 0, dismissals: 0 });
+  });
+
+  it('eases back towards the default when insights are confirmed, never past it', async () => {
+    const generator = new InsightsGenerator();
+    const [noise] = await detect(generator, drift('engagement_score', 0.3));
+    generator.dismissInsight(noise.id, 'not_actionable');
+
+    const [real] = await detect(generator, drift('recency', 0.5));
+    generator.updateInsightStatus(real.id, 'resolved');
+    expect(threshold(generator)).toMatchObject({ threshold: 0.025, confirmations: 1 });
+
+    const [again] = await detect(generator, drift('recency', 0.5));
+    generator.updateInsightStatus(again.id, 'resolved');
+    generator.updateInsightStatus(again.id, 'new');
+    generator.updateInsightStatus(again.id, 'resolved');
+    expect(threshold(generator).threshold).toBe(0);
+  });
+});
\ No newline at end of file
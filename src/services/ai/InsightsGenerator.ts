@@ -1,12 +1,38 @@
 // src/services/ai/InsightsGenerator.ts
 
-import { AIInsight, DecisionResult, ModelPerformanceMetrics, CustomerContext } from '../../types/ai';
+import {
+  AIInsight,
+  DecisionResult,
+  ModelPerformanceMetrics,
+  CustomerContext,
+  FeatureDriftReport,
+  InsightDetectorThreshold,
+  InsightDismissalReason,
+  InsightStatus
+} from '../../types/ai';
+
+// Allowed status changes; resolved insights reopen as new
+const INSIGHT_TRANSITIONS: { [status in InsightStatus]: InsightStatus[] } = {
+  new: ['acknowledged', 'in_progress', 'resolved', 'snoozed'],
+  acknowledged: ['in_progress', 'resolved', 'snoozed'],
+  in_progress: ['acknowledged', 'resolved', 'snoozed'],
+  snoozed: ['new', 'acknowledged', 'in_progress', 'resolved'],
+  resolved: ['new']
+};
+
+// Dismissals that say the detector fired when it should not have
+const NOISE_REASONS: InsightDismissalReason[] = ['false_positive', 'not_actionable'];
+
+interface InsightDetector extends InsightDetectorThreshold {
+  step: number; // how far one dismissal moves the threshold towards its limit
+}
 
 export class InsightsGenerator {
   private insights: Map<string, AIInsight> = new Map();
+  private fingerprints: Map<string, string> = new Map(); // fingerprint -> insight ID
   private historicalData: Map<string, any[]> = new Map();
   private patterns: Map<string, any> = new Map();
-  private anomalyDetectors: Map<string, any> = new Map();
+  private anomalyDetectors: Map<string, InsightDetector> = new Map();
 
   constructor() {
     this.initializeAnomalyDetectors();
@@ -18,7 +44,8 @@ export class InsightsGenerator {
   async generateInsights(
     decisionResults: DecisionResult[],
     performanceMetrics: ModelPerformanceMetrics[],
-    customerContexts: CustomerContext[]
+    customerContexts: CustomerContext[],
+    featureDrift: FeatureDriftReport[] = []
   ): Promise<AIInsight[]> {
     console.log(`[InsightsGenerator] Generating insights from ${decisionResults.length} decisions, ${performanceMetrics.length} metrics, ${customerContexts.length} customer contexts`);
     
@@ -44,13 +71,18 @@ export class InsightsGenerator {
     const driftInsights = await this.detectModelDrift(performanceMetrics);
     insights.push(...driftInsights);
     
-    // Store insights for future reference
-    insights.forEach(insight => {
-      this.insights.set(insight.id, insight);
-    });
+    // 6. Feature drift insights
+    const featureDriftInsights = this.analyzeFeatureDrift(featureDrift);
+    insights.push(...featureDriftInsights);
     
-    console.log(`[InsightsGenerator] Generated ${insights.length} insights`);
-    return insights.sort((a, b) => {
+    // Repeat detections update the insight already raised for the same fingerprint
+    const now = new Date();
+    const visible = insights
+      .map(insight => this.upsertInsight(insight, now))
+      .filter(insight => !insight.dismissed && insight.status !== 'snoozed');
+    
+    console.log(`[InsightsGenerator] Generated ${insights.length} insights, ${visible.length} open`);
+    return visible.sort((a, b) => {
       // Sort by severity and impact
       const severityWeight = { 'critical': 4, 'high': 3, 'medium': 2, 'low': 1 };
       const aSeverity = severityWeight[a.severity];
@@ -71,8 +103,12 @@ export class InsightsGenerator {
     type?: AIInsight['type'];
     severity?: AIInsight['severity'];
     dismissed?: boolean;
+    status?: InsightStatus;
+    owner?: string;
     maxAge?: number; // hours
   }): AIInsight[] {
+    this.wakeSnoozedInsights(new Date());
+    
     let insights = Array.from(this.insights.values());
     
     if (filters) {
@@ -85,6 +121,12 @@ export class InsightsGenerator {
       if (filters.dismissed !== undefined) {
         insights = insights.filter(i => Boolean(i.dismissed) === filters.dismissed);
       }
+      if (filters.status) {
+        insights = insights.filter(i => i.status === filters.status);
+      }
+      if (filters.owner) {
+        insights = insights.filter(i => i.owner === filters.owner);
+      }
       if (filters.maxAge) {
         const cutoff = Date.now() - (filters.maxAge * 60 * 60 * 1000);
         insights = insights.filter(i => i.createdAt.getTime() > cutoff);
@@ -94,21 +136,31 @@ export class InsightsGenerator {
     return insights;
   }
 
+  getInsight(insightId: string): AIInsight | undefined {
+    return this.insights.get(insightId);
+  }
+
   /**
-   * Dismiss an insight
+   * Dismiss an insight. False positives and non-actionable insights raise the bar for
+   * their detector, so similar insights need stronger evidence next time.
    */
-  dismissInsight(insightId: string, reason?: string): void {
+  dismissInsight(insightId: string, reason: InsightDismissalReason = 'other', note?: string): void {
     const insight = this.insights.get(insightId);
     if (insight) {
       insight.dismissed = true;
+      insight.dismissalReason = reason;
       insight.actions_taken = insight.actions_taken || [];
-      insight.actions_taken.push(`Dismissed: ${reason || 'No reason provided'}`);
+      insight.actions_taken.push(`Dismissed (${reason}): ${note || 'No reason provided'}`);
       this.insights.set(insightId, insight);
+      
+      if (insight.detector && NOISE_REASONS.includes(reason)) {
+        this.tuneDetector(insight.detector, 'dismissed');
+      }
     }
   }
 
   /**
-   * Mark actions taken on an insight
+   * Mark actions taken on an insight. Acting on a new or acknowledged insight puts it in progress.
    */
   recordActionTaken(insightId: string, action: string): void {
     const insight = this.insights.get(insightId);
@@ -116,9 +168,84 @@ export class InsightsGenerator {
       insight.actions_taken = insight.actions_taken || [];
       insight.actions_taken.push(action);
       this.insights.set(insightId, insight);
+      
+      if (insight.status === 'new' || insight.status === 'acknowledged') {
+        this.updateInsightStatus(insightId, 'in_progress', { note: action });
+      }
     }
   }
 
+  /**
+   * Move an insight through its lifecycle. Snoozing needs a wake-up time; resolving an insight
+   * confirms its detector and eases the threshold back towards its default.
+   */
+  updateInsightStatus(
+    insightId: string,
+    status: InsightStatus,
+    options: { by?: string; note?: string; snoozedUntil?: Date } = {}
+  ): AIInsight {
+    const insight = this.insights.get(insightId);
+    if (!insight) {
+      throw new Error(`Insight ${insightId} not found`);
+    }
+    
+    const current = insight.status || 'new';
+    if (current === status) {
+      return insight;
+    }
+    if (!INSIGHT_TRANSITIONS[current].includes(status)) {
+      throw new Error(`Cannot move insight ${insightId} from ${current} to ${status}`);
+    }
+    if (status === 'snoozed' && !options.snoozedUntil) {
+      throw new Error('A snoozed insight needs a time to wake up');
+    }
+    
+    this.setStatus(insight, status, new Date(), options.by, options.note);
+    insight.snoozedUntil = status === 'snoozed' ? options.snoozedUntil : undefined;
+    
+    if (status === 'resolved' && insight.detector) {
+      this.tuneDetector(insight.detector, 'confirmed');
+    }
+    
+    return insight;
+  }
+
+  /**
+   * Hide an insight until the given time, after which it reopens as new
+   */
+  snoozeInsight(insightId: string, until: Date, by?: string): AIInsight {
+    return this.updateInsightStatus(insightId, 'snoozed', { by, snoozedUntil: until });
+  }
+
+  /**
+   * Set or clear the analyst responsible for an insight
+   */
+  assignInsight(insightId: string, owner: string | undefined, by?: string): AIInsight {
+    const insight = this.insights.get(insightId);
+    if (!insight) {
+      throw new Error(`Insight ${insightId} not found`);
+    }
+    
+    insight.owner = owner;
+    insight.history = insight.history || [];
+    insight.history.push({
+      from: insight.status || 'new',
+      to: insight.status || 'new',
+      at: new Date(),
+      by,
+      note: owner ? `Assigned to ${owner}` : 'Unassigned'
+    });
+    
+    return insight;
+  }
+
+  /**
+   * Current detector thresholds and the feedback that moved them
+   */
+  getDetectorThresholds(): InsightDetectorThreshold[] {
+    return Array.from(this.anomalyDetectors.values()).map(({ step, ...threshold }) => ({ ...threshold }));
+  }
+
   /**
    * Get insight summary statistics
    */
@@ -126,6 +253,7 @@ export class InsightsGenerator {
     total: number;
     byType: { [type: string]: number };
     bySeverity: { [severity: string]: number };
+    byStatus: { [status: string]: number };
     dismissed: number;
     totalEstimatedRevenue: number;
   } {
@@ -133,12 +261,14 @@ export class InsightsGenerator {
     
     const byType: { [type: string]: number } = {};
     const bySeverity: { [severity: string]: number } = {};
+    const byStatus: { [status: string]: number } = {};
     let dismissed = 0;
     let totalEstimatedRevenue = 0;
     
     insights.forEach(insight => {
       byType[insight.type] = (byType[insight.type] || 0) + 1;
       bySeverity[insight.severity] = (bySeverity[insight.severity] || 0) + 1;
+      byStatus[insight.status || 'new'] = (byStatus[insight.status || 'new'] || 0) + 1;
       
       if (insight.dismissed) dismissed++;
       
@@ -149,11 +279,107 @@ export class InsightsGenerator {
       total: insights.length,
       byType,
       bySeverity,
+      byStatus,
       dismissed,
       totalEstimatedRevenue
     };
   }
 
+  /**
+   * Store a detection, or fold it into the insight already raised for its fingerprint.
+   * Resolved insights that are detected again reopen; dismissed ones stay dismissed.
+   */
+  private upsertInsight(detected: AIInsight, now: Date): AIInsight {
+    const fingerprint = detected.fingerprint || detected.id;
+    const existingId = this.fingerprints.get(fingerprint);
+    const existing = existingId ? this.insights.get(existingId) : undefined;
+    
+    if (!existing) {
+      const insight: AIInsight = {
+        ...detected,
+        fingerprint,
+        status: 'new',
+        lastSeenAt: now,
+        occurrences: 1,
+        history: []
+      };
+      this.insights.set(insight.id, insight);
+      this.fingerprints.set(fingerprint, insight.id);
+      return insight;
+    }
+    
+    Object.assign(existing, {
+      severity: detected.severity,
+      title: detected.title,
+      description: detected.description,
+      confidence: detected.confidence,
+      impact: detected.impact,
+      recommendations: detected.recommendations,
+      evidence: detected.evidence,
+      lastSeenAt: now,
+      occurrences: (existing.occurrences || 1) + 1
+    });
+    
+    if (existing.status === 'resolved' && !existing.dismissed) {
+      this.setStatus(existing, 'new', now, undefined, 'Detected again after being resolved');
+    } else {
+      this.wakeIfDue(existing, now);
+    }
+    
+    return existing;
+  }
+
+  private setStatus(insight: AIInsight, status: InsightStatus, at: Date, by?: string, note?: string): void {
+    insight.history = insight.history || [];
+    insight.history.push({ from: insight.status || 'new', to: status, at, by, note });
+    insight.status = status;
+  }
+
+  private wakeSnoozedInsights(now: Date): void {
+    this.insights.forEach(insight => this.wakeIfDue(insight, now));
+  }
+
+  private wakeIfDue(insight: AIInsight, now: Date): void {
+    if (insight.status === 'snoozed' && insight.snoozedUntil && insight.snoozedUntil <= now) {
+      this.setStatus(insight, 'new', now, undefined, 'Snooze expired');
+      insight.snoozedUntil = undefined;
+    }
+  }
+
+  private getThreshold(detector: string): number {
+    const config = this.anomalyDetectors.get(detector);
+    if (!config) {
+      throw new Error(`Unknown insight detector ${detector}`);
+    }
+    return config.threshold;
+  }
+
+  /**
+   * Dismissals move the threshold a step towards its limit; confirmations move it half a
+   * step back towards the default, never past it
+   */
+  private tuneDetector(detector: string, feedback: 'dismissed' | 'confirmed'): void {
+    const config = this.anomalyDetectors.get(detector);
+    if (!config) return;
+    
+    const direction = Math.sign(config.limit - config.defaultThreshold);
+    const previous = config.threshold;
+    
+    if (feedback === 'dismissed') {
+      config.dismissals++;
+      const next = config.threshold + direction * config.step;
+      config.threshold = direction > 0 ? Math.min(next, config.limit) : Math.max(next, config.limit);
+    } else {
+      config.confirmations++;
+      const next = config.threshold - direction * config.step / 2;
+      config.threshold = direction > 0 ? Math.max(next, config.defaultThreshold) : Math.min(next, config.defaultThreshold);
+    }
+    
+    if (config.threshold !== previous) {
+      console.log(`[InsightsGenerator] ${detector} threshold moved from ${previous} to ${config.threshold} after ${feedback} feedback`);
+    }
+  }
+
   /**
    * Private analysis methods
    */
@@ -183,9 +409,11 @@ export class InsightsGenerator {
       const recentAvgAccuracy = recent.reduce((sum, m) => sum + m.metrics.accuracy, 0) / recent.length;
       const baselineAvgAccuracy = baseline.reduce((sum, m) => sum + m.metrics.accuracy, 0) / baseline.length;
       
-      if (recentAvgAccuracy < baselineAvgAccuracy - 0.05) { // 5% degradation
+      if (recentAvgAccuracy < baselineAvgAccuracy - this.getThreshold('accuracy_degradation')) {
         insights.push({
           id: `accuracy_degradation_${modelId}_${Date.now()}`,
+          detector: 'accuracy_degradation',
+          fingerprint: `accuracy_degradation:${modelId}`,
           type: 'anomaly',
           severity: recentAvgAccuracy < baselineAvgAccuracy - 0.1 ? 'critical' : 'high',
           title: `Model Accuracy Degradation Detected`,
@@ -215,9 +443,11 @@ export class InsightsGenerator {
       const recentAvgLatency = recent.reduce((sum, m) => sum + m.metrics.latency, 0) / recent.length;
       const baselineAvgLatency = baseline.reduce((sum, m) => sum + m.metrics.latency, 0) / baseline.length;
       
-      if (recentAvgLatency > baselineAvgLatency * 2) { // 100% increase
+      if (recentAvgLatency > baselineAvgLatency * this.getThreshold('latency_spike')) {
         insights.push({
           id: `latency_spike_${modelId}_${Date.now()}`,
+          detector: 'latency_spike',
+          fingerprint: `latency_spike:${modelId}`,
           type: 'anomaly',
           severity: 'high',
           title: `Model Latency Spike Detected`,
@@ -255,14 +485,17 @@ export class InsightsGenerator {
     // Analyze engagement trends
     const engagementScores = customerContexts.map(ctx => ctx.behavioral.engagementScore);
     const avgEngagement = engagementScores.reduce((sum, score) => sum + score, 0) / engagementScores.length;
+    const engagementThreshold = this.getThreshold('low_engagement');
     
-    if (avgEngagement < 50) {
+    if (avgEngagement < engagementThreshold) {
       insights.push({
         id: `low_engagement_trend_${Date.now()}`,
+        detector: 'low_engagement',
+        fingerprint: 'low_engagement',
         type: 'trend',
         severity: 'medium',
         title: 'Declining Customer Engagement Detected',
-        description: `Average customer engagement score is ${avgEngagement.toFixed(1)}, below the healthy threshold of 50`,
+        description: `Average customer engagement score is ${avgEngagement.toFixed(1)}, below the healthy threshold of ${engagementThreshold}`,
         confidence: 0.8,
         impact: {
           estimated_revenue: -25000,
@@ -289,9 +522,11 @@ export class InsightsGenerator {
     const highChurnRiskCount = churnRisks.filter(risk => risk > 0.7).length;
     const highChurnRiskPercent = (highChurnRiskCount / customerContexts.length) * 100;
     
-    if (highChurnRiskPercent > 20) {
+    if (highChurnRiskPercent > this.getThreshold('high_churn_risk')) {
       insights.push({
         id: `high_churn_risk_trend_${Date.now()}`,
+        detector: 'high_churn_risk',
+        fingerprint: 'high_churn_risk',
         type: 'risk',
         severity: 'high',
         title: 'High Churn Risk Trend Identified',
@@ -321,9 +556,11 @@ export class InsightsGenerator {
     const deviceTypes = customerContexts.map(ctx => ctx.contextual.deviceType);
     const deviceDistribution = this.calculateDistribution(deviceTypes);
     
-    if (deviceDistribution['mobile'] > 0.7) {
+    if (deviceDistribution['mobile'] > this.getThreshold('mobile_trend')) {
       insights.push({
         id: `mobile_trend_${Date.now()}`,
+        detector: 'mobile_trend',
+        fingerprint: 'mobile_trend',
         type: 'trend',
         severity: 'medium',
         title: 'Strong Mobile Usage Trend',
@@ -363,9 +600,11 @@ export class InsightsGenerator {
     const lowConfidenceCount = confidences.filter(conf => conf < 0.5).length;
     const lowConfidencePercent = (lowConfidenceCount / decisionResults.length) * 100;
     
-    if (lowConfidencePercent > 30) {
+    if (lowConfidencePercent > this.getThreshold('low_confidence_decisions')) {
       insights.push({
         id: `low_confidence_decisions_${Date.now()}`,
+        detector: 'low_confidence_decisions',
+        fingerprint: 'low_confidence_decisions',
         type: 'optimization',
         severity: 'medium',
         title: 'High Rate of Low-Confidence Decisions',
@@ -397,9 +636,11 @@ export class InsightsGenerator {
     const slowDecisions = executionTimes.filter(time => time > 100).length; // >100ms
     const slowDecisionPercent = (slowDecisions / decisionResults.length) * 100;
     
-    if (avgExecutionTime > 75 || slowDecisionPercent > 20) {
+    if (avgExecutionTime > this.getThreshold('slow_decisions') || slowDecisionPercent > 20) {
       insights.push({
         id: `slow_decision_performance_${Date.now()}`,
+        detector: 'slow_decisions',
+        fingerprint: 'slow_decisions',
         type: 'optimization',
         severity: avgExecutionTime > 150 ? 'high' : 'medium',
         title: 'Decision Engine Performance Issues',
@@ -438,11 +679,13 @@ export class InsightsGenerator {
     const highValueCustomers = customerContexts.filter(ctx => ctx.behavioral.lifetimeValue > 1000);
     const highValuePercent = (highValueCustomers.length / customerContexts.length) * 100;
     
-    if (highValuePercent < 10 && highValueCustomers.length > 0) {
+    if (highValuePercent < this.getThreshold('high_value_segment') && highValueCustomers.length > 0) {
       const avgHighValue = highValueCustomers.reduce((sum, ctx) => sum + ctx.behavioral.lifetimeValue, 0) / highValueCustomers.length;
       
       insights.push({
         id: `high_value_segment_opportunity_${Date.now()}`,
+        detector: 'high_value_segment',
+        fingerprint: 'high_value_segment',
         type: 'opportunity',
         severity: 'high',
         title: 'High-Value Customer Segment Opportunity',
@@ -472,7 +715,7 @@ export class InsightsGenerator {
     const customersWithMultiplePurchases = customerContexts.filter(ctx => ctx.behavioral.totalPurchases > 1);
     const crossSellRate = (customersWithMultiplePurchases.length / customerContexts.length) * 100;
     
-    if (crossSellRate < 30) {
+    if (crossSellRate < this.getThreshold('cross_sell')) {
       const potentialCrossSellCustomers = customerContexts.filter(ctx => 
         ctx.behavioral.totalPurchases === 1 && 
         ctx.behavioral.engagementScore > 60
@@ -480,6 +723,8 @@ export class InsightsGenerator {
       
       insights.push({
         id: `cross_sell_opportunity_${Date.now()}`,
+        detector: 'cross_sell',
+        fingerprint: 'cross_sell',
         type: 'opportunity',
         severity: 'medium',
         title: 'Cross-Sell Opportunity Identified',
@@ -512,12 +757,15 @@ export class InsightsGenerator {
       return daysSinceLogin > 30 && ctx.behavioral.lifetimeValue > 0;
     });
     
-    if (inactiveCustomers.length > 0) {
-      const inactivePercent = (inactiveCustomers.length / customerContexts.length) * 100;
+    const inactivePercent = (inactiveCustomers.length / customerContexts.length) * 100;
+    
+    if (inactiveCustomers.length > 0 && inactivePercent > this.getThreshold('reengagement')) {
       const avgInactiveValue = inactiveCustomers.reduce((sum, ctx) => sum + ctx.behavioral.lifetimeValue, 0) / inactiveCustomers.length;
       
       insights.push({
         id: `reengagement_opportunity_${Date.now()}`,
+        detector: 'reengagement',
+        fingerprint: 'reengagement',
         type: 'opportunity',
         severity: 'medium',
         title: 'Customer Re-engagement Opportunity',
@@ -570,9 +818,11 @@ export class InsightsGenerator {
       const recentDrift = driftScores.slice(-5).reduce((sum, score) => sum + score, 0) / 5;
       const baselineDrift = driftScores.slice(0, 10).reduce((sum, score) => sum + score, 0) / 10;
       
-      if (recentDrift > 0.3 || recentDrift > baselineDrift * 2) {
+      if (recentDrift > this.getThreshold('model_drift') || recentDrift > baselineDrift * 2) {
         insights.push({
           id: `model_drift_${modelId}_${Date.now()}`,
+          detector: 'model_drift',
+          fingerprint: `model_drift:${modelId}`,
           type: 'risk',
           severity: recentDrift > 0.5 ? 'critical' : 'high',
           title: `Model Drift Detected`,
@@ -602,6 +852,44 @@ export class InsightsGenerator {
     return insights;
   }
 
+  private analyzeFeatureDrift(reports: FeatureDriftReport[]): AIInsight[] {
+    return reports
+      .filter(report => report.drifted && report.psi > report.threshold + this.getThreshold('feature_drift'))
+      .map(report => {
+        const ksDetail = report.ks
+          ? `, KS statistic ${report.ks.statistic.toFixed(3)} (p=${report.ks.pValue.toFixed(4)})`
+          : '';
+        
+        return {
+          id: `feature_drift_${report.feature}_${Date.now()}`,
+          detector: 'feature_drift',
+          fingerprint: `feature_drift:${report.feature}`,
+          type: 'risk' as const,
+          severity: report.psi > 0.5 ? 'critical' as const : report.psi > 0.25 ? 'high' as const : 'medium' as const,
+          title: `Feature Drift: ${report.feature}`,
+          description: `Feature ${report.feature} has shifted from its baseline distribution (PSI ${report.psi.toFixed(3)}, threshold ${report.threshold}${ksDetail}). Models using it may be scoring on inputs they were not trained on.`,
+          confidence: report.ks ? 1 - report.ks.pValue : Math.min(0.95, 0.5 + report.psi),
+          impact: {
+            estimated_revenue: -Math.round(report.psi * 100000),
+            estimated_customers: report.currentCount,
+            timeline: '1-2 weeks'
+          },
+          recommendations: [
+            `Check the upstream source and computation of ${report.feature} for pipeline changes`,
+            `Compare the current and baseline profiles of ${report.feature}`,
+            'Retrain affected models on recent data if the shift is genuine',
+            'Reset the drift baseline once the new distribution is accepted'
+          ],
+          evidence: {
+            data_points: report.baselineCount + report.currentCount,
+            time_period: '24 hours',
+            statistical_significance: report.ks ? 1 - report.ks.pValue : 0.9
+          },
+          createdAt: new Date()
+        };
+      });
+  }
+
   /**
    * Generate automatic recommendations based on patterns
    */
@@ -700,23 +988,32 @@ export class InsightsGenerator {
   }
 
   private initializeAnomalyDetectors(): void {
-    // Initialize anomaly detection algorithms
-    this.anomalyDetectors.set('accuracy_detector', {
-      threshold: 0.05, // 5% degradation
-      lookbackPeriod: 20,
-      sensitivity: 0.9
-    });
-    
-    this.anomalyDetectors.set('latency_detector', {
-      threshold: 2.0, // 100% increase
-      lookbackPeriod: 20,
-      sensitivity: 0.8
-    });
+    // Defaults reproduce the original fixed rules; limits bound how far feedback can relax them
+    const detectors: { [detector: string]: { threshold: number; step: number; limit: number } } = {
+      accuracy_degradation: { threshold: 0.05, step: 0.01, limit: 0.2 }, // accuracy drop vs. baseline
+      latency_spike: { threshold: 2.0, step: 0.25, limit: 5 }, // recent / baseline latency
+      low_engagement: { threshold: 50, step: 5, limit: 20 }, // average engagement below
+      high_churn_risk: { threshold: 20, step: 5, limit: 60 }, // % of customers above 70% churn risk
+      mobile_trend: { threshold: 0.7, step: 0.05, limit: 0.95 }, // mobile share of interactions
+      low_confidence_decisions: { threshold: 30, step: 5, limit: 70 }, // % of decisions under 50% confidence
+      slow_decisions: { threshold: 75, step: 25, limit: 500 }, // average decision time in ms
+      high_value_segment: { threshold: 10, step: 2, limit: 2 }, // % of customers above $1000 LTV, below
+      cross_sell: { threshold: 30, step: 5, limit: 5 }, // % of repeat purchasers, below
+      reengagement: { threshold: 0, step: 5, limit: 50 }, // % of customers inactive for 30+ days
+      model_drift: { threshold: 0.3, step: 0.05, limit: 0.8 }, // recent average drift score
+      feature_drift: { threshold: 0, step: 0.05, limit: 1 } // PSI margin over the monitor's threshold
+    };
     
-    this.anomalyDetectors.set('drift_detector', {
-      threshold: 0.3, // 30% drift
-      lookbackPeriod: 50,
-      sensitivity: 0.85
+    Object.entries(detectors).forEach(([detector, { threshold, step, limit }]) => {
+      this.anomalyDetectors.set(detector, {
+        detector,
+        threshold,
+        defaultThreshold: threshold,
+        limit,
+        step,
+        dismissals: 0,
+        confirmations: 0
+      });
     });
     
     console.log('[InsightsGenerator] Initialized anomaly detectors');
@@ -730,12 +1027,17 @@ export class InsightsGenerator {
     const toDelete: string[] = [];
     
     this.insights.forEach((insight, id) => {
-      if (insight.createdAt.getTime() < cutoff && insight.dismissed) {
+      const lastSeen = (insight.lastSeenAt || insight.createdAt).getTime();
+      if (lastSeen < cutoff && (insight.dismissed || insight.status === 'resolved')) {
         toDelete.push(id);
       }
     });
     
-    toDelete.forEach(id => this.insights.delete(id));
+    toDelete.forEach(id => {
+      const fingerprint = this.insights.get(id)?.fingerprint;
+      if (fingerprint) this.fingerprints.delete(fingerprint);
+      this.insights.delete(id);
+    });
     
     if (toDelete.length > 0) {
       console.log(`[InsightsGenerator] Cleaned up ${toDelete.length} old insights`);
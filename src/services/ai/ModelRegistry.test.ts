@@ -0,0 +1,262 @@
+// src/services/ai/ModelRegistry.test.ts
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MLModel, ModelPerformanceMetrics } from '../../types/ai';
+import { ModelRegistry } from './ModelRegistry';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+// A new churn model version in development, derived from the production model
+const churnVersion = (registry: ModelRegistry, version: string, overrides: Partial<MLModel> = {}): MLModel => ({
+  ...structuredClone(registry.getModel('churn_prediction_v1')!),
+  id: `churn_${version}`,
+  version,
+  status: 'ready',
+  ...overrides,
+  deployment: { ...registry.getModel('churn_prediction_v1')!.deployment, environment: 'development' }
+});
+
+const stages = (registry: ModelRegistry, familyId: string) =>
+  registry.getModelFamily(familyId)!.versions.map(version => [version.version, version.stage]);
+
+// Deployments take two simulated seconds and fail at random
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(Math, 'random').mockReturnValue(0.5);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const settle = async <T>(operation: Promise<T>): Promise<T> => {
+  await vi.advanceTimersByTimeAsync(2000);
+  return operation;
+};
+
+describe('model families', () => {
+  it('registers versions with their lineage', async () => {
+    const registry = new ModelRegistry();
+    await registry.registerModel(churnVersion(registry, '1.1.0'));
+    await registry.registerModel(churnVersion(registry, '1.0.1'), { parentVersion: '1.0.0' });
+
+    const tree = registry.getLineageTree('churn_prediction');
+    const shape = (node: typeof tree[number]): any => [node.version.version, node.children.map(shape)];
+    expect(tree.map(shape)).toEqual([['0.9.0', [['1.0.0', [['1.1.0', []], ['1.0.1', []]]]]]]);
+  });
+
+  it('rejects duplicate versions and unknown parents', async () => {
+    const registry = new ModelRegistry();
+    await expect(registry.registerModel(churnVersion(registry, '1.0.0'))).rejects.toThrow('Version 1.0.0 of model family churn_prediction already exists');
+    await expect(registry.registerModel(churnVersion(registry, '2.0.0'), { parentVersion: '1.5.0' }))
+      .rejects.toThrow('Parent version 1.5.0 not found in model family churn_prediction');
+  });
+
+  it('stores a new version that reuses a model ID under the family', async () => {
+    const registry = new ModelRegistry();
+    const modelId = await registry.registerModel(churnVersion(registry, '1.2.0', { id: 'churn_prediction_v1' }));
+
+    expect(modelId).toBe('churn_prediction@1.2.0');
+    expect(registry.getModel('churn_prediction_v1')?.version).toBe('1.0.0');
+  });
+
+  it('freezes the lineage recorded for a version', async () => {
+    const registry = new ModelRegistry();
+    const model = churnVersion(registry, '1.1.0');
+    await registry.registerModel(model);
+    model.metadata.features.push('added_later');
+
+    const version = registry.getModelFamily('churn_prediction')!.versions[2];
+    expect(version.features).not.toContain('added_later');
+    expect(Object.isFrozen(version.hyperparameters)).toBe(true);
+  });
+});
+
+describe('promotion and rollback', () => {
+  it('promotes a version through staging to production and archives the one it replaces', async () => {
+    const registry = new ModelRegistry();
+    await registry.registerModel(churnVersion(registry, '1.1.0'));
+
+    expect(await registry.promoteModel('churn_1.1.0')).toBe('staging');
+    expect(await settle(registry.promoteModel('churn_1.1.0', 'Better recall'))).toBe('production');
+
+    expect(stages(registry, 'churn_prediction')).toEqual([['0.9.0', 'archived'], ['1.0.0', 'archived'], ['1.1.0', 'production']]);
+    expect(registry.getModelFamily('churn_prediction')?.productionVersion).toBe('1.1.0');
+    expect(registry.getModel('churn_prediction_v1')?.status).toBe('deprecated');
+    expect(registry.getModel('churn_1.1.0')?.status).toBe('deployed');
+
+    const history = registry.getModelFamily('churn_prediction')!.versions[2].stageHistory;
+    expect(history.map(entry => [entry.stage, entry.reason])).toEqual([
+      ['development', 'Registered'],
+      ['staging', 'Promoted from development'],
+      ['production', 'Better recall']
+    ]);
+
+    await expect(registry.promoteModel('churn_1.1.0')).rejects.toThrow('Model churn_1.1.0 is already in production');
+    await expect(registry.promoteModel('churn_prediction_v1')).rejects.toThrow('is archived; use rollback to restore it');
+  });
+
+  it('rolls back to any earlier version', async () => {
+    const registry = new ModelRegistry();
+    await registry.registerModel(churnVersion(registry, '1.1.0'));
+    await registry.promoteModel('churn_1.1.0');
+    await settle(registry.promoteModel('churn_1.1.0'));
+
+    await settle(registry.rollbackModel('churn_prediction', '0.9.0'));
+    expect(stages(registry, 'churn_prediction')).toEqual([['0.9.0', 'production'], ['1.0.0', 'archived'], ['1.1.0', 'archived']]);
+    const history = registry.getModelFamily('churn_prediction')!.versions[0].stageHistory;
+    expect(history[history.length - 1].reason).toBe('Rollback from v1.1.0');
+
+    // Any version's ID identifies the family
+    await settle(registry.rollbackModel('churn_1.1.0', '1.1.0'));
+    expect(registry.getModelFamily('churn_prediction')?.productionVersion).toBe('1.1.0');
+  });
+
+  it('refuses rollbacks to the production or an unknown version', async () => {
+    const registry = new ModelRegistry();
+    await expect(registry.rollbackModel('churn_prediction', '1.0.0')).rejects.toThrow('Version 1.0.0 of model churn_prediction is already in production');
+    await expect(registry.rollbackModel('churn_prediction', '3.0.0')).rejects.toThrow('Target version 3.0.0 not found for model churn_prediction');
+    await expect(registry.rollbackModel('unknown', '1.0.0')).rejects.toThrow('Model not found: unknown');
+  });
+
+  it('marks a version that fails to deploy as errored and keeps the old one in production', async () => {
+    const registry = new ModelRegistry();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await registry.registerModel(churnVersion(registry, '1.1.0'));
+    await registry.promoteModel('churn_1.1.0');
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.01);
+    const promotion = registry.promoteModel('churn_1.1.0');
+    const failed = expect(promotion).rejects.toThrow('Deployment failed: Infrastructure error');
+    await vi.advanceTimersByTimeAsync(2000);
+    await failed;
+
+    expect(registry.getModel('churn_1.1.0')?.status).toBe('error');
+    expect(registry.getModelFamily('churn_prediction')?.productionVersion).toBe('1.0.0');
+  });
+});
+
+describe('challengers', () => {
+  // A gradient-boosted churn model in its own family, challenging the production churn model
+  const challenger = (registry: ModelRegistry) => churnVersion(registry, '1.0.0', { id: 'churn_gbm', familyId: 'churn_gbm' });
+
+  const performance = (modelId: string, accuracy: number, latency = 20): ModelPerformanceMetrics => ({
+    modelId,
+    timestamp: new Date(),
+    metrics: { accuracy, precision: accuracy, recall: accuracy, f1Score: accuracy, latency, throughput: 100 },
+    dataQuality: { missingValues: 0, outliers: 0, drift: 0, bias: 0 },
+    businessMetrics: { conversionRate: 0, revenue: 0, customerSatisfaction: 0, retention: 0 }
+  });
+
+  const route = (registry: ModelRegistry, customers: number) =>
+    Array.from({ length: customers }, (_, i) => registry.routeRequest('churn_prediction', 't1', `c${i}`));
+
+  it('needs a ready model and a production champion with the same purpose', async () => {
+    const registry = new ModelRegistry();
+    await registry.registerModel(challenger(registry));
+    await registry.registerModel({ ...challenger(registry), id: 'churn_training', familyId: 'churn_training', status: 'training' });
+    await registry.registerModel({ ...challenger(registry), id: 'ranker', familyId: 'ranker', purpose: 'recommendation' });
+
+    expect(() => registry.startChallenger('churn_training', { mode: 'shadow' })).toThrow('Model churn_training cannot be a challenger. Current status: training');
+    expect(() => registry.startChallenger('ranker', { mode: 'shadow' })).toThrow('No production model for recommendation to challenge');
+    expect(() => registry.startChallenger('churn_gbm', { mode: 'canary', trafficPercentage: 120 })).toThrow('Canary traffic percentage must be between 0 and 100');
+
+    registry.startChallenger('churn_gbm', { mode: 'shadow' });
+    expect(() => registry.startChallenger('churn_gbm', { mode: 'shadow' })).toThrow('A challenger is already running for churn_prediction');
+  });
+
+  it('serves a sticky share of customers from a canary', async () => {
+    const registry = new ModelRegistry();
+    await registry.registerModel(challenger(registry));
+    registry.startChallenger('churn_gbm', { mode: 'canary', trafficPercentage: 20 });
+
+    const first = route(registry, 1000);
+    const share = first.filter(servedBy => servedBy === 'challenger').length / 1000;
+    expect(share).toBeGreaterThan(0.15);
+    expect(share).toBeLessThan(0.25);
+    expect(route(registry, 1000)).toEqual(first);
+    expect(registry.getChallenger('churn_prediction')?.requests).toEqual({ champion: 2000 - 2 * share * 1000, challenger: 2 * share * 1000 });
+  });
+
+  it('never serves a shadow challenger but counts every request it scores', async () => {
+    const registry = new ModelRegistry();
+    await registry.registerModel(challenger(registry));
+    registry.startChallenger('churn_gbm', { mode: 'shadow' });
+
+    expect(new Set(route(registry, 100))).toEqual(new Set(['champion']));
+    expect(registry.getChallenger('churn_prediction')?.requests).toEqual({ champion: 100, challenger: 100 });
+
+    registry.stopChallenger('churn_prediction');
+    expect(registry.getChallenger('churn_prediction')?.status).toBe('stopped');
+    expect(() => registry.stopChallenger('churn_prediction')).toThrow('No running challenger for churn_prediction');
+  });
+
+  it('only picks a winner once the challenger has scored enough requests', async () => {
+    const registry = new ModelRegistry();
+    await registry.registerModel(challenger(registry));
+    registry.startChallenger('churn_gbm', { mode: 'shadow', minRequests: 50, promotionMargin: 0.02 });
+    registry.recordPerformance('churn_prediction_v1', performance('churn_prediction_v1', 0.85));
+    registry.recordPerformance('churn_gbm', performance('churn_gbm', 0.9));
+
+    route(registry, 49);
+    expect(registry.compareChallenger('churn_prediction')).toMatchObject({ winner: 'undecided', challengerRequests: 49 });
+
+    route(registry, 1);
+    const comparison = registry.compareChallenger('churn_prediction');
+    expect(comparison).toMatchObject({ winner: 'challenger', championValue: 0.85, challengerValue: 0.9, championSamples: 1 });
+    expect(comparison?.improvement).toBeCloseTo(0.05, 10);
+  });
+
+  it('treats a smaller value as better for latency and error metrics', async () => {
+    const registry = new ModelRegistry();
+    await registry.registerModel(challenger(registry));
+    registry.startChallenger('churn_gbm', { mode: 'shadow', metric: 'latency', minRequests: 0, promotionMargin: 5 });
+    registry.recordPerformance('churn_prediction_v1', performance('churn_prediction_v1', 0.85, 20));
+    registry.recordPerformance('churn_gbm', performance('churn_gbm', 0.85, 40));
+
+    expect(registry.compareChallenger('churn_prediction')).toMatchObject({ winner: 'champion', improvement: -20 });
+  });
+
+  it('promotes a winning challenger over the champion of another family', async () => {
+    const registry = new ModelRegistry();
+    await registry.registerModel(challenger(registry));
+    registry.startChallenger('churn_gbm', { mode: 'canary', minRequests: 0 });
+    registry.recordPerformance('churn_prediction_v1', performance('churn_prediction_v1', 0.85));
+    registry.recordPerformance('churn_gbm', performance('churn_gbm', 0.9));
+
+    const promoted = await settle(registry.evaluateChallenger('churn_prediction'));
+    expect(promoted?.id).toBe('churn_gbm');
+    expect(registry.getChallenger('churn_prediction')?.status).toBe('promoted');
+    expect(registry.getModel('churn_prediction_v1')?.status).toBe('deprecated');
+    expect(stages(registry, 'churn_prediction')).toEqual([['0.9.0', 'archived'], ['1.0.0', 'archived']]);
+    expect(registry.getModelFamily('churn_gbm')?.productionVersion).toBe('1.0.0');
+
+    // The challenge is over
+    expect(registry.routeRequest('churn_prediction', 't1', 'c1')).toBe('champion');
+  });
+
+  it('leaves the champion in place when auto-promotion is off or the champion wins', async () => {
+    const registry = new ModelRegistry();
+    await registry.registerModel(challenger(registry));
+    registry.startChallenger('churn_gbm', { mode: 'shadow', minRequests: 0, autoPromote: false });
+    registry.recordPerformance('churn_prediction_v1', performance('churn_prediction_v1', 0.85));
+    registry.recordPerformance('churn_gbm', performance('churn_gbm', 0.95));
+    expect(await registry.evaluateChallenger('churn_prediction')).toBeNull();
+
+    registry.stopChallenger('churn_prediction');
+    registry.startChallenger('churn_gbm', { mode: 'shadow', minRequests: 0 });
+    registry.recordPerformance('churn_gbm', performance('churn_gbm', 0.8));
+    registry.recordPerformance('churn_gbm', performance('churn_gbm', 0.8));
+    expect(await registry.evaluateChallenger('churn_prediction')).toBeNull();
+    expect(registry.getModelFamily('churn_prediction')?.productionVersion).toBe('1.0.0');
+  });
+
+  it('ends the challenge when another version reaches production', async () => {
+    const registry = new ModelRegistry();
+    await registry.registerModel(challenger(registry));
+    registry.startChallenger('churn_gbm', { mode: 'shadow' });
+
+    await settle(registry.rollbackModel('churn_prediction', '0.9.0'));
+    expect(registry.getChallenger('churn_prediction')?.status).toBe('stopped');
+  });
+});
@@ -1,32 +1,175 @@
 // src/services/ai/ModelRegistry.ts
 
-import { MLModel, ModelPerformanceMetrics } from '../../types/ai';
+import {
+  ChallengerComparison,
+  ChallengerDeployment,
+  ChallengerMode,
+  MLModel,
+  ModelComparisonMetric,
+  ModelFamily,
+  ModelLineageNode,
+  ModelPerformanceMetrics,
+  ModelStage,
+  ModelVersion,
+  ShadowPrediction
+} from '../../types/ai';
+import { CompiledModel, compileModelArtifact, validateModelArtifact } from './ModelRuntime';
+
+export interface ModelLineageInput {
+  parentVersion?: string; // defaults to the family's latest version
+  trainingData?: ModelVersion['trainingData'];
+}
+
+export interface ChallengerOptions {
+  mode: ChallengerMode;
+  trafficPercentage?: number; // canary only, defaults to 10
+  metric?: ModelComparisonMetric; // defaults to accuracy
+  minRequests?: number; // defaults to 1000
+  promotionMargin?: number; // defaults to 0.01
+  autoPromote?: boolean; // defaults to true
+}
+
+const MAX_SHADOW_PREDICTIONS = 1000;
+
+// Metrics where a smaller value means a better model
+const LOWER_IS_BETTER: ModelComparisonMetric[] = ['latency', 'rmse', 'mae'];
+
+const STAGE_ORDER: MLModel['deployment']['environment'][] = ['development', 'staging', 'production'];
+
+/**
+ * Arrange a family's versions into trees by parent version
+ */
+export function buildLineageTree(versions: ModelVersion[]): ModelLineageNode[] {
+  const nodes = new Map<string, ModelLineageNode>();
+  versions.forEach(version => nodes.set(version.version, { version, children: [] }));
+
+  const roots: ModelLineageNode[] = [];
+  versions.forEach(version => {
+    const parent = version.parentVersion ? nodes.get(version.parentVersion) : undefined;
+    if (parent) {
+      parent.children.push(nodes.get(version.version)!);
+    } else {
+      roots.push(nodes.get(version.version)!);
+    }
+  });
+  return roots;
+}
 
 export class ModelRegistry {
   private models: Map<string, MLModel> = new Map();
+  private families: Map<string, { id: string; name: string; purpose: MLModel['purpose'] }> = new Map();
+  private versions: Map<string, ModelVersion[]> = new Map();
   private performanceHistory: Map<string, ModelPerformanceMetrics[]> = new Map();
   private deploymentQueue: Map<string, 'pending' | 'deploying' | 'deployed' | 'failed'> = new Map();
+  private challengers: Map<string, ChallengerDeployment> = new Map();
+  private shadowPredictions: ShadowPrediction[] = [];
+  private runtimes: Map<string, CompiledModel> = new Map();
 
   constructor() {
     this.initializeDefaultModels();
   }
 
   /**
-   * Register a new model in the registry
+   * Register a model as a new version of its family (`familyId`, or its own ID for a new
+   * family). A new version of an existing model that reuses its ID is stored as
+   * `<familyId>@<version>`. Returns the ID the model was stored under.
    */
-  async registerModel(model: MLModel): Promise<void> {
+  async registerModel(model: MLModel, lineage?: ModelLineageInput): Promise<string> {
     console.log(`[ModelRegistry] Registering model: ${model.name} v${model.version}`);
     
     // Validate model configuration
     this.validateModel(model);
     
+    const familyId = model.familyId || this.models.get(model.id)?.familyId || model.id;
+    const familyVersions = this.versions.get(familyId) || [];
+    
+    if (familyVersions.some(version => version.version === model.version)) {
+      throw new Error(`Version ${model.version} of model family ${familyId} already exists`);
+    }
+    
+    const existing = this.models.get(model.id);
+    if (existing && existing.familyId !== familyId) {
+      throw new Error(`Model with ID ${model.id} already exists`);
+    }
+    
+    const modelId = existing ? `${familyId}@${model.version}` : model.id;
+    const stored: MLModel = { ...model, id: modelId, familyId };
+    
     // Store the model
-    this.models.set(model.id, model);
+    this.models.set(modelId, stored);
+    this.recordVersion(stored, lineage);
     
     // Initialize performance tracking
-    this.performanceHistory.set(model.id, []);
+    this.performanceHistory.set(modelId, []);
+    
+    console.log(`[ModelRegistry] Model registered successfully: ${modelId}`);
+    return modelId;
+  }
+
+  /**
+   * Get all model families with their version history
+   */
+  getModelFamilies(): ModelFamily[] {
+    return Array.from(this.families.keys())
+      .map(familyId => this.getModelFamily(familyId))
+      .filter((family): family is ModelFamily => family !== undefined);
+  }
+
+  /**
+   * Get a model family with its version history, oldest version first
+   */
+  getModelFamily(familyId: string): ModelFamily | undefined {
+    const family = this.families.get(familyId);
+    if (!family) return undefined;
+    
+    const versions = [...(this.versions.get(familyId) || [])];
+    return {
+      ...family,
+      versions,
+      productionVersion: versions.find(version => version.stage === 'production')?.version
+    };
+  }
+
+  /**
+   * Get a family's versions arranged by the version each was derived from
+   */
+  getLineageTree(familyId: string): ModelLineageNode[] {
+    return buildLineageTree(this.versions.get(familyId) || []);
+  }
+
+  /**
+   * Move a model version to the next stage: development → staging → production.
+   * Promoting to production deploys it and archives the version it replaces.
+   */
+  async promoteModel(modelId: string, reason?: string): Promise<ModelStage> {
+    const model = this.models.get(modelId);
+    const version = this.getVersionRecord(modelId);
+    if (!model || !version) {
+      throw new Error(`Model not found: ${modelId}`);
+    }
     
-    console.log(`[ModelRegistry] Model registered successfully: ${model.id}`);
+    if (version.stage === 'archived') {
+      throw new Error(`Model ${modelId} is archived; use rollback to restore it`);
+    }
+    
+    const nextStage = STAGE_ORDER[STAGE_ORDER.indexOf(version.stage) + 1];
+    if (!nextStage) {
+      throw new Error(`Model ${modelId} is already in ${version.stage}`);
+    }
+    
+    console.log(`[ModelRegistry] Promoting model ${modelId} from ${version.stage} to ${nextStage}`);
+    
+    if (nextStage === 'production') {
+      // A staging deployment is redeployed rather than rebuilt
+      if (model.status === 'deployed') model.status = 'ready';
+      await this.deployModel(modelId, 'production', reason || 'Promoted from staging');
+    } else {
+      model.deployment.environment = nextStage;
+      this.models.set(modelId, model);
+      this.setStage(version, nextStage, reason || `Promoted from ${version.stage}`);
+    }
+    
+    return nextStage;
   }
 
   /**
@@ -36,6 +179,33 @@ export class ModelRegistry {
     return this.models.get(modelId);
   }
 
+  /**
+   * Load a model's artifact into an in-browser scorer
+   */
+  loadModelRuntime(modelId: string): CompiledModel {
+    const cached = this.runtimes.get(modelId);
+    if (cached) return cached;
+    
+    const model = this.models.get(modelId);
+    if (!model) {
+      throw new Error(`Model not found: ${modelId}`);
+    }
+    if (!model.artifact) {
+      throw new Error(`Model ${modelId} has no executable artifact`);
+    }
+    
+    const runtime = compileModelArtifact(model.artifact);
+    this.runtimes.set(modelId, runtime);
+    return runtime;
+  }
+
+  /**
+   * Score a feature map with a model's artifact
+   */
+  predict(modelId: string, features: Record<string, any>): number {
+    return this.loadModelRuntime(modelId).predict(features);
+  }
+
   /**
    * Get all models with optional filtering
    */
@@ -93,9 +263,9 @@ export class ModelRegistry {
   }
 
   /**
-   * Deploy a model to production
+   * Deploy a model to production. The family's previous production version is archived.
    */
-  async deployModel(modelId: string, environment: string = 'production'): Promise<void> {
+  async deployModel(modelId: string, environment: string = 'production', reason: string = 'Deployed'): Promise<void> {
     const model = this.models.get(modelId);
     if (!model) {
       throw new Error(`Model not found: ${modelId}`);
@@ -120,6 +290,15 @@ export class ModelRegistry {
       this.deploymentQueue.set(modelId, 'deployed');
       this.models.set(modelId, model);
       
+      const version = this.getVersionRecord(modelId);
+      if (version) {
+        if (environment === 'production') {
+          this.archiveProductionVersions(version.familyId, modelId, `Replaced by v${version.version}`);
+          this.endChallenger(model);
+        }
+        this.setStage(version, environment as ModelStage, reason);
+      }
+      
       console.log(`[ModelRegistry] Model ${modelId} deployed successfully to ${environment}`);
       
     } catch (error) {
@@ -133,29 +312,262 @@ export class ModelRegistry {
   }
 
   /**
-   * Rollback to previous model version
+   * Restore any prior version of a model family to production. `modelId` may be the
+   * family ID or the ID of any of its versions.
    */
   async rollbackModel(modelId: string, targetVersion: string): Promise<void> {
-    const model = this.models.get(modelId);
-    if (!model) {
+    const familyId = this.families.has(modelId) ? modelId : this.models.get(modelId)?.familyId;
+    if (!familyId) {
       throw new Error(`Model not found: ${modelId}`);
     }
     
-    console.log(`[ModelRegistry] Rolling back model ${modelId} to version ${targetVersion}`);
+    console.log(`[ModelRegistry] Rolling back model ${familyId} to version ${targetVersion}`);
     
-    // In a real implementation, this would:
-    // 1. Find the target version in version history
-    // 2. Redeploy that version
-    // 3. Update routing to use the old version
-    
-    // For now, simulate rollback
-    const previousVersion = this.findPreviousVersion(modelId, targetVersion);
-    if (previousVersion) {
-      await this.deployModel(previousVersion.id);
-      console.log(`[ModelRegistry] Rollback completed for model ${modelId}`);
-    } else {
-      throw new Error(`Target version ${targetVersion} not found for model ${modelId}`);
+    const previousVersion = this.findPreviousVersion(familyId, targetVersion);
+    if (!previousVersion) {
+      throw new Error(`Target version ${targetVersion} not found for model ${familyId}`);
+    }
+    
+    const current = this.getModelFamily(familyId)?.productionVersion;
+    if (current === targetVersion) {
+      throw new Error(`Version ${targetVersion} of model ${familyId} is already in production`);
+    }
+    
+    // Archived versions are deprecated; make the target deployable again
+    previousVersion.status = 'ready';
+    await this.deployModel(previousVersion.id, 'production', current ? `Rollback from v${current}` : 'Rollback');
+    
+    console.log(`[ModelRegistry] Rollback completed for model ${familyId}`);
+  }
+
+  /**
+   * Run a model against the production model with the same purpose. In shadow mode the
+   * challenger scores every request without serving; in canary mode it serves a share of
+   * customers. Both are compared on recorded performance metrics.
+   */
+  startChallenger(challengerId: string, options: ChallengerOptions): ChallengerDeployment {
+    const challenger = this.models.get(challengerId);
+    if (!challenger) {
+      throw new Error(`Model not found: ${challengerId}`);
+    }
+    
+    if (challenger.status !== 'ready' && challenger.status !== 'deployed') {
+      throw new Error(`Model ${challengerId} cannot be a challenger. Current status: ${challenger.status}`);
+    }
+    
+    const champion = this.getModels({ status: 'deployed', purpose: challenger.purpose, environment: 'production' })
+      .find(model => model.id !== challengerId);
+    if (!champion) {
+      throw new Error(`No production model for ${challenger.purpose} to challenge`);
+    }
+    
+    if (this.challengers.get(challenger.purpose)?.status === 'running') {
+      throw new Error(`A challenger is already running for ${challenger.purpose}`);
+    }
+    
+    const trafficPercentage = options.mode === 'canary' ? options.trafficPercentage ?? 10 : 0;
+    if (trafficPercentage < 0 || trafficPercentage > 100) {
+      throw new Error('Canary traffic percentage must be between 0 and 100');
     }
+    
+    const deployment: ChallengerDeployment = {
+      purpose: challenger.purpose,
+      championId: champion.id,
+      challengerId,
+      mode: options.mode,
+      trafficPercentage,
+      metric: options.metric || 'accuracy',
+      minRequests: options.minRequests ?? 1000,
+      promotionMargin: options.promotionMargin ?? 0.01,
+      autoPromote: options.autoPromote ?? true,
+      status: 'running',
+      requests: { champion: 0, challenger: 0 },
+      startedAt: new Date()
+    };
+    
+    this.challengers.set(challenger.purpose, deployment);
+    console.log(`[ModelRegistry] Started ${options.mode} challenger ${challengerId} against ${champion.id}`);
+    
+    return deployment;
+  }
+
+  /**
+   * Stop a running challenger; the champion keeps serving all traffic
+   */
+  stopChallenger(purpose: MLModel['purpose']): void {
+    const deployment = this.challengers.get(purpose);
+    if (!deployment || deployment.status !== 'running') {
+      throw new Error(`No running challenger for ${purpose}`);
+    }
+    
+    deployment.status = 'stopped';
+    deployment.endedAt = new Date();
+    console.log(`[ModelRegistry] Stopped challenger ${deployment.challengerId}`);
+  }
+
+  /**
+   * Get challenger deployments, the latest one per purpose
+   */
+  getChallengers(filters?: { status?: ChallengerDeployment['status'] }): ChallengerDeployment[] {
+    return Array.from(this.challengers.values())
+      .filter(deployment => !filters?.status || deployment.status === filters.status);
+  }
+
+  getChallenger(purpose: MLModel['purpose']): ChallengerDeployment | undefined {
+    return this.challengers.get(purpose);
+  }
+
+  /**
+   * Decide whether the challenger or the champion serves a customer, and count the request.
+   * Canary assignment is sticky per customer.
+   */
+  routeRequest(purpose: MLModel['purpose'], tenantId: string, customerId: string): 'champion' | 'challenger' {
+    const deployment = this.challengers.get(purpose);
+    if (!deployment || deployment.status !== 'running') {
+      return 'champion';
+    }
+    
+    const servedBy = deployment.mode === 'canary' &&
+      this.hashString(`${tenantId}:${customerId}:${deployment.challengerId}`) % 100 < deployment.trafficPercentage
+      ? 'challenger'
+      : 'champion';
+    
+    // Shadow challengers score every request alongside the champion
+    if (servedBy === 'challenger' || deployment.mode === 'shadow') {
+      deployment.requests.challenger++;
+    }
+    if (servedBy === 'champion') {
+      deployment.requests.champion++;
+    }
+    
+    return servedBy;
+  }
+
+  /**
+   * Log what a shadow challenger would have scored
+   */
+  recordShadowPrediction(prediction: ShadowPrediction): void {
+    this.shadowPredictions.push(prediction);
+    if (this.shadowPredictions.length > MAX_SHADOW_PREDICTIONS) {
+      this.shadowPredictions.splice(0, this.shadowPredictions.length - MAX_SHADOW_PREDICTIONS);
+    }
+  }
+
+  /**
+   * Shadow predictions, newest first
+   */
+  getShadowPredictions(purpose?: MLModel['purpose'], limit: number = 100): ShadowPrediction[] {
+    return this.shadowPredictions
+      .filter(prediction => !purpose || prediction.purpose === purpose)
+      .slice(-limit)
+      .reverse();
+  }
+
+  /**
+   * Compare champion and challenger on the metrics recorded since the challenger started
+   */
+  compareChallenger(purpose: MLModel['purpose']): ChallengerComparison | null {
+    const deployment = this.challengers.get(purpose);
+    if (!deployment) return null;
+    
+    const since = deployment.startedAt.getTime();
+    const metricValues = (modelId: string) => (this.performanceHistory.get(modelId) || [])
+      .filter(entry => new Date(entry.timestamp).getTime() >= since)
+      .map(entry => entry.metrics[deployment.metric])
+      .filter((value): value is number => typeof value === 'number');
+    
+    const championValues = metricValues(deployment.championId);
+    const challengerValues = metricValues(deployment.challengerId);
+    const average = (values: number[]) => values.length > 0
+      ? values.reduce((sum, value) => sum + value, 0) / values.length
+      : undefined;
+    
+    const championValue = average(championValues);
+    const challengerValue = average(challengerValues);
+    const improvement = championValue !== undefined && challengerValue !== undefined
+      ? (LOWER_IS_BETTER.includes(deployment.metric) ? championValue - challengerValue : challengerValue - championValue)
+      : undefined;
+    
+    let winner: ChallengerComparison['winner'] = 'undecided';
+    if (improvement !== undefined && deployment.requests.challenger >= deployment.minRequests) {
+      winner = improvement >= deployment.promotionMargin ? 'challenger' : 'champion';
+    }
+    
+    return {
+      purpose,
+      championId: deployment.championId,
+      challengerId: deployment.challengerId,
+      metric: deployment.metric,
+      championValue,
+      challengerValue,
+      championSamples: championValues.length,
+      challengerSamples: challengerValues.length,
+      challengerRequests: deployment.requests.challenger,
+      improvement,
+      winner,
+      evaluatedAt: new Date()
+    };
+  }
+
+  /**
+   * Promote the challenger to production if auto-promotion is on and it has won.
+   * Returns the promoted model, or null if the champion stays.
+   */
+  async evaluateChallenger(purpose: MLModel['purpose']): Promise<MLModel | null> {
+    const deployment = this.challengers.get(purpose);
+    if (!deployment || deployment.status !== 'running' || !deployment.autoPromote) {
+      return null;
+    }
+    
+    if (this.deploymentQueue.get(deployment.challengerId) === 'deploying') {
+      return null;
+    }
+    
+    const comparison = this.compareChallenger(purpose);
+    if (comparison?.winner !== 'challenger') {
+      return null;
+    }
+    
+    return this.promoteChallenger(purpose);
+  }
+
+  /**
+   * Deploy the challenger to production, replacing the champion
+   */
+  async promoteChallenger(purpose: MLModel['purpose']): Promise<MLModel> {
+    const deployment = this.challengers.get(purpose);
+    if (!deployment || deployment.status !== 'running') {
+      throw new Error(`No running challenger for ${purpose}`);
+    }
+    
+    const challenger = this.models.get(deployment.challengerId);
+    const champion = this.models.get(deployment.championId);
+    if (!challenger) {
+      throw new Error(`Model not found: ${deployment.challengerId}`);
+    }
+    
+    console.log(`[ModelRegistry] Promoting challenger ${challenger.id} over ${deployment.championId}`);
+    
+    if (challenger.status === 'deployed') challenger.status = 'ready';
+    
+    try {
+      await this.deployModel(
+        challenger.id,
+        'production',
+        `Won against ${champion ? `v${champion.version}` : deployment.championId} on ${deployment.metric}`
+      );
+    } catch (error) {
+      deployment.status = 'stopped';
+      deployment.endedAt = new Date();
+      throw error;
+    }
+    
+    // Deployment only archives the challenger's own family
+    if (champion && champion.status === 'deployed') {
+      this.archiveProductionVersions(champion.familyId || champion.id, challenger.id, `Replaced by ${challenger.id}`);
+    }
+    
+    return challenger;
   }
 
   /**
@@ -322,11 +734,70 @@ export class ModelRegistry {
     if (!model.version) throw new Error('Model version is required');
     if (!model.type) throw new Error('Model type is required');
     if (!model.purpose) throw new Error('Model purpose is required');
+    if (model.artifact) validateModelArtifact(model.artifact);
+  }
+
+  private recordVersion(model: MLModel, lineage?: ModelLineageInput): void {
+    const familyId = model.familyId || model.id;
+    const familyVersions = this.versions.get(familyId) || [];
     
-    // Check for duplicate IDs
-    if (this.models.has(model.id)) {
-      throw new Error(`Model with ID ${model.id} already exists`);
+    if (!this.families.has(familyId)) {
+      this.families.set(familyId, { id: familyId, name: model.name, purpose: model.purpose });
+    }
+    
+    const { accuracy, precision, recall, f1Score } = model.metadata;
+    const metrics: { [metric: string]: number } = {};
+    Object.entries({ accuracy, precision, recall, f1Score }).forEach(([metric, value]) => {
+      if (value !== undefined) metrics[metric] = value;
+    });
+    
+    const stage: ModelStage = model.status === 'deprecated' ? 'archived' : model.deployment.environment;
+    const createdAt = new Date(model.metadata.createdAt);
+    
+    // Lineage fields are frozen copies so later edits to the model cannot rewrite history
+    const version: ModelVersion = {
+      modelId: model.id,
+      familyId,
+      version: model.version,
+      parentVersion: lineage?.parentVersion ?? familyVersions[familyVersions.length - 1]?.version,
+      createdAt,
+      trainingData: Object.freeze({ ...(lineage?.trainingData || { start: createdAt, end: new Date(model.metadata.lastTrained) }) }),
+      features: Object.freeze([...model.metadata.features]),
+      hyperparameters: Object.freeze({ ...model.metadata.hyperparameters }),
+      metrics: Object.freeze(metrics),
+      stage,
+      stageHistory: [{ stage, changedAt: new Date(), reason: 'Registered' }]
+    };
+    
+    if (version.parentVersion && !familyVersions.some(v => v.version === version.parentVersion)) {
+      throw new Error(`Parent version ${version.parentVersion} not found in model family ${familyId}`);
     }
+    
+    this.versions.set(familyId, [...familyVersions, version]);
+  }
+
+  private getVersionRecord(modelId: string): ModelVersion | undefined {
+    const familyId = this.models.get(modelId)?.familyId;
+    return familyId ? this.versions.get(familyId)?.find(version => version.modelId === modelId) : undefined;
+  }
+
+  private setStage(version: ModelVersion, stage: ModelStage, reason?: string): void {
+    if (version.stage === stage) return;
+    version.stage = stage;
+    version.stageHistory.push({ stage, changedAt: new Date(), reason });
+  }
+
+  private archiveProductionVersions(familyId: string, exceptModelId: string, reason: string): void {
+    (this.versions.get(familyId) || [])
+      .filter(version => version.stage === 'production' && version.modelId !== exceptModelId)
+      .forEach(version => {
+        const model = this.models.get(version.modelId);
+        if (model) {
+          model.status = 'deprecated';
+          this.models.set(model.id, model);
+        }
+        this.setStage(version, 'archived', reason);
+      });
   }
 
   private async simulateDeployment(model: MLModel, environment: string): Promise<void> {
@@ -352,10 +823,30 @@ export class ModelRegistry {
     this.models.set(model.id, model);
   }
 
-  private findPreviousVersion(modelId: string, targetVersion: string): MLModel | null {
-    // In a real implementation, this would query version history
-    // For now, return null to indicate no previous version found
-    return null;
+  /**
+   * A new production model ends the challenge for its purpose, whoever wins
+   */
+  private endChallenger(deployed: MLModel): void {
+    const deployment = this.challengers.get(deployed.purpose);
+    if (!deployment || deployment.status !== 'running') return;
+    
+    deployment.status = deployment.challengerId === deployed.id ? 'promoted' : 'stopped';
+    deployment.endedAt = new Date();
+  }
+
+  private hashString(str: string): number {
+    let hash = 0;
+    for (let i = 0; i < str.length; i++) {
+      const char = str.charCodeAt(i);
+      hash = ((hash << 5) - hash) + char;
+      hash = hash & hash; // Convert to 32-bit integer
+    }
+    return Math.abs(hash);
+  }
+
+  private findPreviousVersion(familyId: string, targetVersion: string): MLModel | null {
+    const version = this.versions.get(familyId)?.find(v => v.version === targetVersion);
+    return version ? this.models.get(version.modelId) || null : null;
   }
 
   private checkPerformanceDrift(model: MLModel, metrics: ModelPerformanceMetrics): void {
@@ -384,8 +875,50 @@ export class ModelRegistry {
 
   private initializeDefaultModels(): void {
     const defaultModels: MLModel[] = [
+      {
+        id: 'churn_prediction_v0',
+        familyId: 'churn_prediction',
+        name: 'Customer Churn Prediction',
+        version: '0.9.0',
+        type: 'classification',
+        purpose: 'churn_prediction',
+        status: 'deprecated',
+        metadata: {
+          description: 'Predicts likelihood of customer churn using historical behavior data',
+          createdAt: new Date('2023-11-20'),
+          lastTrained: new Date('2024-01-05'),
+          accuracy: 0.83,
+          precision: 0.80,
+          recall: 0.85,
+          f1Score: 0.82,
+          features: ['recency', 'frequency', 'monetary', 'support_tickets'],
+          targetVariable: 'will_churn',
+          algorithm: 'Logistic Regression',
+          hyperparameters: {
+            C: 1.0,
+            penalty: 'l2'
+          }
+        },
+        performance: {
+          accuracy: 0.83,
+          latency: 12,
+          throughput: 1500,
+          memoryUsage: 64,
+          lastEvaluated: new Date('2024-01-15')
+        },
+        deployment: {
+          environment: 'production',
+          endpoint: '/api/v1/models/churn-prediction/predict',
+          scalingConfig: {
+            minInstances: 2,
+            maxInstances: 10,
+            targetCPU: 75
+          }
+        }
+      },
       {
         id: 'churn_prediction_v1',
+        familyId: 'churn_prediction',
         name: 'Customer Churn Prediction',
         version: '1.0.0',
         type: 'classification',
@@ -399,7 +932,7 @@ export class ModelRegistry {
           precision: 0.84,
           recall: 0.89,
           f1Score: 0.86,
-          features: ['recency', 'frequency', 'monetary', 'engagement_score', 'support_tickets', 'last_login_days'],
+          features: ['recency', 'frequency', 'engagement_score', 'days_since_last_login', 'activity_level'],
           targetVariable: 'will_churn',
           algorithm: 'Gradient Boosting',
           hyperparameters: {
@@ -409,6 +942,16 @@ export class ModelRegistry {
             subsample: 0.8
           }
         },
+        artifact: {
+          format: 'logistic_regression',
+          features: ['recency', 'frequency', 'engagement_score', 'days_since_last_login', 'activity_level=low'],
+          intercept: -1.1,
+          coefficients: [-1.2, -0.8, -0.9, 0.6, 0.5],
+          normalization: {
+            mean: [0.5, 0.4, 55, 14, 0],
+            std: [0.3, 0.3, 20, 10, 1]
+          }
+        },
         performance: {
           accuracy: 0.87,
           latency: 28,
@@ -428,6 +971,7 @@ export class ModelRegistry {
       },
       {
         id: 'clv_forecasting_v1',
+        familyId: 'clv_forecasting',
         name: 'Customer Lifetime Value Forecasting',
         version: '1.0.0',
         type: 'regression',
@@ -438,7 +982,7 @@ export class ModelRegistry {
           createdAt: new Date('2024-02-01'),
           lastTrained: new Date('2024-06-15'),
           accuracy: 0.82,
-          features: ['total_purchases', 'avg_order_value', 'frequency', 'recency', 'customer_age', 'segment'],
+          features: ['total_purchases', 'avg_order_value', 'frequency', 'recency'],
           targetVariable: 'clv_12m',
           algorithm: 'Random Forest',
           hyperparameters: {
@@ -447,6 +991,18 @@ export class ModelRegistry {
             min_samples_split: 5
           }
         },
+        artifact: {
+          format: 'mlp',
+          features: ['total_purchases', 'avg_order_value', 'frequency', 'recency'],
+          layers: [
+            { weights: [[0.6, 0.5, 0.3, 0.2], [0.2, 0.4, 0.1, 0.5]], bias: [0.1, 0], activation: 'relu' },
+            { weights: [[420, 260]], bias: [650], activation: 'linear' }
+          ],
+          normalization: {
+            mean: [5, 80, 0.5, 0.5],
+            std: [4, 50, 0.3, 0.3]
+          }
+        },
         performance: {
           accuracy: 0.82,
           latency: 35,
@@ -466,6 +1022,7 @@ export class ModelRegistry {
       },
       {
         id: 'propensity_scoring_v1',
+        familyId: 'propensity_scoring',
         name: 'Purchase Propensity Scoring',
         version: '1.0.0',
         type: 'classification',
@@ -479,7 +1036,7 @@ export class ModelRegistry {
           precision: 0.76,
           recall: 0.82,
           f1Score: 0.79,
-          features: ['browsing_sessions', 'cart_additions', 'email_opens', 'time_since_last_purchase', 'season'],
+          features: ['engagement_score', 'page_views_session', 'session_duration', 'total_purchases', 'avg_order_value'],
           targetVariable: 'will_purchase_30d',
           algorithm: 'XGBoost',
           hyperparameters: {
@@ -488,6 +1045,25 @@ export class ModelRegistry {
             learning_rate: 0.15
           }
         },
+        artifact: {
+          format: 'gradient_boosted_trees',
+          features: ['engagement_score', 'page_views_session', 'session_duration', 'total_purchases', 'avg_order_value'],
+          baseMargin: -0.8,
+          objective: 'binary:logistic',
+          trees: [
+            {
+              feature: 0, threshold: 50,
+              left: { leaf: -0.4 },
+              right: { feature: 1, threshold: 4, left: { leaf: 0.2 }, right: { leaf: 0.6 } }
+            },
+            {
+              feature: 3, threshold: 3,
+              left: { leaf: -0.2 },
+              right: { feature: 4, threshold: 100, left: { leaf: 0.15 }, right: { leaf: 0.35 } }
+            },
+            { feature: 2, threshold: 300, left: { leaf: -0.1 }, right: { leaf: 0.25 } }
+          ]
+        },
         performance: {
           accuracy: 0.79,
           latency: 22,
@@ -510,6 +1086,7 @@ export class ModelRegistry {
     // Register all default models
     defaultModels.forEach(model => {
       this.models.set(model.id, model);
+      this.recordVersion(model);
       this.performanceHistory.set(model.id, []);
     });
 
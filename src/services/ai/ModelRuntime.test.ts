@@ -0,0 +1,171 @@
+// src/services/ai/ModelRuntime.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  GradientBoostedTreesArtifact,
+  LogisticRegressionArtifact,
+  ModelArtifact,
+  MultilayerPerceptronArtifact
+} from '../../types/ai';
+import { compileModelArtifact, toFeatureVector, validateModelArtifact } from './ModelRuntime';
+
+const sigmoid = (value: number) => 1 / (1 + Math.exp(-value));
+
+const logistic: LogisticRegressionArtifact = {
+  format: 'logistic_regression',
+  features: ['visits', 'is_member'],
+  intercept: -1,
+  coefficients: [0.5, 2],
+  normalization: { mean: [10, 0], std: [2, 1] }
+};
+
+const trees: GradientBoostedTreesArtifact = {
+  format: 'gradient_boosted_trees',
+  features: ['spend', 'recent'],
+  baseMargin: 0,
+  objective: 'reg:squarederror',
+  trees: [
+    { feature: 0, threshold: 5, left: { leaf: -1 }, right: { leaf: 1 }, defaultLeft: false },
+    {
+      feature: 1,
+      threshold: 0.5,
+      left: { leaf: 0.2 },
+      right: { feature: 0, threshold: 10, left: { leaf: 0.4 }, right: { leaf: 0.6 } }
+    }
+  ]
+};
+
+const mlp: MultilayerPerceptronArtifact = {
+  format: 'mlp',
+  features: ['x', 'y'],
+  layers: [
+    { weights: [[1, -1], [1, 1]], bias: [0, 0], activation: 'relu' },
+    { weights: [[1, 0.5]], bias: [0.1], activation: 'linear' }
+  ]
+};
+
+describe('toFeatureVector', () => {
+  it('reads numbers, booleans, dates and one-hot categories', () => {
+    const at = new Date('2024-01-01T00:00:00Z');
+    expect(toFeatureVector(
+      ['score', 'active', 'seen', 'plan=pro', 'plan=free', 'name', 'missing'],
+      { score: 3, active: true, seen: at, plan: 'pro', name: 'Ada' }
+    )).toEqual([3, 1, at.getTime(), 1, 0, null, null]);
+  });
+
+  it('leaves a one-hot feature missing when its category is', () => {
+    expect(toFeatureVector(['plan=pro'], {})).toEqual([null]);
+  });
+
+  it('reports features the input has no key for', () => {
+    const missing: string[] = [];
+    toFeatureVector(['score', 'name', 'plan=pro', 'tier=gold', 'absent'], { score: 1, name: 'Ada', tier: null }, feature => missing.push(feature));
+    expect(missing).toEqual(['plan=pro', 'absent']);
+  });
+});
+
+describe('compiled models', () => {
+  it('warn once about each feature the input is missing', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const model = compileModelArtifact(logistic);
+
+    model.predict({ visits: 10 });
+    model.explain({ visits: 10 });
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('is_member');
+    warn.mockRestore();
+  });
+});
+
+describe('logistic regression', () => {
+  const model = compileModelArtifact(logistic);
+
+  it('standardizes features before applying the coefficients', () => {
+    // (14 - 10) / 2 * 0.5 + 1 * 2 - 1 = 2
+    expect(model.predict({ visits: 14, is_member: true })).toBeCloseTo(sigmoid(2), 12);
+  });
+
+  it('imputes missing features with the training mean', () => {
+    expect(model.predict({ is_member: false })).toBeCloseTo(sigmoid(-1), 12);
+  });
+
+  it('attributes the margin exactly to each feature', () => {
+    const attributions = model.explain({ visits: 14, is_member: true });
+    expect(attributions).toEqual([
+      { feature: 'visits', value: 14, contribution: 1 },
+      { feature: 'is_member', value: 1, contribution: 2 }
+    ]);
+  });
+
+  it('returns the margin itself for an identity link', () => {
+    const linear = compileModelArtifact({ ...logistic, link: 'identity' });
+    expect(linear.predict({ visits: 14, is_member: true })).toBeCloseTo(2, 12);
+  });
+});
+
+describe('gradient boosted trees', () => {
+  const model = compileModelArtifact(trees);
+
+  it('sums the leaves each tree routes to', () => {
+    expect(model.predict({ spend: 7, recent: 1 })).toBeCloseTo(1.4, 12);
+    expect(model.predict({ spend: 12, recent: 0 })).toBeCloseTo(1.2, 12);
+  });
+
+  it('routes missing values by each split\'s default direction', () => {
+    // The first split sends missing values right; the second falls back to left
+    expect(model.predict({ recent: 1 })).toBeCloseTo(1 + 0.4, 12);
+  });
+
+  it('applies the logistic link for classifiers', () => {
+    const classifier = compileModelArtifact({ ...trees, objective: 'binary:logistic' });
+    expect(classifier.predict({ spend: 7, recent: 1 })).toBeCloseTo(sigmoid(1.4), 12);
+  });
+
+  it('credits each split with the change in expected leaf value', () => {
+    const [spend, recent] = model.explain({ spend: 7, recent: 1 }).map(attribution => attribution.contribution);
+
+    expect(spend).toBeCloseTo(1 - 0.1, 12);
+    expect(recent).toBeCloseTo(0.1, 12);
+    // Contributions add up to the margin less the trees' expected values (0 and 0.4)
+    expect(spend + recent + 0.4).toBeCloseTo(1.4, 12);
+  });
+});
+
+describe('multilayer perceptron', () => {
+  const model = compileModelArtifact(mlp);
+
+  it('runs the input through each layer', () => {
+    // hidden = relu([2 - 1, 2 + 1]) = [1, 3], output = 1 + 1.5 + 0.1
+    expect(model.predict({ x: 2, y: 1 })).toBeCloseTo(2.6, 12);
+  });
+
+  it('attributes by how much the score moves when a feature is replaced by its mean', () => {
+    const [x, y] = model.explain({ x: 2, y: 1 }).map(attribution => attribution.contribution);
+    expect(x).toBeCloseTo(2.6 - 0.6, 12);
+    expect(y).toBeCloseTo(2.6 - 3.1, 12);
+  });
+});
+
+describe('validateModelArtifact', () => {
+  const invalid = (artifact: ModelArtifact) => () => validateModelArtifact(artifact);
+
+  it('rejects artifacts whose arrays do not line up', () => {
+    expect(invalid({ ...logistic, features: [] })).toThrow('Invalid model artifact: at least one feature is required');
+    expect(invalid({ ...logistic, coefficients: [1] })).toThrow('coefficients has 1 values, expected 2');
+    expect(invalid({ ...logistic, normalization: { mean: [0], std: [1, 1] } })).toThrow('normalization.mean has 1 values, expected 2');
+    expect(invalid({ ...mlp, layers: [mlp.layers[0]] })).toThrow('the output layer must have one unit, found 2');
+    expect(invalid({ ...mlp, layers: [{ ...mlp.layers[0], bias: [0] }, mlp.layers[1]] })).toThrow('layers[0].bias has 1 values, expected 2');
+  });
+
+  it('rejects trees that split on unknown features or miss a branch', () => {
+    expect(invalid({ ...trees, trees: [{ feature: 2, threshold: 1, left: { leaf: 0 }, right: { leaf: 1 } }] }))
+      .toThrow('trees[0] splits on unknown feature index 2');
+    expect(invalid({ ...trees, trees: [{ feature: 0, threshold: 1, left: { leaf: 0 } } as any] }))
+      .toThrow('trees[0] needs both branches');
+    expect(invalid({ ...trees, trees: [{ leaf: NaN }] })).toThrow('trees[0] must be finite numbers');
+  });
+
+  it('rejects unknown formats', () => {
+    expect(invalid({ format: 'svm', features: ['x'] } as any)).toThrow('unsupported format svm');
+  });
+});
\ No newline at end of file
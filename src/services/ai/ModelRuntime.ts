@@ -0,0 +1,279 @@
+// src/services/ai/ModelRuntime.ts
+
+import {
+  DecisionTreeNode,
+  FeatureAttribution,
+  FeatureNormalization,
+  GradientBoostedTreesArtifact,
+  LogisticRegressionArtifact,
+  ModelArtifact,
+  MultilayerPerceptronArtifact
+} from '../../types/ai';
+
+/**
+ * A model artifact ready to score feature vectors
+ */
+export interface CompiledModel {
+  format: ModelArtifact['format'];
+  features: readonly string[];
+  predict(input: Record<string, any>): number;
+  /**
+   * Contribution of each feature to this prediction. Linear models are exact and trees use
+   * per-split path attribution, both on the log-odds scale for classifiers; MLPs report how
+   * much the score changes when the feature is replaced by its training mean.
+   */
+  explain(input: Record<string, any>): FeatureAttribution[];
+}
+
+type Scorer = {
+  score: (vector: (number | null)[]) => number;
+  attribute: (vector: (number | null)[]) => number[];
+};
+
+/**
+ * Check that an artifact is internally consistent, so scoring never reads past its arrays
+ */
+export function validateModelArtifact(artifact: ModelArtifact): void {
+  if (!artifact.features || artifact.features.length === 0) {
+    fail('at least one feature is required');
+  }
+
+  switch (artifact.format) {
+    case 'logistic_regression':
+      expectLength('coefficients', artifact.coefficients, artifact.features.length);
+      expectFinite('intercept', [artifact.intercept]);
+      expectFinite('coefficients', artifact.coefficients);
+      validateNormalization(artifact.normalization, artifact.features.length);
+      break;
+
+    case 'gradient_boosted_trees':
+      expectFinite('baseMargin', [artifact.baseMargin]);
+      if (!artifact.trees || artifact.trees.length === 0) fail('at least one tree is required');
+      artifact.trees.forEach((tree, index) => validateTree(tree, artifact.features.length, `trees[${index}]`));
+      break;
+
+    case 'mlp': {
+      if (!artifact.layers || artifact.layers.length === 0) fail('at least one layer is required');
+      let inputs = artifact.features.length;
+      artifact.layers.forEach((layer, index) => {
+        if (layer.weights.length === 0) fail(`layers[${index}] has no units`);
+        expectLength(`layers[${index}].bias`, layer.bias, layer.weights.length);
+        layer.weights.forEach(row => expectLength(`layers[${index}].weights`, row, inputs));
+        layer.weights.forEach(row => expectFinite(`layers[${index}].weights`, row));
+        inputs = layer.weights.length;
+      });
+      if (inputs !== 1) fail(`the output layer must have one unit, found ${inputs}`);
+      validateNormalization(artifact.normalization, artifact.features.length);
+      break;
+    }
+
+    default:
+      fail(`unsupported format ${(artifact as { format: string }).format}`);
+  }
+}
+
+/**
+ * Validate an artifact and build a scorer for it
+ */
+export function compileModelArtifact(artifact: ModelArtifact): CompiledModel {
+  validateModelArtifact(artifact);
+
+  const scorer = artifact.format === 'logistic_regression'
+    ? logisticRegressionScorer(artifact)
+    : artifact.format === 'gradient_boosted_trees'
+      ? gradientBoostedTreesScorer(artifact)
+      : multilayerPerceptronScorer(artifact);
+
+  // Warn once per feature: a name the feature pipeline never produces scores every customer as missing
+  const warned = new Set<string>();
+  const onMissing = (feature: string) => {
+    if (warned.has(feature)) return;
+    warned.add(feature);
+    console.warn(`[ModelRuntime] Input has no value for artifact feature ${feature}; scoring it as missing`);
+  };
+
+  return {
+    format: artifact.format,
+    features: Object.freeze([...artifact.features]),
+    predict: input => scorer.score(toFeatureVector(artifact.features, input, onMissing)),
+    explain: input => {
+      const vector = toFeatureVector(artifact.features, input, onMissing);
+      const contributions = scorer.attribute(vector);
+      return artifact.features.map((feature, index) => ({
+        feature,
+        value: vector[index],
+        contribution: contributions[index]
+      }));
+    }
+  };
+}
+
+/**
+ * Read an artifact's features from a feature map. Booleans become 0/1, `name=value`
+ * features are one-hot indicators, and anything missing or non-numeric is null.
+ * `onMissing` is told about features the input has no key for at all.
+ */
+export function toFeatureVector(
+  features: readonly string[],
+  input: Record<string, any>,
+  onMissing?: (feature: string) => void
+): (number | null)[] {
+  return features.map(feature => {
+    let value = input[feature];
+
+    if (value === undefined && feature.includes('=')) {
+      const separator = feature.indexOf('=');
+      const categorical = input[feature.slice(0, separator)];
+      if (categorical === undefined) onMissing?.(feature);
+      if (categorical === undefined || categorical === null) return null;
+      return String(categorical) === feature.slice(separator + 1) ? 1 : 0;
+    }
+
+    if (value === undefined) onMissing?.(feature);
+
+    if (typeof value === 'boolean') value = value ? 1 : 0;
+    if (value instanceof Date) value = value.getTime();
+    return typeof value === 'number' && isFinite(value) ? value : null;
+  });
+}
+
+function logisticRegressionScorer(artifact: LogisticRegressionArtifact): Scorer {
+  const terms = (vector: (number | null)[]) => normalize(vector, artifact.normalization)
+    .map((value, index) => value * artifact.coefficients[index]);
+
+  return {
+    score: vector => {
+      const margin = terms(vector).reduce((sum, term) => sum + term, artifact.intercept);
+      return artifact.link === 'identity' ? margin : sigmoid(margin);
+    },
+    attribute: terms
+  };
+}
+
+function gradientBoostedTreesScorer(artifact: GradientBoostedTreesArtifact): Scorer {
+  const expectations = new Map<DecisionTreeNode, number>();
+  artifact.trees.forEach(tree => computeExpectations(tree, expectations));
+
+  return {
+    score: vector => {
+      const margin = artifact.trees.reduce((sum, tree) => sum + followPath(tree, vector).leaf, artifact.baseMargin);
+      return artifact.objective === 'binary:logistic' ? sigmoid(margin) : margin;
+    },
+    // Each split is credited with the change in expected leaf value along the path taken
+    attribute: vector => {
+      const contributions = artifact.features.map(() => 0);
+      artifact.trees.forEach(tree => {
+        followPath(tree, vector, (split, next) => {
+          contributions[split.feature] += expectations.get(next)! - expectations.get(split)!;
+        });
+      });
+      return contributions;
+    }
+  };
+}
+
+function multilayerPerceptronScorer(artifact: MultilayerPerceptronArtifact): Scorer {
+  const score = (vector: (number | null)[]) => artifact.layers.reduce(
+    (inputs, layer) => layer.weights.map((row, unit) => activate(
+      layer.activation,
+      row.reduce((sum, weight, index) => sum + weight * inputs[index], layer.bias[unit])
+    )),
+    normalize(vector, artifact.normalization)
+  )[0];
+
+  return {
+    score,
+    attribute: vector => {
+      const prediction = score(vector);
+      return vector.map((_, index) => prediction - score(vector.map((value, i) => i === index ? null : value)));
+    }
+  };
+}
+
+type SplitNode = Exclude<DecisionTreeNode, { leaf: number }>;
+
+function followPath(
+  node: DecisionTreeNode,
+  vector: (number | null)[],
+  onSplit?: (split: SplitNode, next: DecisionTreeNode) => void
+): { leaf: number } {
+  let current = node;
+  while (!('leaf' in current)) {
+    const value = vector[current.feature];
+    const goLeft = value === null ? current.defaultLeft !== false : value < current.threshold;
+    const next = goLeft ? current.left : current.right;
+    onSplit?.(current, next);
+    current = next;
+  }
+  return current;
+}
+
+// Expected value of each subtree, weighting its leaves equally
+function computeExpectations(node: DecisionTreeNode, expectations: Map<DecisionTreeNode, number>): { sum: number; leaves: number } {
+  const totals = 'leaf' in node
+    ? { sum: node.leaf, leaves: 1 }
+    : [node.left, node.right]
+      .map(child => computeExpectations(child, expectations))
+      .reduce((a, b) => ({ sum: a.sum + b.sum, leaves: a.leaves + b.leaves }));
+  expectations.set(node, totals.sum / totals.leaves);
+  return totals;
+}
+
+// Missing values are imputed with the training mean, i.e. zero after standardization
+function normalize(vector: (number | null)[], normalization?: FeatureNormalization): number[] {
+  return vector.map((value, index) => {
+    if (!normalization) return value ?? 0;
+    if (value === null) return 0;
+    const std = normalization.std[index];
+    return std > 0 ? (value - normalization.mean[index]) / std : 0;
+  });
+}
+
+function activate(activation: MultilayerPerceptronArtifact['layers'][number]['activation'], value: number): number {
+  switch (activation) {
+    case 'relu': return Math.max(0, value);
+    case 'tanh': return Math.tanh(value);
+    case 'sigmoid': return sigmoid(value);
+    default: return value;
+  }
+}
+
+function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
+
+function validateTree(node: DecisionTreeNode, featureCount: number, path: string): void {
+  if ('leaf' in node) {
+    expectFinite(path, [node.leaf]);
+    return;
+  }
+  if (!Number.isInteger(node.feature) || node.feature < 0 || node.feature >= featureCount) {
+    fail(`${path} splits on unknown feature index ${node.feature}`);
+  }
+  expectFinite(`${path}.threshold`, [node.threshold]);
+  if (!node.left || !node.right) fail(`${path} needs both branches`);
+  validateTree(node.left, featureCount, `${path}.left`);
+  validateTree(node.right, featureCount, `${path}.right`);
+}
+
+function validateNormalization(normalization: FeatureNormalization | undefined, featureCount: number): void {
+  if (!normalization) return;
+  expectLength('normalization.mean', normalization.mean, featureCount);
+  expectLength('normalization.std', normalization.std, featureCount);
+}
+
+function expectLength(name: string, values: unknown[] | undefined, length: number): void {
+  if (!values || values.length !== length) {
+    fail(`${name} has ${values?.length ?? 0} values, expected ${length}`);
+  }
+}
+
+function expectFinite(name: string, values: number[]): void {
+  if (values.some(value => typeof value !== 'number' || !isFinite(value))) {
+    fail(`${name} must be finite numbers`);
+  }
+}
+
+function fail(message: string): never {
+  throw new Error(`Invalid model artifact: ${message}`);
+}
\ No newline at end of file
@@ -0,0 +1,151 @@
+// src/services/ai/StreamingAggregates.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import { CustomerEvent, StreamingFeatureSpec } from '../../types/ai';
+import { FeatureStore } from './FeatureStore';
+import { CustomerEventBus, StreamingAggregate } from './StreamingAggregates';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const MINUTE = 60 * 1000;
+const NOW = new Date(2024, 5, 1, 12, 0).getTime();
+
+const event = (type: CustomerEvent['type'], offsetMs: number, properties?: CustomerEvent['properties'], customerId = 'c1'): CustomerEvent => ({
+  type,
+  customerId,
+  tenantId: 't1',
+  timestamp: new Date(NOW + offsetMs),
+  properties
+});
+
+const aggregate = (spec: Partial<StreamingFeatureSpec>, events: CustomerEvent[]) => {
+  const result = new StreamingAggregate({ name: 'f', description: '', eventTypes: ['page_view'], aggregation: 'count', ...spec });
+  events.forEach(e => result.add(e, NOW));
+  return result;
+};
+
+describe('StreamingAggregate', () => {
+  it('counts events inside a sliding window and drops them as they expire', () => {
+    const views = aggregate({ window: { type: 'sliding', durationMs: 30 * MINUTE } }, [
+      event('page_view', -40 * MINUTE),
+      event('page_view', -20 * MINUTE),
+      event('page_view', -25 * MINUTE),
+      event('page_view', 0)
+    ]);
+
+    expect(views.valueAt(NOW)).toBe(3);
+    expect(views.valueAt(NOW + 6 * MINUTE)).toBe(2);
+    expect(views.valueAt(NOW + 31 * MINUTE)).toBe(0);
+  });
+
+  it('keeps windowed sums, averages and extremes in step with eviction', () => {
+    const spec = { aggregation: 'sum' as const, property: 'value', window: { type: 'sliding' as const, durationMs: 60 * MINUTE } };
+    const events = [
+      event('add_to_cart', -50 * MINUTE, { value: 10 }),
+      event('add_to_cart', -10 * MINUTE, { value: 30 }),
+      event('add_to_cart', -5 * MINUTE, { value: 'free' })
+    ];
+
+    expect(aggregate(spec, events).valueAt(NOW)).toBe(40);
+    expect(aggregate(spec, events).valueAt(NOW + 20 * MINUTE)).toBe(30);
+    expect(aggregate({ ...spec, aggregation: 'avg' }, events).valueAt(NOW)).toBe(20);
+    expect(aggregate({ ...spec, aggregation: 'max' }, events).valueAt(NOW + 20 * MINUTE)).toBe(30);
+    expect(aggregate({ ...spec, aggregation: 'min' }, events).valueAt(NOW + 2 * 60 * MINUTE)).toBeUndefined();
+  });
+
+  it('resets calendar-day windows at local midnight', () => {
+    const sessions = aggregate({ window: { type: 'calendar_day' } }, [
+      event('session_start', -13 * 60 * MINUTE),
+      event('session_start', -60 * MINUTE),
+      event('session_start', 0)
+    ]);
+
+    expect(sessions.valueAt(NOW)).toBe(2);
+    expect(sessions.valueAt(new Date(2024, 5, 2, 0, 1).getTime())).toBe(0);
+  });
+
+  it('aggregates over all time without a window', () => {
+    const views = [
+      event('product_view', -2 * MINUTE, { category: 'shoes' }),
+      event('product_view', 0, { category: 'bags' }),
+      event('product_view', -MINUTE, { category: 'shoes' })
+    ];
+
+    // The latest event wins even when it arrives before an older one
+    expect(aggregate({ aggregation: 'last', property: 'category' }, views).valueAt(NOW + 365 * 24 * 60 * MINUTE)).toBe('bags');
+    expect(aggregate({ aggregation: 'distinct_count', property: 'category' }, views).valueAt(NOW)).toBe(2);
+    expect(aggregate({ aggregation: 'count', property: 'missing' }, views).valueAt(NOW)).toBe(0);
+  });
+});
+
+describe('CustomerEventBus', () => {
+  it('delivers to listeners until they unsubscribe, isolating failing listeners', () => {
+    const bus = new CustomerEventBus();
+    const received: CustomerEvent[] = [];
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    bus.subscribe(() => {
+      throw new Error('broken listener');
+    });
+    const unsubscribe = bus.subscribe(e => received.push(e));
+
+    bus.publish(event('page_view', 0));
+    unsubscribe();
+    bus.publish(event('page_view', 0));
+
+    expect(received).toHaveLength(1);
+    expect(error).toHaveBeenCalledTimes(2);
+    error.mockRestore();
+  });
+});
+
+describe('FeatureStore streaming features', () => {
+  const live = (type: CustomerEvent['type'], agoMs: number, properties?: CustomerEvent['properties'], customerId = 'c1'): CustomerEvent =>
+    ({ type, customerId, tenantId: 't1', timestamp: new Date(Date.now() - agoMs), properties });
+
+  it('ingests subscribed events into per-customer aggregates', () => {
+    const store = new FeatureStore();
+    const bus = new CustomerEventBus();
+    const unsubscribe = store.subscribeToEvents(bus);
+
+    bus.publish(live('page_view', MINUTE));
+    bus.publish(live('page_view', 0));
+    bus.publish(live('page_view', 0, undefined, 'c2'));
+    bus.publish(live('product_view', 0, { category: 'shoes' }));
+    bus.publish(live('add_to_cart', 2 * 60 * MINUTE, { value: 99 }));
+    bus.publish(live('add_to_cart', 0, { value: 25 }));
+    unsubscribe();
+    bus.publish(live('page_view', 0));
+
+    expect(store.getStreamingFeatures('c1', 't1')).toMatchObject({
+      page_views_30m: 2,
+      last_category_viewed: 'shoes',
+      cart_value_1h: 25
+    });
+    expect(store.getStreamingFeatures('c2', 't1').page_views_30m).toBe(1);
+    expect(store.getStreamingFeatures('c3', 't1')).toMatchObject({ page_views_30m: 0, cart_value_1h: 0, last_category_viewed: undefined });
+  });
+
+  it('validates streaming feature specs', () => {
+    const store = new FeatureStore();
+    const spec: StreamingFeatureSpec = { name: 'clicks', description: '', eventTypes: ['page_view'], aggregation: 'count' };
+
+    expect(() => store.registerStreamingFeature({ ...spec, eventTypes: [] })).toThrow('Streaming feature clicks needs at least one event type');
+    expect(() => store.registerStreamingFeature({ ...spec, aggregation: 'sum' })).toThrow('Streaming feature clicks needs a property to sum');
+    expect(() => store.registerStreamingFeature({ ...spec, window: { type: 'sliding', durationMs: 0 } })).toThrow('needs a positive window duration');
+  });
+
+  it('starts over when a streaming feature is redefined', () => {
+    const store = new FeatureStore();
+    store.ingestEvent(live('page_view', 0));
+    store.registerStreamingFeature({
+      name: 'page_views_30m',
+      description: 'Pages viewed in the last 30 minutes',
+      eventTypes: ['page_view'],
+      aggregation: 'count',
+      window: { type: 'sliding', durationMs: 30 * MINUTE }
+    });
+
+    expect(store.getStreamingFeatures('c1', 't1').page_views_30m).toBe(0);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,178 @@
+// src/services/ai/StreamingAggregates.ts
+
+import { CustomerEvent, StreamingFeatureSpec } from '../../types/ai';
+import { WebSocketClient } from '../websocket/WebSocketClient';
+import { WebSocketEventType, CustomerEventMessage } from '../websocket/MessageTypes';
+
+// Windowed aggregates keep at most this many events per customer
+const MAX_WINDOW_ENTRIES = 5000;
+
+export type CustomerEventListener = (event: CustomerEvent) => void;
+
+/**
+ * Anything that can deliver customer events, such as a local bus or a WebSocket connection
+ */
+export interface CustomerEventSource {
+  subscribe(listener: CustomerEventListener): () => void;
+}
+
+/**
+ * In-process event bus for customer events raised by the app itself
+ */
+export class CustomerEventBus implements CustomerEventSource {
+  private listeners: Set<CustomerEventListener> = new Set();
+
+  subscribe(listener: CustomerEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  publish(event: CustomerEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[CustomerEventBus] Listener failed:', error);
+      }
+    });
+  }
+}
+
+export const customerEventBus = new CustomerEventBus();
+
+/**
+ * Customer events pushed by the server over the WebSocket connection
+ */
+export function webSocketEventSource(client: WebSocketClient): CustomerEventSource {
+  return {
+    subscribe: listener => client.subscribe<CustomerEventMessage>(WebSocketEventType.CUSTOMER_EVENT, message => {
+      listener({ ...message, timestamp: new Date(message.timestamp) });
+    })
+  };
+}
+
+/**
+ * Running aggregate of one streaming feature for one customer. Windowed aggregates keep the
+ * events inside the window and drop them as they expire; count and sum are updated in place.
+ */
+export class StreamingAggregate {
+  private spec: StreamingFeatureSpec;
+  private entries: { timestamp: number; value: any }[] = [];
+  private count = 0;
+  private sum = 0;
+  private minimum: number | undefined;
+  private maximum: number | undefined;
+  private latest: { timestamp: number; value: any } | undefined;
+  private distinct: Set<any> = new Set();
+
+  constructor(spec: StreamingFeatureSpec) {
+    this.spec = spec;
+  }
+
+  /**
+   * Fold an event into the aggregate. Events already outside the window are ignored.
+   */
+  add(event: CustomerEvent, now: number = Date.now()): void {
+    const timestamp = new Date(event.timestamp).getTime();
+    const value = this.spec.property ? event.properties?.[this.spec.property] : 1;
+
+    if (value === undefined || value === null) return;
+    if (this.isNumeric() && typeof value !== 'number') return;
+
+    if (!this.spec.window) {
+      this.addUnbounded(timestamp, value);
+      return;
+    }
+
+    this.evict(now);
+    if (timestamp < this.getWindowStart(now)) return;
+
+    // Events can arrive slightly out of order; keep entries sorted so eviction stays cheap
+    let position = this.entries.length;
+    while (position > 0 && this.entries[position - 1].timestamp > timestamp) {
+      position--;
+    }
+    this.entries.splice(position, 0, { timestamp, value });
+    this.count++;
+    if (typeof value === 'number') this.sum += value;
+
+    if (this.entries.length > MAX_WINDOW_ENTRIES) {
+      this.removeOldest();
+    }
+  }
+
+  /**
+   * Current value of the aggregate, or undefined if there is nothing to aggregate
+   */
+  valueAt(now: number = Date.now()): any {
+    if (this.spec.window) {
+      this.evict(now);
+    }
+
+    switch (this.spec.aggregation) {
+      case 'count':
+        return this.count;
+      case 'sum':
+        return this.sum;
+      case 'avg':
+        return this.count > 0 ? this.sum / this.count : undefined;
+      case 'min':
+        return this.spec.window ? this.reduceEntries(Math.min) : this.minimum;
+      case 'max':
+        return this.spec.window ? this.reduceEntries(Math.max) : this.maximum;
+      case 'last':
+        return this.spec.window ? this.entries[this.entries.length - 1]?.value : this.latest?.value;
+      case 'distinct_count':
+        return this.spec.window ? new Set(this.entries.map(entry => entry.value)).size : this.distinct.size;
+    }
+  }
+
+  private addUnbounded(timestamp: number, value: any): void {
+    this.count++;
+    if (typeof value === 'number') {
+      this.sum += value;
+      this.minimum = this.minimum === undefined ? value : Math.min(this.minimum, value);
+      this.maximum = this.maximum === undefined ? value : Math.max(this.maximum, value);
+    }
+    if (!this.latest || timestamp >= this.latest.timestamp) {
+      this.latest = { timestamp, value };
+    }
+    if (this.spec.aggregation === 'distinct_count') {
+      this.distinct.add(value);
+    }
+  }
+
+  private evict(now: number): void {
+    const windowStart = this.getWindowStart(now);
+    while (this.entries.length > 0 && this.entries[0].timestamp < windowStart) {
+      this.removeOldest();
+    }
+  }
+
+  private removeOldest(): void {
+    const removed = this.entries.shift();
+    if (!removed) return;
+    this.count--;
+    if (typeof removed.value === 'number') this.sum -= removed.value;
+  }
+
+  private getWindowStart(now: number): number {
+    const window = this.spec.window;
+    if (!window) return -Infinity;
+    if (window.type === 'sliding') return now - window.durationMs;
+
+    const startOfDay = new Date(now);
+    startOfDay.setHours(0, 0, 0, 0);
+    return startOfDay.getTime();
+  }
+
+  private reduceEntries(reducer: (...values: number[]) => number): number | undefined {
+    return this.entries.length > 0 ? reducer(...this.entries.map(entry => entry.value)) : undefined;
+  }
+
+  private isNumeric(): boolean {
+    return ['sum', 'avg', 'min', 'max'].includes(this.spec.aggregation);
+  }
+}
\ No newline at end of file
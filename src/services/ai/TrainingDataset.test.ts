@@ -0,0 +1,156 @@
+// src/services/ai/TrainingDataset.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import { ExperimentEvent } from '../../types/ai';
+import { FeatureStore } from './FeatureStore';
+import { TrainingDatasetBuilder, labelExposures } from './TrainingDataset';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const DAY = 24 * 60 * 60 * 1000;
+const at = (day: number) => new Date(Date.UTC(2024, 5, 1) + day * DAY);
+
+// Purchases grow from 3 on day 1 to 5 on day 3; spend is computed from them
+const createStore = async () => {
+  const store = new FeatureStore();
+  store.registerFeatureDefinition({
+    name: 'spend',
+    type: 'numerical',
+    description: 'Purchases times order value',
+    source: 'computed',
+    refreshFrequency: 'realtime',
+    computationLogic: 'total_purchases * avg_order_value',
+    validationRules: { required: false }
+  });
+  await store.updateCustomerFeatures('c1', 't1', { total_purchases: 3, avg_order_value: 10 }, at(1));
+  await store.updateCustomerFeatures('c1', 't1', { total_purchases: 5 }, at(3));
+  return store;
+};
+
+describe('FeatureStore.getFeaturesAsOf', () => {
+  it('uses only values recorded up to the snapshot time', async () => {
+    const store = await createStore();
+
+    expect(store.getFeaturesAsOf('c1', 't1', at(0), ['total_purchases', 'spend']).features)
+      .toEqual({ total_purchases: 0, spend: 0 });
+    expect(store.getFeaturesAsOf('c1', 't1', at(2), ['total_purchases', 'spend']).features)
+      .toEqual({ total_purchases: 3, spend: 30 });
+    expect(store.getFeaturesAsOf('c1', 't1', at(4), ['total_purchases', 'spend']).features)
+      .toEqual({ total_purchases: 5, spend: 50 });
+  });
+
+  it('reports the version of the latest update included', async () => {
+    const store = await createStore();
+    const [first, second] = store.getFeatureHistory('c1', 't1', 'total_purchases');
+
+    expect(store.getFeaturesAsOf('c1', 't1', at(0)).version).toBeUndefined();
+    expect(store.getFeaturesAsOf('c1', 't1', at(2)).version).toBe(first.version);
+    expect(store.getFeaturesAsOf('c1', 't1', at(4)).version).toBe(second.version);
+  });
+
+  it('slots backfilled values into the history without replacing newer ones', async () => {
+    const store = await createStore();
+    await store.updateCustomerFeatures('c1', 't1', { total_purchases: 4 }, at(2));
+
+    expect(store.getFeatureHistory('c1', 't1', 'total_purchases').map(record => record.value)).toEqual([3, 4, 5]);
+    expect(store.getFeaturesAsOf('c1', 't1', at(2.5), ['total_purchases']).features.total_purchases).toBe(4);
+    expect(store.getFeaturesAsOf('c1', 't1', at(4), ['total_purchases']).features.total_purchases).toBe(5);
+  });
+});
+
+describe('labelExposures', () => {
+  const event = (type: ExperimentEvent['type'], day: number, overrides: Partial<ExperimentEvent> = {}): ExperimentEvent => ({
+    id: `${type}_${day}`,
+    type,
+    experimentId: 'exp_a',
+    customerId: 'c1',
+    tenantId: 't1',
+    variantId: 'control',
+    timestamp: at(day),
+    ...overrides
+  });
+
+  const events = [
+    event('exposure', 0),
+    event('conversion', 1, { metric: 'purchase', value: 20 }),
+    event('conversion', 1.5, { metric: 'signup', value: 1 }),
+    event('conversion', 5, { metric: 'purchase', value: 40 }),
+    event('exposure', 0, { id: 'other', customerId: 'c2' }),
+    event('exposure', 9, { id: 'recent' })
+  ];
+
+  it('labels exposures by the conversions within the horizon', () => {
+    const observations = labelExposures(events, { horizonMs: 2 * DAY, now: at(10) });
+
+    expect(observations.map(observation => [observation.customerId, observation.label])).toEqual([['c1', 1], ['c2', 0]]);
+    expect(observations[0]).toMatchObject({ observedAt: at(0), metadata: { experimentId: 'exp_a', variantId: 'control' } });
+  });
+
+  it('sums conversion values of the chosen metric', () => {
+    const observations = labelExposures(events, { horizonMs: 7 * DAY, metric: 'purchase', labelType: 'value', now: at(10) });
+    expect(observations.map(observation => observation.label)).toEqual([60, 0]);
+  });
+
+  it('leaves out exposures whose horizon has not elapsed', () => {
+    expect(labelExposures(events, { horizonMs: 2 * DAY, now: at(10) }).some(o => o.observedAt.getTime() === at(9).getTime())).toBe(false);
+    expect(labelExposures(events, { horizonMs: 2 * DAY, now: at(12) })).toHaveLength(3);
+  });
+});
+
+describe('TrainingDatasetBuilder', () => {
+  const observations = [
+    { customerId: 'c1', tenantId: 't1', observedAt: at(2), label: 0 },
+    { customerId: 'c1', tenantId: 't1', observedAt: at(4), label: 1, weight: 2 }
+  ];
+
+  it('joins each observation to its point-in-time features', async () => {
+    const builder = new TrainingDatasetBuilder(await createStore());
+    const dataset = builder.build(observations, ['total_purchases', 'spend', 'preferred_channel']);
+
+    expect(dataset.examples.map(example => example.features)).toEqual([
+      { total_purchases: 3, spend: 30, preferred_channel: 'email' },
+      { total_purchases: 5, spend: 50, preferred_channel: 'email' }
+    ]);
+    expect(dataset.examples[0].featureVersion).not.toBe(dataset.examples[1].featureVersion);
+  });
+
+  it('exports CSV with one row per example', async () => {
+    const builder = new TrainingDatasetBuilder(await createStore());
+    const csv = builder.toCSV(builder.build(observations, ['total_purchases', 'spend']));
+
+    expect(csv.split('\n')).toEqual([
+      'customer_id,tenant_id,observed_at,total_purchases,spend,label,weight',
+      `c1,t1,${at(2).toISOString()},3,30,0,1`,
+      `c1,t1,${at(4).toISOString()},5,50,1,2`
+    ]);
+  });
+
+  it('quotes CSV values with separators and JSON encodes objects', async () => {
+    const builder = new TrainingDatasetBuilder(await createStore());
+    const csv = builder.toCSV({
+      featureNames: ['note', 'scores'],
+      examples: [{ ...observations[0], features: { note: 'say "hi", then go', scores: { email: 1 } } }],
+      createdAt: at(5)
+    });
+
+    expect(csv.split('\n')[1]).toBe(`c1,t1,${at(2).toISOString()},"say ""hi"", then go","{""email"":1}",0,1`);
+  });
+
+  it('exports typed columns for Parquet writers', async () => {
+    const builder = new TrainingDatasetBuilder(await createStore());
+    const exported = JSON.parse(builder.toColumnarJSON(builder.build(observations, ['total_purchases', 'preferred_channel'])));
+
+    expect(exported.rowCount).toBe(2);
+    expect(exported.schema.map((column: { name: string; type: string }) => [column.name, column.type])).toEqual([
+      ['customer_id', 'string'],
+      ['tenant_id', 'string'],
+      ['observed_at', 'timestamp'],
+      ['total_purchases', 'double'],
+      ['preferred_channel', 'string'],
+      ['label', 'double'],
+      ['weight', 'double']
+    ]);
+    expect(exported.columns.total_purchases).toEqual([3, 5]);
+    expect(exported.columns.weight).toEqual([1, 2]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,182 @@
+// src/services/ai/TrainingDataset.ts
+
+import {
+  ExperimentEvent,
+  FeatureDefinition,
+  LabeledObservation,
+  TrainingDataset,
+  TrainingExample
+} from '../../types/ai';
+import { FeatureStore } from './FeatureStore';
+
+export interface ExposureLabelOptions {
+  horizonMs: number; // conversions up to this long after exposure count towards the label
+  metric?: string; // only count conversions of this metric
+  labelType?: 'binary' | 'value'; // converted or not, or the summed conversion value
+  now?: Date; // exposures whose horizon has not fully elapsed by then are left out
+}
+
+type ColumnType = 'string' | 'double' | 'boolean' | 'timestamp' | 'json';
+
+const FIXED_COLUMNS = ['customer_id', 'tenant_id', 'observed_at'];
+
+/**
+ * Turn experiment exposures into labeled observations: each exposure is an observation at
+ * exposure time, labeled by the conversions that followed within the horizon.
+ */
+export function labelExposures(events: ExperimentEvent[], options: ExposureLabelOptions): LabeledObservation[] {
+  const cutoff = (options.now || new Date()).getTime() - options.horizonMs;
+  const conversionsByCustomer = new Map<string, ExperimentEvent[]>();
+
+  events
+    .filter(event => event.type === 'conversion' && (!options.metric || event.metric === options.metric))
+    .forEach(event => {
+      const key = `${event.experimentId}:${event.tenantId}:${event.customerId}`;
+      conversionsByCustomer.set(key, [...(conversionsByCustomer.get(key) || []), event]);
+    });
+
+  return events
+    .filter(event => event.type === 'exposure' && new Date(event.timestamp).getTime() <= cutoff)
+    .map(exposure => {
+      const exposedAt = new Date(exposure.timestamp).getTime();
+      const key = `${exposure.experimentId}:${exposure.tenantId}:${exposure.customerId}`;
+      const conversions = (conversionsByCustomer.get(key) || []).filter(event => {
+        const convertedAt = new Date(event.timestamp).getTime();
+        return convertedAt >= exposedAt && convertedAt <= exposedAt + options.horizonMs;
+      });
+
+      const label = options.labelType === 'value'
+        ? conversions.reduce((sum, event) => sum + (event.value ?? 0), 0)
+        : conversions.length > 0 ? 1 : 0;
+
+      return {
+        customerId: exposure.customerId,
+        tenantId: exposure.tenantId,
+        observedAt: new Date(exposedAt),
+        label,
+        metadata: { experimentId: exposure.experimentId, variantId: exposure.variantId }
+      };
+    });
+}
+
+/**
+ * Builds training sets by joining labels to point-in-time feature vectors
+ */
+export class TrainingDatasetBuilder {
+  private featureStore: FeatureStore;
+
+  constructor(featureStore: FeatureStore) {
+    this.featureStore = featureStore;
+  }
+
+  /**
+   * Attach to each observation the features as they were known at its observation time
+   */
+  build(observations: LabeledObservation[], featureNames?: string[]): TrainingDataset {
+    const names = featureNames || this.featureStore.getFeatureDefinitions().map(definition => definition.name);
+
+    const examples: TrainingExample[] = observations.map(observation => {
+      const snapshot = this.featureStore.getFeaturesAsOf(
+        observation.customerId,
+        observation.tenantId,
+        observation.observedAt,
+        names
+      );
+
+      return {
+        ...observation,
+        features: snapshot.features,
+        featureVersion: snapshot.version
+      };
+    });
+
+    console.log(`[TrainingDatasetBuilder] Built dataset with ${examples.length} examples and ${names.length} features`);
+
+    return { featureNames: names, examples, createdAt: new Date() };
+  }
+
+  /**
+   * Export as CSV with one row per example. Structured feature values are JSON encoded.
+   */
+  toCSV(dataset: TrainingDataset): string {
+    const header = [...FIXED_COLUMNS, ...dataset.featureNames, 'label', 'weight'];
+    const rows = dataset.examples.map(example => [
+      example.customerId,
+      example.tenantId,
+      example.observedAt.toISOString(),
+      ...dataset.featureNames.map(name => example.features[name]),
+      example.label,
+      example.weight ?? 1
+    ]);
+
+    return [header, ...rows].map(row => row.map(value => this.formatCSVValue(value)).join(',')).join('\n');
+  }
+
+  /**
+   * Export as column-oriented JSON with a typed schema, the layout Parquet writers expect
+   */
+  toColumnarJSON(dataset: TrainingDataset): string {
+    const definitions = new Map<string, FeatureDefinition>(
+      this.featureStore.getFeatureDefinitions().map(definition => [definition.name, definition])
+    );
+
+    const schema: { name: string; type: ColumnType; nullable: boolean }[] = [
+      { name: 'customer_id', type: 'string', nullable: false },
+      { name: 'tenant_id', type: 'string', nullable: false },
+      { name: 'observed_at', type: 'timestamp', nullable: false },
+      ...dataset.featureNames.map(name => ({
+        name,
+        type: this.getColumnType(definitions.get(name), dataset.examples.map(example => example.features[name])),
+        nullable: true
+      })),
+      { name: 'label', type: 'double', nullable: false },
+      { name: 'weight', type: 'double', nullable: false }
+    ];
+
+    const columns: { [column: string]: any[] } = {
+      customer_id: dataset.examples.map(example => example.customerId),
+      tenant_id: dataset.examples.map(example => example.tenantId),
+      observed_at: dataset.examples.map(example => example.observedAt.toISOString()),
+      label: dataset.examples.map(example => example.label),
+      weight: dataset.examples.map(example => example.weight ?? 1)
+    };
+    dataset.featureNames.forEach(name => {
+      columns[name] = dataset.examples.map(example => {
+        const value = example.features[name];
+        if (value === undefined) return null;
+        return value instanceof Date ? value.toISOString() : value;
+      });
+    });
+
+    return JSON.stringify({
+      schema,
+      rowCount: dataset.examples.length,
+      createdAt: dataset.createdAt.toISOString(),
+      columns
+    });
+  }
+
+  private getColumnType(definition: FeatureDefinition | undefined, values: any[]): ColumnType {
+    // Definitions may not describe structured values such as per-channel scores
+    if (values.some(value => value !== null && value !== undefined && typeof value === 'object' && !(value instanceof Date))) {
+      return 'json';
+    }
+
+    switch (definition?.type) {
+      case 'numerical': return 'double';
+      case 'boolean': return 'boolean';
+      case 'datetime': return 'timestamp';
+      default: return 'string';
+    }
+  }
+
+  private formatCSVValue(value: any): string {
+    if (value === null || value === undefined) return '';
+
+    const text = value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
\ No newline at end of file
@@ -5,7 +5,7 @@
 import { useAuthStore } from '@/stores/auth/authStore';
 
 // HADES Customer API response types
-interface HadesCustomer {
+export interface HadesCustomer {
   id: string;
   email: string;
   firstName: string;
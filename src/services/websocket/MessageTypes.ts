@@ -1,5 +1,7 @@
 // File Path: src/services/websocket/MessageTypes.ts
 
+import type { CustomerEventType } from '../../types/ai';
+
 export enum WebSocketEventType {
   // Connection events
   CONNECT = 'connect',
@@ -20,6 +22,7 @@ export enum WebSocketEventType {
   EXPERIMENT_UPDATE = 'experiment:update',
   ANALYTICS_UPDATE = 'analytics:update',
   ATOM_UPDATE = 'atom:update',
+  CUSTOMER_EVENT = 'customer:event',
   
   // Notifications
   NOTIFICATION_NEW = 'notification:new',
@@ -85,6 +88,15 @@ export interface AnalyticsUpdate {
   timestamp: number;
 }
 
+export interface CustomerEventMessage {
+  type: CustomerEventType;
+  customerId: string;
+  tenantId: string;
+  timestamp: number;
+  sessionId?: string;
+  properties?: Record<string, any>;
+}
+
 export interface CollaborativeEdit {
   entityType: 'campaign' | 'moment' | 'experiment' | 'atom';
   entityId: string;
@@ -3,6 +3,7 @@
 import React, { createContext, useContext, useEffect, useState, useRef } from 'react';
 import { WebSocketClient } from './WebSocketClient';
 import { WebSocketMessage, WebSocketEventType } from './MessageTypes';
+import { customerEventBus, webSocketEventSource } from '../ai/StreamingAggregates';
 
 interface WebSocketContextValue {
   client: WebSocketClient | null;
@@ -92,6 +93,9 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
 
     clientRef.current = client;
 
+    // Forward server-side customer events to the feature store's event bus
+    const unsubscribeCustomerEvents = webSocketEventSource(client).subscribe(event => customerEventBus.publish(event));
+
     // Auto-connect if enabled
     if (autoConnect) {
       setIsConnecting(true);
@@ -105,6 +109,7 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
 
     // Cleanup on unmount
     return () => {
+      unsubscribeCustomerEvents();
       client.disconnect();
     };
   }, [url, token, autoConnect, reconnectInterval, maxReconnectAttempts]);
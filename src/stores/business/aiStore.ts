@@ -6,17 +6,33 @@ import {
   DecisionRequest, 
   DecisionResult, 
   MLModel, 
+  ModelFamily,
+  ChallengerDeployment,
+  DecisionReplayReport,
+  DecisionReplayScenario,
+  BanditSettings,
   AIInsight, 
+  InsightDismissalReason,
+  InsightStatus,
   Experiment,
   ExperimentResults,
   ModelPerformanceMetrics,
   CustomerContext 
 } from '../../types/ai';
 import { DecisionEngine } from '../../services/ai/DecisionEngine';
-import { ModelRegistry } from '../../services/ai/ModelRegistry';
+import { ModelRegistry, ChallengerOptions } from '../../services/ai/ModelRegistry';
 import { FeatureStore } from '../../services/ai/FeatureStore';
 import { ExperimentationEngine } from '../../services/ai/ExperimentationEngine';
 import { InsightsGenerator } from '../../services/ai/InsightsGenerator';
+import { TrainingDatasetBuilder, labelExposures } from '../../services/ai/TrainingDataset';
+import { customerEventBus } from '../../services/ai/StreamingAggregates';
+import { replayDecisions } from '../../services/ai/DecisionReplay';
+import { AtomConsumers } from '../../services/ai/AtomDependencyGraph';
+import { AtomVersionStore } from '../../services/ai/AtomVersioning';
+import { RuleTreeNode } from '../../services/ai/EligibilityRules';
+import { AtomImpactAction, AtomImpactReport, AtomVersion, EligibilityAtom, Moment } from '../../types/api/atoms';
+import { ExperimentAdapter } from '../../utils/adapters/ExperimentAdapter';
+import type { ExperimentConfig } from '../../components/business/testing/ExperimentDesigner/ExperimentBuilder';
 
 interface AIState {
   // Core Services
@@ -25,9 +41,12 @@ interface AIState {
   featureStore: FeatureStore | null;
   experimentationEngine: ExperimentationEngine | null;
   insightsGenerator: InsightsGenerator | null;
+  atomVersionStore: AtomVersionStore | null;
   
   // Data State
   models: MLModel[];
+  modelFamilies: ModelFamily[];
+  challengers: ChallengerDeployment[];
   experiments: Experiment[];
   insights: AIInsight[];
   recentDecisions: DecisionResult[];
@@ -64,29 +83,49 @@ interface AIActions {
   // Decision Making
   makeDecision: (request: DecisionRequest) => Promise<DecisionResult>;
   getDecisionHistory: (customerId: string, limit?: number) => DecisionResult[];
+  replayDecisions: (start: Date, end: Date, scenario: DecisionReplayScenario) => Promise<DecisionReplayReport>;
+  recordRecommendationFeedback: (requestId: string, recommendationId: string, reward?: number) => void;
+  configureBandit: (tenantId: string, settings: Partial<BanditSettings>) => void;
   
   // Model Management
   loadModels: () => Promise<void>;
   deployModel: (modelId: string) => Promise<void>;
   updateModelStatus: (modelId: string, status: MLModel['status']) => Promise<void>;
+  promoteModel: (modelId: string, reason?: string) => Promise<void>;
+  rollbackModel: (familyId: string, targetVersion: string) => Promise<void>;
+  startChallenger: (modelId: string, options: ChallengerOptions) => Promise<void>;
+  stopChallenger: (purpose: MLModel['purpose']) => Promise<void>;
   getModelPerformance: (modelId: string) => ModelPerformanceMetrics | null;
   
   // Experimentation
   loadExperiments: () => Promise<void>;
   createExperiment: (experiment: Experiment) => Promise<void>;
+  saveExperimentDesign: (config: ExperimentConfig) => Promise<Experiment>;
   startExperiment: (experimentId: string) => Promise<void>;
   stopExperiment: (experimentId: string) => Promise<void>;
   getExperimentResults: (experimentId: string) => Promise<ExperimentResults | null>;
   trackConversion: (experimentId: string, customerId: string, tenantId: string, metric: string, value: number) => Promise<void>;
+  exportExperimentEvents: (experimentId?: string) => Promise<string>;
+  importExperimentEvents: (ndjson: string) => Promise<number>;
+  analyzeAtomImpact: (atomId: string, action: AtomImpactAction, consumers?: Omit<AtomConsumers, 'experiments'>) => AtomImpactReport;
+  saveAtom: (atom: EligibilityAtom, rules?: RuleTreeNode[]) => EligibilityAtom;
+  loadAtomLibrary: (atoms: EligibilityAtom[]) => void;
+  resolveAtomVersion: (atomId: string, moment?: Moment) => AtomVersion | undefined;
   
   // Insights
   generateInsights: () => Promise<void>;
-  dismissInsight: (insightId: string, reason?: string) => void;
+  dismissInsight: (insightId: string, reason?: InsightDismissalReason, note?: string) => void;
   recordInsightAction: (insightId: string, action: string) => void;
+  updateInsightStatus: (insightId: string, status: InsightStatus, options?: { by?: string; note?: string; snoozedUntil?: Date }) => void;
+  assignInsight: (insightId: string, owner: string | undefined) => void;
   
   // Feature Management
   updateCustomerFeatures: (customerId: string, tenantId: string, features: { [key: string]: any }) => Promise<void>;
   getCustomerFeatures: (customerId: string, tenantId: string) => Promise<{ [key: string]: any }>;
+  exportTrainingDataset: (
+    experimentId: string,
+    options: { metric?: string; horizonDays: number; format: 'csv' | 'json'; featureNames?: string[] }
+  ) => Promise<string>;
   
   // UI Actions
   setSelectedModel: (modelId: string | null) => void;
@@ -109,8 +148,11 @@ export const useAIStore = create<AIStore>()(
     featureStore: null,
     experimentationEngine: null,
     insightsGenerator: null,
+    atomVersionStore: null,
     
     models: [],
+    modelFamilies: [],
+    challengers: [],
     experiments: [],
     insights: [],
     recentDecisions: [],
@@ -147,6 +189,25 @@ export const useAIStore = create<AIStore>()(
         const experimentationEngine = new ExperimentationEngine();
         const insightsGenerator = new InsightsGenerator();
         
+        // Versions review their impact against the same atom library experiments target
+        const atomVersionStore = new AtomVersionStore(experimentationEngine.getAudienceAtomGraph());
+        
+        // Route decisions through experiments and make registry models selectable by variants
+        decisionEngine.setExperimentationEngine(experimentationEngine);
+        modelRegistry.getModels().forEach(model => decisionEngine.registerModel(model));
+        decisionEngine.setModelRegistry(modelRegistry);
+        
+        // Keep real-time features current with events raised in the app
+        decisionEngine.setFeatureStore(featureStore);
+        featureStore.subscribeToEvents(customerEventBus);
+        
+        // Replay assignments and conversions persisted by earlier sessions
+        try {
+          await experimentationEngine.restoreFromLog();
+        } catch (error) {
+          console.error('[AIStore] Failed to restore experiment event log:', error);
+        }
+        
         // Start periodic cleanup for insights
         insightsGenerator.startPeriodicCleanup();
         
@@ -156,6 +217,7 @@ export const useAIStore = create<AIStore>()(
           featureStore,
           experimentationEngine,
           insightsGenerator,
+          atomVersionStore,
           isInitialized: true,
           isLoading: false
         });
@@ -177,25 +239,15 @@ export const useAIStore = create<AIStore>()(
     },
     
     makeDecision: async (request: DecisionRequest): Promise<DecisionResult> => {
-      const { decisionEngine, experimentationEngine } = get();
+      const { decisionEngine } = get();
       
       if (!decisionEngine) {
         throw new Error('Decision engine not initialized');
       }
       
       try {
-        // Apply experiments if available
-        let finalRequest = request;
-        let experimentsApplied: string[] = [];
-        
-        if (experimentationEngine) {
-          const experimentResult = await experimentationEngine.applyExperiments(request);
-          finalRequest = experimentResult.request;
-          experimentsApplied = experimentResult.experimentsApplied;
-        }
-        
-        // Make decision
-        const result = await decisionEngine.makeDecision(finalRequest);
+        // Experiments are applied inside the decision engine
+        const result = await decisionEngine.makeDecision(request);
         
         // Store decision in recent history
         set(state => ({
@@ -220,6 +272,48 @@ export const useAIStore = create<AIStore>()(
         .slice(0, limit);
     },
     
+    replayDecisions: async (start: Date, end: Date, scenario: DecisionReplayScenario): Promise<DecisionReplayReport> => {
+      const { decisionEngine } = get();
+      
+      if (!decisionEngine) {
+        throw new Error('Decision engine not initialized');
+      }
+      
+      const entries = await decisionEngine.getDecisionLog().getEntries(start, end);
+      const report = await replayDecisions(decisionEngine, entries, scenario, { start, end });
+      
+      console.log(`[AIStore] Replayed ${report.decisions} decisions, ${report.changedDecisions} changed`);
+      return report;
+    },
+    
+    recordRecommendationFeedback: (requestId: string, recommendationId: string, reward: number = 1) => {
+      const { decisionEngine } = get();
+      
+      if (!decisionEngine) {
+        throw new Error('Decision engine not initialized');
+      }
+      
+      if (!decisionEngine.recordFeedback(requestId, recommendationId, reward)) {
+        console.warn(`[AIStore] No pending impression for recommendation ${recommendationId} in ${requestId}`);
+      }
+    },
+    
+    configureBandit: (tenantId: string, settings: Partial<BanditSettings>) => {
+      const { decisionEngine } = get();
+      
+      if (!decisionEngine) {
+        throw new Error('Decision engine not initialized');
+      }
+      
+      try {
+        const updated = decisionEngine.getBandit().configureTenant(tenantId, settings);
+        console.log(`[AIStore] Bandit for ${tenantId}: ${updated.enabled ? `${updated.algorithm}, exploration ${updated.explorationRate}` : 'disabled'}`);
+      } catch (error) {
+        console.error(`[AIStore] Failed to configure bandit for ${tenantId}:`, error);
+        set({ error: `Failed to configure bandit: ${error instanceof Error ? error.message : 'Unknown error'}` });
+      }
+    },
+    
     loadModels: async () => {
       const { modelRegistry } = get();
       
@@ -229,7 +323,11 @@ export const useAIStore = create<AIStore>()(
       
       try {
         const models = modelRegistry.getModels();
-        set({ models });
+        set({
+          models,
+          modelFamilies: modelRegistry.getModelFamilies(),
+          challengers: modelRegistry.getChallengers()
+        });
         
         console.log(`[AIStore] Loaded ${models.length} models`);
         
@@ -258,6 +356,87 @@ export const useAIStore = create<AIStore>()(
       }
     },
     
+    promoteModel: async (modelId: string, reason?: string) => {
+      const { modelRegistry, decisionEngine } = get();
+      
+      if (!modelRegistry) {
+        throw new Error('Model registry not initialized');
+      }
+      
+      try {
+        const stage = await modelRegistry.promoteModel(modelId, reason);
+        
+        // A model promoted to production takes over its purpose in the decision engine
+        modelRegistry.getModels().forEach(model => decisionEngine?.registerModel(model));
+        await get().loadModels();
+        
+        console.log(`[AIStore] Model ${modelId} promoted to ${stage}`);
+        
+      } catch (error) {
+        console.error(`[AIStore] Failed to promote model ${modelId}:`, error);
+        set({ error: `Failed to promote model: ${error instanceof Error ? error.message : 'Unknown error'}` });
+      }
+    },
+    
+    rollbackModel: async (familyId: string, targetVersion: string) => {
+      const { modelRegistry, decisionEngine } = get();
+      
+      if (!modelRegistry) {
+        throw new Error('Model registry not initialized');
+      }
+      
+      try {
+        await modelRegistry.rollbackModel(familyId, targetVersion);
+        
+        modelRegistry.getModels().forEach(model => decisionEngine?.registerModel(model));
+        await get().loadModels();
+        
+        console.log(`[AIStore] Model ${familyId} rolled back to v${targetVersion}`);
+        
+      } catch (error) {
+        console.error(`[AIStore] Failed to roll back model ${familyId}:`, error);
+        set({ error: `Failed to roll back model: ${error instanceof Error ? error.message : 'Unknown error'}` });
+      }
+    },
+    
+    startChallenger: async (modelId: string, options: ChallengerOptions) => {
+      const { modelRegistry } = get();
+      
+      if (!modelRegistry) {
+        throw new Error('Model registry not initialized');
+      }
+      
+      try {
+        modelRegistry.startChallenger(modelId, options);
+        await get().loadModels();
+        
+        console.log(`[AIStore] Started ${options.mode} challenger ${modelId}`);
+        
+      } catch (error) {
+        console.error(`[AIStore] Failed to start challenger ${modelId}:`, error);
+        set({ error: `Failed to start challenger: ${error instanceof Error ? error.message : 'Unknown error'}` });
+      }
+    },
+    
+    stopChallenger: async (purpose: MLModel['purpose']) => {
+      const { modelRegistry } = get();
+      
+      if (!modelRegistry) {
+        throw new Error('Model registry not initialized');
+      }
+      
+      try {
+        modelRegistry.stopChallenger(purpose);
+        await get().loadModels();
+        
+        console.log(`[AIStore] Stopped challenger for ${purpose}`);
+        
+      } catch (error) {
+        console.error(`[AIStore] Failed to stop challenger for ${purpose}:`, error);
+        set({ error: `Failed to stop challenger: ${error instanceof Error ? error.message : 'Unknown error'}` });
+      }
+    },
+    
     updateModelStatus: async (modelId: string, status: MLModel['status']) => {
       const { modelRegistry } = get();
       
@@ -319,6 +498,35 @@ export const useAIStore = create<AIStore>()(
       }
     },
     
+    saveExperimentDesign: async (config: ExperimentConfig): Promise<Experiment> => {
+      const { experimentationEngine } = get();
+      
+      if (!experimentationEngine) {
+        throw new Error('Experimentation engine not initialized');
+      }
+      
+      try {
+        const experiment = ExperimentAdapter.designToExperiment(config);
+        const exists = experimentationEngine.getExperiments().some(e => e.id === experiment.id);
+        
+        if (exists) {
+          await experimentationEngine.updateExperiment(experiment);
+        } else {
+          await experimentationEngine.createExperiment(experiment);
+        }
+        await get().loadExperiments(); // Refresh experiments
+        
+        console.log(`[AIStore] Experiment ${experiment.id} saved from the designer`);
+        return experiment;
+        
+      } catch (error) {
+        console.error('[AIStore] Failed to save experiment design:', error);
+        set({ error: `Failed to save experiment: ${error instanceof Error ? error.message : 'Unknown error'}` });
+        // The designer shows why the experiment could not be saved
+        throw error;
+      }
+    },
+    
     startExperiment: async (experimentId: string) => {
       const { experimentationEngine } = get();
       
@@ -387,13 +595,96 @@ export const useAIStore = create<AIStore>()(
       
       try {
         await experimentationEngine.trackConversion(experimentId, customerId, tenantId, metric, value);
+        
+        // A guardrail breach pauses the experiment while tracking
+        const experiment = experimentationEngine.getExperiments().find(e => e.id === experimentId);
+        if (experiment?.status === 'paused') {
+          await get().loadExperiments();
+        }
       } catch (error) {
         console.error('[AIStore] Failed to track conversion:', error);
       }
     },
     
+    exportExperimentEvents: async (experimentId?: string): Promise<string> => {
+      const { experimentationEngine } = get();
+      
+      if (!experimentationEngine) {
+        throw new Error('Experimentation engine not initialized');
+      }
+      
+      return experimentationEngine.exportEventLog(experimentId);
+    },
+    
+    importExperimentEvents: async (ndjson: string): Promise<number> => {
+      const { experimentationEngine } = get();
+      
+      if (!experimentationEngine) {
+        throw new Error('Experimentation engine not initialized');
+      }
+      
+      try {
+        const imported = await experimentationEngine.importEventLog(ndjson);
+        await get().loadExperiments(); // Refresh experiments
+        
+        console.log(`[AIStore] Imported ${imported} experiment events`);
+        return imported;
+        
+      } catch (error) {
+        console.error('[AIStore] Failed to import experiment events:', error);
+        set({ error: `Failed to import experiment events: ${error instanceof Error ? error.message : 'Unknown error'}` });
+        return 0;
+      }
+    },
+    
+    analyzeAtomImpact: (atomId: string, action: AtomImpactAction, consumers: Omit<AtomConsumers, 'experiments'> = {}): AtomImpactReport => {
+      const { experimentationEngine } = get();
+      
+      if (!experimentationEngine) {
+        throw new Error('Experimentation engine not initialized');
+      }
+      
+      return experimentationEngine.getAudienceAtomGraph().analyzeImpact(atomId, action, {
+        ...consumers,
+        experiments: experimentationEngine.getExperiments()
+      });
+    },
+    
+    saveAtom: (atom: EligibilityAtom, rules?: RuleTreeNode[]): EligibilityAtom => {
+      const { experimentationEngine } = get();
+      
+      if (!experimentationEngine) {
+        throw new Error('Experimentation engine not initialized');
+      }
+      
+      // Throws on unknown dependencies and cycles, leaving the library unchanged
+      return experimentationEngine.registerAudienceAtom(atom, rules);
+    },
+    
+    loadAtomLibrary: (atoms: EligibilityAtom[]) => {
+      const { experimentationEngine } = get();
+      
+      if (!experimentationEngine) {
+        throw new Error('Experimentation engine not initialized');
+      }
+      
+      experimentationEngine.loadAudienceAtoms(atoms);
+      console.log(`[AIStore] Loaded ${atoms.length} atoms into the atom library`);
+    },
+    
+    resolveAtomVersion: (atomId: string, moment?: Moment): AtomVersion | undefined => {
+      const { atomVersionStore } = get();
+      
+      if (!atomVersionStore) {
+        throw new Error('Atom version store not initialized');
+      }
+      
+      // The moment's pinned version, or the latest approved one
+      return atomVersionStore.resolveVersion(atomId, moment);
+    },
+    
     generateInsights: async () => {
-      const { insightsGenerator, recentDecisions, performanceMetrics } = get();
+      const { insightsGenerator, featureStore, recentDecisions, performanceMetrics } = get();
       
       if (!insightsGenerator) {
         throw new Error('Insights generator not initialized');
@@ -435,7 +726,8 @@ export const useAIStore = create<AIStore>()(
         const insights = await insightsGenerator.generateInsights(
           recentDecisions,
           performanceMetrics,
-          customerContexts
+          customerContexts,
+          featureStore?.getDriftReports() || []
         );
         
         set({ insights });
@@ -448,17 +740,17 @@ export const useAIStore = create<AIStore>()(
       }
     },
     
-    dismissInsight: (insightId: string, reason?: string) => {
+    dismissInsight: (insightId: string, reason?: InsightDismissalReason, note?: string) => {
       const { insightsGenerator } = get();
       
       if (!insightsGenerator) return;
       
-      insightsGenerator.dismissInsight(insightId, reason);
+      insightsGenerator.dismissInsight(insightId, reason, note);
       
       set(state => ({
         insights: state.insights.map(insight => 
           insight.id === insightId 
-            ? { ...insight, dismissed: true }
+            ? { ...insight, dismissed: true, dismissalReason: reason || 'other' }
             : insight
         )
       }));
@@ -470,19 +762,53 @@ export const useAIStore = create<AIStore>()(
       if (!insightsGenerator) return;
       
       insightsGenerator.recordActionTaken(insightId, action);
+      const updated = insightsGenerator.getInsight(insightId);
       
       set(state => ({
         insights: state.insights.map(insight => 
-          insight.id === insightId 
-            ? { 
-                ...insight, 
-                actions_taken: [...(insight.actions_taken || []), action]
-              }
+          insight.id === insightId && updated
+            ? { ...updated }
             : insight
         )
       }));
     },
     
+    updateInsightStatus: (insightId: string, status: InsightStatus, options?: { by?: string; note?: string; snoozedUntil?: Date }) => {
+      const { insightsGenerator } = get();
+      
+      if (!insightsGenerator) return;
+      
+      try {
+        const updated = insightsGenerator.updateInsightStatus(insightId, status, options);
+        
+        set(state => ({
+          insights: state.insights.map(insight => insight.id === insightId ? { ...updated } : insight)
+        }));
+        
+      } catch (error) {
+        console.error(`[AIStore] Failed to update insight ${insightId}:`, error);
+        set({ error: `Failed to update insight: ${error instanceof Error ? error.message : 'Unknown error'}` });
+      }
+    },
+    
+    assignInsight: (insightId: string, owner: string | undefined) => {
+      const { insightsGenerator } = get();
+      
+      if (!insightsGenerator) return;
+      
+      try {
+        const updated = insightsGenerator.assignInsight(insightId, owner);
+        
+        set(state => ({
+          insights: state.insights.map(insight => insight.id === insightId ? { ...updated } : insight)
+        }));
+        
+      } catch (error) {
+        console.error(`[AIStore] Failed to assign insight ${insightId}:`, error);
+        set({ error: `Failed to assign insight: ${error instanceof Error ? error.message : 'Unknown error'}` });
+      }
+    },
+    
     updateCustomerFeatures: async (
       customerId: string, 
       tenantId: string, 
@@ -517,6 +843,32 @@ export const useAIStore = create<AIStore>()(
       }
     },
     
+    exportTrainingDataset: async (experimentId, options): Promise<string> => {
+      const { featureStore, experimentationEngine } = get();
+      
+      if (!featureStore || !experimentationEngine) {
+        throw new Error('Feature store or experimentation engine not initialized');
+      }
+      
+      try {
+        const events = await experimentationEngine.getEvents(experimentId);
+        const observations = labelExposures(events, {
+          metric: options.metric,
+          horizonMs: options.horizonDays * 24 * 60 * 60 * 1000
+        });
+        
+        const builder = new TrainingDatasetBuilder(featureStore);
+        const dataset = builder.build(observations, options.featureNames);
+        
+        return options.format === 'csv' ? builder.toCSV(dataset) : builder.toColumnarJSON(dataset);
+        
+      } catch (error) {
+        console.error('[AIStore] Failed to export training dataset:', error);
+        set({ error: `Failed to export training dataset: ${error instanceof Error ? error.message : 'Unknown error'}` });
+        return '';
+      }
+    },
+    
     setSelectedModel: (modelId: string | null) => {
       set({ selectedModel: modelId });
     },
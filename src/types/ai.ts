@@ -53,6 +53,21 @@ export interface DecisionRequest {
     includeConfidence?: boolean;
     timeout?: number; // milliseconds
   };
+  overrides?: DecisionOverrides;
+}
+
+// Per-request changes to engine behaviour, set by experiment variants
+export interface DecisionOverrides {
+  modelId?: string; // replaces the deployed model with the same purpose
+  strategies?: string[]; // run only these strategies
+  strategyConfig?: { [strategyId: string]: Partial<Omit<RecommendationStrategyConfig, 'strategyId'>> };
+  parameters?: { [key: string]: any };
+  holdout?: boolean; // customer is in the global holdout and gets the non-personalized baseline
+}
+
+export interface ExperimentAssignment {
+  experimentId: string;
+  variantId: string;
 }
 
 export interface DecisionObjective {
@@ -63,10 +78,48 @@ export interface DecisionObjective {
 
 export interface DecisionConstraint {
   type: 'budget' | 'inventory' | 'frequency' | 'compliance' | 'business_rules';
-  value: any;
+  value: any; // budget: max expected value, frequency: FrequencyCap, inventory: min units available
   description: string;
 }
 
+export interface FrequencyCap {
+  maxContacts: number;
+  windowDays: number;
+  channel?: string; // applies to all channels when omitted
+}
+
+export interface ContactRecord {
+  customerId: string;
+  tenantId: string;
+  channel?: string; // unset when the recommendation names no channel; counts only toward caps without one
+  timestamp: Date;
+  recommendationId?: string;
+  campaignId?: string;
+}
+
+// How recommendations are ranked for a tenant once conversion feedback arrives
+export interface BanditSettings {
+  enabled: boolean;
+  algorithm: 'linucb' | 'thompson';
+  explorationRate: number; // LinUCB confidence width, or Thompson posterior scale; 0 is greedy
+}
+
+export interface BanditArmStats {
+  armId: string; // the strategy whose recommendations share this arm
+  tenantId: string;
+  pulls: number; // impressions with feedback
+  totalReward: number;
+  meanReward: number;
+  pending: number; // impressions still waiting for feedback
+}
+
+export interface DroppedRecommendation {
+  recommendationId: string;
+  strategyId?: string;
+  constraint: DecisionConstraint['type'];
+  reason: string;
+}
+
 export interface Recommendation {
   id: string;
   type: 'offer' | 'content' | 'channel' | 'timing' | 'product';
@@ -80,6 +133,8 @@ export interface Recommendation {
     offerType?: string;
     discount?: number;
     validUntil?: Date;
+    channel?: string; // delivery channel
+    productId?: string;
     targetMetrics: {
       expectedConversionRate: number;
       expectedRevenue: number;
@@ -87,7 +142,52 @@ export interface Recommendation {
     };
   };
   reasons: string[];
+  explanation?: RecommendationExplanation;
   alternatives?: Recommendation[];
+  strategyId?: string; // strategy that produced this recommendation
+}
+
+export interface FeatureAttribution {
+  feature: string;
+  value: number | null;
+  contribution: number; // signed push on the model's score relative to an average customer
+}
+
+// The change in one input that would have prevented the recommendation
+export interface CounterfactualThreshold {
+  feature: string;
+  currentValue: number;
+  threshold: number;
+  direction: 'above' | 'below'; // the recommendation is made while the value stays on this side
+  description: string;
+}
+
+export interface RecommendationExplanation {
+  modelId?: string;
+  modelVersion?: string;
+  modelScore?: number;
+  attributions: FeatureAttribution[]; // largest contributions first
+  rulesFired: string[];
+  counterfactual?: CounterfactualThreshold;
+}
+
+export interface StrategyOfferPayload {
+  title?: string;
+  description?: string;
+  offerType?: string;
+  discount?: number;
+  campaignId?: string;
+  productId?: string;
+  validForDays?: number;
+  priority?: number;
+}
+
+export interface RecommendationStrategyConfig {
+  strategyId: string;
+  enabled: boolean;
+  order: number; // lower runs first
+  thresholds: { [name: string]: number };
+  offer?: StrategyOfferPayload;
 }
 
 export interface DecisionResult {
@@ -99,17 +199,59 @@ export interface DecisionResult {
   overallConfidence: number; // 0-1
   executionTimeMs: number;
   modelVersions: { [modelName: string]: string };
-  experimentsApplied: string[];
+  experimentsApplied: string[]; // "experimentId:variantId"
   fallbackReason?: string;
   debugInfo?: {
     featureValues: { [featureName: string]: any };
     modelScores: { [modelName: string]: number };
     rules_applied: string[];
+    droppedRecommendations?: DroppedRecommendation[];
   };
 }
 
+// Everything needed to re-run a decision offline
+export interface DecisionLogEntry {
+  id: string; // the request ID
+  timestamp: Date;
+  request: DecisionRequest;
+  overrides?: DecisionOverrides; // what the experiments applied to the request
+  features: Record<string, any>; // engine features before model predictions were applied
+  modelInput: Record<string, any>; // feature vector the models scored
+  result: DecisionResult;
+}
+
+// A configuration change to try against logged decisions
+export interface DecisionReplayScenario {
+  name?: string;
+  overrides?: DecisionOverrides; // thresholds, strategy selection or a challenger model
+  objectives?: DecisionObjective[]; // re-weighted ranking objectives
+}
+
+export interface DecisionReplayDiff {
+  requestId: string;
+  customerId: string;
+  timestamp: Date;
+  before: { strategyId?: string; title: string; expectedValue: number }[];
+  after: { strategyId?: string; title: string; expectedValue: number }[];
+  topChanged: boolean;
+  expectedValueDelta: number;
+}
+
+export interface DecisionReplayReport {
+  scenario: string;
+  window: { start: Date; end: Date };
+  decisions: number;
+  changedDecisions: number; // decisions whose top recommendation changed
+  failedDecisions: number;
+  expectedValue: { before: number; after: number; delta: number };
+  strategyCounts: { [strategyId: string]: { before: number; after: number } };
+  diffs: DecisionReplayDiff[]; // changed decisions only
+  generatedAt: Date;
+}
+
 export interface MLModel {
   id: string;
+  familyId?: string; // versions of the same model share a family
   name: string;
   version: string;
   type: 'classification' | 'regression' | 'ranking' | 'clustering' | 'recommendation';
@@ -145,6 +287,135 @@ export interface MLModel {
       targetCPU: number;
     };
   };
+  artifact?: ModelArtifact; // executable model, scored in the browser by ModelRuntime
+}
+
+// Feature names in an artifact may one-hot encode a categorical feature as `name=value`
+export interface FeatureNormalization {
+  mean: number[];
+  std: number[];
+}
+
+export interface LogisticRegressionArtifact {
+  format: 'logistic_regression';
+  features: string[];
+  intercept: number;
+  coefficients: number[];
+  link?: 'logit' | 'identity'; // identity for linear regression
+  normalization?: FeatureNormalization;
+}
+
+export type DecisionTreeNode =
+  | { leaf: number }
+  | {
+      feature: number; // index into the artifact's features
+      threshold: number; // values below the threshold go left
+      left: DecisionTreeNode;
+      right: DecisionTreeNode;
+      defaultLeft?: boolean; // where missing values go, left by default
+    };
+
+export interface GradientBoostedTreesArtifact {
+  format: 'gradient_boosted_trees';
+  features: string[];
+  baseMargin: number;
+  trees: DecisionTreeNode[]; // leaf values already include the learning rate
+  objective: 'binary:logistic' | 'reg:squarederror';
+}
+
+export interface MultilayerPerceptronArtifact {
+  format: 'mlp';
+  features: string[];
+  layers: {
+    weights: number[][]; // one row of input weights per unit
+    bias: number[];
+    activation: 'relu' | 'tanh' | 'sigmoid' | 'linear';
+  }[];
+  normalization?: FeatureNormalization;
+}
+
+export type ModelArtifact = LogisticRegressionArtifact | GradientBoostedTreesArtifact | MultilayerPerceptronArtifact;
+
+export type ModelStage = 'development' | 'staging' | 'production' | 'archived';
+
+// Immutable record of how one version of a model was produced; only its stage moves
+export interface ModelVersion {
+  readonly modelId: string;
+  readonly familyId: string;
+  readonly version: string;
+  readonly parentVersion?: string;
+  readonly createdAt: Date;
+  readonly trainingData: {
+    readonly start: Date;
+    readonly end: Date;
+    readonly rowCount?: number;
+    readonly source?: string;
+  };
+  readonly features: readonly string[];
+  readonly hyperparameters: { readonly [key: string]: any };
+  readonly metrics: { readonly [metric: string]: number };
+  stage: ModelStage;
+  stageHistory: { stage: ModelStage; changedAt: Date; reason?: string }[];
+}
+
+export interface ModelFamily {
+  id: string;
+  name: string;
+  purpose: MLModel['purpose'];
+  versions: ModelVersion[]; // oldest first
+  productionVersion?: string;
+}
+
+export interface ModelLineageNode {
+  version: ModelVersion;
+  children: ModelLineageNode[];
+}
+
+export type ChallengerMode = 'shadow' | 'canary';
+
+export type ModelComparisonMetric = keyof ModelPerformanceMetrics['metrics'];
+
+export interface ChallengerDeployment {
+  purpose: MLModel['purpose'];
+  championId: string;
+  challengerId: string;
+  mode: ChallengerMode; // shadow challengers score every request but never serve
+  trafficPercentage: number; // canary only: share of customers served by the challenger
+  metric: ModelComparisonMetric;
+  minRequests: number; // requests the challenger must score before it can win
+  promotionMargin: number; // how far the challenger must beat the champion on the metric
+  autoPromote: boolean;
+  status: 'running' | 'promoted' | 'stopped';
+  requests: { champion: number; challenger: number };
+  startedAt: Date;
+  endedAt?: Date;
+}
+
+export interface ChallengerComparison {
+  purpose: MLModel['purpose'];
+  championId: string;
+  challengerId: string;
+  metric: ModelComparisonMetric;
+  championValue?: number;
+  challengerValue?: number;
+  championSamples: number;
+  challengerSamples: number;
+  challengerRequests: number;
+  improvement?: number; // positive when the challenger is better, whichever way the metric points
+  winner: 'champion' | 'challenger' | 'undecided';
+  evaluatedAt: Date;
+}
+
+export interface ShadowPrediction {
+  requestId: string;
+  customerId: string;
+  tenantId: string;
+  purpose: MLModel['purpose'];
+  championId: string;
+  challengerId: string;
+  championScore: number;
+  challengerScore: number;
+  timestamp: Date;
 }
 
 export interface FeatureDefinition {
@@ -172,6 +443,114 @@ export interface FeatureStore {
   version: string;
 }
 
+// Distribution of a feature's observed values over a rolling window
+export interface FeatureProfile {
+  feature: string;
+  windowStart: Date;
+  windowEnd: Date;
+  count: number;
+  nullRate: number;
+  numeric?: {
+    mean: number;
+    stdDev: number;
+    min: number;
+    max: number;
+    quantiles: { p05: number; p25: number; p50: number; p75: number; p95: number };
+  };
+  categories?: { [value: string]: number }; // relative frequency
+}
+
+export interface FeatureDriftReport {
+  feature: string;
+  psi: number; // population stability index against the baseline
+  ks?: { statistic: number; pValue: number }; // numerical features only
+  baselineCount: number;
+  currentCount: number;
+  threshold: number;
+  drifted: boolean;
+  evaluatedAt: Date;
+}
+
+// A value that broke a feature's validationRules, and what was stored instead
+export interface FeatureViolation {
+  feature: string;
+  rule: 'required' | 'type' | 'min' | 'max' | 'allowed_values' | 'regex';
+  value: any;
+  correctedValue: any;
+  customerId?: string;
+  tenantId?: string;
+  timestamp: Date;
+}
+
+export type CustomerEventType =
+  | 'page_view'
+  | 'session_start'
+  | 'session_end'
+  | 'product_view'
+  | 'add_to_cart'
+  | 'purchase'
+  | 'email_open'
+  | 'email_click'
+  | 'search';
+
+// Behavioral event streamed into the feature store as it happens
+export interface CustomerEvent {
+  type: CustomerEventType;
+  customerId: string;
+  tenantId: string;
+  timestamp: Date;
+  sessionId?: string;
+  properties?: { [property: string]: any }; // e.g. category, productId, value, url
+}
+
+// Real-time feature maintained incrementally from customer events
+export interface StreamingFeatureSpec {
+  name: string;
+  description: string;
+  eventTypes: CustomerEventType[];
+  aggregation: 'count' | 'sum' | 'avg' | 'min' | 'max' | 'last' | 'distinct_count';
+  property?: string; // event property to aggregate; not needed for count
+  window?: { type: 'sliding'; durationMs: number } | { type: 'calendar_day' }; // all time if omitted
+  defaultValue?: any;
+}
+
+// A feature value as it was known from `timestamp` until the next record for the same feature
+export interface FeatureValueRecord {
+  value: any;
+  timestamp: Date;
+  version: string;
+}
+
+// Feature vector reconstructed as of a past moment, using only values recorded up to then
+export interface FeatureSnapshot {
+  customerId: string;
+  tenantId: string;
+  asOf: Date;
+  version?: string; // version of the latest update included, if any
+  features: { [featureName: string]: any };
+}
+
+// A moment at which a prediction would have been made, and what happened afterwards
+export interface LabeledObservation {
+  customerId: string;
+  tenantId: string;
+  observedAt: Date;
+  label: number;
+  weight?: number;
+  metadata?: { [key: string]: any };
+}
+
+export interface TrainingExample extends LabeledObservation {
+  features: { [featureName: string]: any };
+  featureVersion?: string;
+}
+
+export interface TrainingDataset {
+  featureNames: string[];
+  examples: TrainingExample[];
+  createdAt: Date;
+}
+
 export interface Experiment {
   id: string;
   name: string;
@@ -189,16 +568,89 @@ export interface Experiment {
   metrics: {
     primary: string;
     secondary: string[];
+    types?: { [metric: string]: ExperimentMetricType }; // metrics default to binary (converted or not)
   };
+  guardrails?: ExperimentGuardrail[];
+  layerId?: string; // experiments in the same layer get disjoint traffic
   results?: ExperimentResults;
   configuration: {
     confidenceLevel: number; // 0.95, 0.99, etc.
     minimumDetectableEffect: number;
     trafficAllocation: number; // 0-1
     randomizationUnit: 'customer' | 'session' | 'device';
+    sequentialTesting?: {
+      method: 'msprt' | 'fixed_horizon'; // msprt stays valid under repeated looks
+      mixingVariance?: number; // mSPRT prior variance of the effect; if unset, fixed from minimumDetectableEffect at the first look
+    };
+    varianceReduction?: {
+      method: 'cuped';
+      covariate: string; // name of the pre-period metric recorded per customer
+    };
+    analysis?: {
+      continuousTest: 'welch' | 'bootstrap';
+      bootstrapIterations?: number;
+      multipleComparisonCorrection: MultipleComparisonCorrection; // applied across treatment variants
+    };
+    sampleRatioThreshold?: number; // SRM chi-square p-value below which assignment is flagged, default 0.001
   };
 }
 
+// Append-only experiment log entry; statistics can be rebuilt by replaying these
+export interface ExperimentEvent {
+  id: string;
+  type: 'exposure' | 'conversion' | 'covariate';
+  experimentId: string;
+  customerId: string;
+  tenantId: string;
+  variantId?: string; // not set on covariate events
+  metric?: string;
+  value?: number;
+  timestamp: Date;
+  metadata?: { [key: string]: any };
+}
+
+export interface ExperimentLayer {
+  id: string;
+  name: string;
+  description?: string;
+  buckets: number; // customers are hashed into this many buckets per layer
+  allocations: { [experimentId: string]: [number, number] }; // bucket range [start, end) owned by each experiment
+}
+
+export interface HoldoutConfig {
+  enabled: boolean;
+  percentage: number; // 0-1 share of customers that never receive personalization
+  metric?: string; // conversion metric used to measure lift, defaults to 'conversion'
+}
+
+export interface ExperimentGuardrail {
+  metric: string;
+  harmfulDirection: 'increase' | 'decrease'; // e.g. 'increase' for unsubscribes, 'decrease' for revenue
+  maxRelativeChange: number; // tolerated harmful change relative to control, e.g. 0.05
+  minParticipants?: number; // per variant before the guardrail is evaluated, default 100
+  mixingVariance?: number; // mSPRT prior variance of the change; if unset, fixed at the first look
+}
+
+export interface GuardrailResult {
+  metric: string;
+  variantId: string;
+  relativeChange: number;
+  pValue: number;
+  breached: boolean;
+}
+
+export interface SampleRatioCheck {
+  observed: { [variantId: string]: number };
+  expected: { [variantId: string]: number };
+  statistic: number;
+  pValue: number;
+  mismatch: boolean;
+}
+
+export type ExperimentMetricType = 'binary' | 'continuous';
+
+export type MultipleComparisonCorrection = 'none' | 'bonferroni' | 'holm' | 'benjamini_hochberg';
+
 export interface ExperimentVariant {
   id: string;
   name: string;
@@ -224,10 +676,41 @@ export interface ExperimentResults {
       revenuePerUser: number;
       significance: number;
       confidenceInterval: [number, number];
+      pValue?: number; // always-valid when analysed sequentially
+      adjustedPValue?: number; // after multiple-comparison correction
+      effectSize?: number; // absolute lift over control, CUPED-adjusted when enabled
+      relativeEffect?: number;
+      effectInterval?: [number, number];
+      varianceReduction?: number; // share of variance removed by CUPED, 0-1
     };
   };
   insights: string[];
   recommendations: string[];
+  controlVariantId?: string;
+  analysisMethod?: 'msprt' | 'fixed_horizon';
+  safeToStop?: boolean;
+  metricAnalyses?: MetricAnalysis[];
+  sampleRatio?: SampleRatioCheck;
+  guardrails?: GuardrailResult[];
+}
+
+export interface MetricAnalysis {
+  metric: string;
+  type: ExperimentMetricType;
+  test: 'z_test' | 'welch' | 'bootstrap';
+  correction: MultipleComparisonCorrection;
+  variants: {
+    [variantId: string]: {
+      participants: number;
+      mean: number; // per participant; conversion rate for binary metrics
+      effectSize?: number; // difference from control
+      relativeEffect?: number;
+      effectInterval?: [number, number];
+      pValue?: number;
+      adjustedPValue?: number;
+      significant?: boolean;
+    };
+  };
 }
 
 export interface ModelPerformanceMetrics {
@@ -258,6 +741,28 @@ export interface ModelPerformanceMetrics {
   };
 }
 
+export type InsightStatus = 'new' | 'acknowledged' | 'in_progress' | 'resolved' | 'snoozed';
+
+// Why an insight was dismissed; false positives and non-actionable insights make their detector less sensitive
+export type InsightDismissalReason = 'false_positive' | 'not_actionable' | 'already_known' | 'other';
+
+export interface InsightStatusChange {
+  from: InsightStatus;
+  to: InsightStatus;
+  at: Date;
+  by?: string;
+  note?: string;
+}
+
+export interface InsightDetectorThreshold {
+  detector: string;
+  threshold: number;
+  defaultThreshold: number;
+  limit: number; // the least sensitive the threshold can become
+  dismissals: number; // noise dismissals fed back into the threshold
+  confirmations: number; // insights resolved after being acted on
+}
+
 export interface AIInsight {
   id: string;
   type: 'trend' | 'anomaly' | 'opportunity' | 'risk' | 'optimization';
@@ -279,4 +784,13 @@ export interface AIInsight {
   createdAt: Date;
   dismissed?: boolean;
   actions_taken?: string[];
+  detector?: string; // the check that raised the insight
+  fingerprint?: string; // detector and subject; repeat detections update the same insight
+  status?: InsightStatus;
+  owner?: string;
+  snoozedUntil?: Date;
+  lastSeenAt?: Date;
+  occurrences?: number;
+  dismissalReason?: InsightDismissalReason;
+  history?: InsightStatusChange[];
 }
\ No newline at end of file
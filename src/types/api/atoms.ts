@@ -1,4 +1,6 @@
 // src/types/api/atoms.ts
+import type { CustomerContext } from '../ai';
+
 export interface EligibilityAtom {
   id: string;
   name: string;
@@ -30,6 +32,191 @@ export interface AtomCondition {
   dataType: 'string' | 'number' | 'boolean' | 'date';
 }
 
+// Outcome of one condition, with the values that were compared
+export interface ConditionTrace {
+  field: string;
+  operator: string; // canonical operator name
+  dataType: AtomCondition['dataType'];
+  expected: any;
+  actual: any;
+  reason?: string; // why the condition could not be checked
+}
+
+// One node of an evaluated eligibility rule
+export interface EligibilityTrace {
+  kind: 'atom' | 'condition' | 'and' | 'or' | 'not';
+  label: string;
+  passed: boolean;
+  atomId?: string;
+  condition?: ConditionTrace;
+  children?: EligibilityTrace[];
+}
+
+export interface EligibilityVerdict {
+  eligible: boolean;
+  trace: EligibilityTrace;
+  evaluatedAt: Date;
+}
+
+// One customer in a backtest snapshot, labeled with what they went on to do
+export interface CustomerSnapshotRow {
+  context: CustomerContext;
+  outcome: number; // 1/0 for converted or not, or a value; positive when above zero
+  features?: Record<string, any>; // feature store values as of the snapshot
+}
+
+export interface CustomerSnapshot {
+  id: string;
+  name: string;
+  format: 'csv' | 'json';
+  rows: CustomerSnapshotRow[];
+  loadedAt: Date;
+}
+
+// Confusion matrix of a rule against snapshot outcomes; rates are 0-1
+export interface AtomBacktestMetrics {
+  sampleSize: number;
+  matched: number;
+  positives: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+  coverage: number;
+  precision: number;
+  recall: number;
+  accuracy: number;
+  f1: number;
+  baseRate: number;
+  lift: number; // precision over the base rate
+}
+
+// What one composition node adds, measured by relaxing it to match everyone
+export interface AtomContribution {
+  nodeId: string;
+  atomId?: string;
+  label: string;
+  matchRate: number; // share of the snapshot the atom matches on its own
+  precision: number; // positive rate among the customers it matches
+  lift: number;
+  coverageDelta: number; // composition minus relaxed composition
+  precisionDelta: number;
+  recallDelta: number;
+}
+
+export interface AtomOverlap {
+  atomId: string;
+  label: string;
+  matched: number;
+  intersection: number;
+  jaccard: number;
+  shareOfAudience: number; // share of the composition's audience the atom also matches
+}
+
+export interface AtomBacktestResult {
+  snapshotId: string;
+  snapshotName: string;
+  metrics: AtomBacktestMetrics;
+  contributions: AtomContribution[];
+  overlaps: AtomOverlap[];
+  avgEvaluationMs: number;
+  warnings: string[];
+  testedAt: Date;
+}
+
+export type AtomImpactAction = 'archive' | 'deactivate' | 'delete' | 'publish';
+
+// Something that stops working if an atom goes away
+export interface AtomImpactItem {
+  kind: 'atom' | 'moment' | 'campaign' | 'experiment';
+  id: string;
+  name: string;
+  status: string;
+  active: boolean; // currently live, so the change breaks it in production
+  via: string[]; // atoms it depends on that lead back to the changed atom
+}
+
+export interface AtomImpactReport {
+  atomId: string;
+  action: AtomImpactAction;
+  dependentAtoms: AtomImpactItem[];
+  moments: AtomImpactItem[];
+  campaigns: AtomImpactItem[];
+  experiments: AtomImpactItem[];
+  activeCount: number;
+  analyzedAt: Date;
+}
+
+export type AtomVersionStatus = 'draft' | 'review' | 'approved' | 'rejected';
+
+export interface AtomConditionChange {
+  before: AtomCondition;
+  after: AtomCondition;
+  fields: (keyof AtomCondition)[]; // which parts of the condition differ
+}
+
+// Structured difference between two versions of an atom's logic
+export interface AtomLogicDiff {
+  added: AtomCondition[];
+  removed: AtomCondition[];
+  changed: AtomConditionChange[];
+  operatorChanged?: { before: AtomLogic['operator']; after: AtomLogic['operator'] };
+  bump: 'major' | 'minor' | 'patch'; // semantic version increment the change calls for
+}
+
+export interface AtomReview {
+  by: string;
+  decision: 'approved' | 'rejected';
+  comment?: string;
+  at: Date;
+}
+
+// Immutable snapshot of an atom; only drafts can still be edited
+export interface AtomVersion {
+  id: string;
+  atomId: string;
+  version: string; // semantic version, e.g. 2.1.0
+  name: string;
+  description?: string;
+  logic: AtomLogic;
+  status: AtomVersionStatus;
+  changeSummary?: string;
+  diff?: AtomLogicDiff; // against the version it was drafted from
+  basedOn?: string;
+  createdBy: string;
+  createdAt: Date;
+  submittedAt?: Date;
+  requiredApprovals: number;
+  reviews: AtomReview[];
+  publishedAt?: Date;
+}
+
+// Customers in exactly the given segments; together the regions partition the union
+export interface AudienceOverlapRegion {
+  segmentIds: string[];
+  exclusiveSize: number;
+  intersectionSize: number; // in at least these segments, possibly others too
+  standardError: number; // of exclusiveSize
+}
+
+export interface AudienceOverlapSegment {
+  id: string;
+  label: string;
+  estimatedSize: number;
+  exclusiveSize: number; // in no other segment
+}
+
+export interface AudienceOverlapResult {
+  segments: AudienceOverlapSegment[];
+  regions: AudienceOverlapRegion[];
+  unionSize: number;
+  intersectionSize: number; // in every segment
+  populationSize: number;
+  sampleSize: number;
+  exact: boolean; // the sketches held every matching customer, so only sampling error remains
+  computedAt: Date;
+}
+
 export interface AtomMetrics {
   performanceScore: number;
   usageCount: number;
@@ -48,6 +235,7 @@ export interface Moment {
   channels: MomentChannel[];
   content?: MomentContent;
   eligibilityAtoms: string[];
+  atomVersions?: Record<string, string>; // pinned version per atom; unpinned atoms follow the latest approved version
   scheduledAt?: Date;
   isPersonalized: boolean;
   createdAt: Date;
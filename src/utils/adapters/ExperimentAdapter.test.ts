@@ -0,0 +1,167 @@
+// src/utils/adapters/ExperimentAdapter.test.ts
+
+import { describe, it, expect } from 'vitest';
+import type { ExperimentConfig } from '@/components/business/testing/ExperimentDesigner/ExperimentBuilder';
+import { CustomerContext } from '../../types/ai';
+import { ExperimentationEngine } from '../../services/ai/ExperimentationEngine';
+import { ExperimentEventLog, InMemoryEventStorage } from '../../services/ai/ExperimentEventLog';
+import { ExperimentAdapter } from './ExperimentAdapter';
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+const design = (overrides: Partial<ExperimentConfig> = {}): ExperimentConfig => ({
+  id: 'exp_checkout',
+  name: 'One-page checkout',
+  description: '',
+  hypothesis: 'A shorter checkout converts more visitors',
+  type: 'ab',
+  status: 'draft',
+  variants: [
+    { id: 'one_page', name: 'One page', description: '', isControl: false, traffic: 50, content: { type: 'moment', config: { steps: 1 } } },
+    { id: 'control', name: 'Control', description: '', isControl: true, traffic: 50, content: { type: 'moment', config: { steps: 3 } } }
+  ],
+  audience: { size: 10000, segments: [], filters: [] },
+  goals: [
+    { id: 'g1', name: 'Purchases', type: 'conversion', metric: 'purchase', isPrimary: true, weight: 1 },
+    { id: 'g2', name: 'Order value', type: 'revenue', metric: 'order_value', isPrimary: false, weight: 1 }
+  ],
+  traffic: { allocation: 100, distribution: { control: 50, one_page: 50 } },
+  statistical: {
+    confidenceLevel: 95,
+    minimumDetectableEffect: 10,
+    statisticalPower: 80,
+    sampleSize: 1000,
+    earlyStoppingEnabled: true,
+    significanceThreshold: 0.05,
+    continuousMetricTest: 'bootstrap',
+    bootstrapIterations: 200,
+    multipleComparisonCorrection: 'holm'
+  },
+  duration: 14,
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides
+});
+
+const customer = (index: number): CustomerContext => ({
+  customerId: `cust-${index}`,
+  tenantId: 'tenant-1',
+  demographics: { age: 20 + (index % 40) },
+  behavioral: {
+    totalPurchases: index % 5,
+    avgOrderValue: 40,
+    lifetimeValue: 500,
+    churnRisk: 0.2,
+    engagementScore: 50,
+    preferredChannels: ['email'],
+    activityLevel: 'medium'
+  },
+  contextual: { currentTime: NOW, deviceType: 'mobile', sessionDuration: 60, pageViews: 2 },
+  preferences: { communicationFrequency: 'low', contentTypes: [], topics: [], optedOutChannels: [] }
+});
+
+const createEngine = () => new ExperimentationEngine(new ExperimentEventLog(new InMemoryEventStorage()));
+
+// Save the design the way the designer does, start it and enroll customers
+const run = async (engine: ExperimentationEngine, config: ExperimentConfig, customers: number) => {
+  await engine.createExperiment(ExperimentAdapter.designToExperiment(config));
+  await engine.startExperiment(config.id);
+
+  const assigned: { context: CustomerContext; variantId: string }[] = [];
+  for (let i = 0; i < customers; i++) {
+    const context = customer(i);
+    const variantId = await engine.getVariantAssignment(config.id, context.customerId, context.tenantId, context);
+    if (variantId) assigned.push({ context, variantId });
+  }
+  return assigned;
+};
+
+describe('ExperimentAdapter.designToExperiment', () => {
+  it('puts the control first and converts percentages to fractions', () => {
+    const experiment = ExperimentAdapter.designToExperiment(design());
+
+    expect(experiment.variants.map(variant => [variant.id, variant.allocation])).toEqual([['control', 0.5], ['one_page', 0.5]]);
+    expect(experiment.configuration.confidenceLevel).toBe(0.95);
+    expect(experiment.configuration.minimumDetectableEffect).toBe(0.1);
+    expect(experiment.metrics).toEqual({
+      primary: 'purchase',
+      secondary: ['order_value'],
+      types: { purchase: 'binary', order_value: 'continuous' }
+    });
+  });
+
+  it('uses a fixed-horizon test unless early stopping is enabled', () => {
+    const fixed = design({ statistical: { ...design().statistical, earlyStoppingEnabled: false } });
+    expect(ExperimentAdapter.designToExperiment(fixed).configuration.sequentialTesting).toEqual({ method: 'fixed_horizon' });
+  });
+});
+
+describe('experiments saved from the designer', () => {
+  it('are analysed with the configured tests and correction', async () => {
+    const engine = createEngine();
+    const assigned = await run(engine, design(), 200);
+
+    for (const { context, variantId } of assigned) {
+      const index = Number(context.customerId.split('-')[1]);
+      if (index % (variantId === 'control' ? 4 : 3) === 0) {
+        await engine.trackConversion('exp_checkout', context.customerId, context.tenantId, 'purchase', 1);
+        await engine.trackConversion('exp_checkout', context.customerId, context.tenantId, 'order_value', 20 + (index % 50));
+      }
+    }
+
+    const results = await engine.getExperimentResults('exp_checkout');
+    expect(results?.analysisMethod).toBe('msprt');
+    expect(results?.controlVariantId).toBe('control');
+    expect(results?.metricAnalyses?.map(analysis => [analysis.metric, analysis.test, analysis.correction])).toEqual([
+      ['revenuePerUser', 'bootstrap', 'holm'],
+      ['order_value', 'bootstrap', 'holm']
+    ]);
+  });
+
+  it('only enroll customers who match the audience criteria', async () => {
+    const engine = createEngine();
+    const targeted = design({ audience: { ...design().audience, criteria: 'demographics.age >= 40' } });
+    const assigned = await run(engine, targeted, 200);
+
+    const matching = Array.from({ length: 200 }, (_, i) => customer(i)).filter(context => context.demographics.age! >= 40);
+    expect(assigned.map(({ context }) => context.customerId)).toEqual(matching.map(context => context.customerId));
+
+    // Without a known context the criteria cannot be checked
+    expect(await engine.getVariantAssignment('exp_checkout', 'cust-unknown', 'tenant-1')).toBeNull();
+  });
+
+  it('take a disjoint slice of their layer', async () => {
+    const engine = createEngine();
+    engine.createLayer({ id: 'checkout', name: 'Checkout', buckets: 100 });
+    const layered = (id: string, allocation: number) =>
+      design({ id, traffic: { ...design().traffic, allocation, layerId: 'checkout' } });
+
+    const first = await run(engine, layered('exp_first', 50), 300);
+    const second = await run(engine, layered('exp_second', 50), 300);
+    expect(engine.getLayer('checkout')?.allocations).toEqual({ exp_first: [0, 50], exp_second: [50, 100] });
+
+    // Every customer lands in exactly one of the two experiments
+    const firstIds = new Set(first.map(({ context }) => context.customerId));
+    expect(second.some(({ context }) => firstIds.has(context.customerId))).toBe(false);
+    expect(first.length + second.length).toBe(300);
+
+    await expect(engine.createExperiment(ExperimentAdapter.designToExperiment(layered('exp_third', 10))))
+      .rejects.toThrow('Layer checkout cannot fit exp_third: needs 10 buckets, 0 free');
+  });
+
+  it('replace the draft definition when saved again', async () => {
+    const engine = createEngine();
+    await engine.createExperiment(ExperimentAdapter.designToExperiment(design()));
+
+    const edited = design({ statistical: { ...design().statistical, earlyStoppingEnabled: false, continuousMetricTest: 'welch' } });
+    await engine.updateExperiment(ExperimentAdapter.designToExperiment(edited));
+
+    const [saved] = engine.getExperiments().filter(experiment => experiment.id === 'exp_checkout');
+    expect(saved.configuration.sequentialTesting?.method).toBe('fixed_horizon');
+    expect(saved.configuration.analysis?.continuousTest).toBe('welch');
+
+    await engine.startExperiment('exp_checkout');
+    await expect(engine.updateExperiment(ExperimentAdapter.designToExperiment(edited)))
+      .rejects.toThrow('Cannot edit experiment in status: running');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,106 @@
+// src/utils/adapters/ExperimentAdapter.ts
+
+import type {
+  ExperimentConfig,
+  GoalConfig
+} from '@/components/business/testing/ExperimentDesigner/ExperimentBuilder';
+import type { Experiment, ExperimentMetricType } from '@/types/ai';
+
+/**
+ * Adapter class to convert experiments built in the designer into experiments the
+ * ExperimentationEngine can run
+ */
+export class ExperimentAdapter {
+  /**
+   * Converts a designer experiment config to an engine experiment
+   */
+  static designToExperiment(config: ExperimentConfig): Experiment {
+    const typeMap: Record<ExperimentConfig['type'], Experiment['type']> = {
+      'ab': 'ab_test',
+      'split': 'ab_test',
+      'multivariate': 'multivariate'
+    };
+
+    const statusMap: Record<ExperimentConfig['status'], Experiment['status']> = {
+      'draft': 'draft',
+      'review': 'draft',
+      'active': 'running',
+      'paused': 'paused',
+      'completed': 'completed'
+    };
+
+    // The engine compares every variant against the first one
+    const variants = [...config.variants].sort((a, b) => Number(b.isControl) - Number(a.isControl));
+
+    const allocation: { [variantId: string]: number } = {};
+    variants.forEach(variant => {
+      allocation[variant.id] = config.traffic.distribution[variant.id] ?? variant.traffic;
+    });
+
+    const primaryGoal = config.goals.find(goal => goal.isPrimary) || config.goals[0];
+    const secondaryGoals = config.goals.filter(goal => goal !== primaryGoal);
+
+    const metricTypes: { [metric: string]: ExperimentMetricType } = {};
+    config.goals.forEach(goal => {
+      metricTypes[goal.metric] = this.getMetricType(goal);
+    });
+
+    const { statistical } = config;
+
+    return {
+      id: config.id,
+      name: config.name,
+      description: config.description || config.hypothesis,
+      status: statusMap[config.status] || 'draft',
+      type: typeMap[config.type] || 'ab_test',
+      startDate: config.startDate || new Date(),
+      endDate: config.endDate,
+      layerId: config.traffic.layerId,
+      targetAudience: {
+        criteria: config.audience.criteria || '',
+        size: config.audience.size,
+        allocation
+      },
+      variants: variants.map(variant => ({
+        id: variant.id,
+        name: variant.name,
+        description: variant.description,
+        allocation: allocation[variant.id] / 100,
+        configuration: {
+          parameters: {
+            contentType: variant.content.type,
+            ...variant.content.config
+          }
+        }
+      })),
+      metrics: {
+        primary: primaryGoal?.metric || 'conversion',
+        secondary: secondaryGoals.map(goal => goal.metric),
+        types: metricTypes
+      },
+      configuration: {
+        confidenceLevel: statistical.confidenceLevel / 100,
+        minimumDetectableEffect: statistical.minimumDetectableEffect / 100,
+        trafficAllocation: config.traffic.allocation / 100,
+        randomizationUnit: 'customer',
+        sequentialTesting: {
+          // Early stopping needs a test that stays valid under repeated looks
+          method: statistical.earlyStoppingEnabled ? 'msprt' : 'fixed_horizon'
+        },
+        analysis: {
+          continuousTest: statistical.continuousMetricTest || 'welch',
+          bootstrapIterations: statistical.bootstrapIterations,
+          multipleComparisonCorrection: statistical.multipleComparisonCorrection || 'none'
+        }
+      }
+    };
+  }
+
+  /**
+   * Revenue and engagement goals are measured as amounts per participant,
+   * conversion and retention goals as whether the participant converted
+   */
+  private static getMetricType(goal: GoalConfig): ExperimentMetricType {
+    return goal.type === 'revenue' || goal.type === 'engagement' ? 'continuous' : 'binary';
+  }
+}
\ No newline at end of file